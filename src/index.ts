@@ -8,17 +8,49 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import crypto from 'crypto';
+import net from 'net';
 
 // Import modular components
 import { 
   SECURITY_CONFIG, 
   generateSecureHash, 
-  checkRateLimit, 
+  extractSecurityContext,
   auditRequest,
-  getAuditLog,
-  getRateLimitStoreSize
+  logSecurityEvent,
+  recordBlockedRequest,
+  getRateLimitStoreSize,
+  blockIP,
+  unblockIP,
+  blockUser,
+  unblockUser,
+  getBlockedClients,
+  resetSecurityState
 } from './modules/security.js';
+import { loadBlockList } from './modules/blocklist.js';
+import { initializeAuditLog, closeAuditLog, queryAuditLog, getAuditSinkInfo, MAX_AUDIT_QUERY_LIMIT } from './modules/audit.js';
+import { startHttpTransport } from './modules/http-transport.js';
+import { runWithRequestContext, getRequestContext, getRequestHeaders, RequestContext } from './utils/request-context.js';
+import { extractBearerToken, verifyAccessToken, touchSession, createUserClient } from './modules/auth.js';
+import { loadPolicy, setAuthorizationPolicy, authorizeToolCall, isToolAllowed, isBucketAllowed, isAdminCaller } from './modules/policy.js';
+import { listBuckets, getBucket, updateBucket, emptyBucket, deleteBucket } from './modules/bucket-admin.js';
+import { getStorageUsage } from './modules/storage-usage.js';
+import {
+  loadBucketManifest,
+  setBucketManifest,
+  getDefaultManifest,
+  resolveBucketManifest,
+  planBuckets,
+  applyBuckets
+} from './modules/bucket-manifest.js';
+import { screenToolCall, checkBlockedCaller, checkToolCallRateLimit } from './modules/security-middleware.js';
+import {
+  generateSecurityReport,
+  formatSecurityReportMarkdown,
+  listSecurityAlerts,
+  acknowledgeAlert
+} from './modules/security-report.js';
 import { 
+  SecurityContext,
   SecurityStatusResponse,
   SetupBucketsResult,
   FileListResult,
@@ -28,40 +60,87 @@ import {
   AutoDownloadFileResult,
   BatchDownloadResult
 } from './modules/types.js';
-import { getErrorMessage } from './utils/error-handling.js';
-import { createClient } from '@supabase/supabase-js';
-import { processBatchUpload } from './modules/file-upload.js';
+import { STORAGE_CONFIG, initializeConfig, readCommandLine, resolveDataPath } from './modules/config.js';
+import {
+  getErrorMessage,
+  validateSupabaseConfig,
+  validateEnvironmentVariable,
+  createSecurityError
+} from './utils/error-handling.js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { probeStorage, buildHealthReport } from './modules/health.js';
+import {
+  startResumableUpload,
+  resumeUpload,
+  getUploadStatus,
+  getResumableEndpoint
+} from './modules/resumable-upload.js';
+import { processBatchUpload, getAllowedMimeTypesForBucket, RemoteFileData } from './modules/file-upload.js';
+import { DERIVATIVE_FORMATS } from './modules/image-processing.js';
+import { METADATA_POLICIES } from './modules/image-metadata.js';
+import { initializeUploadScanners } from './modules/upload-scanning.js';
+import { deleteFiles, listFiles, processBatchTransfer, validateStoragePath } from './modules/file-operations.js';
 
-// MCP Server Setup
-const server = new Server(
-  {
-    name: 'supabase-storage-mcp',
-    version: '1.0.0',
-    description: 'Supabase Storage MCP Server with enhanced security features and batch operations'
-  },
-  {
-    capabilities: {
-      tools: {},
+// MCP Server Setup; HTTP mode creates one server per client session
+function createServer(): Server {
+  const sessionId = crypto.randomUUID();
+  const server = new Server(
+    {
+      name: 'supabase-storage-mcp',
+      version: '1.0.0',
+      description: 'Supabase Storage MCP Server with enhanced security features and batch operations'
     },
-  }
-);
-
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_KEY!,
-  {
-    auth: {
-      persistSession: false,
-      autoRefreshToken: false
+    {
+      capabilities: {
+        tools: {},
+      },
     }
-  }
-);
+  );
+  
+  server.setRequestHandler(ListToolsRequestSchema, () => handleListTools(getClientHeaders(server, sessionId)));
+  server.setRequestHandler(CallToolRequestSchema, (request: any) => trackToolCall(handleCallTool(request, getClientHeaders(server, sessionId))));
+  
+  return server;
+}
+
+// Tool calls still running; shutdown waits for them before closing the transport
+const inFlightToolCalls = new Set<Promise<unknown>>();
+
+function trackToolCall<T>(call: Promise<T>): Promise<T> {
+  inFlightToolCalls.add(call);
+  call.finally(() => inFlightToolCalls.delete(call)).catch(() => undefined);
+  return call;
+}
+
+// Supabase client, created in main() once the configuration has been validated
+let supabase: SupabaseClient;
+let supabaseConfig: { url: string; serviceKey: string };
+
+// Credentials for AUTH_MODE=jwt, read in main(); stdioToken authenticates the single stdio client
+let jwtAuthConfig: { jwtSecret: string; anonKey: string; stdioToken?: string } | undefined;
+
+// Storage calls use the caller's client in jwt auth mode, otherwise the service role client
+function getStorageClient(): SupabaseClient {
+  return getRequestContext()?.storageClient || supabase;
+}
+
+// Tools that change security state or read the audit trail and security events; hidden and rejected unless
+// ENABLE_ADMIN_TOOLS is set and the caller has ADMIN_ROLE (see isAdminCaller)
+const ADMIN_TOOLS = new Set([
+  'list_blocked_clients',
+  'block_client',
+  'unblock_client',
+  'reset_security_state',
+  'query_audit_log',
+  'generate_security_report',
+  'list_security_alerts',
+  'acknowledge_alert'
+]);
 
 // Tool Registration with proper MCP SDK syntax
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+async function handleListTools(clientHeaders: Record<string, string>) {
   return {
-    tools: [
+    tools: withoutDisabledTools(getCallerRole(clientHeaders), [
       {
         name: 'create_bucket',
         description: 'Create a new storage bucket with comprehensive security validation and audit logging',
@@ -83,14 +162,13 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: 'setup_buckets',
-        description: 'Initialize standard storage buckets for organized file management workflows',
+        description: 'Initialize or repair the standard images/exports buckets and their folder skeleton, fixing settings that have drifted',
         inputSchema: {
           type: 'object',
           properties: {
             base_bucket_name: {
               type: 'string',
-              description: 'Base name for buckets',
-              default: 'storage',
+              description: 'Base name for buckets (default: configured STORAGE_IMAGES_BUCKET/STORAGE_EXPORTS_BUCKET)',
               minLength: 3,
               maxLength: 50
             },
@@ -105,434 +183,2572 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         }
       },
       {
-        name: 'upload_image_batch',
-        description: 'Upload multiple images to designated bucket and folder (supports both file paths and base64 data)',
+        name: 'plan_buckets',
+        description: 'Show how the live buckets differ from a bucket manifest: buckets to create, drifted settings and missing folders. Changes nothing.',
         inputSchema: {
           type: 'object',
           properties: {
-            bucket_name: {
-              type: 'string',
-              description: 'Target bucket name',
-              minLength: 3,
-              maxLength: 63
-            },
-            batch_id: {
-              type: 'string',
-              description: 'Unique batch identifier',
-              maxLength: 64
+            manifest: {
+              type: ['object', 'string'],
+              description: 'Bucket manifest as an object or JSON/YAML text: { defaults?, buckets: [{ name, public?, file_size_limit?, allowed_mime_types?, folders? }] }. Defaults to BUCKET_MANIFEST, then the standard images/exports layout.'
             },
-            folder_prefix: {
+            user_id: {
               type: 'string',
-              description: 'Folder organization (original/processed)',
-              maxLength: 100
+              description: 'User identifier substituted for {user_id} in folder skeletons',
+              maxLength: 36
+            }
+          },
+          required: [],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'apply_buckets',
+        description: 'Reconcile the live buckets with a bucket manifest: create missing buckets, fix drifted settings and add missing folders. Buckets not in the manifest are left alone.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            manifest: {
+              type: ['object', 'string'],
+              description: 'Bucket manifest as an object or JSON/YAML text: { defaults?, buckets: [{ name, public?, file_size_limit?, allowed_mime_types?, folders? }] }. Defaults to BUCKET_MANIFEST, then the standard images/exports layout.'
             },
             user_id: {
               type: 'string',
-              description: 'User identifier',
+              description: 'User identifier substituted for {user_id} in folder skeletons',
               maxLength: 36
-            },
-            image_paths: {
-              type: 'array',
-              description: 'Local file paths to upload (for local testing)',
-              items: { type: 'string', maxLength: 4096 },
-              minItems: 1,
-              maxItems: 500
-            },
-            image_data: {
-              type: 'array',
-              description: 'Base64 encoded image data (for Claude Desktop compatibility)',
-              items: {
-                type: 'object',
-                properties: {
-                  filename: {
-                    type: 'string',
-                    description: 'Original filename with extension',
-                    maxLength: 255
-                  },
-                  content: {
-                    type: 'string',
-                    description: 'Base64 encoded file content',
-                    maxLength: 67108864 // ~50MB base64 limit
-                  },
-                  mime_type: {
-                    type: 'string',
-                    description: 'MIME type of the file',
-                    enum: ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
-                  }
-                },
-                required: ['filename', 'content', 'mime_type'],
-                additionalProperties: false
-              },
-              minItems: 1,
-              maxItems: 500
             }
           },
-          required: ['bucket_name', 'batch_id', 'folder_prefix', 'user_id'],
-          additionalProperties: false,
-          oneOf: [
-            { required: ['image_paths'] },
-            { required: ['image_data'] }
-          ]
+          required: [],
+          additionalProperties: false
         }
       },
       {
-        name: 'list_files',
-        description: 'Enumerate files in bucket folder for processing or download',
+        name: 'get_storage_usage',
+        description: 'Report object counts and bytes by bucket, prefix, user and MIME type, with quota status',
         inputSchema: {
           type: 'object',
           properties: {
             bucket_name: {
               type: 'string',
-              description: 'Bucket to search',
+              description: 'Bucket to measure (default: every bucket the caller may access)',
               minLength: 3,
               maxLength: 63
             },
-            folder_path: {
+            prefix: {
               type: 'string',
-              description: 'Specific folder path',
-              maxLength: 300
+              description: 'Only measure objects below this folder',
+              maxLength: 1024
             },
-            file_extension: {
+            user_id: {
               type: 'string',
-              description: 'Filter by extension (.jpg, .png)',
-              maxLength: 10
+              description: 'Only count objects under this user\'s folders and include their quota',
+              maxLength: 36
             }
           },
-          required: ['bucket_name'],
+          required: [],
           additionalProperties: false
         }
       },
       {
-        name: 'get_file_url',
-        description: 'Generate signed download URL for secure file access',
+        name: 'list_buckets',
+        description: 'List storage buckets with their visibility, size limit and allowed MIME types',
         inputSchema: {
           type: 'object',
           properties: {
-            bucket_name: {
+            search: {
               type: 'string',
-              description: 'Source bucket',
-              minLength: 3,
+              description: 'Only return buckets whose name contains this text',
               maxLength: 63
-            },
-            storage_path: {
-              type: 'string',
-              description: 'Full file path in storage',
-              maxLength: 1024
-            },
-            expires_in: {
-              type: 'number',
-              description: 'URL expiration in seconds (default: 7200)',
-              minimum: 60,
-              maximum: 604800,
-              default: 7200
             }
           },
-          required: ['bucket_name', 'storage_path'],
+          required: [],
           additionalProperties: false
         }
       },
       {
-        name: 'get_security_status',
-        description: 'Get current security configuration and audit information',
+        name: 'get_bucket',
+        description: 'Get the configuration of a storage bucket',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Bucket name',
+              minLength: 3,
+              maxLength: 63
+            },
+          },
+          required: ['bucket_name'],
           additionalProperties: false
         }
       },
       {
-        name: 'create_signed_urls',
-        description: 'Generate multiple signed download URLs in a single request for batch operations',
+        name: 'update_bucket',
+        description: 'Change a bucket\'s visibility, file size limit or allowed MIME types; omitted settings are kept',
         inputSchema: {
           type: 'object',
           properties: {
             bucket_name: {
               type: 'string',
-              description: 'Source bucket',
+              description: 'Bucket to update',
               minLength: 3,
               maxLength: 63
             },
-            file_paths: {
-              type: 'array',
-              description: 'Array of file paths to generate URLs for',
-              items: {
-                type: 'string',
-                maxLength: 1024
-              },
-              minItems: 1,
-              maxItems: 100
+            is_public: { type: 'boolean', description: 'Whether the bucket should be public' },
+            file_size_limit: {
+              type: ['number', 'null'],
+              description: 'Maximum file size in bytes, or null to remove the limit',
+              minimum: 1
             },
-            expires_in: {
-              type: 'number',
-              description: 'URL expiration in seconds (default: 3600)',
-              minimum: 60,
-              maximum: 604800,
-              default: 3600
+            allowed_mime_types: {
+              type: ['array', 'null'],
+              description: 'Allowed MIME types (wildcards like image/* allowed), or null to allow any',
+              items: { type: 'string', maxLength: 255 },
+              maxItems: 100
             }
           },
-          required: ['bucket_name', 'file_paths'],
+          required: ['bucket_name'],
           additionalProperties: false
         }
       },
       {
-        name: 'download_file',
-        description: 'Download file content directly with optional image transformations',
+        name: 'empty_bucket',
+        description: 'Permanently delete every object in a bucket. The first call previews the operation and returns a confirmation token; call again with it to proceed.',
         inputSchema: {
           type: 'object',
           properties: {
             bucket_name: {
               type: 'string',
-              description: 'Source bucket',
+              description: 'Bucket to empty',
               minLength: 3,
               maxLength: 63
             },
-            file_path: {
-              type: 'string',
-              description: 'Full file path in storage',
-              maxLength: 1024
-            },
-            return_format: {
+            confirmation_token: {
               type: 'string',
-              description: 'Format to return file content',
-              enum: ['base64', 'binary'],
-              default: 'base64'
-            },
-            transform_options: {
-              type: 'object',
-              description: 'Optional image transformation settings',
-              properties: {
-                width: {
-                  type: 'number',
-                  description: 'Resize width in pixels',
-                  minimum: 1,
-                  maximum: 5000
-                },
-                height: {
-                  type: 'number',
-                  description: 'Resize height in pixels',
-                  minimum: 1,
-                  maximum: 5000
-                },
-                quality: {
-                  type: 'number',
-                  description: 'Image quality (1-100)',
-                  minimum: 1,
-                  maximum: 100
-                }
-              },
-              additionalProperties: false
+              description: 'Token from a previous call without it; omit to preview the operation and receive one',
+              maxLength: 64
             }
           },
-          required: ['bucket_name', 'file_path'],
+          required: ['bucket_name'],
           additionalProperties: false
         }
       },
       {
-        name: 'download_file_with_auto_trigger',
-        description: 'Download file with optional auto-download trigger and custom filename support',
+        name: 'delete_bucket',
+        description: 'Permanently delete a bucket. The first call previews the operation and returns a confirmation token; call again with it to proceed.',
         inputSchema: {
           type: 'object',
           properties: {
             bucket_name: {
               type: 'string',
-              description: 'Source bucket',
+              description: 'Bucket to delete',
               minLength: 3,
               maxLength: 63
             },
-            file_path: {
-              type: 'string',
-              description: 'Full file path in storage',
-              maxLength: 1024
-            },
-            return_format: {
-              type: 'string',
-              description: 'Format to return file content or URL',
-              enum: ['base64', 'binary', 'signed_url'],
-              default: 'base64'
-            },
-            auto_download: {
+            force: {
               type: 'boolean',
-              description: 'Generate auto-download trigger code',
+              description: 'Delete the bucket\'s objects too; without it only empty buckets can be deleted',
               default: false
             },
-            custom_filename: {
+            confirmation_token: {
               type: 'string',
-              description: 'Custom filename for download',
-              maxLength: 255
-            },
-            transform_options: {
-              type: 'object',
-              description: 'Optional image transformation settings',
-              properties: {
-                width: {
-                  type: 'number',
-                  description: 'Resize width in pixels',
-                  minimum: 1,
-                  maximum: 5000
-                },
-                height: {
-                  type: 'number',
-                  description: 'Resize height in pixels',
-                  minimum: 1,
-                  maximum: 5000
-                },
-                quality: {
-                  type: 'number',
-                  description: 'Image quality (1-100)',
-                  minimum: 1,
-                  maximum: 100
-                }
-              },
-              additionalProperties: false
+              description: 'Token from a previous call without it; omit to preview the operation and receive one',
+              maxLength: 64
             }
           },
-          required: ['bucket_name', 'file_path'],
+          required: ['bucket_name'],
           additionalProperties: false
         }
       },
       {
-        name: 'batch_download',
-        description: 'Download multiple files with optional auto-download triggers and batch processing',
+        name: 'upload_image_batch',
+        description: 'Upload multiple images to designated bucket and folder (supports both file paths and base64 data)',
         inputSchema: {
           type: 'object',
           properties: {
             bucket_name: {
               type: 'string',
-              description: 'Source bucket',
+              description: 'Target bucket name',
               minLength: 3,
               maxLength: 63
             },
-            file_paths: {
-              type: 'array',
-              description: 'Array of file paths to download',
-              items: {
-                type: 'string',
-                maxLength: 1024
-              },
-              minItems: 1,
-              maxItems: 50
+            batch_id: {
+              type: 'string',
+              description: 'Unique batch identifier',
+              maxLength: 64
             },
-            return_format: {
+            folder_prefix: {
               type: 'string',
-              description: 'Format to return files',
-              enum: ['base64', 'binary', 'signed_url'],
-              default: 'signed_url'
+              description: 'Folder organization (original/processed)',
+              maxLength: 100
             },
-            auto_download: {
+            user_id: {
+              type: 'string',
+              description: 'User identifier',
+              maxLength: 36
+            },
+            image_paths: {
+              type: 'array',
+              description: 'Local file paths to upload (for local testing)',
+              items: { type: 'string', maxLength: 4096 },
+              minItems: 1,
+              maxItems: SECURITY_CONFIG.MAX_BATCH_SIZE
+            },
+            image_data: {
+              type: 'array',
+              description: 'Base64 encoded image data (for Claude Desktop compatibility)',
+              items: {
+                type: 'object',
+                properties: {
+                  filename: {
+                    type: 'string',
+                    description: 'Original filename with extension',
+                    maxLength: 255
+                  },
+                  content: {
+                    type: 'string',
+                    description: 'Base64 encoded file content',
+                    maxLength: Math.ceil(SECURITY_CONFIG.MAX_FILE_SIZE * 4 / 3) + 100 // base64 of MAX_FILE_SIZE plus data URL prefix
+                  },
+                  mime_type: {
+                    type: 'string',
+                    description: 'MIME type of the file',
+                    enum: ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+                  }
+                },
+                required: ['filename', 'content', 'mime_type'],
+                additionalProperties: false
+              },
+              minItems: 1,
+              maxItems: SECURITY_CONFIG.MAX_BATCH_SIZE
+            },
+            dedup_policy: {
+              type: 'string',
+              description: 'What to do when a file already exists at the target path with different content (identical content is always skipped)',
+              enum: ['skip', 'overwrite', 'rename'],
+              default: 'skip'
+            },
+            metadata_policy: {
+              type: 'string',
+              description: 'EXIF/XMP/IPTC removed from JPEG, PNG and WebP files before upload; can only be stricter than IMAGE_METADATA_POLICY',
+              enum: METADATA_POLICIES
+            },
+            derivatives: {
+              type: 'object',
+              description: 'Derivatives generated locally for each image and stored under processed/{user_id}/{batch_id}/',
+              properties: {
+                thumbnail: { type: 'boolean', description: 'Thumbnail fitting DEFAULT_THUMBNAIL_SIZE (thumb_{name})' },
+                preview: { type: 'boolean', description: 'Preview fitting DEFAULT_PREVIEW_WIDTH x DEFAULT_PREVIEW_HEIGHT (preview_{name})' },
+                formats: {
+                  type: 'array',
+                  description: 'Full-size copies converted to these formats',
+                  items: { type: 'string', enum: DERIVATIVE_FORMATS },
+                  maxItems: DERIVATIVE_FORMATS.length
+                },
+                quality: {
+                  type: 'integer',
+                  description: 'Lossy encoding quality (default: DEFAULT_IMAGE_QUALITY)',
+                  minimum: 1,
+                  maximum: 100
+                }
+              },
+              additionalProperties: false
+            }
+          },
+          required: ['bucket_name', 'batch_id', 'folder_prefix', 'user_id'],
+          additionalProperties: false,
+          oneOf: [
+            { required: ['image_paths'] },
+            { required: ['image_data'] }
+          ]
+        }
+      },
+      {
+        name: 'upload_files',
+        description: 'Upload documents, archives and images allowed by the target bucket MIME policy (supports both file paths and base64 data)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Target bucket name',
+              minLength: 3,
+              maxLength: 63
+            },
+            batch_id: {
+              type: 'string',
+              description: 'Unique batch identifier',
+              maxLength: 64
+            },
+            folder_prefix: {
+              type: 'string',
+              description: 'Folder organization (original/processed/exports)',
+              maxLength: 100
+            },
+            user_id: {
+              type: 'string',
+              description: 'User identifier',
+              maxLength: 36
+            },
+            file_paths: {
+              type: 'array',
+              description: 'Local file paths to upload (for local testing)',
+              items: { type: 'string', maxLength: 4096 },
+              minItems: 1,
+              maxItems: SECURITY_CONFIG.MAX_BATCH_SIZE
+            },
+            file_data: {
+              type: 'array',
+              description: 'Base64 encoded file data (for Claude Desktop compatibility)',
+              items: {
+                type: 'object',
+                properties: {
+                  filename: {
+                    type: 'string',
+                    description: 'Original filename with extension',
+                    maxLength: 255
+                  },
+                  content: {
+                    type: 'string',
+                    description: 'Base64 encoded file content',
+                    maxLength: Math.ceil(SECURITY_CONFIG.MAX_FILE_SIZE * 4 / 3) + 100 // base64 of MAX_FILE_SIZE plus data URL prefix
+                  },
+                  mime_type: {
+                    type: 'string',
+                    description: 'MIME type of the file (must be allowed by the bucket policy)',
+                    maxLength: 100
+                  }
+                },
+                required: ['filename', 'content', 'mime_type'],
+                additionalProperties: false
+              },
+              minItems: 1,
+              maxItems: SECURITY_CONFIG.MAX_BATCH_SIZE
+            },
+            dedup_policy: {
+              type: 'string',
+              description: 'What to do when a file already exists at the target path with different content (identical content is always skipped)',
+              enum: ['skip', 'overwrite', 'rename'],
+              default: 'skip'
+            },
+            metadata_policy: {
+              type: 'string',
+              description: 'EXIF/XMP/IPTC removed from JPEG, PNG and WebP files before upload; can only be stricter than IMAGE_METADATA_POLICY',
+              enum: METADATA_POLICIES
+            }
+          },
+          required: ['bucket_name', 'batch_id', 'folder_prefix', 'user_id'],
+          additionalProperties: false,
+          oneOf: [
+            { required: ['file_paths'] },
+            { required: ['file_data'] }
+          ]
+        }
+      },
+      {
+        name: 'upload_from_url',
+        description: 'Download files from public http(s) URLs on the server and upload them; private, loopback and cloud metadata addresses are refused',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Target bucket name',
+              minLength: 3,
+              maxLength: 63
+            },
+            batch_id: {
+              type: 'string',
+              description: 'Unique batch identifier',
+              maxLength: 64
+            },
+            folder_prefix: {
+              type: 'string',
+              description: 'Folder organization (original/processed/exports)',
+              maxLength: 100
+            },
+            user_id: {
+              type: 'string',
+              description: 'User identifier',
+              maxLength: 36
+            },
+            url: {
+              type: 'string',
+              description: 'URL of a single file to upload',
+              format: 'uri',
+              maxLength: 2048
+            },
+            filename: {
+              type: 'string',
+              description: 'Filename for the single url; defaults to the last segment of the URL path',
+              maxLength: 255
+            },
+            urls: {
+              type: 'array',
+              description: 'Several files to upload',
+              items: {
+                type: 'object',
+                properties: {
+                  url: {
+                    type: 'string',
+                    format: 'uri',
+                    maxLength: 2048
+                  },
+                  filename: {
+                    type: 'string',
+                    description: 'Defaults to the last segment of the URL path',
+                    maxLength: 255
+                  }
+                },
+                required: ['url'],
+                additionalProperties: false
+              },
+              minItems: 1,
+              maxItems: SECURITY_CONFIG.MAX_BATCH_SIZE
+            },
+            dedup_policy: {
+              type: 'string',
+              description: 'What to do when a file already exists at the target path with different content (identical content is always skipped)',
+              enum: ['skip', 'overwrite', 'rename'],
+              default: 'skip'
+            },
+            metadata_policy: {
+              type: 'string',
+              description: 'EXIF/XMP/IPTC removed from JPEG, PNG and WebP files before upload; can only be stricter than IMAGE_METADATA_POLICY',
+              enum: METADATA_POLICIES
+            }
+          },
+          required: ['bucket_name', 'batch_id', 'folder_prefix', 'user_id'],
+          additionalProperties: false,
+          oneOf: [
+            { required: ['url'] },
+            { required: ['urls'] }
+          ]
+        }
+      },
+      {
+        name: 'start_resumable_upload',
+        description: 'Start a chunked, resumable (TUS) upload of a large local file; transfers in the background unless wait is set',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Target bucket name',
+              minLength: 3,
+              maxLength: 63
+            },
+            batch_id: {
+              type: 'string',
+              description: 'Unique batch identifier',
+              maxLength: 64
+            },
+            folder_prefix: {
+              type: 'string',
+              description: 'Folder organization (original/processed)',
+              maxLength: 100
+            },
+            user_id: {
+              type: 'string',
+              description: 'User identifier',
+              maxLength: 36
+            },
+            file_path: {
+              type: 'string',
+              description: 'Local file path to upload',
+              maxLength: 4096
+            },
+            wait: {
               type: 'boolean',
-              description: 'Generate auto-download trigger code for batch',
+              description: 'Wait for the upload to finish before responding',
               default: false
+            }
+          },
+          required: ['bucket_name', 'batch_id', 'folder_prefix', 'user_id', 'file_path'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'resume_upload',
+        description: 'Resume an interrupted or failed resumable upload from the last byte the server stored',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            upload_id: {
+              type: 'string',
+              description: 'Upload identifier returned by start_resumable_upload',
+              pattern: '^[a-f0-9]{32}$'
             },
-            download_delay: {
-              type: 'number',
-              description: 'Delay between downloads in milliseconds',
-              minimum: 0,
-              maximum: 10000,
-              default: 500
-            },
-            expires_in: {
-              type: 'number',
-              description: 'URL expiration in seconds (for signed_url format)',
-              minimum: 60,
-              maximum: 604800,
-              default: 3600
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the upload to finish before responding',
+              default: false
             }
           },
-          required: ['bucket_name', 'file_paths'],
+          required: ['upload_id'],
           additionalProperties: false
         }
-      }
-    ]
-  };
-});
-
-// Main request handler with security and modular dispatch
-server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
-  const { name, arguments: args } = request.params;
-  const requestId = crypto.randomUUID();
-  const startTime = Date.now();
-  
-  // Rate limiting check
-  const rateLimitCheck = checkRateLimit('global');
-  if (!rateLimitCheck.allowed) {
-    auditRequest(name, false, generateSecureHash(JSON.stringify(args)), `Rate limit exceeded. Retry after ${rateLimitCheck.retryAfter}s`);
-    throw new Error(`Rate limit exceeded. Please try again in ${rateLimitCheck.retryAfter} seconds.`);
-  }
+      },
+      {
+        name: 'get_upload_status',
+        description: 'Get progress and status of a resumable upload',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            upload_id: {
+              type: 'string',
+              description: 'Upload identifier returned by start_resumable_upload',
+              pattern: '^[a-f0-9]{32}$'
+            }
+          },
+          required: ['upload_id'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'list_files',
+        description: 'Enumerate files in bucket folder for processing or download, optionally recursive with pagination and a folder tree',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Bucket to search',
+              minLength: 3,
+              maxLength: 63
+            },
+            folder_path: {
+              type: 'string',
+              description: 'Specific folder path',
+              maxLength: 300
+            },
+            file_extension: {
+              type: 'string',
+              description: 'Filter by extension (.jpg, .png)',
+              maxLength: 10
+            },
+            recursive: {
+              type: 'boolean',
+              description: 'Include files in nested folders (e.g. folder_prefix/user_id/batch_id)',
+              default: false
+            },
+            max_depth: {
+              type: 'number',
+              description: 'Maximum folder depth to descend when recursive (default: 5)',
+              minimum: 1,
+              maximum: 20,
+              default: 5
+            },
+            sort_by: {
+              type: 'string',
+              description: 'Sort field',
+              enum: ['name', 'size', 'last_modified'],
+              default: 'name'
+            },
+            sort_order: {
+              type: 'string',
+              description: 'Sort direction',
+              enum: ['asc', 'desc'],
+              default: 'asc'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum files per page (default: 100)',
+              minimum: 1,
+              maximum: 1000,
+              default: 100
+            },
+            offset: {
+              type: 'number',
+              description: 'Number of files to skip',
+              minimum: 0,
+              default: 0
+            },
+            cursor: {
+              type: 'string',
+              description: 'Opaque cursor from a previous response (next_cursor); overrides offset',
+              maxLength: 200
+            },
+            include_image_metadata: {
+              type: 'boolean',
+              description: 'Add the dimensions, orientation and capture date recorded at upload (one extra request per returned file)',
+              default: false
+            }
+          },
+          required: ['bucket_name'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'delete_files',
+        description: 'Delete files by explicit paths or folder prefix, with dry-run preview and a maximum file count',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Bucket containing the files',
+              minLength: 3,
+              maxLength: 63
+            },
+            file_paths: {
+              type: 'array',
+              description: 'Exact storage paths to delete',
+              items: {
+                type: 'string',
+                maxLength: 1024
+              },
+              minItems: 1,
+              maxItems: 1000
+            },
+            prefix: {
+              type: 'string',
+              description: 'Folder prefix; every file below it is deleted (e.g. original/user123/batch001)',
+              minLength: 1,
+              maxLength: 300
+            },
+            dry_run: {
+              type: 'boolean',
+              description: 'Return the files that would be deleted without deleting them',
+              default: false
+            },
+            max_files: {
+              type: 'number',
+              description: 'Abort if more than this many files match (default: 100)',
+              minimum: 1,
+              maximum: 1000,
+              default: 100
+            }
+          },
+          required: ['bucket_name'],
+          additionalProperties: false,
+          oneOf: [
+            { required: ['file_paths'] },
+            { required: ['prefix'] }
+          ]
+        }
+      },
+      {
+        name: 'move_file',
+        description: 'Move one or more files to a new path or bucket (e.g. promote original/ to processed/)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Source bucket',
+              minLength: 3,
+              maxLength: 63
+            },
+            source_path: {
+              type: 'string',
+              description: 'Path of the file to move',
+              maxLength: 1024
+            },
+            destination_path: {
+              type: 'string',
+              description: 'Target path for the file',
+              maxLength: 1024
+            },
+            transfers: {
+              type: 'array',
+              description: 'Batch of files to move',
+              items: {
+                type: 'object',
+                properties: {
+                  source_path: { type: 'string', maxLength: 1024 },
+                  destination_path: { type: 'string', maxLength: 1024 }
+                },
+                required: ['source_path', 'destination_path'],
+                additionalProperties: false
+              },
+              minItems: 1,
+              maxItems: 100
+            },
+            destination_bucket: {
+              type: 'string',
+              description: 'Target bucket (defaults to the source bucket)',
+              minLength: 3,
+              maxLength: 63
+            },
+            on_conflict: {
+              type: 'string',
+              description: 'What to do when the destination already exists',
+              enum: ['fail', 'skip', 'overwrite'],
+              default: 'fail'
+            }
+          },
+          required: ['bucket_name'],
+          additionalProperties: false,
+          oneOf: [
+            { required: ['source_path', 'destination_path'] },
+            { required: ['transfers'] }
+          ]
+        }
+      },
+      {
+        name: 'copy_file',
+        description: 'Copy one or more files to a new path or bucket with an overwrite policy',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Source bucket',
+              minLength: 3,
+              maxLength: 63
+            },
+            source_path: {
+              type: 'string',
+              description: 'Path of the file to copy',
+              maxLength: 1024
+            },
+            destination_path: {
+              type: 'string',
+              description: 'Target path for the file',
+              maxLength: 1024
+            },
+            transfers: {
+              type: 'array',
+              description: 'Batch of files to copy',
+              items: {
+                type: 'object',
+                properties: {
+                  source_path: { type: 'string', maxLength: 1024 },
+                  destination_path: { type: 'string', maxLength: 1024 }
+                },
+                required: ['source_path', 'destination_path'],
+                additionalProperties: false
+              },
+              minItems: 1,
+              maxItems: 100
+            },
+            destination_bucket: {
+              type: 'string',
+              description: 'Target bucket (defaults to the source bucket)',
+              minLength: 3,
+              maxLength: 63
+            },
+            on_conflict: {
+              type: 'string',
+              description: 'What to do when the destination already exists',
+              enum: ['fail', 'skip', 'overwrite'],
+              default: 'fail'
+            }
+          },
+          required: ['bucket_name'],
+          additionalProperties: false,
+          oneOf: [
+            { required: ['source_path', 'destination_path'] },
+            { required: ['transfers'] }
+          ]
+        }
+      },
+      {
+        name: 'get_file_url',
+        description: 'Generate signed download URL for secure file access',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Source bucket',
+              minLength: 3,
+              maxLength: 63
+            },
+            storage_path: {
+              type: 'string',
+              description: 'Full file path in storage',
+              maxLength: 1024
+            },
+            expires_in: {
+              type: 'number',
+              description: `URL expiration in seconds (default: ${STORAGE_CONFIG.SIGNED_URL_EXPIRES_IN})`,
+              minimum: 60,
+              maximum: 604800,
+              default: STORAGE_CONFIG.SIGNED_URL_EXPIRES_IN
+            }
+          },
+          required: ['bucket_name', 'storage_path'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'get_security_status',
+        description: 'Get current security configuration and audit information',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'generate_security_report',
+        description: 'Generate a security report (threat analysis, top threats, recommendations) for a time window as JSON or Markdown',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            start_time: {
+              type: 'string',
+              description: 'Start of the report window (ISO 8601); defaults to window_hours before end_time',
+              format: 'date-time'
+            },
+            end_time: {
+              type: 'string',
+              description: 'End of the report window (ISO 8601); defaults to now',
+              format: 'date-time'
+            },
+            window_hours: {
+              type: 'number',
+              description: 'Report window length in hours when start_time is omitted',
+              minimum: 1,
+              maximum: 720,
+              default: 24
+            },
+            format: {
+              type: 'string',
+              description: 'Report format',
+              enum: ['json', 'markdown'],
+              default: 'json'
+            }
+          },
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'list_security_alerts',
+        description: 'List security alerts raised by threat detection, rate limiting and access control (newest first)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            min_severity: {
+              type: 'string',
+              description: 'Lowest severity to include',
+              enum: ['low', 'medium', 'high', 'critical'],
+              default: 'medium'
+            },
+            acknowledged: {
+              type: 'boolean',
+              description: 'Only acknowledged (true) or unacknowledged (false) alerts'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of alerts to return',
+              minimum: 1,
+              maximum: 1000,
+              default: 100
+            }
+          },
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'acknowledge_alert',
+        description: 'Acknowledge a security alert so it no longer counts as unacknowledged',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            alert_id: {
+              type: 'string',
+              description: 'Alert id from list_security_alerts',
+              maxLength: 128
+            },
+            note: {
+              type: 'string',
+              description: 'Optional note recorded with the acknowledgement',
+              maxLength: 500
+            }
+          },
+          required: ['alert_id'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'query_audit_log',
+        description: 'Search the persistent audit log by tool, outcome, time range or request id (newest first)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tool_name: {
+              type: 'string',
+              description: 'Only entries for this tool',
+              maxLength: 100
+            },
+            success: {
+              type: 'boolean',
+              description: 'Only successful (true) or failed (false) calls'
+            },
+            since: {
+              type: 'string',
+              description: 'Only entries at or after this ISO 8601 timestamp',
+              format: 'date-time'
+            },
+            until: {
+              type: 'string',
+              description: 'Only entries at or before this ISO 8601 timestamp',
+              format: 'date-time'
+            },
+            request_id: {
+              type: 'string',
+              description: 'Only entries recorded while handling this request',
+              maxLength: 64
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of entries to return',
+              minimum: 1,
+              maximum: MAX_AUDIT_QUERY_LIMIT,
+              default: 100
+            },
+            offset: {
+              type: 'number',
+              description: 'Number of matching entries to skip',
+              minimum: 0,
+              default: 0
+            }
+          },
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'list_blocked_clients',
+        description: 'List blocked IP addresses and user ids with their reason and expiry (admin)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              description: 'Only blocks of this type',
+              enum: ['ip', 'user']
+            }
+          },
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'block_client',
+        description: 'Block an IP address or user id, permanently or for a number of seconds (admin)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              description: 'What to block',
+              enum: ['ip', 'user']
+            },
+            value: {
+              type: 'string',
+              description: 'IP address or user id to block',
+              minLength: 1,
+              maxLength: 255
+            },
+            reason: {
+              type: 'string',
+              description: 'Why the client is blocked',
+              maxLength: 500
+            },
+            duration_seconds: {
+              type: 'number',
+              description: 'Block duration in seconds; omit for a permanent block',
+              minimum: 1
+            }
+          },
+          required: ['type', 'value'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'unblock_client',
+        description: 'Remove a block on an IP address or user id (admin)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              description: 'Type of block to remove',
+              enum: ['ip', 'user']
+            },
+            value: {
+              type: 'string',
+              description: 'Blocked IP address or user id',
+              minLength: 1,
+              maxLength: 255
+            }
+          },
+          required: ['type', 'value'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'reset_security_state',
+        description: 'Clear rate limits, security events and metrics, and optionally the block list (admin)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            confirm: {
+              type: 'boolean',
+              description: 'Must be true to reset',
+              const: true
+            },
+            clear_block_list: {
+              type: 'boolean',
+              description: 'Also remove every IP and user block',
+              default: false
+            }
+          },
+          required: ['confirm'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'health_check',
+        description: 'Check Supabase Storage connectivity, probe latency and the active server configuration',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'create_signed_urls',
+        description: 'Generate multiple signed download URLs in a single request for batch operations',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Source bucket',
+              minLength: 3,
+              maxLength: 63
+            },
+            file_paths: {
+              type: 'array',
+              description: 'Array of file paths to generate URLs for',
+              items: {
+                type: 'string',
+                maxLength: 1024
+              },
+              minItems: 1,
+              maxItems: 100
+            },
+            expires_in: {
+              type: 'number',
+              description: `URL expiration in seconds (default: ${STORAGE_CONFIG.SIGNED_URL_EXPIRES_IN})`,
+              minimum: 60,
+              maximum: 604800,
+              default: STORAGE_CONFIG.SIGNED_URL_EXPIRES_IN
+            }
+          },
+          required: ['bucket_name', 'file_paths'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'download_file',
+        description: 'Download file content directly with optional image transformations',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Source bucket',
+              minLength: 3,
+              maxLength: 63
+            },
+            file_path: {
+              type: 'string',
+              description: 'Full file path in storage',
+              maxLength: 1024
+            },
+            return_format: {
+              type: 'string',
+              description: 'Format to return file content',
+              enum: ['base64', 'binary'],
+              default: 'base64'
+            },
+            transform_options: {
+              type: 'object',
+              description: 'Optional image transformation settings',
+              properties: {
+                width: {
+                  type: 'number',
+                  description: 'Resize width in pixels',
+                  minimum: 1,
+                  maximum: 5000
+                },
+                height: {
+                  type: 'number',
+                  description: 'Resize height in pixels',
+                  minimum: 1,
+                  maximum: 5000
+                },
+                quality: {
+                  type: 'number',
+                  description: 'Image quality (1-100)',
+                  minimum: 1,
+                  maximum: 100
+                }
+              },
+              additionalProperties: false
+            }
+          },
+          required: ['bucket_name', 'file_path'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'download_file_with_auto_trigger',
+        description: 'Download file with optional auto-download trigger and custom filename support',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Source bucket',
+              minLength: 3,
+              maxLength: 63
+            },
+            file_path: {
+              type: 'string',
+              description: 'Full file path in storage',
+              maxLength: 1024
+            },
+            return_format: {
+              type: 'string',
+              description: 'Format to return file content or URL',
+              enum: ['base64', 'binary', 'signed_url'],
+              default: 'base64'
+            },
+            auto_download: {
+              type: 'boolean',
+              description: 'Generate auto-download trigger code',
+              default: false
+            },
+            custom_filename: {
+              type: 'string',
+              description: 'Custom filename for download',
+              maxLength: 255
+            },
+            transform_options: {
+              type: 'object',
+              description: 'Optional image transformation settings',
+              properties: {
+                width: {
+                  type: 'number',
+                  description: 'Resize width in pixels',
+                  minimum: 1,
+                  maximum: 5000
+                },
+                height: {
+                  type: 'number',
+                  description: 'Resize height in pixels',
+                  minimum: 1,
+                  maximum: 5000
+                },
+                quality: {
+                  type: 'number',
+                  description: 'Image quality (1-100)',
+                  minimum: 1,
+                  maximum: 100
+                }
+              },
+              additionalProperties: false
+            }
+          },
+          required: ['bucket_name', 'file_path'],
+          additionalProperties: false
+        }
+      },
+      {
+        name: 'batch_download',
+        description: 'Download multiple files with optional auto-download triggers and batch processing',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bucket_name: {
+              type: 'string',
+              description: 'Source bucket',
+              minLength: 3,
+              maxLength: 63
+            },
+            file_paths: {
+              type: 'array',
+              description: 'Array of file paths to download',
+              items: {
+                type: 'string',
+                maxLength: 1024
+              },
+              minItems: 1,
+              maxItems: 50
+            },
+            return_format: {
+              type: 'string',
+              description: 'Format to return files',
+              enum: ['base64', 'binary', 'signed_url'],
+              default: 'signed_url'
+            },
+            auto_download: {
+              type: 'boolean',
+              description: 'Generate auto-download trigger code for batch',
+              default: false
+            },
+            download_delay: {
+              type: 'number',
+              description: 'Delay between downloads in milliseconds',
+              minimum: 0,
+              maximum: 10000,
+              default: 500
+            },
+            expires_in: {
+              type: 'number',
+              description: 'URL expiration in seconds (for signed_url format)',
+              minimum: 60,
+              maximum: 604800,
+              default: STORAGE_CONFIG.DOWNLOAD_URL_EXPIRES_IN
+            }
+          },
+          required: ['bucket_name', 'file_paths'],
+          additionalProperties: false
+        }
+      }
+    ])
+  };
+}
+
+// Hide admin tools from callers who may not use them, and tools the caller's role may not call
+function withoutDisabledTools<T extends { name: string }>(role: string | undefined, tools: T[]): T[] {
+  return tools.filter(tool =>
+    (!ADMIN_TOOLS.has(tool.name) || isAdminCaller(role)) && isToolAllowed(tool.name, role)
+  );
+}
+
+// Role for tools/list: the verified token's app role in jwt mode, otherwise the X-User-Role header
+function getCallerRole(clientHeaders: Record<string, string>): string | undefined {
+  if (SECURITY_CONFIG.AUTH_MODE !== 'jwt') {
+    return clientHeaders['x-user-role'] || undefined;
+  }
+  
+  const token = extractBearerToken(clientHeaders);
+  if (!token || !jwtAuthConfig) {
+    return undefined;
+  }
+  try {
+    return verifyAccessToken(token, jwtAuthConfig.jwtSecret).appRole;
+  } catch {
+    return undefined;
+  }
+}
+
+// Main request handler with security and modular dispatch
+async function handleCallTool(request: any, clientHeaders: Record<string, string>) {
+  const { name, arguments: args } = request.params;
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+  
+  // Every audit entry written while handling this call is tagged with its request id
+  const requestContext: RequestContext = { requestId, toolName: name };
+  return runWithRequestContext(requestContext, async () => {
+    const securityContext = { ...extractSecurityContext(request, clientHeaders), requestId };
+    
+    if (SECURITY_CONFIG.AUTH_MODE === 'jwt') {
+      try {
+        authenticateCall(args, clientHeaders, securityContext, requestContext);
+      } catch (error) {
+        logSecurityEvent('access_denied', securityContext, { reason: getErrorMessage(error), toolName: name });
+        auditRequest(name, false, generateSecureHash(JSON.stringify(args)), getErrorMessage(error), securityContext);
+        throw error;
+      }
+    }
+    
+    if (ADMIN_TOOLS.has(name) && !isAdminCaller(securityContext.role)) {
+      const reason = SECURITY_CONFIG.ENABLE_ADMIN_TOOLS
+        ? `Admin tools require the ${SECURITY_CONFIG.ADMIN_ROLE} role`
+        : 'Admin tools are disabled';
+      if (SECURITY_CONFIG.ENABLE_ADMIN_TOOLS) {
+        recordBlockedRequest();
+        logSecurityEvent('access_denied', securityContext, { reason, toolName: name, role: securityContext.role });
+      }
+      auditRequest(name, false, generateSecureHash(JSON.stringify(args)), reason, securityContext);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: Unknown tool: ${name}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    // Role-based authorization (POLICY_FILE): tool, buckets and storage paths
+    const policyDecision = authorizeToolCall(name, args, securityContext);
+    if (!policyDecision.allowed) {
+      recordBlockedRequest();
+      logSecurityEvent('access_denied', securityContext, { reason: policyDecision.reason, toolName: name, role: policyDecision.role });
+      auditRequest(name, false, generateSecureHash(JSON.stringify(args)), policyDecision.reason, securityContext);
+      throw createSecurityError(`Access denied: ${policyDecision.reason}`, 'ACCESS_DENIED', 'medium', securityContext);
+    }
+    
+    // Blocked IPs and users are turned away before they use up rate limit tokens
+    const blockedCheck = checkBlockedCaller(request, securityContext);
+    if (blockedCheck) {
+      requestContext.securityValidation = blockedCheck;
+      auditRequest(name, false, generateSecureHash(JSON.stringify(args)), blockedCheck.reason);
+      throw createSecurityError(
+        `Request blocked by security policy: ${blockedCheck.reason}`,
+        'SECURITY_VIOLATION',
+        'high',
+        blockedCheck.securityContext,
+        blockedCheck.riskScore
+      );
+    }
+    
+    // Rate limiting check (global, per IP, per user and per tool; heavier tools cost more)
+    const rateLimitCheck = checkToolCallRateLimit(name, securityContext);
+    if (!rateLimitCheck.allowed) {
+      const message = `Rate limit exceeded. Please try again in ${rateLimitCheck.retryAfter} seconds.`;
+      auditRequest(name, false, generateSecureHash(JSON.stringify(args)), message, securityContext);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: 'rate_limit_exceeded',
+              message,
+              retryAfter: rateLimitCheck.retryAfter,
+              current: rateLimitCheck.current,
+              limit: rateLimitCheck.limit,
+              scope: rateLimitCheck.scope,
+              request_id: requestId
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    // Security screening; the result is attached to every audit entry for this call
+    const securityValidation = screenToolCall(request, securityContext);
+    requestContext.securityValidation = securityValidation;
+    if (!securityValidation.allowed) {
+      auditRequest(name, false, generateSecureHash(JSON.stringify(args)), securityValidation.reason);
+      throw createSecurityError(
+        `Request blocked by security policy: ${securityValidation.reason}`,
+        'SECURITY_VIOLATION',
+        'high',
+        securityValidation.securityContext,
+        securityValidation.riskScore
+      );
+    }
+
+    try {
+      switch (name) {
+        case 'create_bucket':
+          return await handleCreateBucket(args, requestId, startTime);
+      
+        case 'setup_buckets':
+          return await handleSetupBuckets(args, requestId, startTime);
+      
+        case 'plan_buckets':
+          return await handlePlanBuckets(args, requestId, startTime);
+      
+        case 'apply_buckets':
+          return await handleApplyBuckets(args, requestId, startTime);
+      
+        case 'get_storage_usage':
+          return await handleGetStorageUsage(args, requestId, startTime);
+      
+        case 'list_buckets':
+          return await handleListBuckets(args, requestId, startTime);
+      
+        case 'get_bucket':
+          return await handleGetBucket(args, requestId, startTime);
+      
+        case 'update_bucket':
+          return await handleUpdateBucket(args, requestId, startTime);
+      
+        case 'empty_bucket':
+          return await handleEmptyBucket(args, requestId, startTime);
+      
+        case 'delete_bucket':
+          return await handleDeleteBucket(args, requestId, startTime);
+      
+        case 'upload_image_batch':
+          return await handleUploadImageBatch(args, requestId, startTime);
+      
+        case 'upload_files':
+          return await handleUploadFiles(args, requestId, startTime);
+      
+        case 'upload_from_url':
+          return await handleUploadFromUrl(args, requestId, startTime);
+      
+        case 'start_resumable_upload':
+          return await handleStartResumableUpload(args, requestId, startTime);
+      
+        case 'resume_upload':
+          return await handleResumeUpload(args, requestId, startTime);
+      
+        case 'get_upload_status':
+          return await handleGetUploadStatus(args, requestId, startTime);
+      
+        case 'list_files':
+          return await handleListFiles(args, requestId, startTime);
+      
+        case 'delete_files':
+          return await handleDeleteFiles(args, requestId, startTime);
+      
+        case 'move_file':
+          return await handleTransferFile('move', args, requestId, startTime);
+      
+        case 'copy_file':
+          return await handleTransferFile('copy', args, requestId, startTime);
+      
+        case 'get_file_url':
+          return await handleGetFileUrl(args, requestId, startTime);
+      
+        case 'get_security_status':
+          return await handleSecurityStatus();
+      
+        case 'generate_security_report':
+          return await handleGenerateSecurityReport(args, requestId, startTime);
+      
+        case 'list_security_alerts':
+          return await handleListSecurityAlerts(args, requestId, startTime);
+      
+        case 'acknowledge_alert':
+          return await handleAcknowledgeAlert(args, requestId, startTime);
+      
+        case 'query_audit_log':
+          return await handleQueryAuditLog(args, requestId, startTime);
+      
+        case 'list_blocked_clients':
+          return await handleListBlockedClients(args, requestId, startTime);
+      
+        case 'block_client':
+          return await handleBlockClient(args, requestId, startTime);
+      
+        case 'unblock_client':
+          return await handleUnblockClient(args, requestId, startTime);
+      
+        case 'reset_security_state':
+          return await handleResetSecurityState(args, requestId, startTime);
+      
+        case 'health_check':
+          return await handleHealthCheck(requestId, startTime);
+      
+        case 'create_signed_urls':
+          return await handleCreateSignedUrls(args, requestId, startTime);
+      
+        case 'download_file':
+          return await handleDownloadFile(args, requestId, startTime);
+      
+        case 'download_file_with_auto_trigger':
+          return await handleDownloadFileWithAutoTrigger(args, requestId, startTime);
+      
+        case 'batch_download':
+          return await handleBatchDownload(args, requestId, startTime);
+      
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${getErrorMessage(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+}
+
+// HTTP messages carry the caller's headers. Stdio has none, so identify the caller by the MCP client
+// it reported on initialize, the server's own session id and SUPABASE_ACCESS_TOKEN.
+function getClientHeaders(server: Server, sessionId: string): Record<string, string> {
+  const requestHeaders = getRequestHeaders();
+  if (requestHeaders) {
+    return requestHeaders;
+  }
+  
+  const headers: Record<string, string> = { 'x-session-id': sessionId };
+  const client = server.getClientVersion();
+  if (client) {
+    headers['user-agent'] = `${client.name}/${client.version}`;
+  }
+  if (jwtAuthConfig?.stdioToken) {
+    headers.authorization = `Bearer ${jwtAuthConfig.stdioToken}`;
+  }
+  return headers;
+}
+
+// Verify the caller's token, bind the call to that user and give it a Supabase client acting as the user
+function authenticateCall(
+  args: any,
+  clientHeaders: Record<string, string>,
+  securityContext: SecurityContext,
+  requestContext: RequestContext
+): void {
+  const token = extractBearerToken(clientHeaders);
+  if (!token || !jwtAuthConfig) {
+    throw createSecurityError(
+      'Authentication required: send a Supabase access token as "Authorization: Bearer <token>"',
+      'AUTHENTICATION_REQUIRED',
+      'medium',
+      securityContext
+    );
+  }
+  
+  const user = verifyAccessToken(token, jwtAuthConfig.jwtSecret, securityContext);
+  if (typeof args?.user_id === 'string' && args.user_id !== user.userId) {
+    throw createSecurityError(
+      `user_id ${args.user_id} does not match the authenticated user`,
+      'USER_MISMATCH',
+      'high',
+      securityContext
+    );
+  }
+  touchSession(user, securityContext);
+  
+  securityContext.userId = user.userId;
+  securityContext.role = user.appRole;
+  requestContext.user = user;
+  requestContext.storageClient = createUserClient(supabaseConfig.url, jwtAuthConfig.anonKey, user);
+}
+
+// Handler for bucket creation
+async function handleCreateBucket(args: any, requestId: string, startTime: number) {
+  const { bucket_name, is_public } = args as { 
+    bucket_name: string; 
+    is_public?: boolean 
+  };
+  
+  // Input validation
+  if (!bucket_name || typeof bucket_name !== 'string') {
+    throw new Error('Invalid bucket_name parameter');
+  }
+  
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, is_public }));
+  
+  try {
+    const options: any = {
+      public: is_public || false
+    };
+
+    const { data, error } = await getStorageClient().storage.createBucket(bucket_name, options);
+
+    if (error) {
+      throw new Error(`Failed to create bucket: ${error.message}`);
+    }
+
+    auditRequest('create_bucket', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            message: `Successfully created secure bucket: ${bucket_name}`,
+            bucket_name: data.name,
+            security_configuration: {
+              public: options.public,
+              audit_logging_enabled: true,
+              threat_detection_enabled: true
+            },
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('create_bucket', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for setup standard buckets; reconciles the standard layout like apply_buckets
+async function handleSetupBuckets(args: any, requestId: string, startTime: number) {
+  const { base_bucket_name, user_id } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ base_bucket_name, user_id }));
+  
+  try {
+    const manifest = getDefaultManifest(base_bucket_name);
+    const [imagesBucket, exportsBucket] = manifest.buckets.map(bucket => bucket.name);
+    
+    const result = await applyBuckets(getStorageClient(), manifest, user_id);
+    const failed = result.applied.filter(bucket => !bucket.success);
+    if (failed.length > 0) {
+      throw new Error(failed.map(bucket => `${bucket.bucket_name}: ${bucket.error}`).join('; '));
+    }
+    
+    auditRequest('setup_buckets', true, inputHash);
+    
+    const bucketsWith = (action: string) => result.buckets.filter(bucket => bucket.action === action).map(bucket => bucket.bucket_name);
+    const bucketSettings = (bucketName: string) => {
+      const { desired } = result.buckets.find(bucket => bucket.bucket_name === bucketName)!;
+      return {
+        public: desired.public,
+        file_size_limit: desired.file_size_limit,
+        allowed_mime_types: desired.allowed_mime_types,
+        audit_logging_enabled: SECURITY_CONFIG.ENABLE_AUDIT_LOGGING,
+        threat_detection_enabled: SECURITY_CONFIG.ENABLE_THREAT_DETECTION
+      };
+    };
+    
+    const setupResult: SetupBucketsResult = {
+      success: true,
+      buckets_created: bucketsWith('create'),
+      buckets_updated: bucketsWith('update'),
+      folders_created: result.applied.flatMap(bucket => bucket.folders_created.map(folder => `${bucket.bucket_name}/${folder}`)),
+      message: result.has_changes
+        ? `Bucket structure reconciled: ${imagesBucket}, ${exportsBucket}`
+        : `Bucket structure already up to date: ${imagesBucket}, ${exportsBucket}`,
+      security_configuration: {
+        images_bucket: bucketSettings(imagesBucket),
+        exports_bucket: bucketSettings(exportsBucket)
+      }
+    };
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...setupResult,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('setup_buckets', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for previewing how the live buckets differ from a manifest
+async function handlePlanBuckets(args: any, requestId: string, startTime: number) {
+  const { manifest, user_id } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ manifest, user_id }));
+  
+  try {
+    const plan = await planBuckets(getStorageClient(), resolveBucketManifest(manifest), user_id);
+    
+    auditRequest('plan_buckets', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            ...plan,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('plan_buckets', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for reconciling the live buckets with a manifest
+async function handleApplyBuckets(args: any, requestId: string, startTime: number) {
+  const { manifest, user_id } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ manifest, user_id }));
+  
+  try {
+    const result = await applyBuckets(getStorageClient(), resolveBucketManifest(manifest), user_id);
+    
+    auditRequest('apply_buckets', result.error_count === 0, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: result.error_count === 0,
+            ...result,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('apply_buckets', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for storage usage and quota reporting
+async function handleGetStorageUsage(args: any, requestId: string, startTime: number) {
+  const { bucket_name, prefix, user_id } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, prefix, user_id }));
+  
+  try {
+    if (prefix) {
+      validateStoragePath(prefix, 'get_storage_usage', 'prefix');
+    }
+    
+    const supabase = getStorageClient();
+    const role = getRequestContext()?.securityValidation?.securityContext?.role;
+    const bucketNames = bucket_name
+      ? [bucket_name]
+      : (await listBuckets(supabase)).map(bucket => bucket.name).filter(name => isBucketAllowed(name, role));
+    
+    const report = await getStorageUsage(supabase, bucketNames, { prefix, userId: user_id });
+    
+    auditRequest('get_storage_usage', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            ...report,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('get_storage_usage', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for listing buckets the caller's role may access
+async function handleListBuckets(args: any, requestId: string, startTime: number) {
+  const { search } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ search }));
+  
+  try {
+    const role = getRequestContext()?.securityValidation?.securityContext?.role;
+    const buckets = (await listBuckets(getStorageClient())).filter(bucket =>
+      isBucketAllowed(bucket.name, role) && (!search || bucket.name.includes(search))
+    );
+    
+    auditRequest('list_buckets', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            buckets,
+            total_count: buckets.length,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('list_buckets', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for getting a bucket's configuration
+async function handleGetBucket(args: any, requestId: string, startTime: number) {
+  const { bucket_name } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name }));
+  
+  try {
+    if (!bucket_name || typeof bucket_name !== 'string') {
+      throw new Error('Invalid bucket_name parameter');
+    }
+    
+    const bucket = await getBucket(getStorageClient(), bucket_name);
+    
+    auditRequest('get_bucket', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            bucket,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('get_bucket', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for updating a bucket's configuration
+async function handleUpdateBucket(args: any, requestId: string, startTime: number) {
+  const { bucket_name, is_public, file_size_limit, allowed_mime_types } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, is_public, file_size_limit, allowed_mime_types }));
+  
+  try {
+    if (!bucket_name || typeof bucket_name !== 'string') {
+      throw new Error('Invalid bucket_name parameter');
+    }
+    if (is_public === undefined && file_size_limit === undefined && allowed_mime_types === undefined) {
+      throw new Error('Specify at least one of is_public, file_size_limit or allowed_mime_types');
+    }
+    
+    const result = await updateBucket(getStorageClient(), bucket_name, {
+      public: is_public,
+      fileSizeLimit: file_size_limit,
+      allowedMimeTypes: allowed_mime_types
+    });
+    
+    auditRequest('update_bucket', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('update_bucket', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for emptying a bucket; the first call previews and issues a confirmation token
+async function handleEmptyBucket(args: any, requestId: string, startTime: number) {
+  const { bucket_name, confirmation_token } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, confirmed: !!confirmation_token }));
+  
+  try {
+    if (!bucket_name || typeof bucket_name !== 'string') {
+      throw new Error('Invalid bucket_name parameter');
+    }
+    
+    const result = await emptyBucket(getStorageClient(), bucket_name, confirmation_token, getRequestContext()?.user?.userId);
+    
+    auditRequest('empty_bucket', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('empty_bucket', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for deleting a bucket; the first call previews and issues a confirmation token
+async function handleDeleteBucket(args: any, requestId: string, startTime: number) {
+  const { bucket_name, confirmation_token, force = false } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, force, confirmed: !!confirmation_token }));
+  
+  try {
+    if (!bucket_name || typeof bucket_name !== 'string') {
+      throw new Error('Invalid bucket_name parameter');
+    }
+    
+    const result = await deleteBucket(getStorageClient(), bucket_name, confirmation_token, getRequestContext()?.user?.userId, force);
+    
+    auditRequest('delete_bucket', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('delete_bucket', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for batch image upload
+async function handleUploadImageBatch(args: any, requestId: string, startTime: number) {
+  const { bucket_name, batch_id, folder_prefix, user_id, image_paths, image_data, dedup_policy, derivatives, metadata_policy } = args;
+  
+  // Validate input - must have either image_paths or image_data
+  if (!image_paths && !image_data) {
+    throw new Error('Either image_paths or image_data must be provided');
+  }
+  
+  if (image_paths && image_data) {
+    throw new Error('Cannot specify both image_paths and image_data - choose one');
+  }
+  
+  const fileCount = image_paths ? image_paths.length : image_data.length;
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, batch_id, folder_prefix, user_id, fileCount }));
+  
+  try {
+    const uploadOptions = {
+      bucketName: bucket_name,
+      batchId: batch_id,
+      folderPrefix: folder_prefix,
+      userId: user_id,
+      supabase: getStorageClient(),
+      quarantineClient: supabase,
+      dedupPolicy: dedup_policy,
+      derivatives,
+      metadataPolicy: metadata_policy
+    };
+    
+    let batchResult;
+    
+    if (image_paths) {
+      // Use file paths (for local testing)
+      batchResult = await processBatchUpload(image_paths, uploadOptions);
+    } else {
+      // Use base64 data (for Claude Desktop)
+      batchResult = await processBatchUpload(image_data, uploadOptions);
+    }
+    
+    const successRate = batchResult.total > 0 ? `${Math.round((batchResult.success_count / batchResult.total) * 100)}%` : '0%';
+    
+    auditRequest('upload_image_batch', batchResult.success_count > 0, inputHash);
+    
+    const response = {
+      success: true,
+      batch_id: batch_id,
+      summary: {
+        total_files: batchResult.total,
+        successful_uploads: batchResult.success_count,
+        skipped_duplicates: batchResult.skipped_count,
+        failed_uploads: batchResult.error_count,
+        success_rate: successRate
+      },
+      results: {
+        successful: batchResult.successful,
+        failed: batchResult.failed,
+        total: batchResult.total,
+        success_count: batchResult.success_count,
+        skipped_count: batchResult.skipped_count,
+        error_count: batchResult.error_count
+      },
+      request_id: requestId,
+      processing_time: Date.now() - startTime
+    };
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('upload_image_batch', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for generic file upload
+async function handleUploadFiles(args: any, requestId: string, startTime: number) {
+  const { bucket_name, batch_id, folder_prefix, user_id, file_paths, file_data, dedup_policy, metadata_policy } = args;
+  
+  // Validate input - must have either file_paths or file_data
+  if (!file_paths && !file_data) {
+    throw new Error('Either file_paths or file_data must be provided');
+  }
+  
+  if (file_paths && file_data) {
+    throw new Error('Cannot specify both file_paths and file_data - choose one');
+  }
+  
+  const fileCount = file_paths ? file_paths.length : file_data.length;
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, batch_id, folder_prefix, user_id, fileCount }));
+  
+  try {
+    const allowedMimeTypes = getAllowedMimeTypesForBucket(bucket_name);
+    if (allowedMimeTypes.length === 0) {
+      throw new Error(`No MIME types are allowed for bucket ${bucket_name}`);
+    }
+    
+    const batchResult = await processBatchUpload(file_paths || file_data, {
+      bucketName: bucket_name,
+      batchId: batch_id,
+      folderPrefix: folder_prefix,
+      userId: user_id,
+      supabase: getStorageClient(),
+      quarantineClient: supabase,
+      allowedMimeTypes,
+      toolName: 'upload_files',
+      dedupPolicy: dedup_policy,
+      metadataPolicy: metadata_policy
+    });
+    
+    const successRate = batchResult.total > 0 ? `${Math.round((batchResult.success_count / batchResult.total) * 100)}%` : '0%';
+    
+    auditRequest('upload_files', batchResult.success_count > 0, inputHash);
+    
+    const response = {
+      success: true,
+      batch_id: batch_id,
+      allowed_mime_types: allowedMimeTypes,
+      summary: {
+        total_files: batchResult.total,
+        successful_uploads: batchResult.success_count,
+        skipped_duplicates: batchResult.skipped_count,
+        failed_uploads: batchResult.error_count,
+        success_rate: successRate
+      },
+      results: {
+        successful: batchResult.successful,
+        failed: batchResult.failed,
+        total: batchResult.total,
+        success_count: batchResult.success_count,
+        skipped_count: batchResult.skipped_count,
+        error_count: batchResult.error_count
+      },
+      request_id: requestId,
+      processing_time: Date.now() - startTime
+    };
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('upload_files', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for uploading files downloaded from URLs
+async function handleUploadFromUrl(args: any, requestId: string, startTime: number) {
+  const { bucket_name, batch_id, folder_prefix, user_id, url, filename, urls, dedup_policy, metadata_policy } = args;
+  
+  // Validate input - must have either url or urls
+  if (!url && !urls) {
+    throw new Error('Either url or urls must be provided');
+  }
+  
+  if (url && urls) {
+    throw new Error('Cannot specify both url and urls - choose one');
+  }
+  
+  const remoteFiles: RemoteFileData[] = urls || [{ url, filename }];
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, batch_id, folder_prefix, user_id, fileCount: remoteFiles.length }));
+  
+  try {
+    const allowedMimeTypes = getAllowedMimeTypesForBucket(bucket_name);
+    if (allowedMimeTypes.length === 0) {
+      throw new Error(`No MIME types are allowed for bucket ${bucket_name}`);
+    }
+    
+    const batchResult = await processBatchUpload(remoteFiles, {
+      bucketName: bucket_name,
+      batchId: batch_id,
+      folderPrefix: folder_prefix,
+      userId: user_id,
+      supabase: getStorageClient(),
+      quarantineClient: supabase,
+      allowedMimeTypes,
+      toolName: 'upload_from_url',
+      dedupPolicy: dedup_policy,
+      metadataPolicy: metadata_policy
+    });
+    
+    const successRate = batchResult.total > 0 ? `${Math.round((batchResult.success_count / batchResult.total) * 100)}%` : '0%';
+    
+    auditRequest('upload_from_url', batchResult.success_count > 0, inputHash);
+    
+    const response = {
+      success: true,
+      batch_id: batch_id,
+      allowed_mime_types: allowedMimeTypes,
+      summary: {
+        total_files: batchResult.total,
+        successful_uploads: batchResult.success_count,
+        skipped_duplicates: batchResult.skipped_count,
+        failed_uploads: batchResult.error_count,
+        success_rate: successRate
+      },
+      results: {
+        successful: batchResult.successful,
+        failed: batchResult.failed,
+        total: batchResult.total,
+        success_count: batchResult.success_count,
+        skipped_count: batchResult.skipped_count,
+        error_count: batchResult.error_count
+      },
+      request_id: requestId,
+      processing_time: Date.now() - startTime
+    };
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('upload_from_url', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for starting a resumable upload
+async function handleStartResumableUpload(args: any, requestId: string, startTime: number) {
+  const { bucket_name, batch_id, folder_prefix, user_id, file_path, wait = false } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, batch_id, folder_prefix, user_id, file_path }));
+  
+  try {
+    const state = await startResumableUpload({
+      bucketName: bucket_name,
+      filePath: file_path,
+      folderPrefix: folder_prefix,
+      userId: user_id,
+      batchId: batch_id
+    }, getResumableOptions(), wait);
+    
+    auditRequest('start_resumable_upload', state.status !== 'failed', inputHash, state.error);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: state.status !== 'failed' && state.status !== 'expired',
+            ...state,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('start_resumable_upload', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for resuming an upload
+async function handleResumeUpload(args: any, requestId: string, startTime: number) {
+  const { upload_id, wait = false } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ upload_id }));
+  
+  try {
+    const state = await resumeUpload(upload_id, getResumableOptions(), wait);
+    
+    auditRequest('resume_upload', state.status !== 'failed', inputHash, state.error);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: state.status !== 'failed' && state.status !== 'expired',
+            ...state,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('resume_upload', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for resumable upload status
+async function handleGetUploadStatus(args: any, requestId: string, startTime: number) {
+  const { upload_id } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ upload_id }));
+  
+  try {
+    const state = await getUploadStatus(upload_id);
+    
+    auditRequest('get_upload_status', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...state,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('get_upload_status', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+function getResumableOptions() {
+  return {
+    endpoint: getResumableEndpoint(supabaseConfig.url),
+    accessToken: getRequestContext()?.user?.token || supabaseConfig.serviceKey,
+    supabase: getStorageClient()
+  };
+}
+
+// Handler for listing files
+async function handleListFiles(args: any, requestId: string, startTime: number) {
+  const {
+    bucket_name,
+    folder_path,
+    file_extension,
+    recursive = false,
+    max_depth = 5,
+    sort_by = 'name',
+    sort_order = 'asc',
+    limit = 100,
+    offset = 0,
+    cursor,
+    include_image_metadata = false
+  } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, folder_path, file_extension, recursive, max_depth, sort_by, sort_order, limit, offset, cursor, include_image_metadata }));
+  
+  try {
+    const result: FileListResult = await listFiles({
+      bucketName: bucket_name,
+      folderPath: folder_path,
+      fileExtension: file_extension,
+      recursive,
+      maxDepth: max_depth,
+      sortBy: sort_by,
+      sortOrder: sort_order,
+      limit,
+      offset,
+      cursor,
+      includeImageMetadata: include_image_metadata,
+      supabase: getStorageClient()
+    });
+    
+    auditRequest('list_files', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('list_files', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for deleting files
+async function handleDeleteFiles(args: any, requestId: string, startTime: number) {
+  const { bucket_name, file_paths, prefix, dry_run = false, max_files = 100 } = args;
+  
+  // Validate input - must have either file_paths or prefix
+  if (!file_paths && !prefix) {
+    throw new Error('Either file_paths or prefix must be provided');
+  }
+  
+  if (file_paths && prefix) {
+    throw new Error('Cannot specify both file_paths and prefix - choose one');
+  }
+  
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, file_count: file_paths?.length, prefix, dry_run, max_files }));
+  
+  try {
+    if (!bucket_name || typeof bucket_name !== 'string') {
+      throw new Error('Invalid bucket_name parameter');
+    }
+    
+    const result = await deleteFiles({
+      bucketName: bucket_name,
+      filePaths: file_paths,
+      prefix,
+      dryRun: dry_run,
+      maxFiles: max_files,
+      supabase: getStorageClient()
+    });
+    
+    auditRequest('delete_files', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('delete_files', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for moving and copying files
+async function handleTransferFile(operation: 'move' | 'copy', args: any, requestId: string, startTime: number) {
+  const toolName = `${operation}_file`;
+  const { bucket_name, source_path, destination_path, transfers, destination_bucket, on_conflict = 'fail' } = args;
+  
+  // Validate input - must have either a single transfer or a batch
+  if (!transfers && !(source_path && destination_path)) {
+    throw new Error('Either source_path and destination_path, or transfers must be provided');
+  }
+  
+  if (transfers && (source_path || destination_path)) {
+    throw new Error('Cannot specify both a single transfer and transfers - choose one');
+  }
+  
+  const items = transfers || [{ source_path, destination_path }];
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, destination_bucket, file_count: items.length, on_conflict }));
+  
+  try {
+    if (!bucket_name || typeof bucket_name !== 'string') {
+      throw new Error('Invalid bucket_name parameter');
+    }
+    
+    const result = await processBatchTransfer(operation, items, {
+      sourceBucket: bucket_name,
+      destinationBucket: destination_bucket,
+      onConflict: on_conflict,
+      supabase: getStorageClient()
+    });
+    
+    auditRequest(toolName, result.error_count === 0, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: result.error_count === 0,
+            ...result,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest(toolName, false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for getting file URL
+async function handleGetFileUrl(args: any, requestId: string, startTime: number) {
+  const { bucket_name, storage_path, expires_in = STORAGE_CONFIG.SIGNED_URL_EXPIRES_IN } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, storage_path, expires_in }));
+  
+  try {
+    const { data, error } = await getStorageClient().storage
+      .from(bucket_name)
+      .createSignedUrl(storage_path, expires_in);
+    
+    if (error) {
+      throw new Error(`Failed to create signed URL: ${error.message}`);
+    }
+    
+    const expiresAt = new Date(Date.now() + expires_in * 1000).toISOString();
+    
+    auditRequest('get_file_url', true, inputHash);
+    
+    const result: SignedUrlResult = {
+      signedUrl: data.signedUrl,
+      expiresAt,
+      fileSize: 0, // Would need additional call to get file info
+      mimeType: 'unknown' // Would need additional call to get file info
+    };
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...result,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    auditRequest('get_file_url', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for security status
+async function handleSecurityStatus() {
+  const auditLog = await queryAuditLog({ limit: 10 });
+  const securityStatus: SecurityStatusResponse = {
+    security_config: SECURITY_CONFIG,
+    rate_limit_status: {
+      active_limits: getRateLimitStoreSize(),
+      current_window: SECURITY_CONFIG.RATE_LIMIT_WINDOW
+    },
+    audit_log: {
+      total_entries: auditLog.total,
+      recent_entries: auditLog.entries.map(entry => ({
+        timestamp: new Date(entry.timestamp).toISOString(),
+        tool: entry.toolName,
+        success: entry.success,
+        error: entry.error || 'none'
+      }))
+    },
+    server_info: {
+      name: 'supabase-storage-mcp',
+      version: '1.0.0',
+      uptime: process.uptime(),
+      node_version: process.version
+    }
+  };
+  
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(securityStatus, null, 2)
+      }
+    ]
+  };
+}
 
+// Handler for security reports
+async function handleGenerateSecurityReport(args: any, requestId: string, startTime: number) {
+  const { start_time, end_time, window_hours = 24, format = 'json' } = args || {};
+  
+  const inputHash = generateSecureHash(JSON.stringify({ start_time, end_time, window_hours, format }));
+  
   try {
-    switch (name) {
-      case 'create_bucket':
-        return await handleCreateBucket(args, requestId, startTime);
-      
-      case 'setup_buckets':
-        return await handleSetupBuckets(args, requestId, startTime);
-      
-      case 'upload_image_batch':
-        return await handleUploadImageBatch(args, requestId, startTime);
-      
-      case 'list_files':
-        return await handleListFiles(args, requestId, startTime);
-      
-      case 'get_file_url':
-        return await handleGetFileUrl(args, requestId, startTime);
-      
-      case 'get_security_status':
-        return await handleSecurityStatus();
-      
-      case 'create_signed_urls':
-        return await handleCreateSignedUrls(args, requestId, startTime);
-      
-      case 'download_file':
-        return await handleDownloadFile(args, requestId, startTime);
-      
-      case 'download_file_with_auto_trigger':
-        return await handleDownloadFileWithAutoTrigger(args, requestId, startTime);
-      
-      case 'batch_download':
-        return await handleBatchDownload(args, requestId, startTime);
-      
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+    const end = end_time ? Date.parse(end_time) : Date.now();
+    const start = start_time ? Date.parse(start_time) : end - window_hours * 60 * 60 * 1000;
+    
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      throw new Error('start_time and end_time must be ISO 8601 timestamps');
     }
-  } catch (error) {
+    if (start > end) {
+      throw new Error('start_time must be before end_time');
+    }
+    
+    const report = await generateSecurityReport(start, end);
+    
+    auditRequest('generate_security_report', true, inputHash);
+    
     return {
       content: [
         {
           type: 'text',
-          text: `Error: ${getErrorMessage(error)}`
+          text: format === 'markdown'
+            ? formatSecurityReportMarkdown(report)
+            : JSON.stringify({ ...report, request_id: requestId, processing_time: Date.now() - startTime }, null, 2)
         }
-      ],
-      isError: true
+      ]
     };
+  } catch (error) {
+    auditRequest('generate_security_report', false, inputHash, getErrorMessage(error));
+    throw error;
   }
-});
+}
 
-// Handler for bucket creation
-async function handleCreateBucket(args: any, requestId: string, startTime: number) {
-  const { bucket_name, is_public } = args as { 
-    bucket_name: string; 
-    is_public?: boolean 
-  };
+// Handler for listing security alerts
+async function handleListSecurityAlerts(args: any, requestId: string, startTime: number) {
+  const { min_severity = 'medium', acknowledged, limit = 100 } = args || {};
   
-  // Input validation
-  if (!bucket_name || typeof bucket_name !== 'string') {
-    throw new Error('Invalid bucket_name parameter');
-  }
-  
-  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, is_public }));
+  const inputHash = generateSecureHash(JSON.stringify({ min_severity, acknowledged, limit }));
   
   try {
-    const options: any = {
-      public: is_public || false
+    const alerts = listSecurityAlerts({ minSeverity: min_severity, acknowledged, limit });
+    
+    auditRequest('list_security_alerts', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...alerts,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
+        }
+      ]
     };
+  } catch (error) {
+    auditRequest('list_security_alerts', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
 
-    const { data, error } = await supabase.storage.createBucket(bucket_name, options);
-
-    if (error) {
-      throw new Error(`Failed to create bucket: ${error.message}`);
-    }
-
-    auditRequest('create_bucket', true, inputHash);
+// Handler for acknowledging a security alert
+async function handleAcknowledgeAlert(args: any, requestId: string, startTime: number) {
+  const { alert_id, note } = args;
+  
+  const inputHash = generateSecureHash(JSON.stringify({ alert_id }));
+  
+  try {
+    const alert = acknowledgeAlert(alert_id, note);
+    
+    auditRequest('acknowledge_alert', true, inputHash);
     
     return {
       content: [
@@ -540,13 +2756,7 @@ async function handleCreateBucket(args: any, requestId: string, startTime: numbe
           type: 'text',
           text: JSON.stringify({
             success: true,
-            message: `Successfully created secure bucket: ${bucket_name}`,
-            bucket_name: data.name,
-            security_configuration: {
-              public: options.public,
-              audit_logging_enabled: true,
-              threat_detection_enabled: true
-            },
+            alert,
             request_id: requestId,
             processing_time: Date.now() - startTime
           }, null, 2)
@@ -554,198 +2764,167 @@ async function handleCreateBucket(args: any, requestId: string, startTime: numbe
       ]
     };
   } catch (error) {
-    auditRequest('create_bucket', false, inputHash, getErrorMessage(error));
+    auditRequest('acknowledge_alert', false, inputHash, getErrorMessage(error));
     throw error;
   }
 }
 
-// Handler for setup standard buckets
-async function handleSetupBuckets(args: any, requestId: string, startTime: number) {
-  const { base_bucket_name = 'storage', user_id } = args;
+// Handler for audit log queries
+async function handleQueryAuditLog(args: any, requestId: string, startTime: number) {
+  const { tool_name, success, since, until, request_id, limit = 100, offset = 0 } = args || {};
   
-  const inputHash = generateSecureHash(JSON.stringify({ base_bucket_name, user_id }));
+  const inputHash = generateSecureHash(JSON.stringify({ tool_name, success, since, until, request_id, limit, offset }));
   
   try {
-    const bucketsToCreate = [
-      `${base_bucket_name}-images`,
-      `${base_bucket_name}-exports`
-    ];
-    
-    const bucketsCreated: string[] = [];
-    
-    for (const bucketName of bucketsToCreate) {
-      const { data, error } = await supabase.storage.createBucket(bucketName, {
-        public: false,
-        fileSizeLimit: 50 * 1024 * 1024, // 50MB
-        allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
-      });
-      
-      if (error && !error.message.includes('already exists')) {
-        throw new Error(`Failed to create bucket ${bucketName}: ${error.message}`);
+    const parseTime = (value: string | undefined, field: string) => {
+      if (value === undefined) return undefined;
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        throw new Error(`${field} must be an ISO 8601 timestamp`);
       }
-      
-      bucketsCreated.push(bucketName);
-    }
+      return time;
+    };
     
-    auditRequest('setup_buckets', true, inputHash);
+    const result = await queryAuditLog({
+      toolName: tool_name,
+      success,
+      since: parseTime(since, 'since'),
+      until: parseTime(until, 'until'),
+      requestId: request_id,
+      limit,
+      offset
+    });
     
-    const result: SetupBucketsResult = {
-      success: true,
-      buckets_created: bucketsCreated,
-      message: `Successfully created bucket structure: ${bucketsCreated.join(', ')}`,
-      security_configuration: {
-        images_bucket: {
-          public: false,
-          file_size_limit: 50 * 1024 * 1024,
-          allowed_mime_types: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
-          audit_logging_enabled: true,
-          threat_detection_enabled: true
-        },
-        exports_bucket: {
-          public: false,
-          file_size_limit: 50 * 1024 * 1024,
-          allowed_mime_types: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
-          audit_logging_enabled: true,
-          threat_detection_enabled: true
+    auditRequest('query_audit_log', true, inputHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...getAuditSinkInfo(),
+            total: result.total,
+            has_more: result.has_more,
+            entries: result.entries.map(entry => ({
+              ...entry,
+              timestamp: new Date(entry.timestamp).toISOString()
+            })),
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
         }
-      }
+      ]
     };
+  } catch (error) {
+    auditRequest('query_audit_log', false, inputHash, getErrorMessage(error));
+    throw error;
+  }
+}
+
+// Handler for listing blocked clients
+async function handleListBlockedClients(args: any, requestId: string, startTime: number) {
+  const { type } = args || {};
+  
+  const inputHash = generateSecureHash(JSON.stringify({ type }));
+  
+  try {
+    const blocks = getBlockedClients(type);
+    
+    auditRequest('list_blocked_clients', true, inputHash);
     
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(result, null, 2)
+          text: JSON.stringify({
+            total: blocks.length,
+            blocks,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
         }
       ]
     };
   } catch (error) {
-    auditRequest('setup_buckets', false, inputHash, getErrorMessage(error));
+    auditRequest('list_blocked_clients', false, inputHash, getErrorMessage(error));
     throw error;
   }
 }
 
-// Handler for batch image upload
-async function handleUploadImageBatch(args: any, requestId: string, startTime: number) {
-  const { bucket_name, batch_id, folder_prefix, user_id, image_paths, image_data } = args;
-  
-  // Validate input - must have either image_paths or image_data
-  if (!image_paths && !image_data) {
-    throw new Error('Either image_paths or image_data must be provided');
+// block_client and unblock_client arguments are checked here since the input schema is not enforced
+function validateBlockTarget(type: unknown, value: unknown): void {
+  if (type !== 'ip' && type !== 'user') {
+    throw new Error('type must be "ip" or "user"');
   }
-  
-  if (image_paths && image_data) {
-    throw new Error('Cannot specify both image_paths and image_data - choose one');
+  if (typeof value !== 'string' || !value.trim() || value.length > 255) {
+    throw new Error('value must be a non-empty IP address or user id of at most 255 characters');
+  }
+  if (type === 'ip' && net.isIP(value) === 0) {
+    throw new Error(`Invalid IP address: ${value}`);
   }
+}
+
+// Handler for blocking an IP address or user id
+async function handleBlockClient(args: any, requestId: string, startTime: number) {
+  const { type, value, reason = 'Blocked by administrator', duration_seconds } = args || {};
   
-  const fileCount = image_paths ? image_paths.length : image_data.length;
-  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, batch_id, folder_prefix, user_id, fileCount }));
+  const inputHash = generateSecureHash(JSON.stringify({ type, value, duration_seconds }));
   
   try {
-    const uploadOptions = {
-      bucketName: bucket_name,
-      batchId: batch_id,
-      folderPrefix: folder_prefix,
-      userId: user_id,
-      supabase
-    };
-    
-    let batchResult;
-    
-    if (image_paths) {
-      // Use file paths (for local testing)
-      batchResult = await processBatchUpload(image_paths, uploadOptions);
-    } else {
-      // Use base64 data (for Claude Desktop)
-      batchResult = await processBatchUpload(image_data, uploadOptions);
+    validateBlockTarget(type, value);
+    if (duration_seconds !== undefined && !(typeof duration_seconds === 'number' && duration_seconds >= 1)) {
+      throw new Error('duration_seconds must be a number of at least 1');
     }
     
-    const successRate = batchResult.total > 0 ? `${Math.round((batchResult.success_count / batchResult.total) * 100)}%` : '0%';
-    
-    auditRequest('upload_image_batch', batchResult.success_count > 0, inputHash);
+    const block = type === 'ip'
+      ? blockIP(value, reason, duration_seconds, 'manual')
+      : blockUser(value, reason, duration_seconds, 'manual');
     
-    const response = {
-      success: true,
-      batch_id: batch_id,
-      summary: {
-        total_files: batchResult.total,
-        successful_uploads: batchResult.success_count,
-        failed_uploads: batchResult.error_count,
-        success_rate: successRate
-      },
-      results: {
-        successful: batchResult.successful,
-        failed: batchResult.failed,
-        total: batchResult.total,
-        success_count: batchResult.success_count,
-        error_count: batchResult.error_count
-      },
-      request_id: requestId,
-      processing_time: Date.now() - startTime
-    };
+    auditRequest('block_client', true, inputHash);
     
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(response, null, 2)
+          text: JSON.stringify({
+            success: true,
+            block,
+            request_id: requestId,
+            processing_time: Date.now() - startTime
+          }, null, 2)
         }
       ]
     };
   } catch (error) {
-    auditRequest('upload_image_batch', false, inputHash, getErrorMessage(error));
+    auditRequest('block_client', false, inputHash, getErrorMessage(error));
     throw error;
   }
 }
 
-// Handler for listing files
-async function handleListFiles(args: any, requestId: string, startTime: number) {
-  const { bucket_name, folder_path, file_extension } = args;
+// Handler for removing a block
+async function handleUnblockClient(args: any, requestId: string, startTime: number) {
+  const { type, value } = args || {};
   
-  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, folder_path, file_extension }));
+  const inputHash = generateSecureHash(JSON.stringify({ type, value }));
   
   try {
-    const { data, error } = await supabase.storage
-      .from(bucket_name)
-      .list(folder_path || '', {
-        limit: 1000,
-        sortBy: { column: 'name', order: 'asc' }
-      });
-    
-    if (error) {
-      throw new Error(`Failed to list files: ${error.message}`);
-    }
+    validateBlockTarget(type, value);
     
-    let files = data || [];
-    
-    // Filter by file extension if specified
-    if (file_extension) {
-      files = files.filter(file => file.name.toLowerCase().endsWith(file_extension.toLowerCase()));
+    const removed = type === 'ip' ? unblockIP(value) : unblockUser(value);
+    if (!removed) {
+      throw new Error(`No block found for ${type} ${value}`);
     }
     
-    const totalSize = files.reduce((sum, file) => sum + (file.metadata?.size || 0), 0);
-    
-    auditRequest('list_files', true, inputHash);
-    
-    const result: FileListResult = {
-      files: files.map(file => ({
-        name: file.name,
-        path: folder_path ? `${folder_path}/${file.name}` : file.name,
-        size: file.metadata?.size || 0,
-        mime_type: file.metadata?.mimetype || 'unknown',
-        last_modified: file.updated_at || file.created_at || new Date().toISOString(),
-        metadata: file.metadata
-      })),
-      total_count: files.length,
-      total_size: totalSize
-    };
+    auditRequest('unblock_client', true, inputHash);
     
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify({
-            ...result,
+            success: true,
+            type,
+            value,
             request_id: requestId,
             processing_time: Date.now() - startTime
           }, null, 2)
@@ -753,43 +2932,34 @@ async function handleListFiles(args: any, requestId: string, startTime: number)
       ]
     };
   } catch (error) {
-    auditRequest('list_files', false, inputHash, getErrorMessage(error));
+    auditRequest('unblock_client', false, inputHash, getErrorMessage(error));
     throw error;
   }
 }
 
-// Handler for getting file URL
-async function handleGetFileUrl(args: any, requestId: string, startTime: number) {
-  const { bucket_name, storage_path, expires_in = 7200 } = args;
+// Handler for resetting in-memory security state
+async function handleResetSecurityState(args: any, requestId: string, startTime: number) {
+  const { confirm, clear_block_list = false } = args || {};
   
-  const inputHash = generateSecureHash(JSON.stringify({ bucket_name, storage_path, expires_in }));
+  const inputHash = generateSecureHash(JSON.stringify({ confirm, clear_block_list }));
   
   try {
-    const { data, error } = await supabase.storage
-      .from(bucket_name)
-      .createSignedUrl(storage_path, expires_in);
-    
-    if (error) {
-      throw new Error(`Failed to create signed URL: ${error.message}`);
+    if (confirm !== true) {
+      throw new Error('Set confirm to true to reset the security state');
     }
     
-    const expiresAt = new Date(Date.now() + expires_in * 1000).toISOString();
-    
-    auditRequest('get_file_url', true, inputHash);
+    resetSecurityState({ keepBlockList: !clear_block_list });
     
-    const result: SignedUrlResult = {
-      signedUrl: data.signedUrl,
-      expiresAt,
-      fileSize: 0, // Would need additional call to get file info
-      mimeType: 'unknown' // Would need additional call to get file info
-    };
+    auditRequest('reset_security_state', true, inputHash);
     
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify({
-            ...result,
+            success: true,
+            block_list_cleared: clear_block_list,
+            remaining_blocks: getBlockedClients().length,
             request_id: requestId,
             processing_time: Date.now() - startTime
           }, null, 2)
@@ -797,42 +2967,27 @@ async function handleGetFileUrl(args: any, requestId: string, startTime: number)
       ]
     };
   } catch (error) {
-    auditRequest('get_file_url', false, inputHash, getErrorMessage(error));
+    auditRequest('reset_security_state', false, inputHash, getErrorMessage(error));
     throw error;
   }
 }
 
-// Handler for security status
-async function handleSecurityStatus() {
-  const auditLog = getAuditLog();
-  const securityStatus: SecurityStatusResponse = {
-    security_config: SECURITY_CONFIG,
-    rate_limit_status: {
-      active_limits: getRateLimitStoreSize(),
-      current_window: SECURITY_CONFIG.RATE_LIMIT_WINDOW
-    },
-    audit_log: {
-      total_entries: auditLog.length,
-      recent_entries: auditLog.slice(-10).map(entry => ({
-        timestamp: new Date(entry.timestamp).toISOString(),
-        tool: entry.toolName,
-        success: entry.success,
-        error: entry.error || 'none'
-      }))
-    },
-    server_info: {
-      name: 'supabase-storage-mcp',
-      version: '1.0.0',
-      uptime: process.uptime(),
-      node_version: process.version
-    }
-  };
+// Handler for health check
+async function handleHealthCheck(requestId: string, startTime: number) {
+  const probe = await probeStorage(supabase);
+  const report = buildHealthReport(probe, supabaseConfig.url, !!supabaseConfig.serviceKey);
+  
+  auditRequest('health_check', probe.reachable, generateSecureHash(JSON.stringify({ request_id: requestId })), probe.error);
   
   return {
     content: [
       {
         type: 'text',
-        text: JSON.stringify(securityStatus, null, 2)
+        text: JSON.stringify({
+          ...report,
+          request_id: requestId,
+          processing_time: Date.now() - startTime
+        }, null, 2)
       }
     ]
   };
@@ -840,7 +2995,7 @@ async function handleSecurityStatus() {
 
 // Handler for batch signed URLs
 async function handleCreateSignedUrls(args: any, requestId: string, startTime: number) {
-  const { bucket_name, file_paths, expires_in = 3600 } = args;
+  const { bucket_name, file_paths, expires_in = STORAGE_CONFIG.SIGNED_URL_EXPIRES_IN } = args;
   
   const inputHash = generateSecureHash(JSON.stringify({ bucket_name, file_count: file_paths.length, expires_in }));
   
@@ -865,7 +3020,7 @@ async function handleCreateSignedUrls(args: any, requestId: string, startTime: n
     // Process each file path
     for (const filePath of file_paths) {
       try {
-        const { data, error } = await supabase.storage
+        const { data, error } = await getStorageClient().storage
           .from(bucket_name)
           .createSignedUrl(filePath, expires_in);
         
@@ -973,7 +3128,7 @@ async function handleDownloadFile(args: any, requestId: string, startTime: numbe
     }
     
     // Download the file
-    const { data, error } = await supabase.storage
+    const { data, error } = await getStorageClient().storage
       .from(bucket_name)
       .download(file_path, downloadOptions);
     
@@ -1067,9 +3222,9 @@ async function handleDownloadFileWithAutoTrigger(args: any, requestId: string, s
     
     if (return_format === 'signed_url') {
       // Generate signed URL with auto-download parameter
-      const { data, error } = await supabase.storage
+      const { data, error } = await getStorageClient().storage
         .from(bucket_name)
-        .createSignedUrl(file_path, 3600);
+        .createSignedUrl(file_path, STORAGE_CONFIG.DOWNLOAD_URL_EXPIRES_IN);
       
       if (error) {
         throw new Error(`Failed to create signed URL: ${error.message}`);
@@ -1090,7 +3245,7 @@ async function handleDownloadFileWithAutoTrigger(args: any, requestId: string, s
         content_type: 'application/octet-stream', // Will be determined by browser
         format: return_format,
         auto_download_enabled: auto_download,
-        expires_at: new Date(Date.now() + 3600 * 1000).toISOString(),
+        expires_at: new Date(Date.now() + STORAGE_CONFIG.DOWNLOAD_URL_EXPIRES_IN * 1000).toISOString(),
         transformed: false,
         javascript_trigger: auto_download ? `window.location.href = "${downloadUrl}";` : undefined,
         metadata: {
@@ -1120,7 +3275,7 @@ async function handleDownloadFileWithAutoTrigger(args: any, requestId: string, s
         }
       }
       
-      const { data, error } = await supabase.storage
+      const { data, error } = await getStorageClient().storage
         .from(bucket_name)
         .download(file_path, downloadOptions);
       
@@ -1217,7 +3372,7 @@ async function handleBatchDownload(args: any, requestId: string, startTime: numb
     return_format = 'signed_url',
     auto_download = false,
     download_delay = 500,
-    expires_in = 3600
+    expires_in = STORAGE_CONFIG.DOWNLOAD_URL_EXPIRES_IN
   } = args;
   
   const inputHash = generateSecureHash(JSON.stringify({ bucket_name, file_count: file_paths.length, return_format, auto_download }));
@@ -1248,7 +3403,7 @@ async function handleBatchDownload(args: any, requestId: string, startTime: numb
     for (const filePath of file_paths) {
       try {
         if (return_format === 'signed_url') {
-          const { data, error } = await supabase.storage
+          const { data, error } = await getStorageClient().storage
             .from(bucket_name)
             .createSignedUrl(filePath, expires_in);
           
@@ -1277,7 +3432,7 @@ async function handleBatchDownload(args: any, requestId: string, startTime: numb
           successCount++;
         } else {
           // For direct content download (base64/binary)
-          const { data, error } = await supabase.storage
+          const { data, error } = await getStorageClient().storage
             .from(bucket_name)
             .download(filePath);
           
@@ -1394,9 +3549,108 @@ batchDownload();`;
 
 // Start the server
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error('Supabase Storage MCP Server running on stdio');
+  // Fail fast on invalid configuration before accepting requests
+  const config = await initializeConfig({ ...process.env, ...readCommandLine(process.argv.slice(2)) });
+  if (config.configFile) {
+    console.error(`Loaded configuration from ${config.configFile}`);
+  }
+  
+  supabaseConfig = validateSupabaseConfig({
+    url: process.env.SUPABASE_URL,
+    serviceKey: process.env.SUPABASE_SERVICE_KEY
+  });
+  
+  supabase = createClient(supabaseConfig.url, supabaseConfig.serviceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false
+    }
+  });
+  
+  if (config.security.AUTH_MODE === 'jwt') {
+    jwtAuthConfig = {
+      jwtSecret: validateEnvironmentVariable('SUPABASE_JWT_SECRET', process.env.SUPABASE_JWT_SECRET),
+      anonKey: validateEnvironmentVariable('SUPABASE_ANON_KEY', process.env.SUPABASE_ANON_KEY),
+      stdioToken: process.env.SUPABASE_ACCESS_TOKEN || undefined
+    };
+    console.error('Authentication: user JWTs required, storage calls run under RLS');
+  }
+  
+  const auditSink = await initializeAuditLog(config.audit, supabase);
+  console.error(`Audit log: ${auditSink.name}${config.audit.SUPABASE_TABLE ? ` (mirrored to table ${config.audit.SUPABASE_TABLE})` : ''}`);
+  
+  if (config.security.POLICY_FILE) {
+    const policy = await loadPolicy(config.security.POLICY_FILE);
+    setAuthorizationPolicy(policy);
+    console.error(`Authorization policy: ${Object.keys(policy.roles).length} roles from ${config.security.POLICY_FILE}`);
+  }
+  
+  if (config.storage.BUCKET_MANIFEST) {
+    const manifest = await loadBucketManifest(config.storage.BUCKET_MANIFEST);
+    setBucketManifest(manifest);
+    console.error(`Bucket manifest: ${manifest.buckets.length} buckets from ${config.storage.BUCKET_MANIFEST}`);
+  }
+  
+  const blockListPath = resolveDataPath(config.security.BLOCKLIST_PATH);
+  const blockCount = loadBlockList(blockListPath);
+  if (blockCount > 0) {
+    console.error(`Loaded ${blockCount} blocked clients from ${blockListPath}`);
+  }
+  
+  const scanners = await initializeUploadScanners(config.security);
+  if (scanners.length > 0) {
+    console.error(`Upload scanning: ${scanners.map(scanner => scanner.name).join(', ')}, infected files quarantined to ${config.storage.QUARANTINE_BUCKET}`);
+  }
+  
+  if (config.storage.VALIDATE_CONNECTION) {
+    const probe = await probeStorage(supabase);
+    if (!probe.reachable) {
+      throw new Error(`Supabase Storage is unreachable at ${supabaseConfig.url}: ${probe.error}`);
+    }
+    console.error(`Supabase Storage reachable (${probe.latency_ms}ms, ${probe.bucket_count} buckets)`);
+  }
+  
+  if (config.transport.MODE === 'sse') {
+    const httpTransport = await startHttpTransport(createServer, config.transport);
+    handleShutdown(drain => httpTransport.close(drain), config.transport.SHUTDOWN_TIMEOUT);
+    console.error(`Supabase Storage MCP Server listening on ${httpTransport.url}`);
+  } else {
+    const server = createServer();
+    await server.connect(new StdioServerTransport());
+    handleShutdown(async drain => {
+      await drain();
+      await server.close();
+    }, config.transport.SHUTDOWN_TIMEOUT);
+    console.error('Supabase Storage MCP Server running on stdio');
+  }
+}
+
+// On SIGINT/SIGTERM, finish in-flight tool calls (up to timeoutMs), close the transport and the audit log.
+// A second signal stops the process immediately.
+function handleShutdown(closeTransport: (drain: () => Promise<unknown>) => Promise<void>, timeoutMs: number) {
+  const shutdown = async (signal: string) => {
+    console.error(`Received ${signal}, shutting down`);
+    
+    const timer = setTimeout(() => {
+      console.error(`Shutdown timed out after ${timeoutMs}ms with ${inFlightToolCalls.size} tool calls in flight`);
+      closeAuditLog();
+      process.exit(1);
+    }, timeoutMs);
+    timer.unref();
+    
+    try {
+      await closeTransport(() => Promise.allSettled([...inFlightToolCalls]));
+    } catch (error) {
+      console.error('Error during shutdown:', getErrorMessage(error));
+    }
+    
+    clearTimeout(timer);
+    closeAuditLog();
+    process.exit(0);
+  };
+  
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
 }
 
 main().catch((error) => {
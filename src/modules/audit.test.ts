@@ -0,0 +1,212 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AuditEntry, AuditQuery } from './types.js';
+import { DEFAULT_AUDIT_CONFIG, STORAGE_CONFIG } from './config.js';
+import {
+  JsonlAuditSink,
+  MemoryAuditSink,
+  SqliteAuditSink,
+  getAuditSinkInfo,
+  initializeAuditLog,
+  queryAuditLog,
+  writeAuditEntry
+} from './audit.js';
+
+const entry = (index: number, overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  timestamp: 1_700_000_000_000 + index * 1000,
+  toolName: index % 2 === 0 ? 'upload_files' : 'delete_files',
+  success: index % 3 !== 0,
+  inputHash: `hash-${index}`,
+  requestId: `request-${index}`,
+  ...overrides
+});
+
+const query = (overrides: Partial<AuditQuery> = {}): AuditQuery => ({ limit: 100, offset: 0, ...overrides });
+
+describe('MemoryAuditSink', () => {
+  it('keeps the newest entries and answers newest first', async () => {
+    const sink = new MemoryAuditSink(3);
+    for (let i = 1; i <= 5; i++) sink.write(entry(i));
+
+    const result = await sink.query(query());
+    expect(result.entries.map(item => item.inputHash)).toEqual(['hash-5', 'hash-4', 'hash-3']);
+    expect(result).toMatchObject({ total: 3, has_more: false });
+  });
+
+  it('filters by tool, outcome, time range and request id', async () => {
+    const sink = new MemoryAuditSink(100);
+    for (let i = 1; i <= 10; i++) sink.write(entry(i));
+
+    expect((await sink.query(query({ toolName: 'upload_files', success: true }))).entries.map(item => item.inputHash))
+      .toEqual(['hash-10', 'hash-8', 'hash-4', 'hash-2']);
+    expect((await sink.query(query({ since: entry(4).timestamp, until: entry(6).timestamp }))).total).toBe(3);
+    expect((await sink.query(query({ requestId: 'request-7' }))).entries).toEqual([entry(7)]);
+
+    const page = await sink.query(query({ limit: 4, offset: 4 }));
+    expect(page.entries.map(item => item.inputHash)).toEqual(['hash-6', 'hash-5', 'hash-4', 'hash-3']);
+    expect(page).toMatchObject({ total: 10, has_more: true });
+  });
+});
+
+describe('JsonlAuditSink', () => {
+  let workDir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    logPath = path.join(workDir, 'logs', 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('appends one line per entry and reads them back newest first', async () => {
+    const sink = new JsonlAuditSink(logPath, 1024 * 1024, 2);
+    for (let i = 1; i <= 3; i++) sink.write(entry(i));
+
+    expect((await fs.readFile(logPath, 'utf8')).trim().split('\n').map(line => JSON.parse(line))).toEqual([entry(1), entry(2), entry(3)]);
+    expect((await sink.query(query({ limit: 2 }))).entries).toEqual([entry(3), entry(2)]);
+  });
+
+  it('rotates when the file would exceed the size limit and keeps at most MAX_FILES rotations', async () => {
+    // Equal-sized lines, two per file
+    const lineSize = Buffer.byteLength(JSON.stringify(entry(1, { success: true })) + '\n');
+    const sink = new JsonlAuditSink(logPath, lineSize * 2, 2);
+    for (let i = 1; i <= 7; i++) sink.write(entry(i, { success: true }));
+
+    expect((await fs.readdir(path.dirname(logPath))).sort()).toEqual(['audit.jsonl', 'audit.jsonl.1', 'audit.jsonl.2']);
+
+    // Entries 1 and 2 were rotated out; the rest are read across the active and rotated files
+    const result = await sink.query(query());
+    expect(result.entries.map(item => item.inputHash)).toEqual(['hash-7', 'hash-6', 'hash-5', 'hash-4', 'hash-3']);
+    expect((await sink.query(query({ limit: 2, offset: 2 })))).toMatchObject({ total: 5, has_more: true });
+  });
+
+  it('continues an existing file and skips partially written lines', async () => {
+    await fs.mkdir(path.dirname(logPath), { recursive: true });
+    await fs.writeFile(logPath, JSON.stringify(entry(1)) + '\n{"timestamp": 17');
+
+    const sink = new JsonlAuditSink(logPath, 1024 * 1024, 2);
+    sink.write(entry(2));
+
+    expect((await sink.query(query())).entries.map(item => item.inputHash)).toEqual(['hash-1']);
+    await fs.appendFile(logPath, '\n');
+    sink.write(entry(3));
+    expect((await sink.query(query())).total).toBe(2);
+  });
+});
+
+describe('SqliteAuditSink', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('stores entries and filters like the other sinks', async () => {
+    const sink = await SqliteAuditSink.open(path.join(workDir, 'logs', 'audit.db'), 100);
+    for (let i = 1; i <= 10; i++) sink.write(entry(i, i === 4 ? { error: 'denied', riskScore: 70 } : {}));
+
+    expect((await sink.query(query({ requestId: 'request-4' }))).entries).toEqual([entry(4, { error: 'denied', riskScore: 70 })]);
+    expect((await sink.query(query({ toolName: 'upload_files', success: true }))).entries.map(item => item.inputHash))
+      .toEqual(['hash-10', 'hash-8', 'hash-4', 'hash-2']);
+    expect((await sink.query(query({ since: entry(4).timestamp, until: entry(6).timestamp }))).total).toBe(3);
+
+    const page = await sink.query(query({ limit: 4, offset: 4 }));
+    expect(page.entries.map(item => item.inputHash)).toEqual(['hash-6', 'hash-5', 'hash-4', 'hash-3']);
+    expect(page).toMatchObject({ total: 10, has_more: true });
+  });
+
+  it('keeps entries across restarts and prunes beyond maxEntries when opened', async () => {
+    const dbPath = path.join(workDir, 'audit.db');
+    const sink = await SqliteAuditSink.open(dbPath, 5);
+    for (let i = 1; i <= 8; i++) sink.write(entry(i));
+
+    const reopened = await SqliteAuditSink.open(dbPath, 5);
+    expect((await reopened.query(query())).entries.map(item => item.inputHash)).toEqual(['hash-8', 'hash-7', 'hash-6', 'hash-5', 'hash-4']);
+  });
+});
+
+describe('initializeAuditLog', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+  });
+
+  afterEach(async () => {
+    await initializeAuditLog({ ...DEFAULT_AUDIT_CONFIG, SINK: 'memory' });
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('carries entries recorded before initialization over to the configured sink', async () => {
+    await initializeAuditLog({ ...DEFAULT_AUDIT_CONFIG, SINK: 'memory' });
+    writeAuditEntry(entry(1));
+
+    const logPath = path.join(workDir, 'audit.jsonl');
+    await initializeAuditLog({ ...DEFAULT_AUDIT_CONFIG, SINK: 'jsonl', LOG_PATH: logPath });
+    writeAuditEntry(entry(2));
+
+    expect((await queryAuditLog()).entries).toEqual([entry(2), entry(1)]);
+    expect((await fs.readFile(logPath, 'utf8')).trim().split('\n')).toHaveLength(2);
+    expect(getAuditSinkInfo()).toMatchObject({ sink: 'jsonl', mirrors: [] });
+  });
+
+  it('keeps relative log paths under DATA_DIR', async () => {
+    const originalDataDir = STORAGE_CONFIG.DATA_DIR;
+    STORAGE_CONFIG.DATA_DIR = workDir;
+    try {
+      await initializeAuditLog({ ...DEFAULT_AUDIT_CONFIG, SINK: 'jsonl', LOG_PATH: 'logs/audit.jsonl' });
+      writeAuditEntry(entry(1));
+
+      expect((await fs.readFile(path.join(workDir, 'logs', 'audit.jsonl'), 'utf8')).trim().split('\n')).toHaveLength(1);
+    } finally {
+      STORAGE_CONFIG.DATA_DIR = originalDataDir;
+    }
+  });
+
+  it('keeps entries in memory when the configured sink cannot be opened', async () => {
+    const blocker = path.join(workDir, 'not-a-directory');
+    await fs.writeFile(blocker, '');
+    await initializeAuditLog({ ...DEFAULT_AUDIT_CONFIG, SINK: 'memory' });
+    writeAuditEntry(entry(1));
+
+    await initializeAuditLog({ ...DEFAULT_AUDIT_CONFIG, SINK: 'jsonl', LOG_PATH: path.join(blocker, 'audit.jsonl') });
+    writeAuditEntry(entry(2));
+
+    expect(getAuditSinkInfo()).toMatchObject({ sink: 'memory' });
+    expect((await queryAuditLog()).entries).toEqual([entry(2), entry(1)]);
+  });
+
+  it('mirrors entries to a Supabase table when one is configured', async () => {
+    const inserted: any[] = [];
+    const supabase = { from: (table: string) => ({ insert: async (row: any) => { inserted.push({ table, ...row }); return { error: null }; } }) };
+
+    await initializeAuditLog({ ...DEFAULT_AUDIT_CONFIG, SINK: 'memory', SUPABASE_TABLE: 'audit_log' }, supabase);
+    writeAuditEntry(entry(1, { error: 'File not found' }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(getAuditSinkInfo().mirrors).toEqual(['supabase']);
+    expect(inserted).toEqual([expect.objectContaining({
+      table: 'audit_log',
+      tool_name: 'delete_files',
+      input_hash: 'hash-1',
+      error: 'File not found',
+      timestamp: new Date(entry(1).timestamp).toISOString()
+    })]);
+  });
+
+  it('clamps the query limit and offset', async () => {
+    await initializeAuditLog({ ...DEFAULT_AUDIT_CONFIG, SINK: 'memory' });
+    for (let i = 1; i <= 3; i++) writeAuditEntry(entry(i));
+
+    expect((await queryAuditLog({ limit: 0, offset: -5 })).entries).toEqual([entry(3)]);
+  });
+});
@@ -0,0 +1,424 @@
+// Audit Module for Supabase Storage MCP
+// Pluggable audit sinks: in-memory, rotating JSONL file, SQLite, and an optional Supabase table mirror
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type BetterSqlite3 from 'better-sqlite3';
+import { AuditConfig, AuditEntry, AuditQuery, AuditQueryResult } from './types.js';
+import { DEFAULT_AUDIT_CONFIG, resolveDataPath } from './config.js';
+import { getErrorMessage } from '../utils/error-handling.js';
+
+export interface AuditSink {
+  readonly name: string;
+  write(entry: AuditEntry): void;
+  query(query: AuditQuery): Promise<AuditQueryResult>;
+  close?(): void;
+}
+
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  return (query.toolName === undefined || entry.toolName === query.toolName) &&
+    (query.success === undefined || entry.success === query.success) &&
+    (query.since === undefined || entry.timestamp >= query.since) &&
+    (query.until === undefined || entry.timestamp <= query.until) &&
+    (query.requestId === undefined || entry.requestId === query.requestId);
+}
+
+/**
+ * Keeps the most recent entries in memory; nothing survives a restart
+ */
+export class MemoryAuditSink implements AuditSink {
+  readonly name = 'memory';
+  private entries: AuditEntry[] = [];
+
+  constructor(private maxEntries: number) {}
+
+  write(entry: AuditEntry): void {
+    this.entries.push(entry);
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  async query(query: AuditQuery): Promise<AuditQueryResult> {
+    const matches = this.entries.filter(entry => matchesQuery(entry, query)).reverse();
+
+    return {
+      entries: matches.slice(query.offset, query.offset + query.limit),
+      total: matches.length,
+      has_more: query.offset + query.limit < matches.length
+    };
+  }
+}
+
+/**
+ * Appends one JSON object per line, rotating to file.1 ... file.N when the active file grows too large
+ */
+export class JsonlAuditSink implements AuditSink {
+  readonly name = 'jsonl';
+  private size: number;
+
+  constructor(private filePath: string, private rotateBytes: number, private maxFiles: number) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  }
+
+  write(entry: AuditEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+
+    if (this.size > 0 && this.size + Buffer.byteLength(line) > this.rotateBytes) {
+      this.rotate();
+    }
+
+    fs.appendFileSync(this.filePath, line, { mode: 0o600 });
+    this.size += Buffer.byteLength(line);
+  }
+
+  private rotate(): void {
+    if (this.maxFiles === 0) {
+      fs.rmSync(this.filePath, { force: true });
+    } else {
+      fs.rmSync(`${this.filePath}.${this.maxFiles}`, { force: true });
+      for (let index = this.maxFiles - 1; index >= 1; index--) {
+        const rotated = `${this.filePath}.${index}`;
+        if (fs.existsSync(rotated)) {
+          fs.renameSync(rotated, `${this.filePath}.${index + 1}`);
+        }
+      }
+      fs.renameSync(this.filePath, `${this.filePath}.1`);
+    }
+
+    this.size = 0;
+  }
+
+  async query(query: AuditQuery): Promise<AuditQueryResult> {
+    // Oldest file first so the window below ends up holding the newest matches
+    const files: string[] = [];
+    for (let index = this.maxFiles; index >= 1; index--) {
+      files.push(`${this.filePath}.${index}`);
+    }
+    files.push(this.filePath);
+
+    const window: AuditEntry[] = [];
+    const windowSize = query.offset + query.limit;
+    let total = 0;
+
+    for (const file of files) {
+      if (!fs.existsSync(file)) continue;
+
+      const lines = readline.createInterface({ input: fs.createReadStream(file, 'utf8'), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue; // Skip a partially written line
+        }
+
+        if (!matchesQuery(entry, query)) continue;
+
+        total++;
+        window.push(entry);
+        if (window.length > windowSize) {
+          window.shift();
+        }
+      }
+    }
+
+    const newestFirst = window.reverse();
+    return {
+      entries: newestFirst.slice(query.offset, query.offset + query.limit),
+      total,
+      has_more: windowSize < total
+    };
+  }
+}
+
+// Values bound by the audit_log INSERT, in column order
+type AuditRow = [number, string, number, string, string | null, string | null, number | null, string | null, string | null];
+
+interface AuditRecord {
+  id: number;
+  timestamp: number;
+  tool_name: string;
+  success: number;
+  input_hash: string;
+  request_id: string | null;
+  error: string | null;
+  risk_score: number | null;
+  security_context: string | null;
+  security_validation: string | null;
+}
+
+/**
+ * Stores entries in a SQLite database via the optional better-sqlite3 dependency, pruning beyond maxEntries
+ */
+export class SqliteAuditSink implements AuditSink {
+  readonly name = 'sqlite';
+  private insert: BetterSqlite3.Statement<AuditRow>;
+  private writesSincePrune = 0;
+
+  private constructor(private db: BetterSqlite3.Database, private maxEntries: number) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        tool_name TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        input_hash TEXT NOT NULL,
+        request_id TEXT,
+        error TEXT,
+        risk_score REAL,
+        security_context TEXT,
+        security_validation TEXT
+      );
+      CREATE INDEX IF NOT EXISTS audit_log_timestamp ON audit_log (timestamp);
+      CREATE INDEX IF NOT EXISTS audit_log_tool_name ON audit_log (tool_name);
+      CREATE INDEX IF NOT EXISTS audit_log_request_id ON audit_log (request_id);
+    `);
+
+    this.insert = db.prepare<AuditRow>(`
+      INSERT INTO audit_log (timestamp, tool_name, success, input_hash, request_id, error, risk_score, security_context, security_validation)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.prune();
+  }
+
+  static async open(filePath: string, maxEntries: number): Promise<SqliteAuditSink> {
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = (await import('better-sqlite3')).default;
+    } catch (error) {
+      throw new Error(`The sqlite audit sink requires the better-sqlite3 package: ${getErrorMessage(error)}`);
+    }
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    return new SqliteAuditSink(new Database(filePath), maxEntries);
+  }
+
+  write(entry: AuditEntry): void {
+    this.insert.run(
+      entry.timestamp,
+      entry.toolName,
+      entry.success ? 1 : 0,
+      entry.inputHash,
+      entry.requestId ?? null,
+      entry.error ?? null,
+      entry.riskScore ?? null,
+      entry.securityContext ? JSON.stringify(entry.securityContext) : null,
+      entry.securityValidation ? JSON.stringify(entry.securityValidation) : null
+    );
+
+    // Prune periodically rather than on every insert
+    if (++this.writesSincePrune >= 1000) {
+      this.prune();
+    }
+  }
+
+  private prune(): void {
+    this.writesSincePrune = 0;
+    this.db.prepare('DELETE FROM audit_log WHERE id <= (SELECT MAX(id) FROM audit_log) - ?').run(this.maxEntries);
+  }
+
+  async query(query: AuditQuery): Promise<AuditQueryResult> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (query.toolName !== undefined) { conditions.push('tool_name = ?'); params.push(query.toolName); }
+    if (query.success !== undefined) { conditions.push('success = ?'); params.push(query.success ? 1 : 0); }
+    if (query.since !== undefined) { conditions.push('timestamp >= ?'); params.push(query.since); }
+    if (query.until !== undefined) { conditions.push('timestamp <= ?'); params.push(query.until); }
+    if (query.requestId !== undefined) { conditions.push('request_id = ?'); params.push(query.requestId); }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { total } = this.db
+      .prepare<Array<string | number>, { total: number }>(`SELECT COUNT(*) AS total FROM audit_log ${where}`)
+      .get(...params)!;
+    const rows = this.db
+      .prepare<Array<string | number>, AuditRecord>(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+      .all(...params, query.limit, query.offset);
+
+    return {
+      entries: rows.map(row => ({
+        timestamp: row.timestamp,
+        toolName: row.tool_name,
+        success: row.success === 1,
+        inputHash: row.input_hash,
+        requestId: row.request_id ?? undefined,
+        error: row.error ?? undefined,
+        riskScore: row.risk_score ?? undefined,
+        securityContext: row.security_context ? JSON.parse(row.security_context) : undefined,
+        securityValidation: row.security_validation ? JSON.parse(row.security_validation) : undefined
+      })),
+      total,
+      has_more: query.offset + query.limit < total
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Inserts entries into a Supabase table. Writes are fire-and-forget so auditing never blocks a tool call.
+ */
+export class SupabaseAuditSink implements AuditSink {
+  readonly name = 'supabase';
+
+  constructor(private supabase: any, private table: string) {}
+
+  write(entry: AuditEntry): void {
+    Promise.resolve(this.supabase.from(this.table).insert({
+      timestamp: new Date(entry.timestamp).toISOString(),
+      tool_name: entry.toolName,
+      success: entry.success,
+      input_hash: entry.inputHash,
+      request_id: entry.requestId ?? null,
+      error: entry.error ?? null,
+      risk_score: entry.riskScore ?? null,
+      security_context: entry.securityContext ?? null,
+      security_validation: entry.securityValidation ?? null
+    })).then(({ error }: any) => {
+      if (error) {
+        console.error(`[AUDIT] Failed to write to Supabase table ${this.table}: ${error.message}`);
+      }
+    }, (error: unknown) => {
+      console.error(`[AUDIT] Failed to write to Supabase table ${this.table}: ${getErrorMessage(error)}`);
+    });
+  }
+
+  async query(query: AuditQuery): Promise<AuditQueryResult> {
+    let request = this.supabase.from(this.table).select('*', { count: 'exact' });
+
+    if (query.toolName !== undefined) request = request.eq('tool_name', query.toolName);
+    if (query.success !== undefined) request = request.eq('success', query.success);
+    if (query.since !== undefined) request = request.gte('timestamp', new Date(query.since).toISOString());
+    if (query.until !== undefined) request = request.lte('timestamp', new Date(query.until).toISOString());
+    if (query.requestId !== undefined) request = request.eq('request_id', query.requestId);
+
+    const { data, count, error } = await request
+      .order('timestamp', { ascending: false })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to query audit table ${this.table}: ${error.message}`);
+    }
+
+    const total = count ?? 0;
+    return {
+      entries: (data || []).map((row: any) => ({
+        timestamp: Date.parse(row.timestamp),
+        toolName: row.tool_name,
+        success: row.success,
+        inputHash: row.input_hash,
+        requestId: row.request_id ?? undefined,
+        error: row.error ?? undefined,
+        riskScore: row.risk_score ?? undefined,
+        securityContext: row.security_context ?? undefined,
+        securityValidation: row.security_validation ?? undefined
+      })),
+      total,
+      has_more: query.offset + query.limit < total
+    };
+  }
+}
+
+// Entries are kept in memory until initializeAuditLog() installs the configured sink
+let activeSink: AuditSink = new MemoryAuditSink(DEFAULT_AUDIT_CONFIG.MAX_ENTRIES);
+let mirrorSinks: AuditSink[] = [];
+let entriesWritten = 0;
+
+/**
+ * Create the primary sink described by the audit configuration
+ */
+export async function createAuditSink(config: AuditConfig): Promise<AuditSink> {
+  switch (config.SINK) {
+    case 'memory':
+      return new MemoryAuditSink(config.MAX_ENTRIES);
+    case 'jsonl':
+      return new JsonlAuditSink(resolveDataPath(config.LOG_PATH || 'audit.jsonl'), config.ROTATE_BYTES, config.MAX_FILES);
+    case 'sqlite':
+      return SqliteAuditSink.open(resolveDataPath(config.LOG_PATH || 'audit.db'), config.MAX_ENTRIES);
+    default:
+      throw new Error(`Unknown audit sink: ${config.SINK}`);
+  }
+}
+
+/**
+ * Install the configured sink, plus the Supabase table mirror when AUDIT_SUPABASE_TABLE is set.
+ * Entries recorded before initialization are carried over to the new sink. A sink that cannot be
+ * opened (e.g. an unwritable LOG_PATH) is reported and replaced by the memory sink.
+ */
+export async function initializeAuditLog(config: AuditConfig, supabase?: any): Promise<AuditSink> {
+  let sink: AuditSink;
+  try {
+    sink = await createAuditSink(config);
+  } catch (error) {
+    console.error(`[AUDIT] Cannot open the ${config.SINK} audit log, keeping entries in memory: ${getErrorMessage(error)}`);
+    sink = new MemoryAuditSink(config.MAX_ENTRIES);
+  }
+
+  if (activeSink instanceof MemoryAuditSink && sink !== activeSink) {
+    const { entries } = await activeSink.query({ limit: MAX_AUDIT_QUERY_LIMIT, offset: 0 });
+    entries.reverse().forEach(entry => sink.write(entry));
+  }
+
+  activeSink.close?.();
+  activeSink = sink;
+  mirrorSinks = config.SUPABASE_TABLE && supabase ? [new SupabaseAuditSink(supabase, config.SUPABASE_TABLE)] : [];
+
+  return sink;
+}
+
+/**
+ * Record an entry in every sink; a failing sink is reported but never fails the calling tool
+ */
+export function writeAuditEntry(entry: AuditEntry): void {
+  entriesWritten++;
+
+  for (const sink of [activeSink, ...mirrorSinks]) {
+    try {
+      sink.write(entry);
+    } catch (error) {
+      console.error(`[AUDIT] Failed to write to ${sink.name} sink: ${getErrorMessage(error)}`);
+    }
+  }
+}
+
+export function queryAuditLog(query: Partial<AuditQuery> = {}): Promise<AuditQueryResult> {
+  return activeSink.query({
+    ...query,
+    limit: Math.min(Math.max(query.limit ?? 100, 1), MAX_AUDIT_QUERY_LIMIT),
+    offset: Math.max(query.offset ?? 0, 0)
+  });
+}
+
+/**
+ * Close every sink on shutdown; entries written afterwards go to memory only
+ */
+export function closeAuditLog(): void {
+  for (const sink of [activeSink, ...mirrorSinks]) {
+    try {
+      sink.close?.();
+    } catch (error) {
+      console.error(`[AUDIT] Failed to close ${sink.name} sink: ${getErrorMessage(error)}`);
+    }
+  }
+
+  activeSink = new MemoryAuditSink(DEFAULT_AUDIT_CONFIG.MAX_ENTRIES);
+  mirrorSinks = [];
+}
+
+export function getAuditSinkInfo() {
+  return {
+    sink: activeSink.name,
+    mirrors: mirrorSinks.map(sink => sink.name),
+    entries_written: entriesWritten
+  };
+}
@@ -0,0 +1,106 @@
+import jwt from 'jsonwebtoken';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SecurityContext } from './types.js';
+import { extractBearerToken, touchSession, verifyAccessToken } from './auth.js';
+
+const SECRET = 'test-jwt-secret-with-enough-length-for-hs256';
+
+const sign = (claims: Record<string, unknown>, options: jwt.SignOptions = { expiresIn: 3600 }, secret = SECRET) =>
+  jwt.sign({ role: 'authenticated', ...claims }, secret, options);
+
+function createContext(sessionId = 'transport-session'): SecurityContext {
+  return {
+    timestamp: new Date().toISOString(),
+    ipAddress: '203.0.113.7',
+    userAgent: 'test-client',
+    sessionId,
+    requestId: 'request-1',
+    method: 'tools/call'
+  };
+}
+
+describe('extractBearerToken', () => {
+  it('reads the token from an Authorization bearer header', () => {
+    expect(extractBearerToken({ authorization: 'Bearer abc.def.ghi' })).toBe('abc.def.ghi');
+    expect(extractBearerToken({ authorization: 'bearer abc' })).toBe('abc');
+    expect(extractBearerToken({ authorization: 'Basic dXNlcjpwYXNz' })).toBeUndefined();
+    expect(extractBearerToken({})).toBeUndefined();
+  });
+});
+
+describe('verifyAccessToken', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the user named by a valid token', () => {
+    const token = sign({ sub: 'user-1', email: 'alice@example.com', session_id: 'auth-session-1' });
+
+    expect(verifyAccessToken(token, SECRET)).toEqual({
+      userId: 'user-1',
+      role: 'authenticated',
+      email: 'alice@example.com',
+      sessionId: 'auth-session-1',
+      expiresAt: new Date((jwt.decode(token) as jwt.JwtPayload).exp! * 1000).toISOString(),
+      token
+    });
+  });
+
+  it('rejects tokens with a bad signature, algorithm or expiry', () => {
+    expect(() => verifyAccessToken(sign({ sub: 'user-1' }, undefined, 'another-secret'), SECRET)).toThrow('Invalid access token: invalid signature');
+    expect(() => verifyAccessToken(sign({ sub: 'user-1' }, { expiresIn: 3600, algorithm: 'HS512' }), SECRET)).toThrow('invalid algorithm');
+    expect(() => verifyAccessToken(sign({ sub: 'user-1' }, { expiresIn: -10 }), SECRET)).toThrow('jwt expired');
+    expect(() => verifyAccessToken('not-a-token', SECRET)).toThrow('Invalid access token: jwt malformed');
+  });
+
+  it('rejects tokens older than JWT_EXPIRY even when exp is later', () => {
+    vi.useFakeTimers();
+    const token = sign({ sub: 'user-1' }, { expiresIn: 24 * 3600 });
+
+    vi.advanceTimersByTime(7201 * 1000);
+    expect(() => verifyAccessToken(token, SECRET)).toThrow('maxAge exceeded');
+  });
+
+  it('requires a user, an expiry and a non-service role', () => {
+    expect(() => verifyAccessToken(sign({}), SECRET)).toThrow('missing sub claim');
+    expect(() => verifyAccessToken(sign({ sub: 'user-1' }, {}), SECRET)).toThrow('missing exp claim');
+    expect(() => verifyAccessToken(sign({ sub: 'user-1', role: 'service_role' }), SECRET)).toThrow('Service role tokens are not accepted');
+  });
+});
+
+describe('touchSession', () => {
+  const user = (userId: string, sessionId?: string) => verifyAccessToken(sign({ sub: userId, session_id: sessionId }), SECRET);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps an active session alive and expires an idle one for good', () => {
+    const alice = user('alice', 'session-active');
+
+    touchSession(alice, createContext());
+    vi.advanceTimersByTime(3000 * 1000);
+    touchSession(alice, createContext());
+    vi.advanceTimersByTime(3000 * 1000);
+    touchSession(alice, createContext());
+
+    vi.advanceTimersByTime(3601 * 1000);
+    const renewed = user('alice', 'session-active');
+    expect(() => touchSession(renewed, createContext())).toThrow('Session expired after 3600 seconds of inactivity');
+    expect(() => touchSession(renewed, createContext())).toThrow('Session expired');
+
+    // A new sign-in gets a new session
+    expect(() => touchSession(user('alice', 'session-new'), createContext())).not.toThrow();
+  });
+
+  it('keys sessions without a session_id claim by the transport session', () => {
+    touchSession(user('alice'), createContext('transport-1'));
+
+    expect(() => touchSession(user('bob'), createContext('transport-1'))).toThrow('Session belongs to a different user');
+    expect(() => touchSession(user('bob'), createContext('transport-2'))).not.toThrow();
+  });
+});
@@ -0,0 +1,120 @@
+// Authentication Module for Supabase Storage MCP
+// Verifies Supabase Auth user JWTs and creates per-user clients so Storage RLS policies apply
+
+import jwt from 'jsonwebtoken';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { AuthenticatedUser, SecurityContext } from './types.js';
+import { SECURITY_CONFIG } from './security.js';
+import { createSecurityError, getErrorMessage } from '../utils/error-handling.js';
+
+interface AuthSession {
+  userId: string;
+  lastSeen: number; // epoch milliseconds
+  expired: boolean;
+}
+
+// Sessions are keyed by the token's session_id claim, or by the transport session when the token has none
+const authSessions = new Map<string, AuthSession>();
+
+// Prune idle sessions every this many authenticated calls
+const SESSION_PRUNE_INTERVAL = 100;
+let callsSincePrune = 0;
+
+export function extractBearerToken(headers: Record<string, string>): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(headers.authorization || '');
+  return match?.[1];
+}
+
+/**
+ * Verify a user access token signed with the project's JWT secret.
+ * Tokens must name a user (sub), carry exp and iat, and be no older than JWT_EXPIRY seconds.
+ */
+export function verifyAccessToken(token: string, jwtSecret: string, securityContext?: SecurityContext): AuthenticatedUser {
+  let claims: jwt.JwtPayload;
+  try {
+    const decoded = jwt.verify(token, jwtSecret, {
+      algorithms: ['HS256'],
+      maxAge: SECURITY_CONFIG.JWT_EXPIRY
+    });
+    if (typeof decoded === 'string') {
+      throw new Error('token payload is not a JSON object');
+    }
+    claims = decoded;
+  } catch (error) {
+    throw createSecurityError(`Invalid access token: ${getErrorMessage(error)}`, 'INVALID_TOKEN', 'medium', securityContext);
+  }
+
+  if (!claims.sub) {
+    throw createSecurityError('Access token does not identify a user (missing sub claim)', 'INVALID_TOKEN', 'medium', securityContext);
+  }
+  if (claims.exp === undefined) {
+    throw createSecurityError('Access token has no expiry (missing exp claim)', 'INVALID_TOKEN', 'medium', securityContext);
+  }
+  if (claims.role === 'service_role') {
+    throw createSecurityError('Service role tokens are not accepted from callers', 'INVALID_TOKEN', 'high', securityContext);
+  }
+
+  return {
+    userId: claims.sub,
+    role: typeof claims.role === 'string' ? claims.role : undefined,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    sessionId: typeof claims.session_id === 'string' ? claims.session_id : undefined,
+    appRole: typeof claims.app_metadata?.role === 'string' ? claims.app_metadata.role : undefined,
+    expiresAt: new Date(claims.exp * 1000).toISOString(),
+    token
+  };
+}
+
+function pruneSessions(now: number): void {
+  const retention = (SECURITY_CONFIG.SESSION_TIMEOUT + SECURITY_CONFIG.JWT_EXPIRY) * 1000;
+  for (const [sessionId, session] of authSessions) {
+    if (now - session.lastSeen > retention) {
+      authSessions.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Record activity on the caller's session. A session idle for longer than SESSION_TIMEOUT stays
+ * expired, so the user has to sign in again; a session never changes hands between users.
+ */
+export function touchSession(user: AuthenticatedUser, securityContext: SecurityContext): void {
+  const now = Date.now();
+  const sessionId = user.sessionId || securityContext.sessionId;
+
+  if (++callsSincePrune >= SESSION_PRUNE_INTERVAL) {
+    callsSincePrune = 0;
+    pruneSessions(now);
+  }
+
+  const session = authSessions.get(sessionId);
+  if (session && session.userId !== user.userId) {
+    throw createSecurityError('Session belongs to a different user', 'SESSION_USER_MISMATCH', 'high', securityContext);
+  }
+  if (session && (session.expired || now - session.lastSeen > SECURITY_CONFIG.SESSION_TIMEOUT * 1000)) {
+    session.expired = true;
+    throw createSecurityError(
+      `Session expired after ${SECURITY_CONFIG.SESSION_TIMEOUT} seconds of inactivity; sign in again`,
+      'SESSION_EXPIRED',
+      'low',
+      securityContext
+    );
+  }
+
+  authSessions.set(sessionId, { userId: user.userId, lastSeen: now, expired: false });
+}
+
+/**
+ * Client that calls Supabase as the user: requests carry the user's JWT, so Storage RLS policies apply
+ */
+export function createUserClient(url: string, anonKey: string, user: AuthenticatedUser): SupabaseClient {
+  return createClient(url, anonKey, {
+    global: {
+      headers: { Authorization: `Bearer ${user.token}` }
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false
+    }
+  });
+}
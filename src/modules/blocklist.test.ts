@@ -0,0 +1,100 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BlockEntry } from './types.js';
+import { addBlock, clearBlocks, getBlock, listBlocks, loadBlockList, removeBlock } from './blocklist.js';
+import { blockIP, blockUser, isIPBlocked, isUserBlocked, resetSecurityState, unblockUser } from './security.js';
+
+const entry = (overrides: Partial<BlockEntry> = {}): BlockEntry => ({
+  type: 'ip',
+  value: '203.0.113.7',
+  reason: 'test',
+  source: 'manual',
+  blocked_at: '2025-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('block list', () => {
+  let workDir: string;
+  let blockListPath: string;
+
+  const saved = async (): Promise<BlockEntry[]> => JSON.parse(await fs.readFile(blockListPath, 'utf8')).blocks;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'blocklist-'));
+    blockListPath = path.join(workDir, 'security', 'blocklist.json');
+    clearBlocks();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    clearBlocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('saves every change once a block list file is loaded', async () => {
+    expect(loadBlockList(blockListPath)).toBe(0);
+
+    addBlock(entry());
+    addBlock(entry({ type: 'user', value: 'mallory' }));
+    expect(await saved()).toEqual([entry(), entry({ type: 'user', value: 'mallory' })]);
+
+    expect(removeBlock('ip', '203.0.113.7')).toBe(true);
+    expect(removeBlock('ip', '203.0.113.7')).toBe(false);
+    expect(await saved()).toEqual([entry({ type: 'user', value: 'mallory' })]);
+  });
+
+  it('restores saved blocks and drops expired and malformed entries', async () => {
+    await fs.mkdir(path.dirname(blockListPath), { recursive: true });
+    await fs.writeFile(blockListPath, JSON.stringify({
+      blocks: [
+        entry(),
+        entry({ value: '198.51.100.1', expires_at: '2000-01-01T00:00:00.000Z' }),
+        entry({ type: 'device' as BlockEntry['type'] }),
+        null
+      ]
+    }));
+
+    expect(loadBlockList(blockListPath)).toBe(1);
+    expect(getBlock('ip', '203.0.113.7')).toEqual(entry());
+    expect(getBlock('ip', '198.51.100.1')).toBeUndefined();
+  });
+
+  it('rejects a block list file that is not JSON', async () => {
+    await fs.mkdir(path.dirname(blockListPath), { recursive: true });
+    await fs.writeFile(blockListPath, '{ blocks: ');
+
+    expect(() => loadBlockList(blockListPath)).toThrow(`Cannot read block list ${blockListPath}`);
+  });
+
+  it('expires temporary blocks', () => {
+    vi.useFakeTimers();
+    loadBlockList(blockListPath);
+
+    blockIP('203.0.113.7', 'rapid requests', 60, 'auto');
+    blockUser('mallory', 'abuse');
+    expect(listBlocks().map(block => [block.type, block.source, block.expires_at])).toEqual([
+      ['ip', 'auto', new Date(Date.now() + 60000).toISOString()],
+      ['user', 'manual', undefined]
+    ]);
+
+    vi.advanceTimersByTime(61000);
+    expect(isIPBlocked('203.0.113.7')).toBe(false);
+    expect(isUserBlocked('mallory')).toBe(true);
+    expect(listBlocks('ip')).toEqual([]);
+
+    expect(unblockUser('mallory')).toBe(true);
+    expect(isUserBlocked('mallory')).toBe(false);
+  });
+
+  it('keeps the block list across a security state reset only when asked', () => {
+    blockUser('mallory', 'abuse');
+
+    resetSecurityState({ keepBlockList: true });
+    expect(isUserBlocked('mallory')).toBe(true);
+
+    resetSecurityState();
+    expect(isUserBlocked('mallory')).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+// Block List Module for Supabase Storage MCP
+// Blocked IP addresses and user ids with optional expiry, persisted to disk so blocks survive restarts
+
+import fs from 'fs';
+import path from 'path';
+import { BlockEntry, BlockType } from './types.js';
+import { getErrorMessage } from '../utils/error-handling.js';
+
+const blocks = new Map<string, BlockEntry>();
+
+// File the block list is saved to; unset until loadBlockList() is called
+let blockListPath: string | undefined;
+
+function blockKey(type: BlockType, value: string): string {
+  return `${type}:${value}`;
+}
+
+function isExpired(entry: BlockEntry, now: number = Date.now()): boolean {
+  return entry.expires_at !== undefined && Date.parse(entry.expires_at) <= now;
+}
+
+/**
+ * Write the block list atomically; failures are reported but never break the caller
+ */
+function persist(): void {
+  if (!blockListPath) return;
+
+  try {
+    fs.mkdirSync(path.dirname(blockListPath), { recursive: true });
+    fs.writeFileSync(`${blockListPath}.tmp`, JSON.stringify({ blocks: [...blocks.values()] }, null, 2), { mode: 0o600 });
+    fs.renameSync(`${blockListPath}.tmp`, blockListPath);
+  } catch (error) {
+    console.error(`[SECURITY] Failed to save block list to ${blockListPath}: ${getErrorMessage(error)}`);
+  }
+}
+
+function pruneExpired(): void {
+  const now = Date.now();
+  let changed = false;
+
+  for (const [key, entry] of blocks) {
+    if (isExpired(entry, now)) {
+      blocks.delete(key);
+      changed = true;
+    }
+  }
+
+  if (changed) persist();
+}
+
+/**
+ * Load the persisted block list and save future changes to the same file
+ */
+export function loadBlockList(filePath: string): number {
+  blockListPath = filePath;
+
+  if (fs.existsSync(filePath)) {
+    let saved: { blocks?: BlockEntry[] };
+    try {
+      saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Cannot read block list ${filePath}: ${getErrorMessage(error)}`);
+    }
+
+    for (const entry of saved.blocks || []) {
+      if (entry && (entry.type === 'ip' || entry.type === 'user') && typeof entry.value === 'string' && !isExpired(entry)) {
+        blocks.set(blockKey(entry.type, entry.value), entry);
+      }
+    }
+  }
+
+  return blocks.size;
+}
+
+export function addBlock(entry: BlockEntry): BlockEntry {
+  blocks.set(blockKey(entry.type, entry.value), entry);
+  persist();
+  return entry;
+}
+
+export function removeBlock(type: BlockType, value: string): boolean {
+  const removed = blocks.delete(blockKey(type, value));
+  if (removed) persist();
+  return removed;
+}
+
+export function getBlock(type: BlockType, value: string): BlockEntry | undefined {
+  const entry = blocks.get(blockKey(type, value));
+  if (entry && isExpired(entry)) {
+    pruneExpired();
+    return undefined;
+  }
+  return entry;
+}
+
+export function listBlocks(type?: BlockType): BlockEntry[] {
+  pruneExpired();
+  return [...blocks.values()].filter(entry => !type || entry.type === type);
+}
+
+export function clearBlocks(): void {
+  blocks.clear();
+  persist();
+}
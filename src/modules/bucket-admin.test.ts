@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '../../test/memory-storage.js';
+import {
+  CONFIRMATION_TOKEN_TTL,
+  consumeConfirmationToken,
+  deleteBucket,
+  emptyBucket,
+  getBucket,
+  issueConfirmationToken,
+  listBuckets,
+  updateBucket
+} from './bucket-admin.js';
+
+describe('confirmation tokens', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('can be redeemed once, for the operation, bucket and caller they were issued for', () => {
+    const { token } = issueConfirmationToken('empty', 'storage-images', 'alice');
+
+    expect(consumeConfirmationToken(token, 'empty', 'storage-images', 'alice')).toMatchObject({ operation: 'empty', force: false });
+    expect(() => consumeConfirmationToken(token, 'empty', 'storage-images', 'alice')).toThrow('Confirmation token is invalid or expired');
+  });
+
+  it('are spent by a mismatched redemption', () => {
+    for (const [operation, bucket, caller] of [['delete', 'storage-images', 'alice'], ['empty', 'storage-exports', 'alice'], ['empty', 'storage-images', 'bob']] as const) {
+      const { token } = issueConfirmationToken('empty', 'storage-images', 'alice');
+
+      expect(() => consumeConfirmationToken(token, operation, bucket, caller)).toThrow('issued for a different operation, bucket or caller');
+      expect(() => consumeConfirmationToken(token, 'empty', 'storage-images', 'alice')).toThrow('invalid or expired');
+    }
+  });
+
+  it('expire after the TTL', () => {
+    vi.useFakeTimers();
+    const { token, expiresAt } = issueConfirmationToken('delete', 'storage-images', undefined, true);
+
+    expect(expiresAt).toBe(new Date(Date.now() + CONFIRMATION_TOKEN_TTL * 1000).toISOString());
+    vi.advanceTimersByTime(CONFIRMATION_TOKEN_TTL * 1000);
+    expect(() => consumeConfirmationToken(token, 'delete', 'storage-images', undefined)).toThrow('invalid or expired');
+  });
+});
+
+describe('bucket administration', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    await storage.storage.createBucket('storage-images', { public: true, allowedMimeTypes: ['image/png'] });
+    storage.put('storage-images', 'a.png');
+    storage.put('storage-images', 'nested/b.png');
+  });
+
+  it('lists and inspects buckets', async () => {
+    await storage.storage.createBucket('storage-exports', { fileSizeLimit: 1024 });
+
+    expect((await listBuckets(storage)).map(bucket => [bucket.name, bucket.public, bucket.file_size_limit])).toEqual([
+      ['storage-exports', false, 1024],
+      ['storage-images', true, undefined]
+    ]);
+    expect(await getBucket(storage, 'storage-images')).toMatchObject({ allowed_mime_types: ['image/png'] });
+    await expect(getBucket(storage, 'missing')).rejects.toThrow('Failed to get bucket missing: Bucket not found');
+  });
+
+  it('updates only the settings given', async () => {
+    const result = await updateBucket(storage, 'storage-images', { fileSizeLimit: 2048 });
+
+    expect(result.security_configuration).toMatchObject({ public: true, file_size_limit: 2048, allowed_mime_types: ['image/png'] });
+
+    await updateBucket(storage, 'storage-images', { public: false, allowedMimeTypes: null });
+    expect(await getBucket(storage, 'storage-images')).toMatchObject({ public: false, file_size_limit: 2048, allowed_mime_types: undefined });
+  });
+
+  it('previews emptying a bucket and empties it with the confirmation token', async () => {
+    const preview = await emptyBucket(storage, 'storage-images', undefined, 'alice');
+
+    expect(preview).toMatchObject({ success: false, confirmation_required: true, object_count: 2, object_count_truncated: false });
+    expect(preview.message).toMatch(/^Emptying storage-images will permanently delete 2 objects\. Call again/);
+    expect(storage.paths('storage-images')).toHaveLength(2);
+
+    await expect(emptyBucket(storage, 'storage-images', preview.confirmation_token, 'bob')).rejects.toThrow('different operation, bucket or caller');
+    const retry = await emptyBucket(storage, 'storage-images', undefined, 'alice');
+    expect(await emptyBucket(storage, 'storage-images', retry.confirmation_token, 'alice')).toMatchObject({ success: true });
+    expect(storage.paths('storage-images')).toEqual([]);
+  });
+
+  it('deletes a bucket with objects only when the confirmed preview used force', async () => {
+    const preview = await deleteBucket(storage, 'storage-images', undefined, 'alice');
+    expect(preview.message).toContain('still contains 2 objects; empty it first or pass force: true');
+    await expect(deleteBucket(storage, 'storage-images', preview.confirmation_token, 'alice')).rejects.toThrow('is not empty');
+
+    // force is taken from the preview, not from the confirming call
+    const forced = await deleteBucket(storage, 'storage-images', undefined, 'alice', true);
+    expect(forced.message).toContain('will permanently remove the bucket and 2 objects');
+    expect(await deleteBucket(storage, 'storage-images', forced.confirmation_token, 'alice')).toMatchObject({
+      success: true,
+      message: 'Deleted bucket storage-images'
+    });
+    expect(await listBuckets(storage)).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+// Bucket Administration Module for Supabase Storage MCP
+// Lists, inspects and updates buckets; emptying and deleting require a confirmation token from a preview call
+
+import {
+  BucketInfo,
+  BucketOperationResult,
+  BucketUpdateOptions,
+  DestructiveBucketOperation
+} from './types.js';
+import { SECURITY_CONFIG, generateSecureId } from './security.js';
+import { walkObjects } from './file-operations.js';
+import { createSecurityError } from '../utils/error-handling.js';
+
+// Seconds a confirmation token stays valid
+export const CONFIRMATION_TOKEN_TTL = 300;
+
+// Objects counted when previewing a destructive operation
+const PREVIEW_OBJECT_LIMIT = 1000;
+
+interface PendingConfirmation {
+  operation: DestructiveBucketOperation;
+  bucketName: string;
+  caller?: string;
+  force: boolean;
+  expiresAt: number; // epoch milliseconds
+}
+
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+function pruneConfirmations(now: number): void {
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) {
+      pendingConfirmations.delete(token);
+    }
+  }
+}
+
+/**
+ * Issue a single-use token authorizing one destructive operation on one bucket, for the same caller
+ */
+export function issueConfirmationToken(
+  operation: DestructiveBucketOperation,
+  bucketName: string,
+  caller: string | undefined,
+  force: boolean = false
+): { token: string; expiresAt: string } {
+  const now = Date.now();
+  pruneConfirmations(now);
+
+  const token = generateSecureId(24);
+  const expiresAt = now + CONFIRMATION_TOKEN_TTL * 1000;
+  pendingConfirmations.set(token, { operation, bucketName, caller, force, expiresAt });
+
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Redeem a confirmation token; it is removed whether or not it matches
+ */
+export function consumeConfirmationToken(
+  token: string,
+  operation: DestructiveBucketOperation,
+  bucketName: string,
+  caller: string | undefined
+): PendingConfirmation {
+  const pending = pendingConfirmations.get(token);
+  pendingConfirmations.delete(token);
+
+  if (!pending || pending.expiresAt <= Date.now()) {
+    throw createSecurityError('Confirmation token is invalid or expired; request a new one', 'INVALID_CONFIRMATION', 'medium');
+  }
+  if (pending.operation !== operation || pending.bucketName !== bucketName || pending.caller !== caller) {
+    throw createSecurityError(
+      `Confirmation token was issued for a different operation, bucket or caller`,
+      'INVALID_CONFIRMATION',
+      'high'
+    );
+  }
+
+  return pending;
+}
+
+function toBucketInfo(bucket: any): BucketInfo {
+  return {
+    id: bucket.id,
+    name: bucket.name,
+    public: bucket.public,
+    file_size_limit: bucket.file_size_limit ?? undefined,
+    allowed_mime_types: bucket.allowed_mime_types ?? undefined,
+    created_at: bucket.created_at,
+    updated_at: bucket.updated_at
+  };
+}
+
+function buildResult(bucket: BucketInfo | undefined, bucketName: string, message: string): BucketOperationResult {
+  return {
+    success: true,
+    message,
+    bucket_name: bucketName,
+    security_configuration: bucket && {
+      public: bucket.public,
+      file_size_limit: bucket.file_size_limit,
+      allowed_mime_types: bucket.allowed_mime_types,
+      audit_logging_enabled: SECURITY_CONFIG.ENABLE_AUDIT_LOGGING,
+      threat_detection_enabled: SECURITY_CONFIG.ENABLE_THREAT_DETECTION
+    },
+    operation_id: generateSecureId(16),
+    timestamp: new Date().toISOString()
+  };
+}
+
+export async function listBuckets(supabase: any): Promise<BucketInfo[]> {
+  const { data, error } = await supabase.storage.listBuckets();
+  if (error) {
+    throw new Error(`Failed to list buckets: ${error.message}`);
+  }
+
+  return (data || []).map(toBucketInfo);
+}
+
+export async function getBucket(supabase: any, bucketName: string): Promise<BucketInfo> {
+  const { data, error } = await supabase.storage.getBucket(bucketName);
+  if (error || !data) {
+    throw new Error(`Failed to get bucket ${bucketName}: ${error?.message || 'not found'}`);
+  }
+
+  return toBucketInfo(data);
+}
+
+/**
+ * Change a bucket's public flag, size limit or allowed MIME types; unspecified settings are kept
+ */
+export async function updateBucket(
+  supabase: any,
+  bucketName: string,
+  options: BucketUpdateOptions
+): Promise<BucketOperationResult> {
+  const current = await getBucket(supabase, bucketName);
+
+  const { error } = await supabase.storage.updateBucket(bucketName, {
+    public: options.public ?? current.public,
+    fileSizeLimit: options.fileSizeLimit !== undefined ? options.fileSizeLimit : current.file_size_limit ?? null,
+    allowedMimeTypes: options.allowedMimeTypes !== undefined ? options.allowedMimeTypes : current.allowed_mime_types ?? null
+  });
+  if (error) {
+    throw new Error(`Failed to update bucket ${bucketName}: ${error.message}`);
+  }
+
+  const updated = await getBucket(supabase, bucketName);
+  return buildResult(updated, bucketName, `Updated bucket ${bucketName}`);
+}
+
+/**
+ * Describe what a destructive operation would remove and issue the token that confirms it
+ */
+async function previewDestructiveOperation(
+  supabase: any,
+  operation: DestructiveBucketOperation,
+  bucketName: string,
+  caller: string | undefined,
+  force: boolean
+): Promise<BucketOperationResult> {
+  const bucket = await getBucket(supabase, bucketName);
+  const { objects, truncated } = await walkObjects(supabase, bucketName, '', {
+    maxDepth: Infinity,
+    limit: PREVIEW_OBJECT_LIMIT
+  });
+  const { token, expiresAt } = issueConfirmationToken(operation, bucketName, caller, force);
+
+  const count = `${objects.length}${truncated ? '+' : ''} object${objects.length === 1 && !truncated ? '' : 's'}`;
+  const message = operation === 'empty'
+    ? `Emptying ${bucketName} will permanently delete ${count}.`
+    : objects.length > 0 && !force
+      ? `${bucketName} still contains ${count}; empty it first or pass force: true to delete them with the bucket.`
+      : `Deleting ${bucketName} will permanently remove the bucket${objects.length > 0 ? ` and ${count}` : ''}.`;
+
+  return {
+    ...buildResult(bucket, bucketName, `${message} Call again with confirmation_token within ${CONFIRMATION_TOKEN_TTL} seconds to proceed.`),
+    success: false,
+    confirmation_required: true,
+    confirmation_token: token,
+    confirmation_expires_at: expiresAt,
+    object_count: objects.length,
+    object_count_truncated: truncated
+  };
+}
+
+/**
+ * Delete every object in a bucket. Without a confirmation token this only previews.
+ */
+export async function emptyBucket(
+  supabase: any,
+  bucketName: string,
+  confirmationToken: string | undefined,
+  caller: string | undefined
+): Promise<BucketOperationResult> {
+  if (!confirmationToken) {
+    return previewDestructiveOperation(supabase, 'empty', bucketName, caller, false);
+  }
+
+  consumeConfirmationToken(confirmationToken, 'empty', bucketName, caller);
+
+  const { error } = await supabase.storage.emptyBucket(bucketName);
+  if (error) {
+    throw new Error(`Failed to empty bucket ${bucketName}: ${error.message}`);
+  }
+
+  return buildResult(await getBucket(supabase, bucketName), bucketName, `Emptied bucket ${bucketName}`);
+}
+
+/**
+ * Delete a bucket, emptying it first when the confirmed preview was made with force.
+ * Without a confirmation token this only previews.
+ */
+export async function deleteBucket(
+  supabase: any,
+  bucketName: string,
+  confirmationToken: string | undefined,
+  caller: string | undefined,
+  force: boolean = false
+): Promise<BucketOperationResult> {
+  if (!confirmationToken) {
+    return previewDestructiveOperation(supabase, 'delete', bucketName, caller, force);
+  }
+
+  const confirmed = consumeConfirmationToken(confirmationToken, 'delete', bucketName, caller);
+  const bucket = await getBucket(supabase, bucketName);
+
+  if (confirmed.force) {
+    const { error } = await supabase.storage.emptyBucket(bucketName);
+    if (error) {
+      throw new Error(`Failed to empty bucket ${bucketName} before deletion: ${error.message}`);
+    }
+  }
+
+  const { error } = await supabase.storage.deleteBucket(bucketName);
+  if (error) {
+    throw new Error(`Failed to delete bucket ${bucketName}: ${error.message}`);
+  }
+
+  return buildResult(bucket, bucketName, `Deleted bucket ${bucketName}`);
+}
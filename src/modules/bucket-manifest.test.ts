@@ -0,0 +1,160 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryStorage } from '../../test/memory-storage.js';
+import { BucketManifest } from './types.js';
+import { SECURITY_CONFIG } from './security.js';
+import {
+  FOLDER_PLACEHOLDER,
+  applyBuckets,
+  getDefaultManifest,
+  getManifestFolderPaths,
+  loadBucketManifest,
+  parseBucketManifest,
+  planBuckets,
+  resolveBucketManifest,
+  setBucketManifest
+} from './bucket-manifest.js';
+
+const MANIFEST: BucketManifest = {
+  defaults: { public: false, file_size_limit: 1024 },
+  buckets: [
+    { name: 'team-images', allowed_mime_types: ['image/png', 'image/jpeg'], folders: ['original/{user_id}', 'shared'] },
+    { name: 'team-exports', public: true, allowed_mime_types: null }
+  ]
+};
+
+describe('parseBucketManifest', () => {
+  it('accepts objects and YAML or JSON text', () => {
+    expect(parseBucketManifest(MANIFEST, 'test')).toEqual(MANIFEST);
+    expect(parseBucketManifest('buckets:\n  - name: team-images\n    public: true\n', 'test')).toEqual({
+      buckets: [{ name: 'team-images', public: true }]
+    });
+  });
+
+  it('reports every invalid setting with its location', () => {
+    expect(() => parseBucketManifest({ buckets: [{ name: 'Team_Images', folders: ['../up'] }] }, 'test')).toThrow(
+      /Invalid bucket manifest from test:\n {2}- buckets\.0\.folders\.0: Folder must be relative.*\n {2}- buckets\.0\.name: Invalid bucket name/
+    );
+    expect(() => parseBucketManifest({ buckets: [{ name: 'abc' }, { name: 'abc' }] }, 'test')).toThrow('Bucket names must be unique');
+    expect(() => parseBucketManifest({ buckets: [{ name: 'abc', bucket_size: 1 }] }, 'test')).toThrow('Unrecognized key');
+    expect(() => parseBucketManifest('buckets: [', 'test')).toThrow('Cannot parse bucket manifest from test');
+  });
+});
+
+describe('loadBucketManifest', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bucket-manifest-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('reads JSON and YAML manifest files', async () => {
+    const jsonFile = path.join(workDir, 'buckets.json');
+    await fs.writeFile(jsonFile, JSON.stringify(MANIFEST));
+    await expect(loadBucketManifest(jsonFile)).resolves.toEqual(MANIFEST);
+
+    const yamlFile = path.join(workDir, 'buckets.yaml');
+    await fs.writeFile(yamlFile, 'buckets:\n  - name: team-images\n');
+    await expect(loadBucketManifest(yamlFile)).resolves.toEqual({ buckets: [{ name: 'team-images' }] });
+
+    await expect(loadBucketManifest(path.join(workDir, 'missing.yaml'))).rejects.toThrow('Cannot read bucket manifest');
+  });
+});
+
+describe('resolveBucketManifest', () => {
+  afterEach(() => {
+    setBucketManifest(undefined);
+  });
+
+  it('prefers the argument, then the configured manifest, then the standard layout', () => {
+    expect(resolveBucketManifest(undefined)).toEqual(getDefaultManifest());
+
+    setBucketManifest(MANIFEST);
+    expect(resolveBucketManifest(undefined)).toBe(MANIFEST);
+    expect(resolveBucketManifest({ buckets: [{ name: 'other-bucket' }] })).toEqual({ buckets: [{ name: 'other-bucket' }] });
+  });
+
+  it('names the standard buckets after the base name', () => {
+    expect(getDefaultManifest('acme').buckets.map(bucket => bucket.name)).toEqual(['acme-images', 'acme-exports']);
+  });
+});
+
+describe('getManifestFolderPaths', () => {
+  it('lists the placeholder objects for the caller, skipping per-user folders without one', () => {
+    expect(getManifestFolderPaths(MANIFEST, 'alice')).toEqual([`original/alice/${FOLDER_PLACEHOLDER}`, `shared/${FOLDER_PLACEHOLDER}`]);
+    expect(getManifestFolderPaths(MANIFEST, undefined)).toEqual([`shared/${FOLDER_PLACEHOLDER}`]);
+  });
+});
+
+describe('planBuckets and applyBuckets', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  it('plans creating missing buckets and folders', async () => {
+    await storage.storage.createBucket('legacy-bucket');
+    const plan = await planBuckets(storage, MANIFEST, 'alice');
+
+    expect(plan.buckets[0]).toEqual({
+      bucket_name: 'team-images',
+      action: 'create',
+      changes: [],
+      desired: { public: false, file_size_limit: 1024, allowed_mime_types: ['image/png', 'image/jpeg'] },
+      missing_folders: ['original/alice', 'shared'],
+      skipped_folders: []
+    });
+    expect(plan.unmanaged_buckets).toEqual(['legacy-bucket']);
+    expect(plan).toMatchObject({ has_changes: true, summary: { create: 2, update: 0, unchanged: 0, folders: 2 } });
+
+    expect((await planBuckets(storage, MANIFEST)).buckets[0]).toMatchObject({ missing_folders: ['shared'], skipped_folders: ['original/{user_id}'] });
+    expect(storage.paths('team-images')).toEqual([]);
+  });
+
+  it('applies the plan and is then unchanged', async () => {
+    const result = await applyBuckets(storage, MANIFEST, 'alice');
+
+    expect(result).toMatchObject({ success_count: 2, error_count: 0 });
+    expect(result.applied[0].folders_created).toEqual(['original/alice', 'shared']);
+    expect(storage.bucketSettings.get('team-exports')).toMatchObject({ public: true, file_size_limit: 1024, allowed_mime_types: null });
+    expect(storage.get('team-images', `shared/${FOLDER_PLACEHOLDER}`)!.contentType).toBe('image/png');
+
+    const plan = await planBuckets(storage, MANIFEST, 'alice');
+    expect(plan).toMatchObject({ has_changes: false, summary: { create: 0, update: 0, unchanged: 2, folders: 0 } });
+  });
+
+  it('updates drifted settings and reports per-bucket failures', async () => {
+    await applyBuckets(storage, MANIFEST, 'alice');
+    await storage.storage.updateBucket('team-images', { public: true, allowedMimeTypes: ['image/jpeg', 'image/png'] });
+    await storage.storage.updateBucket('team-exports', { fileSizeLimit: 99 });
+
+    const plan = await planBuckets(storage, MANIFEST, 'alice');
+    // MIME type order does not count as drift
+    expect(plan.buckets.map(entry => entry.changes)).toEqual([
+      [{ setting: 'public', current: true, desired: false }],
+      [{ setting: 'file_size_limit', current: 99, desired: 1024 }]
+    ]);
+
+    storage.failWith = (operation, bucket) => operation === 'updateBucket' && bucket === 'team-exports' ? 'permission denied' : undefined;
+    const result = await applyBuckets(storage, MANIFEST, 'alice');
+    expect(result.applied.map(entry => [entry.bucket_name, entry.success, entry.error])).toEqual([
+      ['team-images', true, undefined],
+      ['team-exports', false, 'Failed to update bucket: permission denied']
+    ]);
+    expect(storage.bucketSettings.get('team-images')!.public).toBe(false);
+  });
+
+  it('fills unset settings from the server configuration', async () => {
+    const plan = await planBuckets(storage, { buckets: [{ name: 'storage-images' }] });
+
+    expect(plan.buckets[0].desired).toMatchObject({ public: false, file_size_limit: SECURITY_CONFIG.MAX_FILE_SIZE });
+    expect(plan.buckets[0].desired.allowed_mime_types).toContain('image/png');
+  });
+});
@@ -0,0 +1,328 @@
+// Bucket Manifest Module for Supabase Storage MCP
+// Declarative bucket provisioning: compare a manifest with the live buckets (plan) and reconcile them (apply)
+
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import {
+  BucketApplyResult,
+  BucketManifest,
+  BucketManifestEntry,
+  BucketPlan,
+  BucketPlanEntry,
+  BucketSettingChange
+} from './types.js';
+import { SECURITY_CONFIG } from './security.js';
+import { STORAGE_CONFIG } from './config.js';
+import { getAllowedMimeTypesForBucket } from './file-upload.js';
+import { listBuckets } from './bucket-admin.js';
+import { createValidationError, getErrorMessage } from '../utils/error-handling.js';
+
+const USER_ID_PLACEHOLDER = '{user_id}';
+
+// Object that makes an empty folder visible, the same name the Supabase dashboard uses
+export const FOLDER_PLACEHOLDER = '.emptyFolderPlaceholder';
+
+const folderPath = z.string()
+  .min(1)
+  .max(512)
+  .refine(value => !value.startsWith('/') && !value.split('/').includes('..'), 'Folder must be relative and must not contain ".."');
+
+const BucketSettingsSchema = z.object({
+  public: z.boolean().optional(),
+  file_size_limit: z.number().int().positive().nullable().optional(),
+  allowed_mime_types: z.array(z.string().regex(/^[a-z0-9.+-]+\/(\*|[a-z0-9.+-]+)$/i, 'Invalid MIME type')).nullable().optional(),
+  folders: z.array(folderPath).optional()
+}).strict();
+
+const BucketManifestSchema = z.object({
+  defaults: BucketSettingsSchema.optional(),
+  buckets: z.array(BucketSettingsSchema.extend({
+    name: z.string().regex(/^[a-z0-9][a-z0-9-]*[a-z0-9]$/, 'Invalid bucket name').min(3).max(63)
+  }).strict()).min(1)
+}).strict().refine(
+  manifest => new Set(manifest.buckets.map(bucket => bucket.name)).size === manifest.buckets.length,
+  { message: 'Bucket names must be unique', path: ['buckets'] }
+);
+
+// Manifest from BUCKET_MANIFEST, loaded at startup
+let configuredManifest: BucketManifest | undefined;
+
+/**
+ * Validate a manifest given as an object or as JSON/YAML text
+ */
+export function parseBucketManifest(raw: unknown, source: string): BucketManifest {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = YAML.parse(raw);
+    } catch (error) {
+      throw createValidationError(`Cannot parse bucket manifest from ${source}: ${getErrorMessage(error)}`, 'manifest', raw, 'yaml', 'bucket manifest');
+    }
+  }
+
+  const parsed = BucketManifestSchema.safeParse(value);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `  - ${issue.path.join('.') || 'root'}: ${issue.message}`);
+    throw createValidationError(
+      `Invalid bucket manifest from ${source}:\n${issues.join('\n')}`,
+      'manifest',
+      source,
+      parsed.error.issues[0]?.code || 'invalid',
+      'bucket manifest'
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Read and validate a JSON or YAML manifest file
+ */
+export async function loadBucketManifest(manifestFile: string): Promise<BucketManifest> {
+  let content: string;
+  try {
+    content = await fs.readFile(manifestFile, 'utf8');
+  } catch (error) {
+    throw createValidationError(
+      `Cannot read bucket manifest ${manifestFile}: ${getErrorMessage(error)}`,
+      'BUCKET_MANIFEST',
+      manifestFile,
+      'readable',
+      'bucket manifest'
+    );
+  }
+
+  const raw = path.extname(manifestFile).toLowerCase() === '.json' ? safeJsonParse(content) : content;
+  return parseBucketManifest(raw, manifestFile);
+}
+
+function safeJsonParse(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    // Let parseBucketManifest report the syntax error
+    return content;
+  }
+}
+
+export function setBucketManifest(manifest: BucketManifest | undefined): void {
+  configuredManifest = manifest;
+}
+
+/**
+ * The standard images/exports layout that setup_buckets provisions
+ */
+export function getDefaultManifest(baseBucketName?: string): BucketManifest {
+  return {
+    buckets: [
+      {
+        name: baseBucketName ? `${baseBucketName}-images` : STORAGE_CONFIG.IMAGES_BUCKET,
+        folders: [`original/${USER_ID_PLACEHOLDER}`, `processed/${USER_ID_PLACEHOLDER}`]
+      },
+      {
+        name: baseBucketName ? `${baseBucketName}-exports` : STORAGE_CONFIG.EXPORTS_BUCKET,
+        folders: [USER_ID_PLACEHOLDER]
+      }
+    ]
+  };
+}
+
+/**
+ * The manifest a tool call works on: the manifest argument, BUCKET_MANIFEST, or the standard layout
+ */
+export function resolveBucketManifest(manifestArg: unknown): BucketManifest {
+  if (manifestArg !== undefined) {
+    return parseBucketManifest(manifestArg, 'the manifest argument');
+  }
+  return configuredManifest || getDefaultManifest();
+}
+
+function resolveFolders(folders: string[], userId: string | undefined): { folders: string[]; skipped: string[] } {
+  const resolved: string[] = [];
+  const skipped: string[] = [];
+
+  for (const folder of folders) {
+    if (folder.includes(USER_ID_PLACEHOLDER) && !userId) {
+      skipped.push(folder);
+      continue;
+    }
+    resolved.push(folder.split(USER_ID_PLACEHOLDER).join(userId || '').replace(/\/+$/, ''));
+  }
+
+  return { folders: resolved, skipped };
+}
+
+/**
+ * Storage paths apply_buckets would write, used by authorization policies
+ */
+export function getManifestFolderPaths(manifest: BucketManifest, userId: string | undefined): string[] {
+  return manifest.buckets.flatMap(entry =>
+    resolveFolders(entry.folders ?? manifest.defaults?.folders ?? [], userId).folders.map(folder => `${folder}/${FOLDER_PLACEHOLDER}`)
+  );
+}
+
+function getDesiredSettings(entry: BucketManifestEntry, defaults: BucketManifest['defaults']): BucketPlanEntry['desired'] {
+  return {
+    public: entry.public ?? defaults?.public ?? false,
+    file_size_limit: entry.file_size_limit !== undefined
+      ? entry.file_size_limit
+      : defaults?.file_size_limit !== undefined ? defaults.file_size_limit : SECURITY_CONFIG.MAX_FILE_SIZE,
+    allowed_mime_types: entry.allowed_mime_types !== undefined
+      ? entry.allowed_mime_types
+      : defaults?.allowed_mime_types !== undefined ? defaults.allowed_mime_types : getAllowedMimeTypesForBucket(entry.name)
+  };
+}
+
+function sameMimeTypes(current: string[] | null, desired: string[] | null): boolean {
+  if (!current || !desired) return current === desired;
+  const desiredSet = new Set(desired);
+  return current.length === desiredSet.size && current.every(type => desiredSet.has(type));
+}
+
+async function folderExists(supabase: any, bucketName: string, folder: string): Promise<boolean> {
+  const { data, error } = await supabase.storage.from(bucketName).list(folder, { limit: 1 });
+  if (error) {
+    throw new Error(`Failed to list ${bucketName}/${folder}: ${error.message}`);
+  }
+  return (data || []).length > 0;
+}
+
+/**
+ * Compare the manifest with the live buckets without changing anything
+ */
+export async function planBuckets(supabase: any, manifest: BucketManifest, userId?: string): Promise<BucketPlan> {
+  const live = new Map((await listBuckets(supabase)).map(bucket => [bucket.name, bucket]));
+  const entries: BucketPlanEntry[] = [];
+
+  for (const entry of manifest.buckets) {
+    const desired = getDesiredSettings(entry, manifest.defaults);
+    const { folders, skipped } = resolveFolders(entry.folders ?? manifest.defaults?.folders ?? [], userId);
+    const current = live.get(entry.name);
+
+    if (!current) {
+      entries.push({
+        bucket_name: entry.name,
+        action: 'create',
+        changes: [],
+        desired,
+        missing_folders: folders,
+        skipped_folders: skipped
+      });
+      continue;
+    }
+
+    const changes: BucketSettingChange[] = [];
+    const currentLimit = current.file_size_limit ?? null;
+    const currentMimeTypes = current.allowed_mime_types ?? null;
+
+    if (current.public !== desired.public) {
+      changes.push({ setting: 'public', current: current.public, desired: desired.public });
+    }
+    if (currentLimit !== desired.file_size_limit) {
+      changes.push({ setting: 'file_size_limit', current: currentLimit, desired: desired.file_size_limit });
+    }
+    if (!sameMimeTypes(currentMimeTypes, desired.allowed_mime_types)) {
+      changes.push({ setting: 'allowed_mime_types', current: currentMimeTypes, desired: desired.allowed_mime_types });
+    }
+
+    const missingFolders: string[] = [];
+    for (const folder of folders) {
+      if (!(await folderExists(supabase, entry.name, folder))) {
+        missingFolders.push(folder);
+      }
+    }
+
+    entries.push({
+      bucket_name: entry.name,
+      action: changes.length > 0 ? 'update' : 'unchanged',
+      changes,
+      desired,
+      missing_folders: missingFolders,
+      skipped_folders: skipped
+    });
+  }
+
+  const managed = new Set(manifest.buckets.map(entry => entry.name));
+  const summary = {
+    create: entries.filter(entry => entry.action === 'create').length,
+    update: entries.filter(entry => entry.action === 'update').length,
+    unchanged: entries.filter(entry => entry.action === 'unchanged').length,
+    folders: entries.reduce((count, entry) => count + entry.missing_folders.length, 0)
+  };
+
+  return {
+    buckets: entries,
+    unmanaged_buckets: [...live.keys()].filter(name => !managed.has(name)).sort(),
+    has_changes: summary.create + summary.update + summary.folders > 0,
+    summary
+  };
+}
+
+async function createFolder(supabase: any, bucketName: string, folder: string, allowedMimeTypes: string[] | null): Promise<void> {
+  // The placeholder is empty, but it must still pass the bucket's MIME allowlist
+  const contentType = allowedMimeTypes?.find(type => !type.includes('*')) || 'application/octet-stream';
+  const { error } = await supabase.storage
+    .from(bucketName)
+    .upload(`${folder}/${FOLDER_PLACEHOLDER}`, new Uint8Array(0), { contentType, upsert: true });
+
+  if (error) {
+    throw new Error(`Failed to create folder ${folder}: ${error.message}`);
+  }
+}
+
+/**
+ * Reconcile the live buckets with the manifest: create missing buckets, update drifted settings
+ * and add missing folders. Buckets the manifest does not mention are left alone.
+ */
+export async function applyBuckets(supabase: any, manifest: BucketManifest, userId?: string): Promise<BucketApplyResult> {
+  const plan = await planBuckets(supabase, manifest, userId);
+  const applied: BucketApplyResult['applied'] = [];
+
+  for (const entry of plan.buckets) {
+    const foldersCreated: string[] = [];
+    const options = {
+      public: entry.desired.public,
+      fileSizeLimit: entry.desired.file_size_limit,
+      allowedMimeTypes: entry.desired.allowed_mime_types
+    };
+
+    try {
+      if (entry.action === 'create') {
+        const { error } = await supabase.storage.createBucket(entry.bucket_name, options);
+        if (error) {
+          throw new Error(`Failed to create bucket: ${error.message}`);
+        }
+      } else if (entry.action === 'update') {
+        const { error } = await supabase.storage.updateBucket(entry.bucket_name, options);
+        if (error) {
+          throw new Error(`Failed to update bucket: ${error.message}`);
+        }
+      }
+
+      for (const folder of entry.missing_folders) {
+        await createFolder(supabase, entry.bucket_name, folder, entry.desired.allowed_mime_types);
+        foldersCreated.push(folder);
+      }
+
+      applied.push({ bucket_name: entry.bucket_name, action: entry.action, success: true, folders_created: foldersCreated });
+    } catch (error) {
+      applied.push({
+        bucket_name: entry.bucket_name,
+        action: entry.action,
+        success: false,
+        folders_created: foldersCreated,
+        error: getErrorMessage(error)
+      });
+    }
+  }
+
+  const successCount = applied.filter(result => result.success).length;
+  return {
+    ...plan,
+    applied,
+    success_count: successCount,
+    error_count: applied.length - successCount
+  };
+}
@@ -0,0 +1,148 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_SECURITY_CONFIG, DEFAULT_STORAGE_CONFIG, SERVER_CONFIG, initializeConfig, loadConfig, readCommandLine } from './config.js';
+import { SECURITY_CONFIG } from './security.js';
+
+describe('loadConfig', () => {
+  let workDir: string;
+
+  const writeConfig = async (name: string, content: string) => {
+    const file = path.join(workDir, name);
+    await fs.writeFile(file, content);
+    return file;
+  };
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('uses the defaults without a config file or environment variables', async () => {
+    const config = await loadConfig({});
+
+    expect(config.security).toEqual(DEFAULT_SECURITY_CONFIG);
+    expect(config.storage).toEqual(DEFAULT_STORAGE_CONFIG);
+    expect(config.configFile).toBeUndefined();
+  });
+
+  it('coerces environment variables to the configured types', async () => {
+    const config = await loadConfig({
+      ENABLE_RATE_LIMITING: 'off',
+      IP_RATE_LIMIT: '50',
+      MAX_FILES_PER_BATCH: '20',
+      ALLOWED_MIME_TYPES: 'image/png, application/pdf',
+      STORAGE_IMAGES_BUCKET: 'team-images',
+      MAX_BATCH_BYTES: String(1024 * 1024 * 1024),
+      SESSION_TIMEOUT: '  '
+    });
+
+    expect(config.security).toMatchObject({
+      ENABLE_RATE_LIMITING: false,
+      IP_RATE_LIMIT: 50,
+      MAX_BATCH_SIZE: 20,
+      ALLOWED_MIME_TYPES: ['image/png', 'application/pdf'],
+      SESSION_TIMEOUT: DEFAULT_SECURITY_CONFIG.SESSION_TIMEOUT
+    });
+    expect(config.storage).toMatchObject({ IMAGES_BUCKET: 'team-images', MAX_BATCH_BYTES: 1024 * 1024 * 1024 });
+  });
+
+  it('reads YAML and JSON config files, with environment variables taking precedence', async () => {
+    const yamlFile = await writeConfig('config.yaml', 'security:\n  IP_RATE_LIMIT: 10\n  USER_RATE_LIMIT: 20\nstorage:\n  EXPORTS_BUCKET: team-exports\n');
+    const config = await loadConfig({ MCP_CONFIG_FILE: yamlFile, USER_RATE_LIMIT: '30' });
+
+    expect(config.configFile).toBe(yamlFile);
+    expect(config.security).toMatchObject({ IP_RATE_LIMIT: 10, USER_RATE_LIMIT: 30 });
+    expect(config.storage.EXPORTS_BUCKET).toBe('team-exports');
+
+    const jsonFile = await writeConfig('config.json', JSON.stringify({
+      storage: { MIME_POLICIES: [{ pattern: 'docs-*', allowedMimeTypes: ['application/pdf'] }] }
+    }));
+    expect((await loadConfig({ MCP_CONFIG_FILE: jsonFile })).storage.MIME_POLICIES).toEqual([
+      { pattern: 'docs-*', allowedMimeTypes: ['application/pdf'] }
+    ]);
+  });
+
+  it('names the environment variable or config key of every invalid value', async () => {
+    await expect(loadConfig({ IP_RATE_LIMIT: 'lots', ENABLE_AUDIT_LOGGING: 'maybe' })).rejects.toThrow(
+      /Invalid configuration in environment variables:\n {2}- ENABLE_AUDIT_LOGGING: .*\n {2}- IP_RATE_LIMIT: Expected number/
+    );
+    await expect(loadConfig({ STORAGE_IMAGES_BUCKET: 'Bad_Bucket' })).rejects.toThrow('STORAGE_IMAGES_BUCKET: Invalid bucket name');
+
+    const file = await writeConfig('config.yaml', 'security:\n  IP_RATE_LIMITS: 10\n');
+    await expect(loadConfig({ MCP_CONFIG_FILE: file })).rejects.toThrow(`Invalid configuration in ${file}`);
+  });
+
+  it('rejects unreadable, unparsable and unsupported config files', async () => {
+    await expect(loadConfig({ MCP_CONFIG_FILE: path.join(workDir, 'missing.yaml') })).rejects.toThrow('Cannot read config file');
+    await expect(loadConfig({ MCP_CONFIG_FILE: await writeConfig('config.json', '{ security: ') })).rejects.toThrow('Cannot parse config file');
+    await expect(loadConfig({ MCP_CONFIG_FILE: await writeConfig('config.toml', '') })).rejects.toThrow('Unsupported config file type: .toml');
+  });
+
+  it('refuses to serve SSE on a network address in service auth mode', async () => {
+    await expect(loadConfig({ MCP_TRANSPORT: 'sse', MCP_SERVER_HOST: '0.0.0.0' })).rejects.toThrow(
+      'MCP_SERVER_HOST 0.0.0.0 is reachable from the network, which requires AUTH_MODE=jwt'
+    );
+
+    for (const host of ['localhost', '127.0.0.2', '[::1]']) {
+      await expect(loadConfig({ MCP_TRANSPORT: 'sse', MCP_SERVER_HOST: host })).resolves.toBeDefined();
+    }
+    await expect(loadConfig({ MCP_TRANSPORT: 'sse', MCP_SERVER_HOST: '0.0.0.0', MCP_ALLOW_REMOTE_SERVICE_ROLE: 'true' })).resolves.toBeDefined();
+    await expect(loadConfig({ MCP_TRANSPORT: 'stdio', MCP_SERVER_HOST: '0.0.0.0' })).resolves.toBeDefined();
+    await expect(loadConfig({ MCP_TRANSPORT: 'sse', MCP_SERVER_HOST: '0.0.0.0', AUTH_MODE: 'jwt' })).resolves.toBeDefined();
+  });
+
+  it('refuses a per-file limit above the batch limit', async () => {
+    await expect(loadConfig({ MAX_FILE_SIZE: '2000', MAX_BATCH_BYTES: '1000' })).rejects.toThrow(
+      'MAX_FILE_SIZE (2000) exceeds MAX_BATCH_BYTES (1000)'
+    );
+  });
+
+  it('still reads the deprecated MAX_BATCH_SIZE as the batch byte limit', async () => {
+    expect((await loadConfig({ MAX_BATCH_SIZE: '1048576000' })).storage.MAX_BATCH_BYTES).toBe(1048576000);
+    expect((await loadConfig({ MAX_BATCH_SIZE: '1048576000', MAX_BATCH_BYTES: '2097152000' })).storage.MAX_BATCH_BYTES).toBe(2097152000);
+  });
+});
+
+describe('readCommandLine', () => {
+  it('maps transport flags to their environment variables', () => {
+    expect(readCommandLine([])).toEqual({});
+    expect(readCommandLine(['--http', '--port', '8080', '--host=0.0.0.0'])).toEqual({
+      MCP_TRANSPORT: 'sse',
+      MCP_SERVER_PORT: '8080',
+      MCP_SERVER_HOST: '0.0.0.0'
+    });
+    expect(readCommandLine(['--transport=stdio'])).toEqual({ MCP_TRANSPORT: 'stdio' });
+  });
+
+  it('rejects unknown flags and missing values', () => {
+    expect(() => readCommandLine(['--verbose'])).toThrow('Unknown command line option: --verbose');
+    expect(() => readCommandLine(['--port'])).toThrow('Missing value for --port');
+  });
+
+  it('produces overrides the transport schema validates', async () => {
+    const config = await loadConfig(readCommandLine(['--sse', '--port', '8080']));
+    expect(config.transport).toMatchObject({ MODE: 'sse', PORT: 8080, HOST: 'localhost', TRUST_PROXY: false });
+
+    await expect(loadConfig(readCommandLine(['--transport', 'websocket']))).rejects.toThrow('MCP_TRANSPORT');
+  });
+});
+
+describe('initializeConfig', () => {
+  const savedSecurity = { ...SERVER_CONFIG.security };
+
+  afterEach(() => {
+    Object.assign(SERVER_CONFIG.security, savedSecurity);
+  });
+
+  it('updates the active configuration in place', async () => {
+    await initializeConfig({ MAX_PROMPT_LENGTH: '500' });
+
+    expect(SECURITY_CONFIG.MAX_PROMPT_LENGTH).toBe(500);
+    expect(SECURITY_CONFIG).toBe(SERVER_CONFIG.security);
+  });
+});
@@ -0,0 +1,542 @@
+// Configuration Module for Supabase Storage MCP
+// Merges built-in defaults, an optional JSON/YAML config file and environment variables
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { SecurityConfig, StorageConfig, AuditConfig, TransportConfig, ServerConfig } from './types.js';
+import { createValidationError, getErrorMessage } from '../utils/error-handling.js';
+
+// Default security configuration
+export const DEFAULT_SECURITY_CONFIG: SecurityConfig = {
+  ENABLE_RATE_LIMITING: true,
+  ENABLE_THREAT_DETECTION: true,
+  ENABLE_AUDIT_LOGGING: true,
+  ENABLE_INPUT_VALIDATION: true,
+  ENABLE_FILE_SECURITY: true,
+
+  // Rate limiting configuration
+  RATE_LIMIT_WINDOW: 60000, // 1 minute
+  MAX_REQUESTS_PER_WINDOW: 100,
+  GLOBAL_RATE_LIMIT: 1000,
+  IP_RATE_LIMIT: 200,
+  USER_RATE_LIMIT: 500,
+
+  // File security limits
+  MAX_FILE_SIZE: 50 * 1024 * 1024, // 50MB
+  MAX_BATCH_SIZE: 500,
+  MAX_IMAGE_PIXELS: 100 * 1000 * 1000, // 100 megapixels, 400MB once decoded to RGBA
+  MAX_IMAGE_FRAMES: 1000,
+  ALLOWED_MIME_TYPES: [
+    'image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/avif',
+    'image/gif', 'image/svg+xml', 'image/bmp', 'image/tiff',
+    'application/zip', 'application/x-zip-compressed',
+    'application/pdf', 'text/csv', 'text/plain', 'application/json',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint'
+  ],
+
+  // Security thresholds
+  MAX_PROMPT_LENGTH: 10000,
+  SUSPICIOUS_ACTIVITY_THRESHOLD: 5,
+  HIGH_RISK_SCORE_THRESHOLD: 80,
+  HIGH_RISK_ACTION: 'reject',
+  AUTO_BLOCK_THRESHOLD: 0, // off; suspicious activity scores are heuristic
+  AUTO_BLOCK_DURATION: 3600, // 1 hour
+  BLOCKLIST_PATH: 'blocklist.json',
+  ENABLE_ADMIN_TOOLS: false,
+  ADMIN_ROLE: 'admin',
+  CLAMD_TIMEOUT: 30000, // 30 seconds
+  SCAN_FAILURE_ACTION: 'reject',
+
+  // Session and authentication
+  AUTH_MODE: 'service',
+  SESSION_TIMEOUT: 3600, // 1 hour
+  JWT_EXPIRY: 7200 // 2 hours
+};
+
+// Default storage configuration
+export const DEFAULT_STORAGE_CONFIG: StorageConfig = {
+  DATA_DIR: path.join(os.homedir(), '.supabase-storage-mcp'),
+  IMAGES_BUCKET: 'storage-images',
+  EXPORTS_BUCKET: 'storage-exports',
+  MAX_BATCH_BYTES: 500 * 1024 * 1024, // 500MB
+  SIGNED_URL_EXPIRES_IN: 3600, // 1 hour
+  DOWNLOAD_URL_EXPIRES_IN: 3600, // 1 hour
+  VALIDATE_CONNECTION: false,
+  UPLOAD_CONCURRENCY: 3,
+  UPLOAD_MAX_RETRIES: 3,
+  UPLOAD_RETRY_BASE_DELAY: 250, // milliseconds
+  RESUMABLE_CHUNK_SIZE: 6 * 1024 * 1024, // 6MB, the chunk size Supabase Storage requires
+  RESUMABLE_MAX_FILE_SIZE: 5 * 1024 * 1024 * 1024, // 5GB
+  RESUMABLE_STATE_DIR: 'upload-state',
+  USAGE_CACHE_TTL: 60, // 1 minute
+  USAGE_SCAN_LIMIT: 100000,
+  THUMBNAIL_SIZE: 200,
+  PREVIEW_WIDTH: 800,
+  PREVIEW_HEIGHT: 600,
+  IMAGE_QUALITY: 85,
+  METADATA_POLICY: 'strip_sensitive',
+  QUARANTINE_BUCKET: 'storage-quarantine',
+  URL_FETCH_TIMEOUT: 30000, // 30 seconds
+  URL_FETCH_MAX_REDIRECTS: 5
+};
+
+// Default audit log configuration
+export const DEFAULT_AUDIT_CONFIG: AuditConfig = {
+  SINK: 'jsonl',
+  MAX_ENTRIES: 10000,
+  ROTATE_BYTES: 10 * 1024 * 1024, // 10MB
+  MAX_FILES: 5
+};
+
+// Default transport configuration
+export const DEFAULT_TRANSPORT_CONFIG: TransportConfig = {
+  MODE: 'stdio',
+  HOST: 'localhost',
+  PORT: 3000,
+  TRUST_PROXY: false,
+  ALLOW_REMOTE_SERVICE_ROLE: false,
+  SHUTDOWN_TIMEOUT: 10000 // 10 seconds
+};
+
+// Active configuration. Sections are updated in place by initializeConfig()
+// so modules holding a reference (e.g. SECURITY_CONFIG) always see current values.
+export const SERVER_CONFIG: ServerConfig = {
+  security: { ...DEFAULT_SECURITY_CONFIG },
+  storage: { ...DEFAULT_STORAGE_CONFIG },
+  audit: { ...DEFAULT_AUDIT_CONFIG },
+  transport: { ...DEFAULT_TRANSPORT_CONFIG }
+};
+
+export const STORAGE_CONFIG: StorageConfig = SERVER_CONFIG.storage;
+export const AUDIT_CONFIG: AuditConfig = SERVER_CONFIG.audit;
+export const TRANSPORT_CONFIG: TransportConfig = SERVER_CONFIG.transport;
+
+/**
+ * Resolve a configured file location; relative ones live under DATA_DIR, since the working
+ * directory of an MCP server is often / or read-only
+ */
+export function resolveDataPath(filePath: string): string {
+  return path.resolve(STORAGE_CONFIG.DATA_DIR, filePath);
+}
+
+// Environment variable -> configuration key mapping
+const ENV_VARIABLES: Array<[string, 'security' | 'storage' | 'audit' | 'transport', string]> = [
+  ['ENABLE_RATE_LIMITING', 'security', 'ENABLE_RATE_LIMITING'],
+  ['ENABLE_THREAT_DETECTION', 'security', 'ENABLE_THREAT_DETECTION'],
+  ['ENABLE_AUDIT_LOGGING', 'security', 'ENABLE_AUDIT_LOGGING'],
+  ['ENABLE_INPUT_VALIDATION', 'security', 'ENABLE_INPUT_VALIDATION'],
+  ['ENABLE_FILE_SECURITY', 'security', 'ENABLE_FILE_SECURITY'],
+  ['RATE_LIMIT_WINDOW', 'security', 'RATE_LIMIT_WINDOW'],
+  ['MAX_REQUESTS_PER_WINDOW', 'security', 'MAX_REQUESTS_PER_WINDOW'],
+  ['GLOBAL_RATE_LIMIT', 'security', 'GLOBAL_RATE_LIMIT'],
+  ['IP_RATE_LIMIT', 'security', 'IP_RATE_LIMIT'],
+  ['USER_RATE_LIMIT', 'security', 'USER_RATE_LIMIT'],
+  ['MAX_FILE_SIZE', 'security', 'MAX_FILE_SIZE'],
+  ['MAX_FILES_PER_BATCH', 'security', 'MAX_BATCH_SIZE'],
+  ['MAX_IMAGE_PIXELS', 'security', 'MAX_IMAGE_PIXELS'],
+  ['MAX_IMAGE_FRAMES', 'security', 'MAX_IMAGE_FRAMES'],
+  ['ALLOWED_MIME_TYPES', 'security', 'ALLOWED_MIME_TYPES'],
+  ['MAX_PROMPT_LENGTH', 'security', 'MAX_PROMPT_LENGTH'],
+  ['SUSPICIOUS_ACTIVITY_THRESHOLD', 'security', 'SUSPICIOUS_ACTIVITY_THRESHOLD'],
+  ['HIGH_RISK_SCORE_THRESHOLD', 'security', 'HIGH_RISK_SCORE_THRESHOLD'],
+  ['HIGH_RISK_ACTION', 'security', 'HIGH_RISK_ACTION'],
+  ['AUTO_BLOCK_THRESHOLD', 'security', 'AUTO_BLOCK_THRESHOLD'],
+  ['AUTO_BLOCK_DURATION', 'security', 'AUTO_BLOCK_DURATION'],
+  ['BLOCKLIST_PATH', 'security', 'BLOCKLIST_PATH'],
+  ['ENABLE_ADMIN_TOOLS', 'security', 'ENABLE_ADMIN_TOOLS'],
+  ['ADMIN_ROLE', 'security', 'ADMIN_ROLE'],
+  ['POLICY_FILE', 'security', 'POLICY_FILE'],
+  ['CLAMD_SOCKET', 'security', 'CLAMD_SOCKET'],
+  ['CLAMD_TIMEOUT', 'security', 'CLAMD_TIMEOUT'],
+  ['SCAN_RULES_FILE', 'security', 'SCAN_RULES_FILE'],
+  ['SCAN_FAILURE_ACTION', 'security', 'SCAN_FAILURE_ACTION'],
+  ['AUTH_MODE', 'security', 'AUTH_MODE'],
+  ['SESSION_TIMEOUT', 'security', 'SESSION_TIMEOUT'],
+  ['JWT_EXPIRY', 'security', 'JWT_EXPIRY'],
+  ['STORAGE_IMAGES_BUCKET', 'storage', 'IMAGES_BUCKET'],
+  ['STORAGE_EXPORTS_BUCKET', 'storage', 'EXPORTS_BUCKET'],
+  ['MAX_BATCH_BYTES', 'storage', 'MAX_BATCH_BYTES'],
+  ['SIGNED_URL_EXPIRES_IN', 'storage', 'SIGNED_URL_EXPIRES_IN'],
+  ['DOWNLOAD_URL_EXPIRES_IN', 'storage', 'DOWNLOAD_URL_EXPIRES_IN'],
+  ['SUPABASE_VALIDATE_CONNECTION', 'storage', 'VALIDATE_CONNECTION'],
+  ['UPLOAD_CONCURRENCY', 'storage', 'UPLOAD_CONCURRENCY'],
+  ['UPLOAD_MAX_RETRIES', 'storage', 'UPLOAD_MAX_RETRIES'],
+  ['UPLOAD_RETRY_BASE_DELAY', 'storage', 'UPLOAD_RETRY_BASE_DELAY'],
+  ['RESUMABLE_ENDPOINT', 'storage', 'RESUMABLE_ENDPOINT'],
+  ['RESUMABLE_CHUNK_SIZE', 'storage', 'RESUMABLE_CHUNK_SIZE'],
+  ['RESUMABLE_MAX_FILE_SIZE', 'storage', 'RESUMABLE_MAX_FILE_SIZE'],
+  ['RESUMABLE_STATE_DIR', 'storage', 'RESUMABLE_STATE_DIR'],
+  ['MCP_DATA_DIR', 'storage', 'DATA_DIR'],
+  ['BUCKET_MANIFEST', 'storage', 'BUCKET_MANIFEST'],
+  ['UPLOAD_ROOT', 'storage', 'UPLOAD_ROOT'],
+  ['USER_QUOTA_BYTES', 'storage', 'USER_QUOTA_BYTES'],
+  ['USER_QUOTA_OBJECTS', 'storage', 'USER_QUOTA_OBJECTS'],
+  ['BUCKET_QUOTA_BYTES', 'storage', 'BUCKET_QUOTA_BYTES'],
+  ['BUCKET_QUOTA_OBJECTS', 'storage', 'BUCKET_QUOTA_OBJECTS'],
+  ['USAGE_CACHE_TTL', 'storage', 'USAGE_CACHE_TTL'],
+  ['USAGE_SCAN_LIMIT', 'storage', 'USAGE_SCAN_LIMIT'],
+  ['DEFAULT_THUMBNAIL_SIZE', 'storage', 'THUMBNAIL_SIZE'],
+  ['DEFAULT_PREVIEW_WIDTH', 'storage', 'PREVIEW_WIDTH'],
+  ['DEFAULT_PREVIEW_HEIGHT', 'storage', 'PREVIEW_HEIGHT'],
+  ['DEFAULT_IMAGE_QUALITY', 'storage', 'IMAGE_QUALITY'],
+  ['IMAGE_METADATA_POLICY', 'storage', 'METADATA_POLICY'],
+  ['STORAGE_QUARANTINE_BUCKET', 'storage', 'QUARANTINE_BUCKET'],
+  ['URL_FETCH_TIMEOUT', 'storage', 'URL_FETCH_TIMEOUT'],
+  ['URL_FETCH_MAX_REDIRECTS', 'storage', 'URL_FETCH_MAX_REDIRECTS'],
+  ['AUDIT_SINK', 'audit', 'SINK'],
+  ['AUDIT_LOG_PATH', 'audit', 'LOG_PATH'],
+  ['AUDIT_MAX_ENTRIES', 'audit', 'MAX_ENTRIES'],
+  ['AUDIT_ROTATE_BYTES', 'audit', 'ROTATE_BYTES'],
+  ['AUDIT_MAX_FILES', 'audit', 'MAX_FILES'],
+  ['AUDIT_SUPABASE_TABLE', 'audit', 'SUPABASE_TABLE'],
+  ['MCP_TRANSPORT', 'transport', 'MODE'],
+  ['MCP_SERVER_HOST', 'transport', 'HOST'],
+  ['MCP_SERVER_PORT', 'transport', 'PORT'],
+  ['MCP_TRUST_PROXY', 'transport', 'TRUST_PROXY'],
+  ['MCP_ALLOW_REMOTE_SERVICE_ROLE', 'transport', 'ALLOW_REMOTE_SERVICE_ROLE'],
+  ['MCP_ALLOWED_HOSTS', 'transport', 'ALLOWED_HOSTS'],
+  ['MCP_SHUTDOWN_TIMEOUT', 'transport', 'SHUTDOWN_TIMEOUT']
+];
+
+// Command line flag -> environment variable; flags take precedence over the environment
+const CLI_FLAGS: Record<string, string> = {
+  '--transport': 'MCP_TRANSPORT',
+  '--host': 'MCP_SERVER_HOST',
+  '--port': 'MCP_SERVER_PORT'
+};
+
+// Schema building blocks; string inputs (from env vars) are coerced
+const booleanValue = z.preprocess(value => {
+  if (typeof value !== 'string') return value;
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+  if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+  return value;
+}, z.boolean());
+
+const positiveInteger = z.coerce.number().int().positive();
+const nonNegativeInteger = z.coerce.number().int().nonnegative();
+
+const mimeTypeList = z.preprocess(
+  value => typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value,
+  z.array(z.string().regex(/^[\w.+-]+\/[\w.+-]+$/, 'Invalid MIME type')).min(1)
+);
+
+const hostNameList = z.preprocess(
+  value => typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value,
+  z.array(z.string().regex(/^[^\s/\\@?#]+$/, 'Invalid host name')).min(1)
+);
+
+const bucketName = z.string().regex(/^[a-z0-9][a-z0-9-]*[a-z0-9]$/, 'Invalid bucket name').min(3).max(63);
+
+const SecurityConfigSchema = z.object({
+  ENABLE_RATE_LIMITING: booleanValue.optional(),
+  ENABLE_THREAT_DETECTION: booleanValue.optional(),
+  ENABLE_AUDIT_LOGGING: booleanValue.optional(),
+  ENABLE_INPUT_VALIDATION: booleanValue.optional(),
+  ENABLE_FILE_SECURITY: booleanValue.optional(),
+  RATE_LIMIT_WINDOW: positiveInteger.optional(),
+  MAX_REQUESTS_PER_WINDOW: positiveInteger.optional(),
+  GLOBAL_RATE_LIMIT: positiveInteger.optional(),
+  IP_RATE_LIMIT: positiveInteger.optional(),
+  USER_RATE_LIMIT: positiveInteger.optional(),
+  MAX_FILE_SIZE: positiveInteger.optional(),
+  MAX_BATCH_SIZE: positiveInteger.optional(),
+  MAX_IMAGE_PIXELS: positiveInteger.optional(),
+  MAX_IMAGE_FRAMES: positiveInteger.optional(),
+  ALLOWED_MIME_TYPES: mimeTypeList.optional(),
+  MAX_PROMPT_LENGTH: positiveInteger.optional(),
+  SUSPICIOUS_ACTIVITY_THRESHOLD: positiveInteger.optional(),
+  HIGH_RISK_SCORE_THRESHOLD: positiveInteger.max(100).optional(),
+  HIGH_RISK_ACTION: z.enum(['reject', 'flag']).optional(),
+  TOOL_RATE_LIMIT_COSTS: z.record(positiveInteger).optional(),
+  AUTO_BLOCK_THRESHOLD: nonNegativeInteger.max(100).optional(),
+  AUTO_BLOCK_DURATION: positiveInteger.optional(),
+  BLOCKLIST_PATH: z.string().min(1).optional(),
+  ENABLE_ADMIN_TOOLS: booleanValue.optional(),
+  ADMIN_ROLE: z.string().min(1).optional(),
+  POLICY_FILE: z.string().min(1).optional(),
+  CLAMD_SOCKET: z.string().min(1).optional(),
+  CLAMD_TIMEOUT: positiveInteger.optional(),
+  SCAN_RULES_FILE: z.string().min(1).optional(),
+  SCAN_FAILURE_ACTION: z.enum(['reject', 'allow']).optional(),
+  AUTH_MODE: z.enum(['service', 'jwt']).optional(),
+  SESSION_TIMEOUT: positiveInteger.optional(),
+  JWT_EXPIRY: positiveInteger.optional()
+}).strict();
+
+const StorageConfigSchema = z.object({
+  IMAGES_BUCKET: bucketName.optional(),
+  EXPORTS_BUCKET: bucketName.optional(),
+  MAX_BATCH_BYTES: positiveInteger.optional(),
+  SIGNED_URL_EXPIRES_IN: positiveInteger.min(60).max(604800).optional(),
+  DOWNLOAD_URL_EXPIRES_IN: positiveInteger.min(60).max(604800).optional(),
+  VALIDATE_CONNECTION: booleanValue.optional(),
+  UPLOAD_CONCURRENCY: positiveInteger.max(20).optional(),
+  UPLOAD_MAX_RETRIES: nonNegativeInteger.max(10).optional(),
+  UPLOAD_RETRY_BASE_DELAY: nonNegativeInteger.max(60000).optional(),
+  RESUMABLE_ENDPOINT: z.string().url().optional(),
+  RESUMABLE_CHUNK_SIZE: positiveInteger.optional(),
+  RESUMABLE_MAX_FILE_SIZE: positiveInteger.optional(),
+  RESUMABLE_STATE_DIR: z.string().min(1).optional(),
+  DATA_DIR: z.string().min(1).optional(),
+  BUCKET_MANIFEST: z.string().min(1).optional(),
+  UPLOAD_ROOT: z.string().min(1).optional(),
+  MIME_POLICIES: z.array(z.object({
+    pattern: z.string().min(1),
+    allowedMimeTypes: mimeTypeList
+  }).strict()).optional(),
+  USER_QUOTA_BYTES: positiveInteger.optional(),
+  USER_QUOTA_OBJECTS: positiveInteger.optional(),
+  BUCKET_QUOTA_BYTES: positiveInteger.optional(),
+  BUCKET_QUOTA_OBJECTS: positiveInteger.optional(),
+  QUOTAS: z.array(z.object({
+    pattern: z.string().min(1),
+    userBytes: positiveInteger.optional(),
+    userObjects: positiveInteger.optional(),
+    bucketBytes: positiveInteger.optional(),
+    bucketObjects: positiveInteger.optional()
+  }).strict()).optional(),
+  USAGE_CACHE_TTL: nonNegativeInteger.optional(),
+  USAGE_SCAN_LIMIT: positiveInteger.max(1000000).optional(),
+  THUMBNAIL_SIZE: positiveInteger.max(4096).optional(),
+  PREVIEW_WIDTH: positiveInteger.max(8192).optional(),
+  PREVIEW_HEIGHT: positiveInteger.max(8192).optional(),
+  IMAGE_QUALITY: positiveInteger.max(100).optional(),
+  METADATA_POLICY: z.enum(['keep', 'strip_sensitive', 'strip_all']).optional(),
+  QUARANTINE_BUCKET: bucketName.optional(),
+  URL_FETCH_TIMEOUT: positiveInteger.max(600000).optional(),
+  URL_FETCH_MAX_REDIRECTS: nonNegativeInteger.max(20).optional()
+}).strict();
+
+const AuditConfigSchema = z.object({
+  SINK: z.enum(['memory', 'jsonl', 'sqlite']).optional(),
+  LOG_PATH: z.string().min(1).optional(),
+  MAX_ENTRIES: positiveInteger.optional(),
+  ROTATE_BYTES: positiveInteger.min(1024).optional(),
+  MAX_FILES: nonNegativeInteger.max(100).optional(),
+  SUPABASE_TABLE: z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Invalid table name').optional()
+}).strict();
+
+const TransportConfigSchema = z.object({
+  MODE: z.enum(['stdio', 'sse']).optional(),
+  HOST: z.string().min(1).optional(),
+  PORT: positiveInteger.max(65535).optional(),
+  TRUST_PROXY: booleanValue.optional(),
+  ALLOW_REMOTE_SERVICE_ROLE: booleanValue.optional(),
+  ALLOWED_HOSTS: hostNameList.optional(),
+  SHUTDOWN_TIMEOUT: nonNegativeInteger.optional()
+}).strict();
+
+const ConfigOverridesSchema = z.object({
+  security: SecurityConfigSchema.optional(),
+  storage: StorageConfigSchema.optional(),
+  audit: AuditConfigSchema.optional(),
+  transport: TransportConfigSchema.optional()
+}).strict();
+
+type ConfigOverrides = z.infer<typeof ConfigOverridesSchema>;
+
+/**
+ * Validate a set of overrides, reporting every issue with its source
+ */
+function parseOverrides(raw: unknown, source: string, describePath: (issuePath: string) => string): ConfigOverrides {
+  const parsed = ConfigOverridesSchema.safeParse(raw);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const issues = parsed.error.issues.map(issue => `  - ${describePath(issue.path.join('.'))}: ${issue.message}`);
+  const firstPath = parsed.error.issues[0]?.path.join('.') || 'root';
+
+  throw createValidationError(
+    `Invalid configuration in ${source}:\n${issues.join('\n')}`,
+    describePath(firstPath),
+    undefined,
+    parsed.error.issues[0]?.code || 'invalid',
+    'configuration'
+  );
+}
+
+/**
+ * Read a JSON or YAML configuration file
+ */
+async function readConfigFile(configFile: string): Promise<unknown> {
+  let content: string;
+  try {
+    content = await fs.readFile(configFile, 'utf8');
+  } catch (error) {
+    throw createValidationError(
+      `Cannot read config file ${configFile}: ${getErrorMessage(error)}`,
+      'MCP_CONFIG_FILE',
+      configFile,
+      'readable',
+      'configuration'
+    );
+  }
+
+  const extension = path.extname(configFile).toLowerCase();
+  try {
+    if (extension === '.json') {
+      return JSON.parse(content);
+    }
+    if (extension === '.yaml' || extension === '.yml') {
+      return YAML.parse(content) ?? {};
+    }
+  } catch (error) {
+    throw createValidationError(
+      `Cannot parse config file ${configFile}: ${getErrorMessage(error)}`,
+      'MCP_CONFIG_FILE',
+      configFile,
+      'syntax',
+      'configuration'
+    );
+  }
+
+  throw createValidationError(
+    `Unsupported config file type: ${extension || 'none'} (use .json, .yaml or .yml)`,
+    'MCP_CONFIG_FILE',
+    configFile,
+    'file_type',
+    'configuration'
+  );
+}
+
+// Renamed environment variables: old name -> new name. The old name is read when the new one is unset.
+const DEPRECATED_ENV_VARIABLES: Record<string, string> = {
+  MAX_BATCH_SIZE: 'MAX_BATCH_BYTES' // bytes per batch, easily mistaken for MAX_FILES_PER_BATCH
+};
+
+/**
+ * Collect overrides from environment variables
+ */
+function readEnvironment(env: NodeJS.ProcessEnv): Record<string, Record<string, string>> {
+  const overrides: Record<string, Record<string, string>> = {};
+
+  const values: NodeJS.ProcessEnv = { ...env };
+  for (const [deprecated, replacement] of Object.entries(DEPRECATED_ENV_VARIABLES)) {
+    if (env[deprecated]?.trim() && !env[replacement]?.trim()) {
+      console.error(`${deprecated} is deprecated, use ${replacement} instead`);
+      values[replacement] = env[deprecated];
+    }
+  }
+
+  for (const [variable, section, key] of ENV_VARIABLES) {
+    const value = values[variable];
+    if (value === undefined || value.trim() === '') continue;
+
+    overrides[section] = overrides[section] || {};
+    overrides[section][key] = value.trim();
+  }
+
+  return overrides;
+}
+
+/**
+ * Translate command line flags (--transport sse, --port=8080, --http) into environment variable overrides
+ */
+export function readCommandLine(argv: string[]): Record<string, string> {
+  const overrides: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const separator = argv[i].indexOf('=');
+    const flag = separator === -1 ? argv[i] : argv[i].slice(0, separator);
+    const inlineValue = separator === -1 ? undefined : argv[i].slice(separator + 1);
+
+    if (flag === '--http' || flag === '--sse') {
+      overrides.MCP_TRANSPORT = 'sse';
+      continue;
+    }
+
+    const variable = CLI_FLAGS[flag];
+    const value = inlineValue ?? argv[++i];
+    if (!variable || value === undefined) {
+      throw createValidationError(
+        variable ? `Missing value for ${flag}` : `Unknown command line option: ${flag}`,
+        flag,
+        value,
+        variable ? 'required' : 'known_option',
+        'command line'
+      );
+    }
+    overrides[variable] = value;
+  }
+
+  return overrides;
+}
+
+function isLoopbackHost(host: string): boolean {
+  const address = host.replace(/^\[|\]$/g, '').toLowerCase();
+  return address === 'localhost' || address === '::1' || /^127\.\d+\.\d+\.\d+$/.test(address);
+}
+
+/**
+ * Build the configuration: defaults < config file (MCP_CONFIG_FILE) < environment variables
+ */
+export async function loadConfig(env: NodeJS.ProcessEnv = process.env): Promise<ServerConfig> {
+  const configFile = env.MCP_CONFIG_FILE?.trim() || undefined;
+
+  const fileOverrides = configFile
+    ? parseOverrides(await readConfigFile(configFile), configFile, issuePath => issuePath)
+    : {};
+
+  const envOverrides = parseOverrides(readEnvironment(env), 'environment variables', issuePath => {
+    const [section, key] = issuePath.split('.');
+    const mapping = ENV_VARIABLES.find(([, mappedSection, mappedKey]) => mappedSection === section && mappedKey === key);
+    return mapping ? mapping[0] : issuePath;
+  });
+
+  const config: ServerConfig = {
+    security: { ...DEFAULT_SECURITY_CONFIG, ...fileOverrides.security, ...envOverrides.security },
+    storage: { ...DEFAULT_STORAGE_CONFIG, ...fileOverrides.storage, ...envOverrides.storage },
+    audit: { ...DEFAULT_AUDIT_CONFIG, ...fileOverrides.audit, ...envOverrides.audit },
+    transport: { ...DEFAULT_TRANSPORT_CONFIG, ...fileOverrides.transport, ...envOverrides.transport },
+    configFile
+  };
+
+  if (config.security.MAX_FILE_SIZE > config.storage.MAX_BATCH_BYTES) {
+    throw createValidationError(
+      `Invalid configuration: MAX_FILE_SIZE (${config.security.MAX_FILE_SIZE}) exceeds MAX_BATCH_BYTES (${config.storage.MAX_BATCH_BYTES})`,
+      'MAX_FILE_SIZE',
+      config.security.MAX_FILE_SIZE,
+      'max_batch_bytes',
+      'configuration'
+    );
+  }
+
+  // In service mode every SSE client acts with the service role key, so only local clients may connect
+  if (config.transport.MODE === 'sse' && config.security.AUTH_MODE !== 'jwt' &&
+      !isLoopbackHost(config.transport.HOST) && !config.transport.ALLOW_REMOTE_SERVICE_ROLE) {
+    throw createValidationError(
+      `Invalid configuration: MCP_SERVER_HOST ${config.transport.HOST} is reachable from the network, ` +
+        'which requires AUTH_MODE=jwt (or MCP_ALLOW_REMOTE_SERVICE_ROLE=true behind an authenticating proxy)',
+      'MCP_SERVER_HOST',
+      config.transport.HOST,
+      'loopback_host',
+      'configuration'
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Load the configuration and make it the active SERVER_CONFIG
+ */
+export async function initializeConfig(env: NodeJS.ProcessEnv = process.env): Promise<ServerConfig> {
+  const config = await loadConfig(env);
+
+  Object.assign(SERVER_CONFIG.security, config.security);
+  Object.assign(SERVER_CONFIG.storage, config.storage);
+  Object.assign(SERVER_CONFIG.audit, config.audit);
+  Object.assign(SERVER_CONFIG.transport, config.transport);
+  SERVER_CONFIG.configFile = config.configFile;
+
+  return SERVER_CONFIG;
+}
@@ -0,0 +1,292 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MemoryStorage } from '../../test/memory-storage.js';
+import {
+  buildFolderStructure,
+  collectObjectPaths,
+  decodeListCursor,
+  deleteFiles,
+  encodeListCursor,
+  listFiles,
+  normalizePrefix,
+  processBatchTransfer
+} from './file-operations.js';
+
+describe('deleteFiles', () => {
+  let storage: MemoryStorage;
+  const remove = (options: Partial<Parameters<typeof deleteFiles>[0]>) =>
+    deleteFiles({ bucketName: 'files', dryRun: false, maxFiles: 100, supabase: storage, ...options });
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    for (const path of ['reports/2024/q1.pdf', 'reports/2024/q2.pdf', 'reports/2025/q1.pdf', 'reports/index.txt', 'images/a.png']) {
+      storage.put('files', path);
+    }
+  });
+
+  it('deletes explicit paths and reports the ones that did not exist', async () => {
+    const result = await remove({ filePaths: ['images/a.png', 'images/missing.png', 'images/a.png'] });
+
+    expect(result).toMatchObject({
+      success: false,
+      deleted: ['images/a.png'],
+      failed: [{ file_path: 'images/missing.png', error: 'File not found' }],
+      total_matched: 2,
+      deleted_count: 1,
+      failed_count: 1
+    });
+    expect(storage.paths('files')).not.toContain('images/a.png');
+  });
+
+  it('expands a prefix through every nested folder', async () => {
+    const result = await remove({ prefix: '/reports/' });
+
+    expect(result.success).toBe(true);
+    expect(result.prefix).toBe('reports');
+    expect(result.deleted.sort()).toEqual(['reports/2024/q1.pdf', 'reports/2024/q2.pdf', 'reports/2025/q1.pdf', 'reports/index.txt']);
+    expect(storage.paths('files')).toEqual(['images/a.png']);
+  });
+
+  it('only lists what would be deleted on a dry run', async () => {
+    const result = await remove({ prefix: 'reports/2024', dryRun: true });
+
+    expect(result).toMatchObject({ dry_run: true, total_matched: 2, deleted_count: 0 });
+    expect(result.would_delete).toEqual(['reports/2024/q1.pdf', 'reports/2024/q2.pdf']);
+    expect(storage.paths('files')).toHaveLength(5);
+    expect(storage.calls.some(call => call.startsWith('remove'))).toBe(false);
+  });
+
+  it('refuses to expand an empty prefix or a prefix past max_files', async () => {
+    await expect(remove({ prefix: '/' })).rejects.toThrow('prefix must be a non-empty folder path');
+    await expect(remove({ prefix: 'reports', maxFiles: 3 })).rejects.toThrow('Prefix reports matches more than 3 files');
+    await expect(remove({ prefix: 'reports/../images' })).rejects.toThrow('Path traversal detected in prefix');
+    expect(storage.paths('files')).toHaveLength(5);
+  });
+
+  it('validates max_files and the explicit paths before deleting anything', async () => {
+    await expect(remove({ filePaths: ['images/a.png'], maxFiles: 0 })).rejects.toThrow('max_files must be an integer between 1 and 1000');
+    await expect(remove({ filePaths: ['a', 'b'], maxFiles: 1 })).rejects.toThrow('Cannot delete 2 files; max_files is 1');
+    await expect(remove({ filePaths: [] })).rejects.toThrow('file_paths must be a non-empty array');
+    await expect(remove({ filePaths: ['images/a.png', '../secrets/key.pem'] })).rejects.toThrow('Path traversal detected in file_path');
+    expect(storage.paths('files')).toHaveLength(5);
+  });
+
+  it('records a failed remove request against every path in it', async () => {
+    storage.failWith = operation => operation === 'remove' ? 'storage unavailable' : undefined;
+    const result = await remove({ filePaths: ['images/a.png', 'reports/index.txt'] });
+
+    expect(result.success).toBe(false);
+    expect(result.failed).toEqual([
+      { file_path: 'images/a.png', error: 'storage unavailable' },
+      { file_path: 'reports/index.txt', error: 'storage unavailable' }
+    ]);
+  });
+});
+
+describe('listFiles', () => {
+  const storage = new MemoryStorage();
+  storage.put('files', 'photos/cover.jpg', 'x'.repeat(300));
+  storage.put('files', 'photos/2024/beach.jpg', 'x'.repeat(100));
+  storage.put('files', 'photos/2024/notes.txt', 'x'.repeat(10));
+  storage.put('files', 'photos/2024/june/sunset.jpg', 'x'.repeat(200));
+  storage.put('files', 'photos/empty/.keep', '');
+  storage.put('files', 'readme.md', 'x');
+
+  const list = (options: Partial<Parameters<typeof listFiles>[0]> = {}) => listFiles({
+    bucketName: 'files',
+    folderPath: 'photos',
+    recursive: false,
+    maxDepth: 5,
+    sortBy: 'name',
+    sortOrder: 'asc',
+    limit: 100,
+    supabase: storage,
+    ...options
+  });
+
+  it('lists one level by default and the whole subtree when recursive', async () => {
+    expect((await list()).files.map(file => file.path)).toEqual(['photos/cover.jpg']);
+
+    const all = await list({ recursive: true });
+    expect(all.files.map(file => file.path)).toEqual([
+      'photos/2024/beach.jpg',
+      'photos/2024/june/sunset.jpg',
+      'photos/2024/notes.txt',
+      'photos/cover.jpg',
+      'photos/empty/.keep'
+    ]);
+    expect(all).toMatchObject({ total_count: 5, total_size: 610, truncated: false });
+
+    const shallow = await list({ recursive: true, maxDepth: 2 });
+    expect(shallow.files.map(file => file.path)).not.toContain('photos/2024/june/sunset.jpg');
+  });
+
+  it('filters by extension and sorts by size or date', async () => {
+    const bySize = await list({ recursive: true, fileExtension: '.JPG', sortBy: 'size', sortOrder: 'desc' });
+    expect(bySize.files.map(file => [file.name, file.size])).toEqual([['cover.jpg', 300], ['sunset.jpg', 200], ['beach.jpg', 100]]);
+
+    const newest = await list({ recursive: true, sortBy: 'last_modified', sortOrder: 'desc', limit: 1 });
+    expect(newest.files[0].path).toBe('photos/empty/.keep');
+  });
+
+  it('adds the image metadata recorded at upload on request', async () => {
+    storage.get('files', 'photos/cover.jpg')!.metadata = { imageWidth: 640, imageHeight: 480, contentHash: 'abc' };
+
+    expect((await list()).files[0].image_metadata).toBeUndefined();
+    expect((await list({ includeImageMetadata: true })).files[0].image_metadata).toEqual({ width: 640, height: 480 });
+  });
+
+  it('pages with a cursor until the listing is exhausted', async () => {
+    const first = await list({ recursive: true, limit: 2 });
+    expect(first.pagination).toMatchObject({ offset: 0, returned: 2, has_more: true });
+
+    const second = await list({ recursive: true, limit: 2, cursor: first.pagination!.next_cursor });
+    const third = await list({ recursive: true, limit: 2, cursor: second.pagination!.next_cursor });
+    expect(third.pagination).toMatchObject({ offset: 4, returned: 1, has_more: false, next_cursor: undefined });
+    expect([...first.files, ...second.files, ...third.files].map(file => file.path)).toHaveLength(5);
+  });
+
+  it('rolls file counts and sizes up the folder tree, including empty folders', async () => {
+    const tree = (await list({ recursive: true })).folder_structure!;
+
+    expect(tree).toMatchObject({ path: 'photos', file_count: 5, total_size: 610 });
+    expect(tree.folders['2024']).toMatchObject({ path: 'photos/2024', file_count: 3, total_size: 310 });
+    expect(tree.folders['2024'].folders.june).toMatchObject({ file_count: 1, total_size: 200 });
+    expect(tree.folders.empty).toMatchObject({ file_count: 1, total_size: 0 });
+  });
+
+  it('rejects invalid options', async () => {
+    await expect(list({ limit: 0 })).rejects.toThrow('limit must be an integer between 1 and 1000');
+    await expect(list({ recursive: true, maxDepth: 21 })).rejects.toThrow('max_depth must be an integer between 1 and 20');
+    await expect(list({ sortBy: 'owner' as any })).rejects.toThrow('sort_by must be');
+    await expect(list({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid pagination cursor');
+    await expect(list({ folderPath: 'photos/../secrets' })).rejects.toThrow('Path traversal detected in folder_path');
+  });
+});
+
+describe('list cursors and folder trees', () => {
+  it('round-trips offsets through the cursor', () => {
+    expect(decodeListCursor(encodeListCursor(250))).toBe(250);
+    expect(() => decodeListCursor(Buffer.from('{"offset":-1}').toString('base64url'))).toThrow('Invalid pagination cursor');
+  });
+
+  it('builds the tree relative to the listed folder', () => {
+    const tree = buildFolderStructure('a', ['a/b', 'a/b/c'], [{ path: 'a/b/c/file.txt', size: 5 }]);
+    expect(tree.folders.b.folders.c).toEqual({ path: 'a/b/c', file_count: 1, total_size: 5, folders: {} });
+  });
+});
+
+describe('processBatchTransfer', () => {
+  let storage: MemoryStorage;
+  const options = (overrides: Partial<Parameters<typeof processBatchTransfer>[2]> = {}) =>
+    ({ sourceBucket: 'files', onConflict: 'fail' as const, supabase: storage, ...overrides });
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    storage.put('files', 'inbox/a.txt', 'new a');
+    storage.put('files', 'inbox/b.txt', 'new b');
+    storage.put('files', 'archive/a.txt', 'old a');
+  });
+
+  it('moves within a bucket and copies across buckets', async () => {
+    const moved = await processBatchTransfer('move', [{ source_path: 'inbox/b.txt', destination_path: 'archive/b.txt' }], options());
+    expect(moved).toMatchObject({ operation: 'move', destination_bucket: 'files', total: 1, success_count: 1, error_count: 0 });
+    expect(moved.successful[0].file_id).toBe(storage.get('files', 'archive/b.txt')!.id);
+    expect(storage.paths('files')).toEqual(['archive/a.txt', 'archive/b.txt', 'inbox/a.txt']);
+
+    const copied = await processBatchTransfer('copy', [{ source_path: 'inbox/a.txt', destination_path: 'a.txt' }], options({ destinationBucket: 'backup' }));
+    expect(copied).toMatchObject({ destination_bucket: 'backup', success_count: 1 });
+    expect(storage.get('backup', 'a.txt')!.data.toString()).toBe('new a');
+    expect(storage.get('files', 'inbox/a.txt')).toBeDefined();
+  });
+
+  it('applies the conflict policy when the destination exists', async () => {
+    const item = { source_path: 'inbox/a.txt', destination_path: 'archive/a.txt' };
+
+    const failed = await processBatchTransfer('move', [item], options());
+    expect(failed.failed[0].error).toBe('Destination already exists: archive/a.txt');
+
+    const skipped = await processBatchTransfer('move', [item], options({ onConflict: 'skip' }));
+    expect(skipped).toMatchObject({ success_count: 0, skipped_count: 1, error_count: 0 });
+    expect(storage.get('files', 'inbox/a.txt')).toBeDefined();
+
+    const replaced = await processBatchTransfer('move', [item], options({ onConflict: 'overwrite' }));
+    expect(replaced.success_count).toBe(1);
+    expect(storage.get('files', 'archive/a.txt')!.data.toString()).toBe('new a');
+    expect(storage.get('files', 'inbox/a.txt')).toBeUndefined();
+  });
+
+  it('keeps the destination when an overwrite cannot transfer the source', async () => {
+    const item = { source_path: 'inbox/a.txt', destination_path: 'archive/a.txt' };
+    storage.failWith = (operation, _bucket, storagePath) => operation === 'move' && storagePath.startsWith('inbox/a.txt ->') ? 'Gateway Timeout' : undefined;
+
+    const result = await processBatchTransfer('move', [item], options({ onConflict: 'overwrite' }));
+    expect(result.failed[0].error).toBe('Failed to move file: Gateway Timeout');
+    expect(storage.get('files', 'archive/a.txt')!.data.toString()).toBe('old a');
+    expect(storage.paths('files')).toEqual(['archive/a.txt', 'inbox/a.txt', 'inbox/b.txt']);
+  });
+
+  it('puts the source back when the destination cannot be removed', async () => {
+    const item = { source_path: 'inbox/a.txt', destination_path: 'archive/a.txt' };
+    storage.failWith = (operation, _bucket, storagePath) => operation === 'remove' && storagePath === 'archive/a.txt' ? 'Forbidden' : undefined;
+
+    const moved = await processBatchTransfer('move', [item], options({ onConflict: 'overwrite' }));
+    expect(moved.failed[0].error).toBe('Failed to replace destination: Forbidden');
+    expect(storage.get('files', 'inbox/a.txt')!.data.toString()).toBe('new a');
+
+    const copied = await processBatchTransfer('copy', [item], options({ onConflict: 'overwrite' }));
+    expect(copied.failed[0].error).toBe('Failed to replace destination: Forbidden');
+    expect(storage.paths('files')).toEqual(['archive/a.txt', 'inbox/a.txt', 'inbox/b.txt']);
+    expect(storage.get('files', 'archive/a.txt')!.data.toString()).toBe('old a');
+  });
+
+  it('fails bad items individually and keeps going', async () => {
+    const result = await processBatchTransfer('copy', [
+      { source_path: 'inbox/a.txt', destination_path: 'inbox/a.txt' },
+      { source_path: 'inbox/a.txt', destination_path: '../outside/a.txt' },
+      { source_path: 'inbox/missing.txt', destination_path: 'archive/missing.txt' },
+      { source_path: 'inbox/b.txt', destination_path: 'archive/b.txt' }
+    ], options());
+
+    expect(result.failed.map(item => item.error)).toEqual([
+      'source_path and destination_path must differ',
+      'Path traversal detected in destination_path',
+      'Failed to copy file: Object not found'
+    ]);
+    expect(result.successful.map(item => item.storage_path)).toEqual(['archive/b.txt']);
+  });
+
+  it('rejects empty, oversized and misconfigured batches', async () => {
+    const item = { source_path: 'inbox/a.txt', destination_path: 'archive/c.txt' };
+
+    await expect(processBatchTransfer('move', [], options())).rejects.toThrow('At least one transfer must be provided');
+    await expect(processBatchTransfer('move', Array(101).fill(item), options())).rejects.toThrow('Cannot move more than 100 files');
+    await expect(processBatchTransfer('move', [item], options({ onConflict: 'replace' as any }))).rejects.toThrow('on_conflict must be');
+  });
+});
+
+describe('collectObjectPaths', () => {
+  it('pages through folders larger than one list page', async () => {
+    const storage = new MemoryStorage();
+    for (let i = 0; i < 1005; i++) {
+      storage.put('files', `bulk/file-${String(i).padStart(4, '0')}.txt`);
+    }
+
+    const paths = await collectObjectPaths(storage, 'files', 'bulk', 2000);
+    expect(paths).toHaveLength(1005);
+    expect(storage.calls.filter(call => call.startsWith('list'))).toHaveLength(2);
+  });
+
+  it('surfaces list errors', async () => {
+    const storage = new MemoryStorage();
+    storage.failWith = () => 'permission denied';
+
+    await expect(collectObjectPaths(storage, 'files', 'docs', 10)).rejects.toThrow('Failed to list docs: permission denied');
+  });
+});
+
+describe('normalizePrefix', () => {
+  it('strips leading and trailing slashes', () => {
+    expect(normalizePrefix('//a/b//')).toBe('a/b');
+    expect(normalizePrefix('/')).toBe('');
+  });
+});
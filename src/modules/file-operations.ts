@@ -0,0 +1,638 @@
+// File Operations Module for Supabase Storage MCP
+// Handles object-level management of stored files (deletion, relocation, prefix expansion)
+
+import {
+  BatchTransferResult,
+  ConflictPolicy,
+  DeleteFilesResult,
+  FileListResult,
+  FolderNode,
+  UploadResult
+} from './types.js';
+import { auditRequest, generateSecureHash, generateSecureId, validateFileOperation } from './security.js';
+import { fromObjectMetadata } from './image-metadata.js';
+import { getErrorMessage } from '../utils/error-handling.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+
+export interface DeleteFilesOptions {
+  bucketName: string;
+  filePaths?: string[];
+  prefix?: string;
+  dryRun: boolean;
+  maxFiles: number;
+  supabase: any;
+}
+
+export interface ListFilesOptions {
+  bucketName: string;
+  folderPath?: string;
+  fileExtension?: string;
+  recursive: boolean;
+  maxDepth: number;
+  sortBy: 'name' | 'size' | 'last_modified';
+  sortOrder: 'asc' | 'desc';
+  limit: number;
+  offset?: number;
+  cursor?: string;
+  includeImageMetadata?: boolean;
+  supabase: any;
+}
+
+export interface WalkOptions {
+  maxDepth: number;
+  limit: number;
+}
+
+export interface WalkResult {
+  objects: Array<{ path: string; name: string; depth: number; object: any }>;
+  folders: string[];
+  truncated: boolean;
+}
+
+export interface TransferItem {
+  source_path: string;
+  destination_path: string;
+}
+
+export interface TransferOptions {
+  sourceBucket: string;
+  destinationBucket?: string;
+  onConflict: ConflictPolicy;
+  supabase: any;
+}
+
+// Hard ceiling for a single delete_files call regardless of max_files
+export const MAX_DELETE_FILES = 1000;
+
+// Hard ceiling for a single move_file/copy_file batch
+export const MAX_TRANSFER_FILES = 100;
+
+// list_files limits: page size, recursion depth and total objects scanned per call
+export const MAX_LIST_PAGE_SIZE = 1000;
+export const MAX_LIST_DEPTH = 20;
+const MAX_LIST_SCAN = 10000;
+
+// Parallel info() requests when list_files adds image metadata
+const METADATA_LOOKUP_CONCURRENCY = 5;
+
+// Storage API page size used when expanding prefixes
+const LIST_PAGE_SIZE = 1000;
+
+// Number of paths sent per remove() request
+const REMOVE_CHUNK_SIZE = 100;
+
+/**
+ * Validate a storage object path for security
+ */
+export function validateStoragePath(storagePath: string, operation: string, field: string = 'storage_path'): void {
+  if (!storagePath || typeof storagePath !== 'string') {
+    throw new Error(`Invalid ${field} provided`);
+  }
+
+  const validation = validateFileOperation(operation, { [field]: storagePath });
+  if (!validation.allowed) {
+    throw new Error(validation.reason || `Security validation failed for ${field}`);
+  }
+}
+
+/**
+ * Normalize a folder prefix to the "folder/sub" form used by list()
+ */
+export function normalizePrefix(prefix: string): string {
+  return prefix.replace(/^\/+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Walk a prefix breadth-first, descending at most maxDepth folder levels
+ */
+export async function walkObjects(
+  supabase: any,
+  bucketName: string,
+  prefix: string,
+  options: WalkOptions
+): Promise<WalkResult> {
+  const root = normalizePrefix(prefix);
+  const result: WalkResult = { objects: [], folders: [], truncated: false };
+  const queue: Array<{ path: string; depth: number }> = [{ path: root, depth: 0 }];
+
+  while (queue.length > 0) {
+    const folder = queue.shift()!;
+    let offset = 0;
+
+    while (true) {
+      const { data, error } = await supabase.storage
+        .from(bucketName)
+        .list(folder.path, {
+          limit: LIST_PAGE_SIZE,
+          offset,
+          sortBy: { column: 'name', order: 'asc' }
+        });
+
+      if (error) {
+        throw new Error(`Failed to list ${folder.path || '/'}: ${error.message}`);
+      }
+
+      const entries = data || [];
+      for (const entry of entries) {
+        const entryPath = folder.path ? `${folder.path}/${entry.name}` : entry.name;
+        const depth = folder.depth + 1;
+
+        // Folders are returned without an id
+        if (entry.id === null) {
+          result.folders.push(entryPath);
+          if (depth < options.maxDepth) {
+            queue.push({ path: entryPath, depth });
+          }
+          continue;
+        }
+
+        if (result.objects.length >= options.limit) {
+          result.truncated = true;
+          return result;
+        }
+
+        result.objects.push({ path: entryPath, name: entry.name, depth, object: entry });
+      }
+
+      if (entries.length < LIST_PAGE_SIZE) break;
+      offset += LIST_PAGE_SIZE;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Collect every object path below a prefix, failing once the limit is exceeded
+ */
+export async function collectObjectPaths(
+  supabase: any,
+  bucketName: string,
+  prefix: string,
+  limit: number
+): Promise<string[]> {
+  const { objects, truncated } = await walkObjects(supabase, bucketName, prefix, {
+    maxDepth: Infinity,
+    limit
+  });
+
+  if (truncated) {
+    throw new Error(`Prefix ${prefix} matches more than ${limit} files; narrow the prefix or raise max_files`);
+  }
+
+  return objects.map(object => object.path);
+}
+
+/**
+ * Build a nested folder tree with per-folder file counts and sizes
+ */
+export function buildFolderStructure(root: string, folders: string[], files: Array<{ path: string; size: number }>): FolderNode {
+  const tree: FolderNode = { path: root, file_count: 0, total_size: 0, folders: {} };
+  const relativeSegments = (fullPath: string) =>
+    (root && fullPath.startsWith(`${root}/`) ? fullPath.slice(root.length + 1) : fullPath).split('/');
+
+  const child = (node: FolderNode, segment: string): FolderNode => {
+    if (!node.folders[segment]) {
+      node.folders[segment] = {
+        path: node.path ? `${node.path}/${segment}` : segment,
+        file_count: 0,
+        total_size: 0,
+        folders: {}
+      };
+    }
+    return node.folders[segment];
+  };
+
+  // Register folders first so empty ones still appear in the tree
+  for (const folder of folders) {
+    relativeSegments(folder).reduce(child, tree);
+  }
+
+  // Roll each file up into every ancestor folder
+  for (const file of files) {
+    let node = tree;
+    node.file_count++;
+    node.total_size += file.size;
+
+    for (const segment of relativeSegments(file.path).slice(0, -1)) {
+      node = child(node, segment);
+      node.file_count++;
+      node.total_size += file.size;
+    }
+  }
+
+  return tree;
+}
+
+/**
+ * Encode a pagination cursor for list_files
+ */
+export function encodeListCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+/**
+ * Decode a pagination cursor produced by encodeListCursor
+ */
+export function decodeListCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid pagination cursor');
+}
+
+/**
+ * List files below a folder with optional recursion, sorting and pagination
+ */
+export async function listFiles(options: ListFilesOptions): Promise<FileListResult> {
+  const {
+    bucketName,
+    folderPath = '',
+    fileExtension,
+    recursive,
+    maxDepth,
+    sortBy,
+    sortOrder,
+    limit,
+    cursor,
+    includeImageMetadata,
+    supabase
+  } = options;
+
+  if (folderPath) {
+    validateStoragePath(folderPath, 'list_files', 'folder_path');
+  }
+
+  if (!['name', 'size', 'last_modified'].includes(sortBy)) {
+    throw new Error('sort_by must be "name", "size", or "last_modified"');
+  }
+
+  if (!['asc', 'desc'].includes(sortOrder)) {
+    throw new Error('sort_order must be "asc" or "desc"');
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_PAGE_SIZE) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_LIST_PAGE_SIZE}`);
+  }
+
+  if (recursive && (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > MAX_LIST_DEPTH)) {
+    throw new Error(`max_depth must be an integer between 1 and ${MAX_LIST_DEPTH}`);
+  }
+
+  const offset = cursor ? decodeListCursor(cursor) : (options.offset || 0);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error('offset must be a non-negative integer');
+  }
+
+  const root = normalizePrefix(folderPath);
+  const walk = await walkObjects(supabase, bucketName, root, {
+    maxDepth: recursive ? maxDepth : 1,
+    limit: MAX_LIST_SCAN
+  });
+
+  let files: FileListResult['files'] = walk.objects.map(({ path, name, object }) => ({
+    name,
+    path,
+    size: object.metadata?.size || 0,
+    mime_type: object.metadata?.mimetype || 'unknown',
+    last_modified: object.updated_at || object.created_at || new Date().toISOString(),
+    metadata: object.metadata || undefined
+  }));
+
+  // Filter by file extension if specified
+  if (fileExtension) {
+    files = files.filter(file => file.name.toLowerCase().endsWith(fileExtension.toLowerCase()));
+  }
+
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  files.sort((a, b) => {
+    switch (sortBy) {
+      case 'size':
+        return (a.size - b.size) * direction;
+      case 'last_modified':
+        return a.last_modified.localeCompare(b.last_modified) * direction;
+      default:
+        return a.path.localeCompare(b.path) * direction;
+    }
+  });
+
+  const page = files.slice(offset, offset + limit);
+  const hasMore = offset + limit < files.length;
+
+  // Listings only carry system metadata; values recorded at upload live in each object's user metadata
+  if (includeImageMetadata) {
+    await mapWithConcurrency(page, METADATA_LOOKUP_CONCURRENCY, async file => {
+      const { data, error } = await supabase.storage.from(bucketName).info(file.path);
+      if (!error) {
+        file.image_metadata = fromObjectMetadata(data?.userMetadata);
+      }
+    });
+  }
+
+  return {
+    files: page,
+    total_count: files.length,
+    total_size: files.reduce((sum, file) => sum + file.size, 0),
+    folder_structure: buildFolderStructure(root, walk.folders, files),
+    pagination: {
+      offset,
+      limit,
+      returned: page.length,
+      has_more: hasMore,
+      next_cursor: hasMore ? encodeListCursor(offset + limit) : undefined
+    },
+    truncated: walk.truncated
+  };
+}
+
+/**
+ * Delete explicit paths or every object under a prefix, with dry-run support
+ */
+export async function deleteFiles(options: DeleteFilesOptions): Promise<DeleteFilesResult> {
+  const { bucketName, filePaths, prefix, dryRun, maxFiles, supabase } = options;
+
+  if (!Number.isInteger(maxFiles) || maxFiles < 1 || maxFiles > MAX_DELETE_FILES) {
+    throw new Error(`max_files must be an integer between 1 and ${MAX_DELETE_FILES}`);
+  }
+
+  let targets: string[];
+
+  if (filePaths) {
+    if (!Array.isArray(filePaths) || filePaths.length === 0) {
+      throw new Error('file_paths must be a non-empty array');
+    }
+
+    if (filePaths.length > maxFiles) {
+      throw new Error(`Cannot delete ${filePaths.length} files; max_files is ${maxFiles}`);
+    }
+
+    filePaths.forEach(filePath => validateStoragePath(filePath, 'delete_files', 'file_path'));
+    targets = Array.from(new Set(filePaths));
+  } else {
+    // Security: Refuse to expand an empty prefix, which would match the whole bucket
+    if (!prefix || typeof prefix !== 'string' || normalizePrefix(prefix) === '') {
+      throw new Error('prefix must be a non-empty folder path');
+    }
+
+    validateStoragePath(prefix, 'delete_files', 'prefix');
+    targets = await collectObjectPaths(supabase, bucketName, prefix, maxFiles);
+  }
+
+  const result: DeleteFilesResult = {
+    success: true,
+    dry_run: dryRun,
+    bucket_name: bucketName,
+    prefix: prefix ? normalizePrefix(prefix) : undefined,
+    deleted: [],
+    failed: [],
+    total_matched: targets.length,
+    deleted_count: 0,
+    failed_count: 0,
+    max_files: maxFiles
+  };
+
+  if (dryRun) {
+    result.would_delete = targets;
+    return result;
+  }
+
+  for (let i = 0; i < targets.length; i += REMOVE_CHUNK_SIZE) {
+    const chunk = targets.slice(i, i + REMOVE_CHUNK_SIZE);
+
+    try {
+      const { data, error } = await supabase.storage
+        .from(bucketName)
+        .remove(chunk);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      // remove() only returns the objects that actually existed
+      const removed = new Set<string>((data || []).map((object: any) => object.name));
+
+      for (const filePath of chunk) {
+        const inputHash = generateSecureHash(JSON.stringify({ bucket_name: bucketName, file_path: filePath }));
+
+        if (removed.has(filePath)) {
+          result.deleted.push(filePath);
+          auditRequest('delete_files', true, inputHash);
+        } else {
+          result.failed.push({ file_path: filePath, error: 'File not found' });
+          auditRequest('delete_files', false, inputHash, 'File not found');
+        }
+      }
+    } catch (error) {
+      for (const filePath of chunk) {
+        result.failed.push({ file_path: filePath, error: getErrorMessage(error) });
+        auditRequest(
+          'delete_files',
+          false,
+          generateSecureHash(JSON.stringify({ bucket_name: bucketName, file_path: filePath })),
+          getErrorMessage(error)
+        );
+      }
+    }
+  }
+
+  result.deleted_count = result.deleted.length;
+  result.failed_count = result.failed.length;
+  result.success = result.failed_count === 0;
+
+  return result;
+}
+
+/**
+ * Overwrite an existing destination without risking it: the source is first transferred to a
+ * staging object next to the destination, and the destination is only removed once that succeeded.
+ */
+async function replaceDestination(
+  operation: 'move' | 'copy',
+  item: TransferItem,
+  destinationBucket: string,
+  options: TransferOptions
+): Promise<void> {
+  const storage = options.supabase.storage;
+  const separator = item.destination_path.lastIndexOf('/');
+  const stagingPath = `${item.destination_path.slice(0, separator + 1)}.${item.destination_path.slice(separator + 1)}.${generateSecureId(8)}.transfer`;
+
+  const { error: stageError } = await storage
+    .from(options.sourceBucket)
+    [operation](item.source_path, stagingPath, { destinationBucket });
+
+  if (stageError) {
+    throw new Error(`Failed to ${operation} file: ${stageError.message}`);
+  }
+
+  const { error: removeError } = await storage
+    .from(destinationBucket)
+    .remove([item.destination_path]);
+
+  if (removeError) {
+    // Undo the staging step so the source and destination are left as they were
+    if (operation === 'move') {
+      await storage.from(destinationBucket).move(stagingPath, item.source_path, { destinationBucket: options.sourceBucket });
+    } else {
+      await storage.from(destinationBucket).remove([stagingPath]);
+    }
+    throw new Error(`Failed to replace destination: ${removeError.message}`);
+  }
+
+  const { error: renameError } = await storage
+    .from(destinationBucket)
+    .move(stagingPath, item.destination_path);
+
+  if (renameError) {
+    throw new Error(`Failed to replace destination, the file was kept at ${stagingPath}: ${renameError.message}`);
+  }
+}
+
+/**
+ * Move or copy a single object, applying the conflict policy at the destination
+ */
+export async function transferSingleFile(
+  operation: 'move' | 'copy',
+  item: TransferItem,
+  options: TransferOptions
+): Promise<UploadResult> {
+  const toolName = `${operation}_file`;
+  const destinationBucket = options.destinationBucket || options.sourceBucket;
+  const baseResult = {
+    original_path: item?.source_path,
+    storage_path: item?.destination_path,
+    file_id: ''
+  };
+
+  // Security: Validate both ends of the transfer
+  const securityValidation = validateFileOperation(toolName, item || {});
+
+  try {
+    if (!item || typeof item.source_path !== 'string' || typeof item.destination_path !== 'string' ||
+        !item.source_path || !item.destination_path) {
+      throw new Error('source_path and destination_path are required');
+    }
+
+    if (!securityValidation.allowed) {
+      throw new Error(securityValidation.reason || 'Security validation failed');
+    }
+
+    if (destinationBucket === options.sourceBucket && item.source_path === item.destination_path) {
+      throw new Error('source_path and destination_path must differ');
+    }
+
+    const { data: exists, error: existsError } = await options.supabase.storage
+      .from(destinationBucket)
+      .exists(item.destination_path);
+
+    if (existsError && exists !== false) {
+      throw new Error(`Failed to check destination: ${existsError.message}`);
+    }
+
+    if (exists) {
+      if (options.onConflict === 'skip') {
+        return {
+          ...baseResult,
+          success: true,
+          skipped: true,
+          security_validation: securityValidation
+        };
+      }
+
+      if (options.onConflict === 'fail') {
+        throw new Error(`Destination already exists: ${item.destination_path}`);
+      }
+
+      await replaceDestination(operation, item, destinationBucket, options);
+    } else {
+      const { error } = await options.supabase.storage
+        .from(options.sourceBucket)
+        [operation](item.source_path, item.destination_path, { destinationBucket });
+
+      if (error) {
+        throw new Error(`Failed to ${operation} file: ${error.message}`);
+      }
+    }
+
+    // Look up the id of the object now stored at the destination
+    const { data: info } = await options.supabase.storage
+      .from(destinationBucket)
+      .info(item.destination_path);
+
+    return {
+      ...baseResult,
+      file_id: info?.id || '',
+      success: true,
+      security_validation: securityValidation
+    };
+  } catch (error) {
+    return {
+      ...baseResult,
+      success: false,
+      error: getErrorMessage(error),
+      security_validation: securityValidation
+    };
+  }
+}
+
+/**
+ * Move or copy a batch of objects, auditing every item
+ */
+export async function processBatchTransfer(
+  operation: 'move' | 'copy',
+  items: TransferItem[],
+  options: TransferOptions
+): Promise<BatchTransferResult> {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new Error('At least one transfer must be provided');
+  }
+
+  if (items.length > MAX_TRANSFER_FILES) {
+    throw new Error(`Cannot ${operation} more than ${MAX_TRANSFER_FILES} files in a single request`);
+  }
+
+  if (!['fail', 'skip', 'overwrite'].includes(options.onConflict)) {
+    throw new Error('on_conflict must be "fail", "skip", or "overwrite"');
+  }
+
+  const destinationBucket = options.destinationBucket || options.sourceBucket;
+  const results: UploadResult[] = [];
+
+  for (const item of items) {
+    const result = await transferSingleFile(operation, item, options);
+    results.push(result);
+
+    auditRequest(
+      `${operation}_file`,
+      result.success,
+      generateSecureHash(JSON.stringify({
+        source_bucket: options.sourceBucket,
+        destination_bucket: destinationBucket,
+        source_path: result.original_path,
+        destination_path: result.storage_path
+      })),
+      result.error,
+      undefined,
+      result.security_validation?.riskScore
+    );
+  }
+
+  const successful = results.filter(r => r.success);
+
+  return {
+    operation,
+    source_bucket: options.sourceBucket,
+    destination_bucket: destinationBucket,
+    on_conflict: options.onConflict,
+    successful,
+    failed: results.filter(r => !r.success),
+    total: results.length,
+    success_count: successful.filter(r => !r.skipped).length,
+    skipped_count: successful.filter(r => r.skipped).length,
+    error_count: results.length - successful.length
+  };
+}
@@ -0,0 +1,392 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Jimp } from 'jimp';
+import { MemoryStorage } from '../../test/memory-storage.js';
+import { DedupPolicy } from './types.js';
+import { STORAGE_CONFIG, TRANSPORT_CONFIG } from './config.js';
+import { SECURITY_CONFIG } from './security.js';
+import { invalidateBucketUsage } from './storage-usage.js';
+import { setUploadScanners } from './upload-scanning.js';
+import {
+  DOCUMENT_MIME_TYPES,
+  SUPPORTED_MIME_TYPES,
+  CONTENT_HASH_METADATA_KEY,
+  computeContentHash,
+  generateStoragePath,
+  getAllowedMimeTypesForBucket,
+  isTransientStorageError,
+  processBatchUpload,
+  validateAndReadFile
+} from './file-upload.js';
+
+const PDF = Buffer.from('%PDF-1.7\n1 0 obj\n<<>>\nendobj\n');
+// 1x1 RGBA pixel
+const PNG = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==', 'base64');
+// Minimal ZIP: local file header of an OOXML package listing its content types
+const DOCX = Buffer.concat([Buffer.from([0x50, 0x4B, 0x03, 0x04]), Buffer.from('....[Content_Types].xml')]);
+
+describe('getAllowedMimeTypesForBucket', () => {
+  it('applies the first matching bucket pattern', () => {
+    expect(getAllowedMimeTypesForBucket('storage-images')).toEqual(SUPPORTED_MIME_TYPES);
+    expect(getAllowedMimeTypesForBucket('storage-exports')).toEqual(expect.arrayContaining(['image/svg+xml', ...DOCUMENT_MIME_TYPES]));
+    expect(getAllowedMimeTypesForBucket('anything')).toContain('application/pdf');
+    expect(getAllowedMimeTypesForBucket('anything')).not.toContain('text/html');
+  });
+});
+
+describe('generateStoragePath', () => {
+  it('allows a nested folder prefix but keeps user_id and batch_id single segments', () => {
+    expect(generateStoragePath('exports/2024', 'alice', 'batch1', 'report.pdf')).toBe('exports/2024/alice/batch1/report.pdf');
+    expect(() => generateStoragePath('exports', 'alice/batch1', 'x', 'report.pdf')).toThrow('user_id and batch_id must not contain "/"');
+    expect(() => generateStoragePath('exports', 'alice', 'batch1/x', 'report.pdf')).toThrow('user_id and batch_id must not contain "/"');
+  });
+});
+
+describe('isTransientStorageError', () => {
+  it('retries throttling, server errors and network failures only', () => {
+    expect(isTransientStorageError({ status: 503, message: 'Service Unavailable' })).toBe(true);
+    expect(isTransientStorageError({ statusCode: '429' })).toBe(true);
+    expect(isTransientStorageError(new Error('fetch failed'))).toBe(true);
+    expect(isTransientStorageError({ message: 'read ECONNRESET' })).toBe(true);
+    expect(isTransientStorageError({ status: 400, message: 'The resource already exists' })).toBe(false);
+    expect(isTransientStorageError({ status: 403, message: 'new row violates row-level security policy' })).toBe(false);
+  });
+});
+
+describe('file uploads', () => {
+  let workDir: string;
+  let storage: MemoryStorage;
+
+  const write = async (name: string, content: Buffer | string) => {
+    const filePath = path.join(workDir, name);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  const upload = (files: string[], bucketName = 'storage-exports', dedupPolicy?: DedupPolicy) => processBatchUpload(files, {
+    bucketName,
+    dedupPolicy,
+    batchId: 'batch001',
+    folderPrefix: 'exports',
+    userId: 'user123',
+    supabase: storage,
+    allowedMimeTypes: getAllowedMimeTypesForBucket(bucketName),
+    toolName: 'upload_files',
+    retryBaseDelay: 0
+  });
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-upload-'));
+    storage = new MemoryStorage();
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('uploads documents under prefix/user/batch with their content type', async () => {
+    const result = await upload([await write('report.pdf', PDF), await write('data.json', '{"rows": []}'), await write('notes.txt', 'hello')]);
+
+    expect(result).toMatchObject({ total: 3, success_count: 3, error_count: 0, batch_id: 'batch001' });
+    expect(storage.paths('storage-exports')).toEqual([
+      'exports/user123/batch001/data.json',
+      'exports/user123/batch001/notes.txt',
+      'exports/user123/batch001/report.pdf'
+    ]);
+    expect(storage.get('storage-exports', 'exports/user123/batch001/report.pdf')!.contentType).toBe('application/pdf');
+  });
+
+  it('enforces the bucket MIME policy by extension', async () => {
+    const pdf = await write('report.pdf', PDF);
+
+    await expect(validateAndReadFile(pdf, getAllowedMimeTypesForBucket('storage-images'))).rejects.toThrow('Unsupported file type: .pdf');
+    await expect(validateAndReadFile(pdf, getAllowedMimeTypesForBucket('storage-exports'))).resolves.toMatchObject({
+      filename: 'report.pdf',
+      mimeType: 'application/pdf',
+      size: PDF.length
+    });
+    await expect(validateAndReadFile(await write('page.html', '<html></html>'), getAllowedMimeTypesForBucket('storage-exports')))
+      .rejects.toThrow('Unsupported file type: .html');
+  });
+
+  it('rejects content that does not match the extension', async () => {
+    const result = await upload([
+      await write('fake.pdf', 'not a pdf'),
+      await write('fake.png', PDF),
+      await write('broken.json', '{"rows": '),
+      await write('binary.csv', Buffer.from([0x61, 0x00, 0x62])),
+      await write('plain.docx', Buffer.from([0x50, 0x4B, 0x03, 0x04, 0, 0, 0, 0])),
+      await write('truncated.png', PNG.subarray(0, 12)),
+      await write('real.docx', DOCX),
+      await write('real.png', PNG)
+    ]);
+
+    expect(result.failed.map(item => path.basename(item.original_path))).toEqual(['fake.pdf', 'fake.png', 'broken.json', 'binary.csv', 'plain.docx', 'truncated.png']);
+    expect(result.failed[0].error).toContain('Invalid file signature for application/pdf');
+    expect(result.failed[5].error).toContain('Image rejected (');
+    expect(result.successful.map(item => path.basename(item.storage_path))).toEqual(['real.docx', 'real.png']);
+  });
+
+  it('strips scripts and event handlers from SVG files', async () => {
+    const svg = await write('logo.svg', '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><script>alert(2)</script><rect width="1" height="1"/></svg>');
+    const result = await upload([svg]);
+
+    expect(result.success_count).toBe(1);
+    const stored = storage.get('storage-exports', 'exports/user123/batch001/logo.svg')!.data.toString();
+    expect(stored).toContain('<rect');
+    expect(stored).not.toMatch(/script|onload/);
+  });
+
+  it('refuses local paths over SSE unless they resolve inside UPLOAD_ROOT', async () => {
+    const outside = await write('secret.txt', 'secret');
+    const uploadRoot = path.join(workDir, 'uploads');
+    await fs.mkdir(uploadRoot);
+    await fs.writeFile(path.join(uploadRoot, 'notes.txt'), 'notes');
+    await fs.symlink(outside, path.join(uploadRoot, 'link.txt'));
+
+    const read = (filePath: string) => validateAndReadFile(filePath, getAllowedMimeTypesForBucket('storage-exports'));
+
+    TRANSPORT_CONFIG.MODE = 'sse';
+    try {
+      await expect(read(outside)).rejects.toThrow(
+        'Local file paths are not accepted over the SSE transport unless UPLOAD_ROOT is set'
+      );
+
+      STORAGE_CONFIG.UPLOAD_ROOT = uploadRoot;
+      await expect(read('notes.txt')).resolves.toMatchObject({
+        path: path.join(await fs.realpath(uploadRoot), 'notes.txt'),
+        filename: 'notes.txt'
+      });
+      await expect(read(outside)).rejects.toThrow('File path is outside UPLOAD_ROOT');
+      await expect(read(path.join(uploadRoot, 'link.txt'))).rejects.toThrow('File path is outside UPLOAD_ROOT');
+    } finally {
+      TRANSPORT_CONFIG.MODE = 'stdio';
+      delete STORAGE_CONFIG.UPLOAD_ROOT;
+    }
+  });
+
+  it('rejects unsafe paths and empty files', async () => {
+    const result = await upload([`${workDir}/../etc/passwd.txt`, await write('empty.txt', ''), await write('.env.txt', 'x')]);
+    expect(result.failed.map(item => item.error)).toEqual([
+      expect.stringContaining('Path traversal detected in file path'),
+      expect.stringContaining('File is empty'),
+      expect.stringContaining('System files not allowed')
+    ]);
+  });
+
+  it('stores the content hash and returns the storage object id', async () => {
+    const result = await upload([await write('report.pdf', PDF)]);
+    const stored = storage.get('storage-exports', 'exports/user123/batch001/report.pdf')!;
+
+    expect(result.successful[0]).toMatchObject({ file_id: stored.id, content_hash: computeContentHash(PDF), dedup_action: 'uploaded' });
+    expect(stored.metadata).toEqual({ [CONTENT_HASH_METADATA_KEY]: computeContentHash(PDF) });
+  });
+
+  it('skips identical content whatever the dedup policy', async () => {
+    const pdf = await write('report.pdf', PDF);
+    const first = await upload([pdf]);
+
+    for (const policy of ['skip', 'overwrite', 'rename'] as const) {
+      const result = await upload([pdf], 'storage-exports', policy);
+      expect(result.successful[0]).toMatchObject({ skipped: true, dedup_action: 'skipped', file_id: first.successful[0].file_id });
+    }
+    expect(storage.paths('storage-exports')).toEqual(['exports/user123/batch001/report.pdf']);
+  });
+
+  it('applies the dedup policy when different content has the same name', async () => {
+    const target = 'exports/user123/batch001/notes.txt';
+    await upload([await write('notes.txt', 'first')]);
+    const changed = await write('notes.txt', 'second');
+
+    expect((await upload([changed])).successful[0]).toMatchObject({ dedup_action: 'skipped', storage_path: target });
+    expect(storage.get('storage-exports', target)!.data.toString()).toBe('first');
+
+    expect((await upload([changed], 'storage-exports', 'rename')).successful[0]).toMatchObject({
+      dedup_action: 'renamed',
+      storage_path: 'exports/user123/batch001/notes-1.txt'
+    });
+
+    await write('notes.txt', 'third');
+    expect((await upload([changed], 'storage-exports', 'overwrite')).successful[0]).toMatchObject({ dedup_action: 'overwritten', storage_path: target });
+    expect(storage.get('storage-exports', target)!.data.toString()).toBe('third');
+  });
+
+  it('retries transient storage errors and reports the attempts', async () => {
+    const failures = new Map([['a.txt', 2], ['b.txt', 5]]);
+    storage.failWith = (operation, _bucket, storagePath) => {
+      const name = path.basename(storagePath);
+      const remaining = failures.get(name) ?? 0;
+      if (operation !== 'upload' || remaining === 0) return undefined;
+      failures.set(name, remaining - 1);
+      return 'fetch failed';
+    };
+
+    const result = await upload([await write('a.txt', 'a'), await write('b.txt', 'b')]);
+
+    expect(result.successful).toEqual([expect.objectContaining({ storage_path: 'exports/user123/batch001/a.txt', attempts: 3 })]);
+    // The default of 3 retries gives up after the fourth attempt
+    expect(result.failed).toEqual([expect.objectContaining({ attempts: 4, error: 'fetch failed' })]);
+  });
+
+  it('does not retry permanent errors and keeps input order across the pool', async () => {
+    storage.failWith = (operation, _bucket, storagePath) =>
+      operation === 'upload' && storagePath.endsWith('2.txt') ? 'new row violates row-level security policy' : undefined;
+
+    const files = [];
+    for (let i = 0; i < 6; i++) files.push(await write(`${i}.txt`, String(i)));
+    const result = await processBatchUpload(files, {
+      bucketName: 'storage-exports',
+      batchId: 'batch001',
+      folderPrefix: 'exports',
+      userId: 'user123',
+      supabase: storage,
+      allowedMimeTypes: getAllowedMimeTypesForBucket('storage-exports'),
+      concurrency: 2,
+      retryBaseDelay: 0
+    });
+
+    expect(result.successful.map(item => path.basename(item.original_path))).toEqual(['0.txt', '1.txt', '3.txt', '4.txt', '5.txt']);
+    expect(result.failed).toEqual([expect.objectContaining({ original_path: files[2], attempts: 1 })]);
+  });
+
+  it('checks the quota for the whole batch before uploading any of it', async () => {
+    STORAGE_CONFIG.USER_QUOTA_OBJECTS = 2;
+    try {
+      invalidateBucketUsage('storage-exports');
+      await upload([await write('a.txt', 'a')]);
+
+      await expect(upload([await write('b.txt', 'b'), await write('c.txt', 'c')])).rejects.toThrow(
+        'User user123 file quota exceeded: 1 of 2 files used, upload adds 2'
+      );
+      expect(storage.paths('storage-exports')).toEqual(['exports/user123/batch001/a.txt']);
+    } finally {
+      delete STORAGE_CONFIG.USER_QUOTA_OBJECTS;
+    }
+  });
+
+  it('does not let concurrent batches share the remaining quota', async () => {
+    STORAGE_CONFIG.USER_QUOTA_OBJECTS = 2;
+    try {
+      invalidateBucketUsage('storage-exports');
+      const [first, second] = await Promise.allSettled([
+        upload([await write('a.txt', 'a'), await write('b.txt', 'b')]),
+        upload([await write('c.txt', 'c')])
+      ]);
+
+      expect(first.status).toBe('fulfilled');
+      expect(second).toMatchObject({ status: 'rejected', reason: new Error('User user123 file quota exceeded: 2 of 2 files used, upload adds 1') });
+      expect(storage.paths('storage-exports')).toHaveLength(2);
+    } finally {
+      delete STORAGE_CONFIG.USER_QUOTA_OBJECTS;
+    }
+  });
+
+  it('stores requested image derivatives under processed/ and reports failures per derivative', async () => {
+    const image = await new Jimp({ width: 400, height: 300, color: 0xff0000ff }).getBuffer('image/png');
+    storage.failWith = (operation, _bucket, storagePath) =>
+      operation === 'upload' && storagePath.endsWith('preview_photo.png') ? 'Payload too large' : undefined;
+
+    const result = await processBatchUpload([await write('photo.png', image)], {
+      bucketName: 'storage-images',
+      batchId: 'batch001',
+      folderPrefix: 'images',
+      userId: 'user123',
+      supabase: storage,
+      allowedMimeTypes: getAllowedMimeTypesForBucket('storage-images'),
+      derivatives: { thumbnail: true, preview: true },
+      retryBaseDelay: 0
+    });
+
+    expect(result.success_count).toBe(1);
+    expect(result.successful[0].derivatives).toEqual([
+      expect.objectContaining({ kind: 'thumbnail', storage_path: 'processed/user123/batch001/thumb_photo.png', width: 200, height: 150, success: true }),
+      expect.objectContaining({ kind: 'preview', storage_path: 'processed/user123/batch001/preview_photo.png', success: false, error: 'Payload too large' })
+    ]);
+    expect(storage.paths('storage-images')).toEqual(['images/user123/batch001/photo.png', 'processed/user123/batch001/thumb_photo.png']);
+  });
+
+  it('rejects unsupported derivative options', async () => {
+    const options = {
+      bucketName: 'storage-images',
+      batchId: 'batch001',
+      folderPrefix: 'images',
+      userId: 'user123',
+      supabase: storage,
+      allowedMimeTypes: getAllowedMimeTypesForBucket('storage-images')
+    };
+
+    await expect(processBatchUpload(['x.png'], { ...options, derivatives: { formats: ['gif' as any] } }))
+      .rejects.toThrow('Unsupported derivative format: gif');
+    await expect(processBatchUpload(['x.png'], { ...options, derivatives: { quality: 0 } }))
+      .rejects.toThrow('Derivative quality must be an integer between 1 and 100');
+  });
+
+  it('strips image metadata by policy before hashing and records what it read', async () => {
+    const xmp = Buffer.from('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta exif:GPSLatitude="51,30.0N"/>', 'latin1');
+    const segment = Buffer.concat([Buffer.from([0xFF, 0xE1, xmp.length + 2 >> 8, xmp.length + 2 & 0xFF]), xmp]);
+    const jpeg = Buffer.concat([
+      Buffer.from([0xFF, 0xD8]),
+      segment,
+      Buffer.from([0xFF, 0xC0, 0x00, 0x0B, 0x08, 0x00, 0x30, 0x00, 0x40, 0x01, 0x01, 0x11, 0x00]), // 64x48
+      Buffer.from([0xFF, 0xDA, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3F, 0x00, 0x12, 0xFF, 0xD9])
+    ]);
+
+    const result = await upload([await write('photo.jpg', jpeg)], 'storage-images');
+    const stored = storage.get('storage-images', 'exports/user123/batch001/photo.jpg')!;
+
+    expect(result.successful[0].image_metadata).toMatchObject({ width: 64, height: 48, has_gps: true, stripped: ['xmp'] });
+    expect(stored.data.includes('GPSLatitude')).toBe(false);
+    expect(stored.metadata).toEqual({ [CONTENT_HASH_METADATA_KEY]: computeContentHash(stored.data), imageWidth: 64, imageHeight: 48 });
+    await expect(processBatchUpload(['x.jpg'], {
+      bucketName: 'storage-images',
+      batchId: 'batch001',
+      folderPrefix: 'images',
+      userId: 'user123',
+      supabase: storage,
+      metadataPolicy: 'none' as any
+    })).rejects.toThrow('metadata_policy must be');
+  });
+
+  describe('with upload scanners', () => {
+    afterEach(() => {
+      setUploadScanners([]);
+      SECURITY_CONFIG.SCAN_FAILURE_ACTION = 'reject';
+    });
+
+    it('quarantines infected files in a private bucket and uploads the clean ones', async () => {
+      setUploadScanners([{ name: 'stub', scan: async buffer => buffer.includes('EVIL') ? ['Test.Evil'] : [] }]);
+
+      const result = await upload([await write('clean.txt', 'fine'), await write('bad.txt', 'EVIL payload')]);
+
+      expect(result.successful.map(item => item.storage_path)).toEqual(['exports/user123/batch001/clean.txt']);
+      expect(result.failed[0]).toMatchObject({
+        error: 'Upload blocked: Malware detected by stub: Test.Evil',
+        security_validation: { allowed: false, reason: 'malware_detected', riskScore: 100 },
+        quarantine: { bucket_name: 'storage-quarantine', storage_path: 'storage-exports/exports/user123/batch001/bad.txt' }
+      });
+      expect(storage.bucketSettings.get('storage-quarantine')!.public).toBe(false);
+      expect(storage.get('storage-quarantine', 'storage-exports/exports/user123/batch001/bad.txt')).toMatchObject({
+        contentType: 'application/octet-stream',
+        metadata: expect.objectContaining({ sourceBucket: 'storage-exports', signatures: 'Test.Evil' })
+      });
+    });
+
+    it('follows SCAN_FAILURE_ACTION when a scanner cannot check a file', async () => {
+      setUploadScanners([{ name: 'stub', scan: async () => { throw new Error('scanner offline'); } }]);
+
+      const rejected = await upload([await write('a.txt', 'a')]);
+      expect(rejected.failed[0].error).toBe('Upload blocked: stub scan failed: scanner offline');
+
+      SECURITY_CONFIG.SCAN_FAILURE_ACTION = 'allow';
+      const allowed = await upload([await write('a.txt', 'a')]);
+      expect(allowed.successful[0].security_validation).toMatchObject({ allowed: true, riskScore: 50, warnings: ['stub scan failed: scanner offline'] });
+    });
+  });
+
+  it('limits the batch size', async () => {
+    await expect(upload([])).rejects.toThrow('Batch size must be greater than 0');
+    await expect(upload(Array(501).fill('x.pdf'))).rejects.toThrow('Batch size exceeds maximum allowed (500)');
+  });
+});
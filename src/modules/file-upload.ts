@@ -1,5 +1,5 @@
 // File Upload Module for Supabase Storage MCP
-// Handles secure file reading, validation, and batch uploading
+// Handles secure file reading, validation, and concurrent batch uploading
 
 import fs from 'fs/promises';
 import path from 'path';
@@ -7,10 +7,38 @@ import crypto from 'crypto';
 import { 
   BatchUploadResult, 
   UploadResult, 
-  SecurityValidationResult 
+  SecurityValidationResult,
+  DedupPolicy,
+  DedupAction,
+  DerivativeOptions,
+  DerivativeResult,
+  ImageMetadata,
+  MetadataPolicy
 } from './types.js';
-import { generateSecureId, auditRequest, generateSecureHash, sanitizeInput } from './security.js';
+import {
+  SECURITY_CONFIG,
+  auditRequest,
+  generateSecureHash,
+  sanitizeInput,
+  matchesWildcard,
+  logSecurityEvent
+} from './security.js';
+import { STORAGE_CONFIG, TRANSPORT_CONFIG } from './config.js';
+import { checkUploadQuota, invalidateBucketUsage } from './storage-usage.js';
+import { DERIVATIVE_FORMATS, canGenerateDerivatives, generateDerivatives, getDerivativeSpecs } from './image-processing.js';
+import {
+  METADATA_POLICIES,
+  canProcessMetadata,
+  processImageMetadata,
+  resolveMetadataPolicy,
+  toObjectMetadata
+} from './image-metadata.js';
+import { canValidateStructure, validateImageStructure } from './image-validation.js';
+import { getUploadScanners, quarantineUpload, scanUpload } from './upload-scanning.js';
+import { fetchRemoteFile } from './remote-fetch.js';
 import { getErrorMessage } from '../utils/error-handling.js';
+import { mapWithConcurrency, sleep } from '../utils/concurrency.js';
+import { getRequestContext } from '../utils/request-context.js';
 
 export interface FileInfo {
   path?: string;         // For file path uploads
@@ -19,6 +47,7 @@ export interface FileInfo {
   mimeType: string;
   buffer?: Buffer;
   base64Content?: string; // For base64 uploads
+  sourceUrl?: string;     // For URL uploads
 }
 
 export interface UploadOptions {
@@ -27,6 +56,15 @@ export interface UploadOptions {
   folderPrefix: string;
   userId: string;
   supabase: any;
+  allowedMimeTypes?: string[]; // Defaults to SUPPORTED_MIME_TYPES (images only)
+  toolName?: string;
+  concurrency?: number;    // Defaults to STORAGE_CONFIG.UPLOAD_CONCURRENCY
+  maxRetries?: number;     // Defaults to STORAGE_CONFIG.UPLOAD_MAX_RETRIES
+  retryBaseDelay?: number; // Defaults to STORAGE_CONFIG.UPLOAD_RETRY_BASE_DELAY (ms)
+  dedupPolicy?: DedupPolicy; // What to do when the storage path is taken; defaults to 'skip'
+  derivatives?: DerivativeOptions; // Thumbnails, previews and conversions stored under processed/
+  metadataPolicy?: MetadataPolicy; // Can only tighten STORAGE_CONFIG.METADATA_POLICY
+  quarantineClient?: any; // Writes to QUARANTINE_BUCKET, which RLS-bound callers need not reach; defaults to supabase
 }
 
 export interface Base64ImageData {
@@ -35,12 +73,29 @@ export interface Base64ImageData {
   mime_type: string;
 }
 
+export interface RemoteFileData {
+  url: string;
+  filename?: string;  // Defaults to the last segment of the URL path
+}
+
+// Object metadata key holding the SHA-256 of the stored bytes
+export const CONTENT_HASH_METADATA_KEY = 'sha256';
+
+export const DEDUP_POLICIES: DedupPolicy[] = ['skip', 'overwrite', 'rename'];
+
+// Folder prefix derivatives are stored under, beside {user_id}/{batch_id}/ of the original
+export const DERIVATIVES_FOLDER = 'processed';
+
+// Maximum number of "name-N.ext" candidates tried by the rename policy
+const MAX_RENAME_ATTEMPTS = 100;
+
 // Supported MIME types for image operations
 export const SUPPORTED_MIME_TYPES = [
   'image/jpeg',
   'image/jpg', 
   'image/png',
   'image/webp',
+  'image/avif',
   'image/gif'
 ];
 
@@ -50,9 +105,73 @@ const MIME_TYPE_MAP: Record<string, string> = {
   '.jpeg': 'image/jpeg',
   '.png': 'image/png',
   '.webp': 'image/webp',
-  '.gif': 'image/gif'
+  '.avif': 'image/avif',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.bmp': 'image/bmp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.doc': 'application/msword',
+  '.xls': 'application/vnd.ms-excel',
+  '.ppt': 'application/vnd.ms-powerpoint'
 };
 
+// Binary types recognizable from their leading bytes alone
+const SNIFFABLE_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/bmp',
+  'image/tiff',
+  'application/pdf',
+  'application/zip'
+];
+
+// Document and archive types accepted by generic uploads
+export const DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'application/zip',
+  'application/x-zip-compressed',
+  'text/csv',
+  'application/json',
+  'text/plain',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/msword',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint'
+];
+
+// Default per-bucket MIME policy, first matching pattern wins ('*' is a wildcard).
+// Replaced by storage.MIME_POLICIES when set in the config file.
+export const BUCKET_MIME_POLICIES: Array<{ pattern: string; allowedMimeTypes: string[] }> = [
+  { pattern: '*-images', allowedMimeTypes: SUPPORTED_MIME_TYPES },
+  { pattern: '*-exports', allowedMimeTypes: [...SUPPORTED_MIME_TYPES, 'image/svg+xml', ...DOCUMENT_MIME_TYPES] }
+];
+
+/**
+ * Resolve the MIME types a bucket accepts, falling back to SECURITY_CONFIG.ALLOWED_MIME_TYPES
+ */
+export function getAllowedMimeTypesForBucket(bucketName: string): string[] {
+  const policies = STORAGE_CONFIG.MIME_POLICIES || BUCKET_MIME_POLICIES;
+  const policy = policies.find(candidate => matchesWildcard(candidate.pattern, bucketName));
+  if (policy) {
+    return policy.allowedMimeTypes;
+  }
+  return SECURITY_CONFIG.ALLOWED_MIME_TYPES;
+}
+
 /**
  * Validate file path for security
  */
@@ -72,6 +191,28 @@ function validateFilePath(filePath: string): void {
   }
 }
 
+/**
+ * Resolve a local file path before reading it. Over SSE the path comes from a remote client, so local
+ * paths are refused unless UPLOAD_ROOT is set; with UPLOAD_ROOT, the path must stay inside it once
+ * symlinks are resolved. Relative paths are taken from UPLOAD_ROOT.
+ */
+async function resolveLocalPath(filePath: string): Promise<string> {
+  const uploadRoot = STORAGE_CONFIG.UPLOAD_ROOT;
+  if (!uploadRoot) {
+    if (TRANSPORT_CONFIG.MODE === 'sse') {
+      throw new Error('Local file paths are not accepted over the SSE transport unless UPLOAD_ROOT is set');
+    }
+    return filePath;
+  }
+
+  const root = await fs.realpath(uploadRoot);
+  const resolved = await fs.realpath(path.resolve(root, filePath));
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`File path is outside UPLOAD_ROOT: ${filePath}`);
+  }
+  return resolved;
+}
+
 /**
  * Validate filename for security
  */
@@ -91,6 +232,21 @@ function validateFilename(filename: string): void {
   }
 }
 
+/**
+ * Validate derivative options from tool arguments
+ */
+function validateDerivativeOptions(derivatives: DerivativeOptions): void {
+  const invalidFormat = (derivatives.formats || []).find(format => !DERIVATIVE_FORMATS.includes(format));
+  if (invalidFormat) {
+    throw new Error(`Unsupported derivative format: ${invalidFormat}. Supported formats: ${DERIVATIVE_FORMATS.join(', ')}`);
+  }
+
+  const { quality } = derivatives;
+  if (quality !== undefined && (!Number.isInteger(quality) || quality < 1 || quality > 100)) {
+    throw new Error('Derivative quality must be an integer between 1 and 100');
+  }
+}
+
 /**
  * Validate batch size
  */
@@ -99,28 +255,32 @@ function validateBatchSize(size: number): void {
     throw new Error('Batch size must be greater than 0');
   }
   
-  if (size > 500) {
-    throw new Error('Batch size exceeds maximum allowed (500)');
+  if (size > SECURITY_CONFIG.MAX_BATCH_SIZE) {
+    throw new Error(`Batch size exceeds maximum allowed (${SECURITY_CONFIG.MAX_BATCH_SIZE})`);
   }
 }
 
 /**
  * Validate and read file information
  */
-export async function validateAndReadFile(filePath: string): Promise<FileInfo> {
+export async function validateAndReadFile(
+  filePath: string,
+  allowedMimeTypes: string[] = SUPPORTED_MIME_TYPES,
+  maxFileSize: number = SECURITY_CONFIG.MAX_FILE_SIZE
+): Promise<FileInfo> {
   try {
     // Security: Validate file path
     validateFilePath(filePath);
+    const localPath = await resolveLocalPath(filePath);
 
     // Check if file exists and is readable
-    const stats = await fs.stat(filePath);
+    const stats = await fs.stat(localPath);
     
     if (!stats.isFile()) {
       throw new Error(`Path is not a file: ${filePath}`);
     }
 
-    // Security: Check file size limits (50MB per file)
-    const maxFileSize = 50 * 1024 * 1024; // 50MB
+    // Security: Check file size limits
     if (stats.size > maxFileSize) {
       throw new Error(`File size ${formatFileSize(stats.size)} exceeds maximum allowed ${formatFileSize(maxFileSize)}`);
     }
@@ -138,12 +298,13 @@ export async function validateAndReadFile(filePath: string): Promise<FileInfo> {
     
     // Validate file extension and determine MIME type
     const mimeType = MIME_TYPE_MAP[extension];
-    if (!mimeType || !SUPPORTED_MIME_TYPES.includes(mimeType)) {
-      throw new Error(`Unsupported file type: ${extension}. Supported types: ${Object.keys(MIME_TYPE_MAP).join(', ')}`);
+    if (!mimeType || !allowedMimeTypes.includes(mimeType)) {
+      const supportedExtensions = Object.keys(MIME_TYPE_MAP).filter(ext => allowedMimeTypes.includes(MIME_TYPE_MAP[ext]));
+      throw new Error(`Unsupported file type: ${extension}. Supported types: ${supportedExtensions.join(', ')}`);
     }
 
     return {
-      path: filePath,
+      path: localPath,
       filename,
       size: stats.size,
       mimeType
@@ -156,7 +317,10 @@ export async function validateAndReadFile(filePath: string): Promise<FileInfo> {
 /**
  * Validate and read base64 file information
  */
-export async function validateAndReadBase64File(base64Data: Base64ImageData): Promise<FileInfo> {
+export async function validateAndReadBase64File(
+  base64Data: Base64ImageData,
+  allowedMimeTypes: string[] = SUPPORTED_MIME_TYPES
+): Promise<FileInfo> {
   try {
     // Validate input
     if (!base64Data || typeof base64Data !== 'object') {
@@ -173,8 +337,8 @@ export async function validateAndReadBase64File(base64Data: Base64ImageData): Pr
     validateFilename(filename);
     
     // Validate MIME type
-    if (!SUPPORTED_MIME_TYPES.includes(mime_type)) {
-      throw new Error(`Unsupported MIME type: ${mime_type}. Supported types: ${SUPPORTED_MIME_TYPES.join(', ')}`);
+    if (!allowedMimeTypes.includes(mime_type)) {
+      throw new Error(`Unsupported MIME type: ${mime_type}. Supported types: ${allowedMimeTypes.join(', ')}`);
     }
     
     // Validate and decode base64 content
@@ -187,20 +351,7 @@ export async function validateAndReadBase64File(base64Data: Base64ImageData): Pr
       throw new Error('Invalid base64 content provided');
     }
     
-    // Security: Check file size limits (50MB per file)
-    const maxFileSize = 50 * 1024 * 1024; // 50MB
-    if (buffer.length > maxFileSize) {
-      throw new Error(`File size ${formatFileSize(buffer.length)} exceeds maximum allowed ${formatFileSize(maxFileSize)}`);
-    }
-    
-    if (buffer.length === 0) {
-      throw new Error('File content is empty');
-    }
-    
-    // Basic file signature validation
-    if (!isValidImageFile(buffer, mime_type)) {
-      throw new Error(`Invalid file signature for ${mime_type}`);
-    }
+    validateFileContent(buffer, mime_type);
     
     return {
       filename,
@@ -214,6 +365,92 @@ export async function validateAndReadBase64File(base64Data: Base64ImageData): Pr
   }
 }
 
+/**
+ * Download a file from a URL and validate it like base64 content. The MIME type is taken from
+ * the bytes: the Content-Type header or file extension when the signature confirms it, otherwise
+ * the format the signature identifies.
+ */
+export async function validateAndReadRemoteFile(
+  remoteData: RemoteFileData,
+  allowedMimeTypes: string[] = SUPPORTED_MIME_TYPES,
+  maxFileSize: number = SECURITY_CONFIG.MAX_FILE_SIZE
+): Promise<FileInfo> {
+  try {
+    if (!remoteData || typeof remoteData.url !== 'string') {
+      throw new Error('Invalid remote file provided');
+    }
+
+    const remote = await fetchRemoteFile(remoteData.url, maxFileSize);
+
+    let filename = remoteData.filename || getUrlFilename(remoteData.url);
+    const mimeType = [remote.contentType, MIME_TYPE_MAP[path.extname(filename).toLowerCase()]]
+      .find(candidate => candidate && isValidFileSignature(remote.buffer, candidate)) ??
+      SNIFFABLE_MIME_TYPES.find(candidate => isValidFileSignature(remote.buffer, candidate));
+
+    if (!mimeType) {
+      throw new Error(`Cannot determine the file type (Content-Type: ${remote.contentType || 'none'})`);
+    }
+    if (!allowedMimeTypes.includes(mimeType)) {
+      throw new Error(`Unsupported MIME type: ${mimeType}. Supported types: ${allowedMimeTypes.join(', ')}`);
+    }
+
+    // Name extensionless downloads after their detected type
+    const extension = Object.keys(MIME_TYPE_MAP).find(candidate => MIME_TYPE_MAP[candidate] === mimeType);
+    if (!path.extname(filename) && extension) {
+      filename += extension;
+    }
+
+    validateFilename(filename);
+    validateFileContent(remote.buffer, mimeType, maxFileSize);
+
+    return {
+      filename,
+      size: remote.buffer.length,
+      mimeType,
+      buffer: remote.buffer,
+      sourceUrl: remoteData.url
+    };
+  } catch (error) {
+    throw new Error(`Remote file validation failed for ${remoteData?.url || 'unknown'}: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Last segment of a URL path, or "download" when the path has none
+ */
+function getUrlFilename(location: string): string {
+  try {
+    // Decoded before taking the base name so an encoded "/" cannot add folders
+    return path.posix.basename(decodeURIComponent(new URL(location).pathname)) || 'download';
+  } catch {
+    return 'download';
+  }
+}
+
+/**
+ * Check the size, signature and image structure of file content held in memory
+ */
+function validateFileContent(buffer: Buffer, mimeType: string, maxFileSize: number = SECURITY_CONFIG.MAX_FILE_SIZE): void {
+  // Security: Check file size limits
+  if (buffer.length > maxFileSize) {
+    throw new Error(`File size ${formatFileSize(buffer.length)} exceeds maximum allowed ${formatFileSize(maxFileSize)}`);
+  }
+
+  if (buffer.length === 0) {
+    throw new Error('File content is empty');
+  }
+
+  // Basic file signature validation
+  if (!isValidFileSignature(buffer, mimeType)) {
+    throw new Error(`Invalid file signature for ${mimeType}`);
+  }
+
+  // Security: Walk the image structure to catch truncated, oversized and polyglot files
+  if (canValidateStructure(mimeType)) {
+    validateImageStructure(buffer, mimeType);
+  }
+}
+
 /**
  * Read file buffer with security validation
  */
@@ -237,10 +474,20 @@ export async function readFileBuffer(fileInfo: FileInfo): Promise<Buffer> {
     }
 
     // Basic file signature validation
-    if (!isValidImageFile(buffer, fileInfo.mimeType)) {
+    if (!isValidFileSignature(buffer, fileInfo.mimeType)) {
       throw new Error(`Invalid file signature for ${fileInfo.mimeType}`);
     }
 
+    // Security: Walk the image structure to catch truncated, oversized and polyglot files
+    if (canValidateStructure(fileInfo.mimeType)) {
+      validateImageStructure(buffer, fileInfo.mimeType);
+    }
+
+    // Security: Strip scripts and event handlers from SVG markup
+    if (fileInfo.mimeType === 'image/svg+xml') {
+      buffer = await sanitizeSvg(buffer);
+    }
+
     return buffer;
   } catch (error) {
     const identifier = fileInfo.path || fileInfo.filename || 'unknown';
@@ -258,11 +505,16 @@ function isValidImageFile(buffer: Buffer, mimeType: string): boolean {
   
   switch (mimeType) {
     case 'image/jpeg':
+    case 'image/jpg':
       return header[0] === 0xFF && header[1] === 0xD8;
     case 'image/png':
       return header[0] === 0x89 && header[1] === 0x50 && header[2] === 0x4E && header[3] === 0x47;
     case 'image/webp':
-      return header.subarray(0, 4).toString('ascii') === 'RIFF' && header.subarray(8, 12).toString('ascii') === 'WEBP';
+      return buffer.length >= 12 && buffer.subarray(0, 4).toString('ascii') === 'RIFF' && buffer.subarray(8, 12).toString('ascii') === 'WEBP';
+    case 'image/avif':
+      // ISO-BMFF: a leading ftyp box whose major brand is avif (still) or avis (sequence)
+      return buffer.length >= 12 && buffer.subarray(4, 8).toString('ascii') === 'ftyp' &&
+        ['avif', 'avis'].includes(buffer.subarray(8, 12).toString('ascii'));
     case 'image/gif':
       const gifHeader = header.subarray(0, 6).toString('ascii');
       return gifHeader === 'GIF87a' || gifHeader === 'GIF89a';
@@ -272,7 +524,113 @@ function isValidImageFile(buffer: Buffer, mimeType: string): boolean {
 }
 
 /**
- * Generate storage path with security sanitization
+ * Validate file signature for any supported MIME type
+ */
+function isValidFileSignature(buffer: Buffer, mimeType: string): boolean {
+  if (buffer.length === 0) return false;
+
+  switch (mimeType) {
+    case 'image/svg+xml': {
+      const text = decodeText(buffer);
+      return text !== null && /<svg[\s>]/i.test(text);
+    }
+    case 'image/bmp':
+      return buffer.length >= 2 && buffer.subarray(0, 2).toString('ascii') === 'BM';
+    case 'image/tiff': {
+      const header = buffer.subarray(0, 4).toString('binary');
+      return header === 'II*\x00' || header === 'MM\x00*';
+    }
+    case 'application/pdf':
+      return buffer.subarray(0, 5).toString('ascii') === '%PDF-';
+    case 'application/zip':
+    case 'application/x-zip-compressed':
+      return isZipArchive(buffer);
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+    case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+    case 'application/vnd.openxmlformats-officedocument.presentationml.presentation':
+      // OOXML documents are ZIP archives carrying a content types manifest
+      return isZipArchive(buffer) && buffer.includes('[Content_Types].xml');
+    case 'application/msword':
+    case 'application/vnd.ms-excel':
+    case 'application/vnd.ms-powerpoint':
+      // Legacy Office documents use the OLE compound file header
+      return buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1]));
+    case 'text/csv':
+    case 'text/plain':
+      return decodeText(buffer) !== null;
+    case 'application/json': {
+      const text = decodeText(buffer);
+      if (text === null) return false;
+      try {
+        JSON.parse(text);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+    default:
+      return isValidImageFile(buffer, mimeType);
+  }
+}
+
+/**
+ * Validate the leading bytes of a file that is too large to inspect in full
+ */
+export function isValidFileHeader(header: Buffer, mimeType: string): boolean {
+  switch (mimeType) {
+    case 'image/svg+xml':
+      // SVG must be sanitized as a whole document
+      return false;
+    case 'text/csv':
+    case 'text/plain':
+    case 'application/json':
+      return header.length > 0 && !header.includes(0x00);
+    default:
+      return isValidFileSignature(header, mimeType);
+  }
+}
+
+/**
+ * Check for a local file header or an empty-archive end record
+ */
+function isZipArchive(buffer: Buffer): boolean {
+  if (buffer.length < 4) return false;
+  const signature = buffer.readUInt32LE(0);
+  return signature === 0x04034B50 || signature === 0x06054B50;
+}
+
+/**
+ * Decode a buffer as UTF-8 text, returning null for binary content
+ */
+function decodeText(buffer: Buffer): string | null {
+  if (buffer.includes(0x00)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sanitize SVG markup, removing scripts, event handlers and javascript: URLs
+ */
+async function sanitizeSvg(buffer: Buffer): Promise<Buffer> {
+  // Loaded lazily: DOMPurify pulls in jsdom, which is slow to start
+  const { default: DOMPurify } = await import('isomorphic-dompurify');
+  const sanitized = DOMPurify.sanitize(buffer.toString('utf8'), {
+    USE_PROFILES: { svg: true, svgFilters: true }
+  });
+
+  if (!/<svg[\s>]/i.test(sanitized)) {
+    throw new Error('SVG content was rejected by sanitization');
+  }
+
+  return Buffer.from(sanitized, 'utf8');
+}
+
+/**
+ * Generate storage path with security sanitization. folder_prefix may be nested, so user_id and
+ * batch_id must be single segments for the owner to be read back from the path (getObjectOwner).
  */
 export function generateStoragePath(
   folderPrefix: string,
@@ -286,50 +644,255 @@ export function generateStoragePath(
   const sanitizedBatchId = sanitizeInput(batchId);
   const sanitizedFilename = sanitizeInput(filename);
 
+  if (sanitizedUserId.includes('/') || sanitizedBatchId.includes('/')) {
+    throw new Error('user_id and batch_id must not contain "/"');
+  }
+
   return `${sanitizedPrefix}/${sanitizedUserId}/${sanitizedBatchId}/${sanitizedFilename}`;
 }
 
 /**
- * Upload single file to Supabase Storage
+ * Check whether a storage error is worth retrying (timeouts, throttling, 5xx, network failures)
  */
-export async function uploadSingleFile(
-  fileInfo: FileInfo,
+export function isTransientStorageError(error: any): boolean {
+  const status = Number(error?.status ?? error?.statusCode);
+  if ([408, 429, 500, 502, 503, 504].includes(status)) {
+    return true;
+  }
+
+  const message = (error?.message || getErrorMessage(error)).toLowerCase();
+  return ['fetch failed', 'network', 'timeout', 'timed out', 'econnreset', 'econnrefused', 'etimedout', 'socket hang up']
+    .some(pattern => message.includes(pattern));
+}
+
+/**
+ * Compute the SHA-256 content hash used for deduplication
+ */
+export function computeContentHash(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Look up the object stored at a path; storage errors are thrown as-is so retries can classify them
+ */
+async function getExistingObject(
   storagePath: string,
   options: UploadOptions
-): Promise<UploadResult> {
+): Promise<{ id: string; contentHash?: string } | null> {
+  const storage = options.supabase.storage.from(options.bucketName);
+
+  const { data: exists, error: existsError } = await storage.exists(storagePath);
+  if (existsError && exists !== false) {
+    throw existsError;
+  }
+  if (!exists) {
+    return null;
+  }
+
+  const { data: info, error: infoError } = await storage.info(storagePath);
+  if (infoError) {
+    throw infoError;
+  }
+
+  return {
+    id: info?.id || '',
+    contentHash: info?.userMetadata?.[CONTENT_HASH_METADATA_KEY] ?? info?.metadata?.[CONTENT_HASH_METADATA_KEY]
+  };
+}
+
+function getRenamedPath(storagePath: string, index: number): string {
+  const extension = path.posix.extname(storagePath);
+  return `${storagePath.slice(0, storagePath.length - extension.length)}-${index}${extension}`;
+}
+
+/**
+ * Decide where, and whether, to upload given the dedup policy and what is already stored.
+ * Identical content is never uploaded twice, whatever the policy.
+ */
+async function resolveUploadTarget(
+  storagePath: string,
+  contentHash: string,
+  options: UploadOptions
+): Promise<{ storagePath: string; action: DedupAction; fileId?: string }> {
+  const policy = options.dedupPolicy ?? 'skip';
+
+  for (let index = 0; index <= MAX_RENAME_ATTEMPTS; index++) {
+    const candidate = index === 0 ? storagePath : getRenamedPath(storagePath, index);
+    const existing = await getExistingObject(candidate, options);
+
+    if (!existing) {
+      return { storagePath: candidate, action: index === 0 ? 'uploaded' : 'renamed' };
+    }
+
+    if (existing.contentHash === contentHash || policy === 'skip') {
+      return { storagePath: candidate, action: 'skipped', fileId: existing.id };
+    }
+
+    if (policy === 'overwrite') {
+      return { storagePath: candidate, action: 'overwritten' };
+    }
+  }
+
+  throw new Error(`No free name for ${storagePath} after ${MAX_RENAME_ATTEMPTS} renames`);
+}
+
+/**
+ * Generate the requested derivatives of an uploaded image and store them beside it under processed/.
+ * Failures are reported per derivative and never fail the original upload.
+ */
+async function uploadDerivatives(
+  buffer: Buffer,
+  mimeType: string,
+  storagePath: string,
+  options: UploadOptions
+): Promise<DerivativeResult[]> {
+  const baseName = path.posix.basename(storagePath, path.posix.extname(storagePath));
+  const specs = getDerivativeSpecs(mimeType, baseName, options.derivatives!);
+  const derivativePath = (filename: string) =>
+    generateStoragePath(DERIVATIVES_FOLDER, options.userId, options.batchId, filename);
+
+  let derivatives;
   try {
-    // Read file buffer
-    const buffer = await readFileBuffer(fileInfo);
+    derivatives = await generateDerivatives(buffer, mimeType, specs, options.derivatives!.quality);
+  } catch (error) {
+    return specs.map(spec => ({
+      kind: spec.kind,
+      format: spec.format,
+      storage_path: derivativePath(spec.filename),
+      file_id: '',
+      success: false,
+      error: `Image processing failed: ${getErrorMessage(error)}`
+    }));
+  }
+
+  return Promise.all(derivatives.map(async derivative => {
+    const result = {
+      kind: derivative.kind,
+      format: derivative.format,
+      storage_path: derivativePath(derivative.filename),
+      width: derivative.width,
+      height: derivative.height,
+      size: derivative.buffer.length
+    };
 
-    // Upload to Supabase
     const { data, error } = await options.supabase.storage
       .from(options.bucketName)
-      .upload(storagePath, buffer, {
-        contentType: fileInfo.mimeType,
+      .upload(result.storage_path, derivative.buffer, {
+        contentType: derivative.mimeType,
         cacheControl: '3600',
-        upsert: false // Don't overwrite existing files
+        upsert: true
       });
 
-    if (error) {
-      return {
-        original_path: fileInfo.path || fileInfo.filename,
-        storage_path: storagePath,
-        file_id: '',
-        success: false,
-        error: error.message
-      };
+    return error
+      ? { ...result, file_id: '', success: false, error: error.message }
+      : { ...result, file_id: data?.id || '', success: true };
+  }));
+}
+
+/**
+ * Upload single file to Supabase Storage, retrying transient failures with exponential backoff
+ */
+export async function uploadSingleFile(
+  fileInfo: FileInfo,
+  storagePath: string,
+  options: UploadOptions
+): Promise<UploadResult> {
+  const startTime = Date.now();
+  const maxRetries = options.maxRetries ?? STORAGE_CONFIG.UPLOAD_MAX_RETRIES;
+  const baseDelay = options.retryBaseDelay ?? STORAGE_CONFIG.UPLOAD_RETRY_BASE_DELAY;
+  let attempts = 0;
+  let targetPath = storagePath;
+  let contentHash: string | undefined;
+  let imageMetadata: ImageMetadata | undefined;
+
+  const baseResult = () => ({
+    original_path: fileInfo.path || fileInfo.sourceUrl || fileInfo.filename,
+    storage_path: targetPath,
+    content_hash: contentHash,
+    image_metadata: imageMetadata,
+    attempts,
+    duration_ms: Date.now() - startTime
+  });
+
+  try {
+    // Read file buffer
+    let buffer = await readFileBuffer(fileInfo);
+
+    // Privacy: strip EXIF/XMP/IPTC before the bytes are hashed and stored
+    if (canProcessMetadata(fileInfo.mimeType)) {
+      ({ buffer, metadata: imageMetadata } = processImageMetadata(
+        buffer,
+        fileInfo.mimeType,
+        resolveMetadataPolicy(options.metadataPolicy)
+      ));
     }
+    contentHash = computeContentHash(buffer);
 
-    return {
-      original_path: fileInfo.path || fileInfo.filename,
-      storage_path: storagePath,
-      file_id: generateSecureId(), // Generate UUID for tracking
-      success: true
-    };
+    while (true) {
+      attempts++;
+
+      let error: any;
+      try {
+        const target = await resolveUploadTarget(storagePath, contentHash, options);
+        targetPath = target.storagePath;
+
+        if (target.action === 'skipped') {
+          return {
+            ...baseResult(),
+            file_id: target.fileId || '',
+            success: true,
+            skipped: true,
+            dedup_action: target.action
+          };
+        }
+
+        // Upload to Supabase
+        let data: any;
+        ({ data, error } = await options.supabase.storage
+          .from(options.bucketName)
+          .upload(targetPath, buffer, {
+            contentType: fileInfo.mimeType,
+            cacheControl: '3600',
+            upsert: target.action === 'overwritten',
+            metadata: {
+              [CONTENT_HASH_METADATA_KEY]: contentHash,
+              ...(imageMetadata && toObjectMetadata(imageMetadata))
+            }
+          }));
+
+        if (!error) {
+          const derivatives = options.derivatives && canGenerateDerivatives(fileInfo.mimeType)
+            ? await uploadDerivatives(buffer, fileInfo.mimeType, targetPath, options)
+            : undefined;
+
+          return {
+            ...baseResult(),
+            file_id: data?.id || '',
+            success: true,
+            dedup_action: target.action,
+            derivatives
+          };
+        }
+      } catch (thrown) {
+        error = thrown;
+      }
+
+      if (attempts > maxRetries || !isTransientStorageError(error)) {
+        return {
+          ...baseResult(),
+          file_id: '',
+          success: false,
+          error: error?.message || getErrorMessage(error)
+        };
+      }
+
+      // Exponential backoff with jitter: base, 2x base, 4x base, ...
+      const delay = baseDelay * 2 ** (attempts - 1);
+      await sleep(delay + Math.floor(Math.random() * delay / 2));
+    }
   } catch (error) {
     return {
-      original_path: fileInfo.path || fileInfo.filename,
-      storage_path: storagePath,
+      ...baseResult(),
       file_id: '',
       success: false,
       error: getErrorMessage(error)
@@ -338,41 +901,172 @@ export async function uploadSingleFile(
 }
 
 /**
- * Process batch upload with progress tracking and error handling
+ * Scan a file's bytes as received, before metadata stripping or sanitization, then upload it.
+ * Infected files are quarantined instead; files a scanner could not check follow SCAN_FAILURE_ACTION.
+ */
+async function scanAndUploadFile(
+  fileInfo: FileInfo,
+  storagePath: string,
+  options: UploadOptions
+): Promise<UploadResult> {
+  const startTime = Date.now();
+  const blocked = (error: string, securityValidation?: SecurityValidationResult, quarantine?: UploadResult['quarantine']): UploadResult => ({
+    original_path: fileInfo.path || fileInfo.sourceUrl || fileInfo.filename,
+    storage_path: storagePath,
+    file_id: '',
+    success: false,
+    attempts: 0,
+    duration_ms: Date.now() - startTime,
+    error,
+    security_validation: securityValidation,
+    quarantine
+  });
+
+  let buffer: Buffer;
+  try {
+    buffer = fileInfo.buffer ?? await fs.readFile(fileInfo.path!);
+  } catch (error) {
+    return blocked(`Failed to read file ${fileInfo.path}: ${getErrorMessage(error)}`);
+  }
+
+  const scans = await scanUpload(buffer, fileInfo);
+  const securityContext = getRequestContext()?.securityValidation?.securityContext;
+  const eventData = {
+    toolName: options.toolName,
+    bucket_name: options.bucketName,
+    storage_path: storagePath,
+    filename: fileInfo.filename
+  };
+
+  const infected = scans.filter(scan => scan.verdict === 'infected');
+  if (infected.length > 0) {
+    const signatures = infected.flatMap(scan => scan.signatures);
+    const errors = infected.map(scan => `Malware detected by ${scan.scanner}: ${scan.signatures.join(', ')}`);
+
+    let quarantine: UploadResult['quarantine'];
+    let quarantineError: string | undefined;
+    try {
+      quarantine = await quarantineUpload(options.quarantineClient ?? options.supabase, options.bucketName, storagePath, buffer, {
+        scanners: infected.map(scan => scan.scanner).join(','),
+        signatures: signatures.join(','),
+        [CONTENT_HASH_METADATA_KEY]: computeContentHash(buffer)
+      });
+    } catch (error) {
+      quarantineError = getErrorMessage(error);
+    }
+
+    logSecurityEvent('malware_detected', securityContext, {
+      ...eventData,
+      signatures,
+      quarantine,
+      quarantine_error: quarantineError
+    });
+
+    const message = `Upload blocked: ${errors.join('; ')}`;
+    return blocked(
+      quarantineError ? `${message} (quarantine failed: ${quarantineError})` : message,
+      { allowed: false, reason: 'malware_detected', riskScore: 100, warnings: [], errors, scans },
+      quarantine
+    );
+  }
+
+  const failures = scans
+    .filter(scan => scan.verdict === 'error')
+    .map(scan => `${scan.scanner} scan failed: ${scan.error}`);
+  if (failures.length > 0) {
+    logSecurityEvent('scan_failed', securityContext, {
+      ...eventData,
+      reason: failures.join('; '),
+      action: SECURITY_CONFIG.SCAN_FAILURE_ACTION
+    });
+
+    if (SECURITY_CONFIG.SCAN_FAILURE_ACTION === 'reject') {
+      return blocked(`Upload blocked: ${failures.join('; ')}`, {
+        allowed: false,
+        reason: 'scan_failed',
+        riskScore: 50,
+        warnings: [],
+        errors: failures,
+        scans
+      });
+    }
+  }
+
+  // The bytes already read are handed on so the file is not read twice
+  const result = await uploadSingleFile({ ...fileInfo, buffer }, storagePath, options);
+  return {
+    ...result,
+    security_validation: { allowed: true, riskScore: failures.length > 0 ? 50 : 0, warnings: failures, errors: [], scans }
+  };
+}
+
+/**
+ * Process batch upload with bounded parallelism; results keep input order
  */
 export async function processBatchUpload(
-  inputData: string[] | Base64ImageData[],
+  inputData: string[] | Base64ImageData[] | RemoteFileData[],
   options: UploadOptions
 ): Promise<BatchUploadResult> {
-  const results: UploadResult[] = [];
-  let successCount = 0;
-  let errorCount = 0;
+  let batchBytes = 0;
 
   // Security: Validate batch size
   validateBatchSize(inputData.length);
 
-  // Determine if input is file paths or base64 data
-  const isBase64Input = inputData.length > 0 && typeof inputData[0] === 'object';
+  if (options.dedupPolicy && !DEDUP_POLICIES.includes(options.dedupPolicy)) {
+    throw new Error('dedup_policy must be "skip", "overwrite", or "rename"');
+  }
+
+  if (options.metadataPolicy && !METADATA_POLICIES.includes(options.metadataPolicy)) {
+    throw new Error('metadata_policy must be "keep", "strip_sensitive", or "strip_all"');
+  }
+
+  if (options.derivatives) {
+    validateDerivativeOptions(options.derivatives);
+  }
+
+  // Determine if input is file paths, base64 data or URLs
+  const isRemoteInput = inputData.length > 0 && typeof inputData[0] === 'object' && 'url' in inputData[0];
+  const isBase64Input = !isRemoteInput && inputData.length > 0 && typeof inputData[0] === 'object';
 
-  // Process each file
+  // Validate every file up front so batch limits are applied in input order
+  const prepared: Array<{ fileInfo: FileInfo; storagePath: string } | UploadResult> = [];
   for (let i = 0; i < inputData.length; i++) {
     const input = inputData[i];
-    let fileInfo: FileInfo;
     let identifier: string = `batch_item_${i}`;
     
     try {
-      if (isBase64Input) {
+      let fileInfo: FileInfo;
+      if (isRemoteInput) {
+        // Handle URL input; the download stops at the file size limit or what is left of the batch limit
+        const remoteData = input as RemoteFileData;
+        identifier = remoteData?.url || identifier;
+        const remainingBytes = STORAGE_CONFIG.MAX_BATCH_BYTES - batchBytes;
+        if (remainingBytes <= 0) {
+          throw new Error(`Batch size limit of ${formatFileSize(STORAGE_CONFIG.MAX_BATCH_BYTES)} reached`);
+        }
+        fileInfo = await validateAndReadRemoteFile(
+          remoteData,
+          options.allowedMimeTypes,
+          Math.min(SECURITY_CONFIG.MAX_FILE_SIZE, remainingBytes)
+        );
+      } else if (isBase64Input) {
         // Handle base64 input
         const base64Data = input as Base64ImageData;
-        fileInfo = await validateAndReadBase64File(base64Data);
-        identifier = base64Data.filename;
+        identifier = base64Data?.filename || identifier;
+        fileInfo = await validateAndReadBase64File(base64Data, options.allowedMimeTypes);
       } else {
         // Handle file path input
         const filePath = input as string;
-        fileInfo = await validateAndReadFile(filePath);
-        identifier = filePath;
+        identifier = filePath || identifier;
+        fileInfo = await validateAndReadFile(filePath, options.allowedMimeTypes);
       }
       
+      // Security: Enforce the total size limit for the batch
+      if (batchBytes + fileInfo.size > STORAGE_CONFIG.MAX_BATCH_BYTES) {
+        throw new Error(`Batch size limit of ${formatFileSize(STORAGE_CONFIG.MAX_BATCH_BYTES)} reached`);
+      }
+      batchBytes += fileInfo.size;
+      
       // Generate storage path
       const storagePath = generateStoragePath(
         options.folderPrefix,
@@ -381,35 +1075,56 @@ export async function processBatchUpload(
         fileInfo.filename
       );
 
-      // Upload file
-      const result = await uploadSingleFile(fileInfo, storagePath, options);
-      results.push(result);
-
-      if (result.success) {
-        successCount++;
-      } else {
-        errorCount++;
-      }
-
+      prepared.push({ fileInfo, storagePath });
     } catch (error) {
-      const result: UploadResult = {
-        original_path: identifier || `batch_item_${i}`,
+      prepared.push({
+        original_path: identifier,
         storage_path: '',
         file_id: '',
         success: false,
+        attempts: 0,
         error: getErrorMessage(error)
-      };
-      results.push(result);
-      errorCount++;
+      });
     }
   }
 
+  // Quotas are checked once for the whole batch, before anything is uploaded, and its size stays
+  // reserved until the uploads have finished
+  const accepted = prepared.filter((item): item is { fileInfo: FileInfo; storagePath: string } => 'fileInfo' in item);
+  const releaseQuota = accepted.length > 0
+    ? await checkUploadQuota(options.supabase, options.bucketName, options.userId, batchBytes, accepted.length)
+    : () => {};
+
+  // Upload validated files through the concurrency pool
+  const concurrency = options.concurrency ?? STORAGE_CONFIG.UPLOAD_CONCURRENCY;
+  const scanning = getUploadScanners().length > 0;
+  let results: UploadResult[];
+  try {
+    results = await mapWithConcurrency(prepared, concurrency, async item => {
+      if (!('fileInfo' in item)) return item;
+      return scanning
+        ? scanAndUploadFile(item.fileInfo, item.storagePath, options)
+        : uploadSingleFile(item.fileInfo, item.storagePath, options);
+    });
+  } finally {
+    releaseQuota();
+  }
+
+  const successCount = results.filter(r => r.success).length;
+  const skippedCount = results.filter(r => r.skipped).length;
+  const errorCount = results.length - successCount;
+
+  if (successCount > skippedCount) {
+    invalidateBucketUsage(options.bucketName);
+  }
+
   // Audit the batch operation
-  auditRequest('upload_image_batch', successCount > 0, generateSecureHash(JSON.stringify({
+  auditRequest(options.toolName || 'upload_image_batch', successCount > 0, generateSecureHash(JSON.stringify({
     batch_id: options.batchId,
     bucket_name: options.bucketName,
     total_files: inputData.length,
-    success_count: successCount
+    success_count: successCount,
+    skipped_count: skippedCount
   })));
 
   return {
@@ -417,12 +1132,16 @@ export async function processBatchUpload(
     failed: results.filter(r => !r.success),
     total: inputData.length,
     success_count: successCount,
+    skipped_count: skippedCount,
     error_count: errorCount,
     batch_id: options.batchId,
     security_summary: {
       validations_passed: successCount,
       validations_failed: errorCount,
-      risk_score_average: 0 // Low risk for successful file uploads
+      // Unscanned uploads count as low risk
+      risk_score_average: results.length > 0
+        ? Math.round(results.reduce((sum, r) => sum + (r.security_validation?.riskScore ?? 0), 0) / results.length)
+        : 0
     }
   };
 }
@@ -430,7 +1149,7 @@ export async function processBatchUpload(
 /**
  * Format file size for human readable output
  */
-function formatFileSize(bytes: number): string {
+export function formatFileSize(bytes: number): string {
   const units = ['B', 'KB', 'MB', 'GB'];
   let size = bytes;
   let unitIndex = 0;
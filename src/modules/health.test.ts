@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryStorage } from '../../test/memory-storage.js';
+import { SERVER_CONFIG } from './config.js';
+import { buildHealthReport, probeStorage } from './health.js';
+import { validateSupabaseConfig } from '../utils/error-handling.js';
+
+describe('probeStorage', () => {
+  it('reports the bucket count when storage answers', async () => {
+    const storage = new MemoryStorage();
+    storage.put('storage-images', 'a.png');
+    storage.put('storage-exports', 'b.pdf');
+
+    expect(await probeStorage(storage)).toMatchObject({ reachable: true, bucket_count: 2 });
+  });
+
+  it('reports storage errors and timeouts as unreachable', async () => {
+    const storage = new MemoryStorage();
+    storage.failWith = () => 'Invalid API key';
+    expect(await probeStorage(storage)).toMatchObject({ reachable: false, error: 'Invalid API key' });
+
+    const hanging = { storage: { listBuckets: () => new Promise(() => {}) } };
+    expect(await probeStorage(hanging, 10)).toMatchObject({ reachable: false, error: 'Storage probe timed out after 10ms' });
+  });
+});
+
+describe('buildHealthReport', () => {
+  it('combines the probe with the active configuration', () => {
+    const probe = { reachable: false, latency_ms: 3, error: 'down', checked_at: '2025-01-01T00:00:00.000Z' };
+    const report = buildHealthReport(probe, 'https://project.supabase.co', true);
+
+    expect(report.status).toBe('unhealthy');
+    expect(report.storage).toBe(probe);
+    expect(report.configuration).toMatchObject({
+      supabase_url: 'https://project.supabase.co',
+      service_key_configured: true,
+      limits: { max_file_size: SERVER_CONFIG.security.MAX_FILE_SIZE, max_batch_bytes: SERVER_CONFIG.storage.MAX_BATCH_BYTES },
+      buckets: { images: SERVER_CONFIG.storage.IMAGES_BUCKET, exports: SERVER_CONFIG.storage.EXPORTS_BUCKET }
+    });
+  });
+});
+
+describe('validateSupabaseConfig', () => {
+  const serviceKey = 'k'.repeat(60);
+
+  it('accepts a URL and a service key', () => {
+    expect(validateSupabaseConfig({ url: 'https://project.supabase.co', serviceKey })).toEqual({
+      url: 'https://project.supabase.co',
+      serviceKey
+    });
+  });
+
+  it('names the missing or malformed setting', () => {
+    expect(() => validateSupabaseConfig({ serviceKey })).toThrow('SUPABASE_URL');
+    expect(() => validateSupabaseConfig({ url: 'project.supabase.co', serviceKey })).toThrow('Invalid Supabase URL format');
+    expect(() => validateSupabaseConfig({ url: 'https://project.supabase.co', serviceKey: 'short' })).toThrow('service key appears to be invalid');
+  });
+});
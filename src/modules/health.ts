@@ -0,0 +1,91 @@
+// Health Module for Supabase Storage MCP
+// Storage connectivity probing and configuration reporting
+
+import { HealthCheckResult, StorageProbeResult } from './types.js';
+import { SERVER_CONFIG } from './config.js';
+import { getErrorMessage } from '../utils/error-handling.js';
+
+// Maximum time to wait for the storage API before reporting it unreachable
+export const PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * Probe Supabase Storage by listing buckets, measuring round-trip latency
+ */
+export async function probeStorage(supabase: any, timeoutMs: number = PROBE_TIMEOUT_MS): Promise<StorageProbeResult> {
+  const started = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Storage probe timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+
+    const { data, error } = await Promise.race([supabase.storage.listBuckets(), timeout]);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return {
+      reachable: true,
+      latency_ms: Date.now() - started,
+      bucket_count: (data || []).length,
+      checked_at: new Date().toISOString()
+    };
+  } catch (error) {
+    return {
+      reachable: false,
+      latency_ms: Date.now() - started,
+      error: getErrorMessage(error),
+      checked_at: new Date().toISOString()
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Build the health_check report from a probe result and the active configuration
+ */
+export function buildHealthReport(
+  probe: StorageProbeResult,
+  supabaseUrl: string,
+  serviceKeyConfigured: boolean
+): HealthCheckResult {
+  const { security, storage, configFile } = SERVER_CONFIG;
+
+  return {
+    status: probe.reachable ? 'healthy' : 'unhealthy',
+    storage: probe,
+    configuration: {
+      supabase_url: supabaseUrl,
+      service_key_configured: serviceKeyConfigured,
+      config_file: configFile,
+      validate_connection_on_startup: storage.VALIDATE_CONNECTION,
+      security_features: {
+        rate_limiting: security.ENABLE_RATE_LIMITING,
+        threat_detection: security.ENABLE_THREAT_DETECTION,
+        audit_logging: security.ENABLE_AUDIT_LOGGING,
+        input_validation: security.ENABLE_INPUT_VALIDATION,
+        file_security: security.ENABLE_FILE_SECURITY
+      },
+      limits: {
+        max_file_size: security.MAX_FILE_SIZE,
+        max_files_per_batch: security.MAX_BATCH_SIZE,
+        max_batch_bytes: storage.MAX_BATCH_BYTES,
+        signed_url_expires_in: storage.SIGNED_URL_EXPIRES_IN,
+        download_url_expires_in: storage.DOWNLOAD_URL_EXPIRES_IN
+      },
+      buckets: {
+        images: storage.IMAGES_BUCKET,
+        exports: storage.EXPORTS_BUCKET
+      }
+    },
+    server_info: {
+      name: 'supabase-storage-mcp',
+      version: '1.0.0',
+      uptime: process.uptime(),
+      node_version: process.version
+    }
+  };
+}
@@ -0,0 +1,208 @@
+import http, { IncomingMessage } from 'http';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_TRANSPORT_CONFIG } from './config.js';
+import { HttpTransport, getAllowedHostNames, getClientHeaders, isAllowedHost, startHttpTransport } from './http-transport.js';
+import { getRequestHeaders } from '../utils/request-context.js';
+
+interface SseStream {
+  events: Array<{ event: string; data: string }>;
+  next(event: string): Promise<string>;
+  close(): void;
+}
+
+/**
+ * Open GET /sse and collect the events it streams
+ */
+function openSse(url: string): Promise<SseStream> {
+  return new Promise((resolve, reject) => {
+    const request = http.get(url, response => {
+      const events: SseStream['events'] = [];
+      const waiters: Array<() => void> = [];
+      let buffer = '';
+
+      response.setEncoding('utf8');
+      response.on('data', chunk => {
+        buffer += chunk;
+        let end;
+        while ((end = buffer.indexOf('\n\n')) !== -1) {
+          const block = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const event = /^event: (.*)$/m.exec(block)?.[1] || 'message';
+          events.push({ event, data: /^data: (.*)$/m.exec(block)?.[1] || '' });
+          waiters.splice(0).forEach(wake => wake());
+        }
+      });
+
+      resolve({
+        events,
+        async next(event) {
+          let found;
+          while (!(found = events.find(item => item.event === event))) {
+            await new Promise<void>(wake => waiters.push(wake));
+          }
+          events.splice(events.indexOf(found), 1);
+          return found.data;
+        },
+        close: () => request.destroy()
+      });
+    });
+    request.on('error', reject);
+  });
+}
+
+function post(url: string, body: unknown, headers: Record<string, string> = {}): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const request = http.request(url, { method: 'POST', headers: { 'content-type': 'application/json', ...headers } }, response => {
+      let text = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => text += chunk);
+      response.on('end', () => resolve({ status: response.statusCode!, body: text }));
+    });
+    request.on('error', reject);
+    request.end(JSON.stringify(body));
+  });
+}
+
+describe('getClientHeaders', () => {
+  const request = (headers: Record<string, string | string[]>) =>
+    ({ headers, socket: { remoteAddress: '127.0.0.1' } }) as unknown as IncomingMessage;
+
+  it('drops client identity headers unless the proxy is trusted', () => {
+    const req = request({ 'x-forwarded-for': '203.0.113.7', 'x-user-id': 'alice', 'x-session-id': 'chosen', 'user-agent': 'test-client' });
+
+    expect(getClientHeaders(req, 'session-1', false)).toEqual({
+      'user-agent': 'test-client',
+      'x-real-ip': '127.0.0.1',
+      'x-session-id': 'session-1'
+    });
+    expect(getClientHeaders(req, 'session-1', true)).toEqual({
+      'user-agent': 'test-client',
+      'x-forwarded-for': '203.0.113.7',
+      'x-user-id': 'alice',
+      'x-session-id': 'session-1'
+    });
+  });
+
+  it('joins repeated headers', () => {
+    expect(getClientHeaders(request({ accept: ['a', 'b'] }), 'session-1', false).accept).toBe('a, b');
+  });
+});
+
+describe('isAllowedHost', () => {
+  it('accepts every loopback name on the listening port for a loopback or wildcard HOST', () => {
+    for (const HOST of ['localhost', '0.0.0.0', '::']) {
+      const allowed = getAllowedHostNames({ ...DEFAULT_TRANSPORT_CONFIG, HOST }, 3000);
+
+      expect(isAllowedHost('localhost:3000', allowed)).toBe(true);
+      expect(isAllowedHost('127.0.0.1:3000', allowed)).toBe(true);
+      expect(isAllowedHost('[::1]:3000', allowed)).toBe(true);
+      expect(isAllowedHost('localhost:4000', allowed)).toBe(false);
+      expect(isAllowedHost('rebound.example:3000', allowed)).toBe(false);
+    }
+  });
+
+  it('adds ALLOWED_HOSTS, which match any port unless they name one', () => {
+    const allowed = getAllowedHostNames({ ...DEFAULT_TRANSPORT_CONFIG, HOST: '10.0.0.5', ALLOWED_HOSTS: ['mcp.example.com', 'alt.example.com:8443'] }, 3000);
+
+    expect(isAllowedHost('10.0.0.5:3000', allowed)).toBe(true);
+    expect(isAllowedHost('localhost:3000', allowed)).toBe(false);
+    expect(isAllowedHost('MCP.example.com', allowed)).toBe(true);
+    expect(isAllowedHost('alt.example.com:8443', allowed)).toBe(true);
+    expect(isAllowedHost('alt.example.com', allowed)).toBe(false);
+  });
+
+  it('rejects missing and malformed hosts', () => {
+    const allowed = getAllowedHostNames(DEFAULT_TRANSPORT_CONFIG, 3000);
+
+    expect(isAllowedHost(undefined, allowed)).toBe(false);
+    expect(isAllowedHost('evil.example@localhost:3000', allowed)).toBe(false);
+    expect(isAllowedHost('localhost:3000/path', allowed)).toBe(false);
+  });
+});
+
+describe('startHttpTransport', () => {
+  let transport: HttpTransport | undefined;
+  const seenHeaders: Array<Record<string, string> | undefined> = [];
+
+  const createServer = () => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      seenHeaders.push(getRequestHeaders());
+      return { tools: [] };
+    });
+    return server;
+  };
+
+  const start = async () => {
+    transport = await startHttpTransport(createServer, { ...DEFAULT_TRANSPORT_CONFIG, HOST: '127.0.0.1', PORT: 0 });
+    return new URL(transport.url);
+  };
+
+  const initialize = { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'client', version: '1.0.0' } } };
+
+  afterEach(async () => {
+    await transport?.close();
+    transport = undefined;
+    seenHeaders.length = 0;
+  });
+
+  it('serves each SSE connection as its own MCP session with the caller headers', async () => {
+    const url = await start();
+    const first = await openSse(url.href);
+    const second = await openSse(url.href);
+    const firstEndpoint = new URL(await first.next('endpoint'), url);
+    const secondEndpoint = new URL(await second.next('endpoint'), url);
+
+    expect(firstEndpoint.searchParams.get('sessionId')).not.toBe(secondEndpoint.searchParams.get('sessionId'));
+    expect(transport!.getSessionCount()).toBe(2);
+
+    expect((await post(firstEndpoint.href, initialize)).status).toBe(202);
+    expect(JSON.parse(await first.next('message'))).toMatchObject({ id: 1, result: { serverInfo: { name: 'test' } } });
+
+    await post(firstEndpoint.href, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'x-user-id': 'alice', 'user-agent': 'test-client' });
+    expect(JSON.parse(await first.next('message'))).toMatchObject({ id: 2, result: { tools: [] } });
+    expect(seenHeaders[0]).toMatchObject({
+      'user-agent': 'test-client',
+      'x-real-ip': '127.0.0.1',
+      'x-session-id': firstEndpoint.searchParams.get('sessionId')
+    });
+    expect(seenHeaders[0]).not.toHaveProperty('x-user-id');
+
+    first.close();
+    second.close();
+  });
+
+  it('rejects unknown sessions and paths', async () => {
+    const url = await start();
+
+    expect(await post(new URL('/messages?sessionId=missing', url).href, initialize)).toEqual({ status: 404, body: 'Unknown session' });
+    expect((await post(new URL('/other', url).href, {})).status).toBe(404);
+  });
+
+  it('rejects requests for a foreign Host or from a foreign Origin', async () => {
+    const url = await start();
+    const messages = new URL('/messages?sessionId=missing', url).href;
+
+    expect(await post(messages, initialize, { host: `rebound.example:${url.port}` })).toEqual({ status: 403, body: 'Forbidden host or origin' });
+    expect((await post(messages, initialize, { origin: 'http://rebound.example' })).status).toBe(403);
+    expect((await post(messages, initialize, { origin: 'null' })).status).toBe(403);
+    expect((await post(messages, initialize, { origin: url.origin })).status).toBe(404);
+  });
+
+  it('drains in-flight work before ending the open sessions on close', async () => {
+    const url = await start();
+    const stream = await openSse(url.href);
+    await stream.next('endpoint');
+
+    const steps: string[] = [];
+    await transport!.close(async () => {
+      steps.push(`drain with ${transport!.getSessionCount()} session(s)`);
+    });
+    steps.push(`closed with ${transport!.getSessionCount()} session(s)`);
+    transport = undefined;
+
+    expect(steps).toEqual(['drain with 1 session(s)', 'closed with 0 session(s)']);
+  });
+});
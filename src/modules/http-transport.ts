@@ -0,0 +1,202 @@
+// HTTP Transport for Supabase Storage MCP
+// Serves MCP over Server-Sent Events so a team can share one server; every client connection is its own MCP session
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { TransportConfig } from './types.js';
+import { runWithRequestHeaders } from '../utils/request-context.js';
+import { getErrorMessage } from '../utils/error-handling.js';
+
+export const SSE_PATH = '/sse';
+export const MESSAGES_PATH = '/messages';
+
+// Client identity headers; only a trusted reverse proxy may set them
+const PROXY_HEADERS = ['x-forwarded-for', 'x-real-ip', 'x-user-id', 'x-user-role'];
+
+const LOOPBACK_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_ADDRESSES = ['0.0.0.0', '::', '[::]'];
+
+interface HttpSession {
+  server: Server;
+  transport: SSEServerTransport;
+}
+
+export interface HttpTransport {
+  url: string;
+  getSessionCount(): number;
+  close(drain?: () => Promise<unknown>): Promise<void>;
+}
+
+/**
+ * Headers handed to extractSecurityContext for one POSTed message.
+ * The session id always comes from the SSE session so clients cannot pick it.
+ */
+export function getClientHeaders(req: IncomingMessage, sessionId: string, trustProxy: boolean): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+
+  if (!trustProxy) {
+    PROXY_HEADERS.forEach(name => delete headers[name]);
+  }
+  if (!headers['x-forwarded-for'] && !headers['x-real-ip'] && req.socket.remoteAddress) {
+    headers['x-real-ip'] = req.socket.remoteAddress;
+  }
+  headers['x-session-id'] = sessionId;
+
+  return headers;
+}
+
+// A Host header or origin name; port is '' when the name matches any port
+export interface HostName {
+  hostname: string;
+  port: string;
+}
+
+function parseHostName(value: string): HostName | undefined {
+  if (/[\s/\\@?#]/.test(value)) return undefined;
+  try {
+    const url = new URL(`http://${value}`);
+    return { hostname: url.hostname, port: url.port };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Names clients may reach the server under: the configured HOST (every loopback name for a loopback
+ * or wildcard HOST) on the listening port, plus ALLOWED_HOSTS, which match any port unless they name one
+ */
+export function getAllowedHostNames(config: TransportConfig, port: number): HostName[] {
+  const host = config.HOST.includes(':') && !config.HOST.startsWith('[') ? `[${config.HOST}]` : config.HOST;
+  const names = WILDCARD_ADDRESSES.includes(host) || LOOPBACK_NAMES.includes(host.toLowerCase())
+    ? LOOPBACK_NAMES
+    : [host];
+
+  return [
+    ...names.map(name => parseHostName(`${name}:${port}`)),
+    ...(config.ALLOWED_HOSTS || []).map(parseHostName)
+  ].filter((name): name is HostName => name !== undefined);
+}
+
+/**
+ * Whether a Host header, or the host of an Origin header, names this server. Checking both
+ * stops DNS rebinding: a web page on another site cannot drive the server through the browser.
+ */
+export function isAllowedHost(value: string | undefined, allowed: HostName[]): boolean {
+  const host = value ? parseHostName(value) : undefined;
+  return !!host && allowed.some(name =>
+    name.hostname === host.hostname && (!name.port || name.port === (host.port || '80'))
+  );
+}
+
+function isAllowedOrigin(origin: string, allowed: HostName[]): boolean {
+  try {
+    const url = new URL(origin);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && isAllowedHost(url.host || undefined, allowed);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Listen for SSE clients: GET /sse opens a session backed by a new server from createServer(),
+ * POST /messages?sessionId=... delivers that session's messages.
+ */
+export async function startHttpTransport(createServer: () => Server, config: TransportConfig): Promise<HttpTransport> {
+  const sessions = new Map<string, HttpSession>();
+  let allowedHosts: HostName[] = [];
+  let closing = false;
+
+  async function openSession(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const server = createServer();
+    const sessionId = transport.sessionId;
+
+    sessions.set(sessionId, { server, transport });
+    server.onclose = () => sessions.delete(sessionId);
+
+    await server.connect(transport);
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (closing) {
+      res.writeHead(503, { Connection: 'close' }).end('Server is shutting down');
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (!isAllowedHost(req.headers.host, allowedHosts) || (origin !== undefined && !isAllowedOrigin(origin, allowedHosts))) {
+      res.writeHead(403).end('Forbidden host or origin');
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      await openSession(res);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+      const sessionId = url.searchParams.get('sessionId') || '';
+      const session = sessions.get(sessionId);
+      if (!session) {
+        res.writeHead(404).end('Unknown session');
+        return;
+      }
+
+      const headers = getClientHeaders(req, sessionId, config.TRUST_PROXY);
+      await runWithRequestHeaders(headers, () => session.transport.handlePostMessage(req, res));
+      return;
+    }
+
+    res.writeHead(404).end('Not found');
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      console.error(`[HTTP] ${req.method} ${req.url} failed: ${getErrorMessage(error)}`);
+      if (!res.headersSent) {
+        res.writeHead(500).end('Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.PORT, config.HOST, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = address && typeof address === 'object' ? address.port : config.PORT;
+  allowedHosts = getAllowedHostNames(config, port);
+
+  return {
+    url: `http://${config.HOST}:${port}${SSE_PATH}`,
+
+    getSessionCount: () => sessions.size,
+
+    /**
+     * Stop accepting requests, let drain() finish in-flight work, then end every session
+     */
+    async close(drain?: () => Promise<unknown>): Promise<void> {
+      closing = true;
+      const stopped = new Promise<void>(resolve => httpServer.close(() => resolve()));
+
+      await drain?.();
+      await Promise.allSettled([...sessions.values()].map(session => session.server.close()));
+      httpServer.closeAllConnections();
+
+      await stopped;
+    }
+  };
+}
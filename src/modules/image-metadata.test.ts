@@ -0,0 +1,294 @@
+import zlib from 'zlib';
+import { afterEach, describe, expect, it } from 'vitest';
+import { STORAGE_CONFIG } from './config.js';
+import {
+  canProcessMetadata,
+  fromObjectMetadata,
+  processImageMetadata,
+  resolveMetadataPolicy,
+  toObjectMetadata
+} from './image-metadata.js';
+import { validateImageStructure } from './image-validation.js';
+import { crc32 } from '../utils/checksum.js';
+
+const SERIAL = 'SN-0042-CAMERA';
+const XMP = '<x:xmpmeta><rdf:Description tiff:Orientation="6" exif:GPSLatitude="51,30.0N"/></x:xmpmeta>';
+
+// A numeric value is written as a SHORT, a string as NUL-terminated ASCII, { ifd } as a pointer to another directory
+type TiffValue = number | string | { ifd: number };
+
+/**
+ * Little-endian TIFF block: the directories in order, then the values that do not fit inline
+ */
+function buildTiff(ifds: Array<Array<[number, TiffValue]>>): Buffer {
+  const ifdOffsets: number[] = [];
+  let offset = 8;
+  for (const entries of ifds) {
+    ifdOffsets.push(offset);
+    offset += 2 + entries.length * 12 + 4;
+  }
+
+  const directories: Buffer[] = [];
+  const values: Buffer[] = [];
+  let valueOffset = offset;
+
+  for (const entries of ifds) {
+    const ifd = Buffer.alloc(2 + entries.length * 12 + 4);
+    ifd.writeUInt16LE(entries.length, 0);
+    entries.forEach(([tag, value], index) => {
+      const position = 2 + index * 12;
+      ifd.writeUInt16LE(tag, position);
+      if (typeof value === 'number') {
+        ifd.writeUInt16LE(3, position + 2);
+        ifd.writeUInt32LE(1, position + 4);
+        ifd.writeUInt16LE(value, position + 8);
+      } else if (typeof value === 'object') {
+        ifd.writeUInt16LE(4, position + 2);
+        ifd.writeUInt32LE(1, position + 4);
+        ifd.writeUInt32LE(ifdOffsets[value.ifd], position + 8);
+      } else {
+        const text = Buffer.from(`${value}\0`, 'latin1');
+        ifd.writeUInt16LE(2, position + 2);
+        ifd.writeUInt32LE(text.length, position + 4);
+        if (text.length <= 4) {
+          text.copy(ifd, position + 8);
+        } else {
+          ifd.writeUInt32LE(valueOffset, position + 8);
+          values.push(text);
+          valueOffset += text.length;
+        }
+      }
+    });
+    directories.push(ifd);
+  }
+
+  return Buffer.concat([Buffer.from([0x49, 0x49, 42, 0, 8, 0, 0, 0]), ...directories, ...values]);
+}
+
+// IFD0 with orientation 6, an Exif IFD with the capture time and serial number, and a GPS IFD
+function cameraExif(): Buffer {
+  return buildTiff([
+    [[0x0112, 6], [0x8769, { ifd: 1 }], [0x8825, { ifd: 2 }]],
+    [[0x9003, '2024:06:01 12:30:45'], [0x9011, '+02:00'], [0xA002, 4000], [0xA003, 3000], [0xA431, SERIAL]],
+    [[0x0001, 'N']]
+  ]);
+}
+
+function jpegSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([0xFF, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+// Photoshop APP13 payload holding IPTC date created (2:55) and time created (2:60)
+function photoshopIptc(): Buffer {
+  const iptc = Buffer.concat([
+    Buffer.from([0x1C, 2, 55, 0, 8]), Buffer.from('20240601', 'latin1'),
+    Buffer.from([0x1C, 2, 60, 0, 11]), Buffer.from('123045+0200', 'latin1')
+  ]);
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(iptc.length);
+  return Buffer.concat([
+    Buffer.from('Photoshop 3.0\0', 'latin1'),
+    Buffer.from('8BIM', 'latin1'), Buffer.from([0x04, 0x04, 0, 0]), size, iptc, Buffer.alloc(iptc.length & 1)
+  ]);
+}
+
+function cameraJpeg(): Buffer {
+  return Buffer.concat([
+    Buffer.from([0xFF, 0xD8]),
+    jpegSegment(0xE1, Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), cameraExif()])),
+    jpegSegment(0xE1, Buffer.from(`http://ns.adobe.com/xap/1.0/\0${XMP}`, 'latin1')),
+    jpegSegment(0xED, photoshopIptc()),
+    jpegSegment(0xFE, Buffer.from('shot on holiday', 'latin1')),
+    Buffer.from([0xFF, 0xC0, 0x00, 0x0B, 0x08, 0x0B, 0xB8, 0x0F, 0xA0, 0x01, 0x01, 0x11, 0x00]), // 4000x3000
+    Buffer.from([0xFF, 0xDA, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3F, 0x00, 0x12, 0x34, 0xFF, 0xD9])
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(header.subarray(4), data));
+  return Buffer.concat([header, data, crc]);
+}
+
+function cameraPng(): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(64, 0);
+  header.writeUInt32BE(48, 4);
+  header[8] = 8;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+    pngChunk('IHDR', header),
+    pngChunk('eXIf', cameraExif()),
+    pngChunk('iTXt', Buffer.concat([Buffer.from('XML:com.adobe.xmp\0\0\0\0\0', 'latin1'), Buffer.from(XMP)])),
+    pngChunk('tEXt', Buffer.from('Comment\0shot on holiday', 'latin1')),
+    pngChunk('IDAT', zlib.deflateSync(Buffer.alloc(65))),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function webpChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(type, 'latin1');
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length & 1)]);
+}
+
+function cameraWebp(): Buffer {
+  const canvas = Buffer.alloc(10);
+  canvas[0] = 0x08 | 0x04; // EXIF and XMP flags
+  canvas.writeUIntLE(299, 4, 3);
+  canvas.writeUIntLE(199, 7, 3);
+  const lossless = Buffer.alloc(5);
+  lossless[0] = 0x2F;
+  lossless.writeUInt32LE(299 | (199 << 14), 1);
+
+  const body = Buffer.concat([
+    Buffer.from('WEBP', 'latin1'),
+    webpChunk('VP8X', canvas),
+    webpChunk('VP8L', lossless),
+    webpChunk('EXIF', cameraExif()),
+    webpChunk('XMP ', Buffer.from(XMP))
+  ]);
+  const riff = Buffer.alloc(8);
+  riff.write('RIFF', 'latin1');
+  riff.writeUInt32LE(body.length, 4);
+  return Buffer.concat([riff, body]);
+}
+
+describe('processImageMetadata', () => {
+  it('reads the metadata and leaves the image untouched under keep', () => {
+    const image = cameraJpeg();
+    const result = processImageMetadata(image, 'image/jpeg', 'keep');
+
+    expect(result.buffer).toBe(image);
+    expect(result.metadata).toEqual({
+      width: 4000,
+      height: 3000,
+      orientation: 6,
+      captured_at: '2024-06-01T12:30:45+02:00',
+      has_gps: true,
+      found: ['exif', 'xmp', 'iptc'],
+      policy: 'keep',
+      stripped: []
+    });
+  });
+
+  it('removes location, serial numbers, XMP and IPTC from a JPEG under strip_sensitive', () => {
+    const { buffer, metadata } = processImageMetadata(cameraJpeg(), 'image/jpeg', 'strip_sensitive');
+
+    expect(metadata.has_gps).toBe(true); // reported for the original
+    expect(metadata.stripped).toEqual(['gps', 'serial_numbers', 'xmp', 'iptc']);
+    expect(buffer.includes(SERIAL)).toBe(false);
+    expect(buffer.includes('GPSLatitude')).toBe(false);
+    expect(buffer.includes('shot on holiday')).toBe(true);
+    expect(validateImageStructure(buffer, 'image/jpeg').width).toBe(4000);
+
+    // The scrubbed EXIF block still parses and keeps the harmless values
+    expect(processImageMetadata(buffer, 'image/jpeg', 'keep').metadata).toMatchObject({
+      orientation: 6,
+      captured_at: '2024-06-01T12:30:45+02:00',
+      has_gps: false,
+      found: ['exif']
+    });
+  });
+
+  it('removes every metadata block and comment from a JPEG under strip_all', () => {
+    const { buffer, metadata } = processImageMetadata(cameraJpeg(), 'image/jpeg', 'strip_all');
+
+    expect(metadata.stripped).toEqual(['exif', 'xmp', 'iptc', 'comments']);
+    expect(buffer.includes('Exif')).toBe(false);
+    expect(buffer.includes('shot on holiday')).toBe(false);
+    expect(processImageMetadata(buffer, 'image/jpeg', 'keep').metadata.found).toEqual([]);
+    expect(validateImageStructure(buffer, 'image/jpeg').height).toBe(3000);
+  });
+
+  it('rewrites PNG chunks with valid checksums', () => {
+    const sensitive = processImageMetadata(cameraPng(), 'image/png', 'strip_sensitive');
+    expect(sensitive.metadata).toMatchObject({ width: 64, height: 48, orientation: 6, stripped: ['gps', 'serial_numbers', 'xmp'] });
+    expect(sensitive.buffer.includes(SERIAL)).toBe(false);
+    expect(sensitive.buffer.includes('shot on holiday')).toBe(true);
+    expect(validateImageStructure(sensitive.buffer, 'image/png')).toMatchObject({ width: 64, height: 48 });
+
+    const all = processImageMetadata(cameraPng(), 'image/png', 'strip_all');
+    expect(all.metadata.stripped).toEqual(['exif', 'xmp', 'text']);
+    expect(all.buffer.includes('eXIf')).toBe(false);
+    expect(all.buffer.includes('shot on holiday')).toBe(false);
+    expect(validateImageStructure(all.buffer, 'image/png').format).toBe('png');
+  });
+
+  it('updates the WebP header flags and RIFF size after dropping chunks', () => {
+    const sensitive = processImageMetadata(cameraWebp(), 'image/webp', 'strip_sensitive');
+    expect(sensitive.metadata).toMatchObject({ width: 300, height: 200, stripped: ['gps', 'serial_numbers', 'xmp'] });
+    expect(sensitive.buffer[20] & 0x0C).toBe(0x08); // EXIF kept, XMP dropped
+
+    const all = processImageMetadata(cameraWebp(), 'image/webp', 'strip_all');
+    expect(all.buffer[20] & 0x0C).toBe(0);
+    expect(all.buffer.readUInt32LE(4)).toBe(all.buffer.length - 8);
+    expect(validateImageStructure(all.buffer, 'image/webp')).toMatchObject({ width: 300, height: 200 });
+  });
+
+  it('drops an EXIF block it cannot parse unless the policy keeps everything', () => {
+    const image = Buffer.concat([
+      Buffer.from([0xFF, 0xD8]),
+      jpegSegment(0xE1, Buffer.from('Exif\0\0XX garbage', 'latin1')),
+      Buffer.from([0xFF, 0xDA, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3F, 0x00, 0x12, 0xFF, 0xD9])
+    ]);
+
+    const { buffer, metadata } = processImageMetadata(image, 'image/jpeg', 'strip_sensitive');
+    expect(metadata).toMatchObject({ found: ['exif'], stripped: ['exif'] });
+    expect(buffer.includes('garbage')).toBe(false);
+  });
+
+  it('rejects an image it cannot walk unless the policy keeps everything', () => {
+    const truncated = cameraJpeg().subarray(0, 30);
+
+    expect(() => processImageMetadata(truncated, 'image/jpeg', 'strip_sensitive'))
+      .toThrow('Cannot apply the strip_sensitive metadata policy: Truncated JPEG segment');
+    expect(processImageMetadata(truncated, 'image/jpeg', 'keep')).toEqual({
+      buffer: truncated,
+      metadata: { has_gps: false, found: [], policy: 'keep', stripped: [] }
+    });
+  });
+});
+
+describe('metadata policy', () => {
+  const savedPolicy = STORAGE_CONFIG.METADATA_POLICY;
+
+  afterEach(() => {
+    STORAGE_CONFIG.METADATA_POLICY = savedPolicy;
+  });
+
+  it('lets a caller tighten the configured policy but never loosen it', () => {
+    STORAGE_CONFIG.METADATA_POLICY = 'strip_sensitive';
+
+    expect(resolveMetadataPolicy()).toBe('strip_sensitive');
+    expect(resolveMetadataPolicy('keep')).toBe('strip_sensitive');
+    expect(resolveMetadataPolicy('strip_all')).toBe('strip_all');
+  });
+
+  it('covers JPEG, PNG and WebP only', () => {
+    expect(['image/jpeg', 'image/jpg', 'image/png', 'image/webp'].every(canProcessMetadata)).toBe(true);
+    expect(canProcessMetadata('image/gif')).toBe(false);
+  });
+});
+
+describe('object metadata', () => {
+  it('stores the extracted values and reads them back', () => {
+    const { metadata } = processImageMetadata(cameraJpeg(), 'image/jpeg', 'keep');
+    const stored = toObjectMetadata(metadata);
+
+    expect(stored).toEqual({ imageWidth: 4000, imageHeight: 3000, imageOrientation: 6, capturedAt: '2024-06-01T12:30:45+02:00' });
+    expect(fromObjectMetadata({ ...stored, imageWidth: '4000', unrelated: 'x' })).toEqual({
+      width: 4000,
+      height: 3000,
+      orientation: 6,
+      captured_at: '2024-06-01T12:30:45+02:00'
+    });
+    expect(fromObjectMetadata({ size: 10 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,670 @@
+// Image Metadata Module for Supabase Storage MCP
+// Reads EXIF, XMP and IPTC from JPEG, PNG and WebP images and strips sensitive metadata before upload
+
+import zlib from 'zlib';
+import { ImageMetadata, ImageMetadataType, MetadataPolicy, StoredImageMetadata } from './types.js';
+import { STORAGE_CONFIG } from './config.js';
+import { getErrorMessage } from '../utils/error-handling.js';
+import { crc32 } from '../utils/checksum.js';
+import { isSofMarker } from './image-validation.js';
+
+// Ordered from least to most strict
+export const METADATA_POLICIES: MetadataPolicy[] = ['keep', 'strip_sensitive', 'strip_all'];
+
+const METADATA_MIME_TYPES = new Set(['image/jpeg', 'image/jpg', 'image/png', 'image/webp']);
+
+const METADATA_TYPES: ImageMetadataType[] = ['exif', 'xmp', 'iptc'];
+
+// Object metadata keys the extracted values are stored under; camelCase, since info() camelCases what it returns
+const STORED_KEYS: Record<keyof StoredImageMetadata, string> = {
+  width: 'imageWidth',
+  height: 'imageHeight',
+  orientation: 'imageOrientation',
+  captured_at: 'capturedAt'
+};
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+const XMP_EXTENSION_HEADER = Buffer.from('http://ns.adobe.com/xmp/extension/\0', 'latin1');
+const PHOTOSHOP_HEADER = Buffer.from('Photoshop 3.0\0', 'latin1');
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_PIXEL_X_DIMENSION = 0xA002;
+const TAG_PIXEL_Y_DIMENSION = 0xA003;
+
+// EXIF tags removed by strip_sensitive, wherever they appear, and how they are reported
+const SENSITIVE_TAGS: Record<number, string> = {
+  [TAG_GPS_IFD]: 'gps',
+  0x927C: 'maker_note', // vendor data, often including the body serial number
+  0xA420: 'image_unique_id',
+  0xA430: 'owner_name',
+  0xA431: 'serial_numbers', // BodySerialNumber
+  0xA435: 'serial_numbers', // LensSerialNumber
+  0xC62F: 'serial_numbers' // CameraSerialNumber (DNG)
+};
+
+// Bytes per value for each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4
+};
+
+const MAX_IFD_ENTRIES = 1000;
+
+// Values one metadata block contributes; EXIF wins over XMP, which wins over IPTC
+interface MetadataValues {
+  orientation?: number;
+  capturedAt?: string;
+  hasGps?: boolean;
+  width?: number;
+  height?: number;
+}
+
+// State collected while walking an image
+interface MetadataScan {
+  policy: MetadataPolicy;
+  width?: number;
+  height?: number;
+  exif?: MetadataValues;
+  xmp?: MetadataValues;
+  iptc?: MetadataValues;
+  found: Set<ImageMetadataType>;
+  stripped: Set<string>;
+}
+
+interface TiffEntry {
+  tag: number;
+  position: number; // offset of the 12-byte entry
+  valueOffset: number; // offset of the value, inline or out of line
+  size: number; // bytes of value data
+  count: number;
+  type: number;
+}
+
+/**
+ * An EXIF TIFF structure, edited in place. Buffer reads throw on out-of-range offsets,
+ * so a corrupt structure surfaces as an error rather than garbage values.
+ */
+class TiffBlock {
+  private readonly littleEndian: boolean;
+
+  constructor(readonly data: Buffer) {
+    const byteOrder = data.toString('latin1', 0, 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+      throw new Error('Invalid EXIF byte order');
+    }
+    this.littleEndian = byteOrder === 'II';
+    if (this.u16(2) !== 42) {
+      throw new Error('Invalid EXIF header');
+    }
+  }
+
+  u16(offset: number): number {
+    return this.littleEndian ? this.data.readUInt16LE(offset) : this.data.readUInt16BE(offset);
+  }
+
+  u32(offset: number): number {
+    return this.littleEndian ? this.data.readUInt32LE(offset) : this.data.readUInt32BE(offset);
+  }
+
+  private writeU16(offset: number, value: number): void {
+    if (this.littleEndian) {
+      this.data.writeUInt16LE(value, offset);
+    } else {
+      this.data.writeUInt16BE(value, offset);
+    }
+  }
+
+  firstIfd(): number {
+    return this.u32(4);
+  }
+
+  entries(ifd: number): TiffEntry[] {
+    const count = this.u16(ifd);
+    if (count > MAX_IFD_ENTRIES || ifd + 2 + count * 12 + 4 > this.data.length) {
+      throw new Error('Invalid EXIF directory');
+    }
+
+    const entries: TiffEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const position = ifd + 2 + i * 12;
+      const type = this.u16(position + 2);
+      const valueCount = this.u32(position + 4);
+      const size = (TIFF_TYPE_SIZES[type] || 1) * valueCount;
+      const valueOffset = size <= 4 ? position + 8 : this.u32(position + 8);
+      if (valueOffset + size > this.data.length) {
+        throw new Error('EXIF value out of range');
+      }
+      entries.push({ tag: this.u16(position), position, valueOffset, size, count: valueCount, type });
+    }
+    return entries;
+  }
+
+  nextIfd(ifd: number): number {
+    return this.u32(ifd + 2 + this.u16(ifd) * 12);
+  }
+
+  number(entry: TiffEntry): number | undefined {
+    if (entry.type === 3) return this.u16(entry.valueOffset);
+    if (entry.type === 4) return this.u32(entry.valueOffset);
+    return undefined;
+  }
+
+  string(entry: TiffEntry): string {
+    return this.data.toString('latin1', entry.valueOffset, entry.valueOffset + entry.size).replace(/\0[\s\S]*$/, '').trim();
+  }
+
+  /**
+   * Drop an entry from its directory and zero the value it pointed at. Later entries move up
+   * so the directory stays sorted and every other offset in the block stays valid.
+   */
+  removeEntry(ifd: number, entry: TiffEntry): void {
+    if (entry.size > 4) {
+      this.data.fill(0, entry.valueOffset, entry.valueOffset + entry.size);
+    }
+
+    const count = this.u16(ifd);
+    const end = ifd + 2 + count * 12 + 4;
+    this.data.copy(this.data, entry.position, entry.position + 12, end);
+    this.data.fill(0, end - 12, end);
+    this.writeU16(ifd, count - 1);
+  }
+
+  /**
+   * Zero a whole directory and its values
+   */
+  clearIfd(ifd: number): void {
+    const entries = this.entries(ifd);
+    for (const entry of entries) {
+      if (entry.size > 4) {
+        this.data.fill(0, entry.valueOffset, entry.valueOffset + entry.size);
+      }
+    }
+    this.data.fill(0, ifd, ifd + 2 + entries.length * 12 + 4);
+  }
+}
+
+function startsWith(buffer: Buffer, prefix: Buffer): boolean {
+  return buffer.length >= prefix.length && buffer.subarray(0, prefix.length).equals(prefix);
+}
+
+/**
+ * EXIF "YYYY:MM:DD HH:MM:SS" plus an optional "+HH:MM" offset, as ISO 8601
+ */
+function normalizeExifDate(value: string | undefined, offset?: string): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return undefined;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${zone}`;
+}
+
+function readExif(tiff: TiffBlock): MetadataValues {
+  const values: MetadataValues = { hasGps: false };
+  const ifd0 = tiff.entries(tiff.firstIfd());
+
+  const orientation = ifd0.find(entry => entry.tag === TAG_ORIENTATION);
+  if (orientation) {
+    const value = tiff.number(orientation);
+    values.orientation = value && value >= 1 && value <= 8 ? value : undefined;
+  }
+
+  const gps = ifd0.find(entry => entry.tag === TAG_GPS_IFD);
+  if (gps) {
+    values.hasGps = tiff.entries(tiff.u32(gps.valueOffset)).length > 0;
+  }
+
+  const exifPointer = ifd0.find(entry => entry.tag === TAG_EXIF_IFD);
+  if (exifPointer) {
+    const exif = tiff.entries(tiff.u32(exifPointer.valueOffset));
+    const find = (tag: number) => exif.find(entry => entry.tag === tag);
+    const taken = find(TAG_DATE_TIME_ORIGINAL);
+    const offset = find(TAG_OFFSET_TIME_ORIGINAL);
+    const width = find(TAG_PIXEL_X_DIMENSION);
+    const height = find(TAG_PIXEL_Y_DIMENSION);
+
+    values.capturedAt = taken && normalizeExifDate(tiff.string(taken), offset && tiff.string(offset));
+    values.width = width && tiff.number(width);
+    values.height = height && tiff.number(height);
+  }
+
+  return values;
+}
+
+function scrubIfd(tiff: TiffBlock, ifd: number, stripped: Set<string>): void {
+  for (;;) {
+    const entry = tiff.entries(ifd).find(candidate => candidate.tag in SENSITIVE_TAGS);
+    if (!entry) return;
+
+    if (entry.tag === TAG_GPS_IFD) {
+      tiff.clearIfd(tiff.u32(entry.valueOffset));
+    }
+    tiff.removeEntry(ifd, entry);
+    stripped.add(SENSITIVE_TAGS[entry.tag]);
+  }
+}
+
+/**
+ * Remove sensitive tags from IFD0, the thumbnail IFD and the Exif IFD
+ */
+function scrubExif(tiff: TiffBlock, stripped: Set<string>): void {
+  const ifd0 = tiff.firstIfd();
+  const exifPointer = tiff.entries(ifd0).find(entry => entry.tag === TAG_EXIF_IFD);
+  const directories = [ifd0, tiff.nextIfd(ifd0), exifPointer && tiff.u32(exifPointer.valueOffset)];
+
+  for (const ifd of new Set(directories)) {
+    if (ifd) {
+      scrubIfd(tiff, ifd, stripped);
+    }
+  }
+}
+
+/**
+ * Read an EXIF block and apply the policy. Returns the bytes to keep, or null to drop the block.
+ * A block that cannot be parsed is dropped unless the policy keeps everything.
+ */
+function processExif(tiffData: Buffer, scan: MetadataScan): Buffer | null {
+  scan.found.add('exif');
+
+  let tiff: TiffBlock;
+  try {
+    tiff = new TiffBlock(Buffer.from(tiffData));
+    scan.exif = readExif(tiff);
+  } catch {
+    if (scan.policy === 'keep') return tiffData;
+    scan.stripped.add('exif');
+    return null;
+  }
+
+  switch (scan.policy) {
+    case 'keep':
+      return tiffData;
+    case 'strip_all':
+      scan.stripped.add('exif');
+      return null;
+    case 'strip_sensitive':
+      try {
+        scrubExif(tiff, scan.stripped);
+        return tiff.data;
+      } catch {
+        scan.stripped.add('exif');
+        return null;
+      }
+  }
+}
+
+function readXmpProperty(xmp: string, name: string): string | undefined {
+  const match = xmp.match(new RegExp(`${name}="([^"]*)"`)) || xmp.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+  return match?.[1].trim() || undefined;
+}
+
+function readXmp(xmp: string): MetadataValues {
+  const orientation = Number(readXmpProperty(xmp, 'tiff:Orientation'));
+  const date = readXmpProperty(xmp, 'exif:DateTimeOriginal') ||
+    readXmpProperty(xmp, 'photoshop:DateCreated') ||
+    readXmpProperty(xmp, 'xmp:CreateDate');
+
+  return {
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : undefined,
+    capturedAt: date && /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/.test(date) ? date : undefined,
+    hasGps: /exif:GPSLatitude/.test(xmp)
+  };
+}
+
+/**
+ * Record an XMP packet; returns whether the policy keeps it. XMP is dropped by both strip
+ * policies, since it can repeat the EXIF location and names places and people.
+ */
+function processXmp(xmp: string | undefined, scan: MetadataScan): boolean {
+  scan.found.add('xmp');
+  if (xmp !== undefined) {
+    scan.xmp = readXmp(xmp);
+  }
+  if (scan.policy === 'keep') return true;
+  scan.stripped.add('xmp');
+  return false;
+}
+
+/**
+ * Capture date from IPTC-IIM datasets 2:55 (date created) and 2:60 (time created)
+ */
+function readIptc(data: Buffer): MetadataValues {
+  let date: string | undefined;
+  let time: string | undefined;
+
+  for (let pos = 0; pos + 5 <= data.length && data[pos] === 0x1C;) {
+    const record = data[pos + 1];
+    const dataset = data[pos + 2];
+    const length = data.readUInt16BE(pos + 3);
+    if (length & 0x8000) break; // extended lengths are only used for binary datasets
+
+    const value = data.toString('latin1', pos + 5, pos + 5 + length);
+    if (record === 2 && dataset === 55) date = value;
+    if (record === 2 && dataset === 60) time = value;
+    pos += 5 + length;
+  }
+
+  const day = date?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!day || day[1] === '0000') return {};
+
+  const clock = time?.match(/^(\d{2})(\d{2})(\d{2})(?:([+-]\d{2})(\d{2}))?$/);
+  const capturedAt = clock
+    ? `${day[1]}-${day[2]}-${day[3]}T${clock[1]}:${clock[2]}:${clock[3]}${clock[4] ? `${clock[4]}:${clock[5]}` : ''}`
+    : `${day[1]}-${day[2]}-${day[3]}`;
+  return { capturedAt };
+}
+
+/**
+ * IPTC data from the Photoshop image resource blocks of a JPEG APP13 segment
+ */
+function findPhotoshopIptc(payload: Buffer): Buffer | undefined {
+  let pos = PHOTOSHOP_HEADER.length;
+  while (pos + 12 <= payload.length && payload.toString('latin1', pos, pos + 4) === '8BIM') {
+    const id = payload.readUInt16BE(pos + 4);
+    // Pascal-string name, padded to an even length
+    const sizeOffset = pos + 6 + ((payload[pos + 6] + 2) & ~1);
+    const size = payload.readUInt32BE(sizeOffset);
+    const dataOffset = sizeOffset + 4;
+
+    if (id === 0x0404) {
+      return payload.subarray(dataOffset, dataOffset + size);
+    }
+    pos = dataOffset + size + (size & 1);
+  }
+  return undefined;
+}
+
+function processJpeg(buffer: Buffer, scan: MetadataScan): Buffer {
+  const kept: Buffer[] = [buffer.subarray(0, 2)];
+  let pos = 2;
+
+  while (pos + 4 <= buffer.length) {
+    if (buffer[pos] !== 0xFF) {
+      throw new Error('Malformed JPEG segment');
+    }
+
+    const marker = buffer[pos + 1];
+    if (marker === 0xFF) {
+      // Fill byte before a marker
+      kept.push(buffer.subarray(pos, pos + 1));
+      pos++;
+      continue;
+    }
+    if (marker === 0xDA || marker === 0xD9) {
+      // Start of scan: the rest is image data
+      break;
+    }
+    if (marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7)) {
+      kept.push(buffer.subarray(pos, pos + 2));
+      pos += 2;
+      continue;
+    }
+
+    const end = pos + 2 + buffer.readUInt16BE(pos + 2);
+    if (end > buffer.length || end < pos + 4) {
+      throw new Error('Truncated JPEG segment');
+    }
+    const segment = buffer.subarray(pos, end);
+    const payload = buffer.subarray(pos + 4, end);
+    pos = end;
+
+    if (isSofMarker(marker) && payload.length >= 5) {
+      scan.height = payload.readUInt16BE(1);
+      scan.width = payload.readUInt16BE(3);
+    } else if (marker === 0xE1 && startsWith(payload, EXIF_HEADER)) {
+      const tiff = processExif(payload.subarray(EXIF_HEADER.length), scan);
+      if (!tiff) continue;
+      kept.push(segment.subarray(0, 4 + EXIF_HEADER.length), tiff);
+      continue;
+    } else if (marker === 0xE1 && startsWith(payload, XMP_HEADER)) {
+      if (!processXmp(payload.subarray(XMP_HEADER.length).toString('utf8'), scan)) continue;
+    } else if (marker === 0xE1 && startsWith(payload, XMP_EXTENSION_HEADER)) {
+      if (!processXmp(undefined, scan)) continue;
+    } else if (marker === 0xED && startsWith(payload, PHOTOSHOP_HEADER)) {
+      const iptc = findPhotoshopIptc(payload);
+      if (iptc) {
+        scan.found.add('iptc');
+        scan.iptc = readIptc(iptc);
+      }
+      if (scan.policy !== 'keep') {
+        scan.stripped.add(iptc ? 'iptc' : 'photoshop_resources');
+        continue;
+      }
+    } else if (marker === 0xFE && scan.policy === 'strip_all') {
+      scan.stripped.add('comments');
+      continue;
+    }
+
+    kept.push(segment);
+  }
+
+  kept.push(buffer.subarray(pos));
+  return Buffer.concat(kept);
+}
+
+function buildPngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(header.subarray(4), data), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+/**
+ * Text of an iTXt chunk: keyword, compression flag and method, language tag, translated keyword, text
+ */
+function readInternationalText(data: Buffer): string {
+  const keywordEnd = data.indexOf(0);
+  const compressed = data[keywordEnd + 1] === 1;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = data.indexOf(0, languageEnd + 1);
+  const text = data.subarray(translatedEnd + 1);
+  return (compressed ? zlib.inflateSync(text) : text).toString('utf8');
+}
+
+function processPng(buffer: Buffer, scan: MetadataScan): Buffer {
+  const kept: Buffer[] = [buffer.subarray(0, 8)];
+  let pos = 8;
+
+  while (pos + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString('latin1', pos + 4, pos + 8);
+    const end = pos + 12 + length;
+    if (end > buffer.length) {
+      throw new Error(`Truncated PNG ${type} chunk`);
+    }
+    const chunk = buffer.subarray(pos, end);
+    const data = buffer.subarray(pos + 8, pos + 8 + length);
+    pos = end;
+
+    if (type === 'IHDR' && length >= 8) {
+      scan.width = data.readUInt32BE(0);
+      scan.height = data.readUInt32BE(4);
+    } else if (type === 'eXIf') {
+      const tiff = processExif(data, scan);
+      if (!tiff) continue;
+      kept.push(tiff === data ? chunk : buildPngChunk(type, tiff));
+      continue;
+    } else if (type === 'iTXt' || type === 'tEXt' || type === 'zTXt') {
+      const keyword = data.toString('latin1', 0, Math.max(data.indexOf(0), 0));
+
+      if (keyword === 'XML:com.adobe.xmp' || keyword === 'Raw profile type xmp') {
+        let xmp: string | undefined;
+        try {
+          xmp = type === 'iTXt' ? readInternationalText(data) : undefined;
+        } catch {
+          // Unreadable packets are still recorded and stripped
+        }
+        if (!processXmp(xmp, scan)) continue;
+      } else if (/^Raw profile type (exif|APP1)$/i.test(keyword)) {
+        // ImageMagick stores EXIF as hex text; it is recorded but not parsed
+        scan.found.add('exif');
+        if (scan.policy !== 'keep') {
+          scan.stripped.add('exif');
+          continue;
+        }
+      } else if (/^Raw profile type (iptc|8bim)$/i.test(keyword)) {
+        scan.found.add('iptc');
+        if (scan.policy !== 'keep') {
+          scan.stripped.add('iptc');
+          continue;
+        }
+      } else if (scan.policy === 'strip_all') {
+        scan.stripped.add('text');
+        continue;
+      }
+    }
+
+    kept.push(chunk);
+    if (type === 'IEND') break;
+  }
+
+  return Buffer.concat(kept);
+}
+
+function processWebp(buffer: Buffer, scan: MetadataScan): Buffer {
+  const chunks: Array<{ type: string; data: Buffer }> = [];
+  let pos = 12;
+
+  while (pos + 8 <= buffer.length) {
+    const type = buffer.toString('latin1', pos, pos + 4);
+    const size = buffer.readUInt32LE(pos + 4);
+    const end = pos + 8 + size;
+    if (end > buffer.length) {
+      throw new Error(`Truncated WebP ${type.trim()} chunk`);
+    }
+    const data = buffer.subarray(pos + 8, end);
+    pos = end + (size & 1);
+
+    if (type === 'VP8X' && size >= 10) {
+      scan.width = 1 + data.readUIntLE(4, 3);
+      scan.height = 1 + data.readUIntLE(7, 3);
+    } else if (type === 'VP8 ' && size >= 10 && scan.width === undefined) {
+      scan.width = data.readUInt16LE(6) & 0x3FFF;
+      scan.height = data.readUInt16LE(8) & 0x3FFF;
+    } else if (type === 'VP8L' && size >= 5 && scan.width === undefined) {
+      const bits = data.readUInt32LE(1);
+      scan.width = (bits & 0x3FFF) + 1;
+      scan.height = ((bits >>> 14) & 0x3FFF) + 1;
+    } else if (type === 'EXIF') {
+      // Some writers keep the JPEG "Exif\0\0" prefix
+      const prefix = startsWith(data, EXIF_HEADER) ? EXIF_HEADER.length : 0;
+      const tiff = processExif(data.subarray(prefix), scan);
+      if (!tiff) continue;
+      chunks.push({ type, data: prefix ? Buffer.concat([data.subarray(0, prefix), tiff]) : tiff });
+      continue;
+    } else if (type === 'XMP ') {
+      if (!processXmp(data.toString('utf8'), scan)) continue;
+    }
+
+    chunks.push({ type, data });
+  }
+
+  // Keep the extended header flags in step with the chunks that remain
+  const extended = chunks.find(chunk => chunk.type === 'VP8X');
+  if (extended) {
+    extended.data = Buffer.from(extended.data);
+    if (!chunks.some(chunk => chunk.type === 'EXIF')) extended.data[0] &= ~0x08;
+    if (!chunks.some(chunk => chunk.type === 'XMP ')) extended.data[0] &= ~0x04;
+  }
+
+  const body = chunks.flatMap(({ type, data }) => {
+    const header = Buffer.alloc(8);
+    header.write(type, 0, 'latin1');
+    header.writeUInt32LE(data.length, 4);
+    return data.length & 1 ? [header, data, Buffer.alloc(1)] : [header, data];
+  });
+
+  const riff = Buffer.from(buffer.subarray(0, 12));
+  const output = Buffer.concat([riff, ...body]);
+  output.writeUInt32LE(output.length - 8, 4);
+  return output;
+}
+
+export function canProcessMetadata(mimeType: string): boolean {
+  return METADATA_MIME_TYPES.has(mimeType);
+}
+
+/**
+ * The policy for an upload: the caller may ask for a stricter policy than METADATA_POLICY, never a looser one
+ */
+export function resolveMetadataPolicy(requested?: MetadataPolicy): MetadataPolicy {
+  const configured = STORAGE_CONFIG.METADATA_POLICY;
+  if (!requested) return configured;
+  return METADATA_POLICIES.indexOf(requested) > METADATA_POLICIES.indexOf(configured) ? requested : configured;
+}
+
+/**
+ * Read the metadata of a JPEG, PNG or WebP image and remove what the policy strips.
+ * An image whose structure cannot be walked is rejected unless the policy keeps everything,
+ * since there is then no way to be sure the metadata is gone.
+ */
+export function processImageMetadata(
+  buffer: Buffer,
+  mimeType: string,
+  policy: MetadataPolicy
+): { buffer: Buffer; metadata: ImageMetadata } {
+  const scan: MetadataScan = { policy, found: new Set(), stripped: new Set() };
+
+  let output: Buffer;
+  try {
+    output = mimeType === 'image/png'
+      ? processPng(buffer, scan)
+      : mimeType === 'image/webp'
+        ? processWebp(buffer, scan)
+        : processJpeg(buffer, scan);
+  } catch (error) {
+    if (policy !== 'keep') {
+      throw new Error(`Cannot apply the ${policy} metadata policy: ${getErrorMessage(error)}`);
+    }
+    return { buffer, metadata: { has_gps: false, found: [], policy, stripped: [] } };
+  }
+
+  const { exif, xmp, iptc } = scan;
+  return {
+    buffer: policy === 'keep' ? buffer : output,
+    metadata: {
+      width: scan.width ?? exif?.width,
+      height: scan.height ?? exif?.height,
+      orientation: exif?.orientation ?? xmp?.orientation,
+      captured_at: exif?.capturedAt ?? xmp?.capturedAt ?? iptc?.capturedAt,
+      has_gps: Boolean(exif?.hasGps || xmp?.hasGps),
+      found: METADATA_TYPES.filter(type => scan.found.has(type)),
+      policy,
+      stripped: [...scan.stripped]
+    }
+  };
+}
+
+/**
+ * Object metadata written with the upload so the values survive for list_files
+ */
+export function toObjectMetadata(metadata: ImageMetadata): Record<string, string | number> {
+  const stored: Record<string, string | number> = {};
+  for (const [field, key] of Object.entries(STORED_KEYS) as Array<[keyof StoredImageMetadata, string]>) {
+    const value = metadata[field];
+    if (value !== undefined) {
+      stored[key] = value;
+    }
+  }
+  return stored;
+}
+
+export function fromObjectMetadata(objectMetadata: Record<string, any> | undefined): StoredImageMetadata | undefined {
+  if (!objectMetadata) return undefined;
+
+  const stored: StoredImageMetadata = {};
+  for (const [field, key] of Object.entries(STORED_KEYS) as Array<[keyof StoredImageMetadata, string]>) {
+    const value = objectMetadata[key];
+    if (value === undefined || value === null) continue;
+    if (field === 'captured_at') {
+      stored.captured_at = String(value);
+    } else if (Number.isFinite(Number(value))) {
+      stored[field] = Number(value);
+    }
+  }
+  return Object.keys(stored).length > 0 ? stored : undefined;
+}
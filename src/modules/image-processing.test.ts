@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Jimp } from 'jimp';
+import { canGenerateDerivatives, generateDerivatives, getDerivativeSpecs } from './image-processing.js';
+
+const createImage = (width: number, height: number) =>
+  new Jimp({ width, height, color: 0x3366ccff }).getBuffer('image/png');
+
+describe('getDerivativeSpecs', () => {
+  it('names derivatives after the source and keeps its format for resized copies', () => {
+    expect(getDerivativeSpecs('image/jpeg', 'photo', { thumbnail: true, preview: true, formats: ['webp', 'webp', 'avif'] })).toEqual([
+      { kind: 'thumbnail', format: 'jpeg', filename: 'thumb_photo.jpg' },
+      { kind: 'preview', format: 'jpeg', filename: 'preview_photo.jpg' },
+      { kind: 'converted', format: 'webp', filename: 'photo.webp' },
+      { kind: 'converted', format: 'avif', filename: 'photo.avif' }
+    ]);
+  });
+
+  it('writes resized copies of formats that cannot be encoded as PNG', () => {
+    expect(getDerivativeSpecs('image/gif', 'anim', { thumbnail: true })).toEqual([
+      { kind: 'thumbnail', format: 'png', filename: 'thumb_anim.png' }
+    ]);
+    expect(getDerivativeSpecs('image/jpg', 'old', { preview: true })[0].format).toBe('jpeg');
+  });
+});
+
+describe('canGenerateDerivatives', () => {
+  it('accepts raster images only', () => {
+    expect(canGenerateDerivatives('image/png')).toBe(true);
+    expect(canGenerateDerivatives('image/avif')).toBe(true);
+    expect(canGenerateDerivatives('image/svg+xml')).toBe(false);
+    expect(canGenerateDerivatives('application/pdf')).toBe(false);
+  });
+});
+
+describe('generateDerivatives', () => {
+  it('shrinks thumbnails and previews to fit, keeping the aspect ratio', async () => {
+    const source = await createImage(1600, 400);
+    const derivatives = await generateDerivatives(source, 'image/png', getDerivativeSpecs('image/png', 'wide', { thumbnail: true, preview: true }));
+
+    expect(derivatives.map(({ kind, mimeType, width, height }) => ({ kind, mimeType, width, height }))).toEqual([
+      { kind: 'thumbnail', mimeType: 'image/png', width: 200, height: 50 },
+      { kind: 'preview', mimeType: 'image/png', width: 800, height: 200 }
+    ]);
+  });
+
+  it('does not enlarge images that already fit', async () => {
+    const [thumbnail] = await generateDerivatives(await createImage(40, 30), 'image/png', [
+      { kind: 'thumbnail', format: 'png', filename: 'thumb_small.png' }
+    ]);
+    expect(thumbnail).toMatchObject({ width: 40, height: 30 });
+  });
+
+  it('converts to WebP and decodes WebP sources', async () => {
+    const [webp] = await generateDerivatives(await createImage(64, 48), 'image/png', [
+      { kind: 'converted', format: 'webp', filename: 'image.webp' }
+    ]);
+    expect(webp.buffer.subarray(0, 4).toString('ascii')).toBe('RIFF');
+    expect(webp.buffer.subarray(8, 12).toString('ascii')).toBe('WEBP');
+
+    const [jpeg] = await generateDerivatives(webp.buffer, 'image/webp', [
+      { kind: 'converted', format: 'jpeg', filename: 'image.jpg' }
+    ]);
+    expect(jpeg).toMatchObject({ mimeType: 'image/jpeg', width: 64, height: 48 });
+    expect([...jpeg.buffer.subarray(0, 3)]).toEqual([0xFF, 0xD8, 0xFF]);
+  });
+
+  it('fails on undecodable input', async () => {
+    await expect(generateDerivatives(Buffer.from('not an image'), 'image/png', [
+      { kind: 'thumbnail', format: 'png', filename: 'thumb_x.png' }
+    ])).rejects.toThrow();
+  });
+});
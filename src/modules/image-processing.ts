@@ -0,0 +1,247 @@
+// Image Processing Module for Supabase Storage MCP
+// Generates thumbnail, preview and format-converted derivatives locally with Jimp and the jSquash WebP/AVIF codecs
+
+import fs from 'fs/promises';
+import { createRequire } from 'module';
+import type { JimpInstance } from 'jimp';
+import { DerivativeFormat, DerivativeKind, DerivativeOptions } from './types.js';
+import { STORAGE_CONFIG } from './config.js';
+
+export const DERIVATIVE_FORMATS: DerivativeFormat[] = ['jpeg', 'png', 'webp', 'avif'];
+
+export const DERIVATIVE_MIME_TYPES: Record<DerivativeFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+const DERIVATIVE_EXTENSIONS: Record<DerivativeFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  avif: 'avif'
+};
+
+// Source types that can be decoded; SVG is vector and is never rasterized
+const DECODABLE_MIME_TYPES = new Set([
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/gif',
+  'image/bmp',
+  'image/tiff',
+  'image/webp',
+  'image/avif'
+]);
+
+// AVIF encoding speed, 0 (slowest, smallest) to 10 (fastest)
+const AVIF_ENCODE_SPEED = 8;
+
+interface RawImage {
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+interface WasmEncoder {
+  encode(data: Uint8Array, width: number, height: number, options: object): Uint8Array | null;
+}
+
+interface WasmDecoder {
+  decode(data: Uint8Array): RawImage | null;
+}
+
+interface WasmCodecs {
+  webpEncoder: WasmEncoder;
+  webpDecoder: WasmDecoder;
+  avifEncoder: WasmEncoder;
+  avifDecoder: WasmDecoder;
+  webpDefaults: object;
+  avifDefaults: object;
+}
+
+// lib is ES2022 without DOM typings, which leaves the WebAssembly global undeclared
+const WebAssemblyApi = (globalThis as any).WebAssembly;
+
+export interface Derivative {
+  kind: DerivativeKind;
+  format: DerivativeFormat;
+  filename: string;
+  mimeType: string;
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+let codecsPromise: Promise<WasmCodecs> | undefined;
+
+/**
+ * Instantiate an Emscripten codec from its .wasm file. The jSquash glue only knows how to
+ * fetch() the module, which Node cannot do for file URLs, so the module is compiled here.
+ */
+async function loadWasmCodec<T>(moduleFactory: any, wasmSpecifier: string): Promise<T> {
+  const require = createRequire(import.meta.url);
+  const wasmModule = await WebAssemblyApi.compile(await fs.readFile(require.resolve(wasmSpecifier)));
+
+  return moduleFactory({
+    noInitialRun: true,
+    instantiateWasm: (imports: object, callback: (instance: any) => void) => {
+      const instance = new WebAssemblyApi.Instance(wasmModule, imports);
+      callback(instance);
+      return instance.exports;
+    }
+  });
+}
+
+// Loaded on first use: the codecs add several megabytes of WebAssembly
+function getCodecs(): Promise<WasmCodecs> {
+  codecsPromise ??= (async () => {
+    const [webpEnc, webpDec, avifEnc, avifDec, webpMeta, avifMeta] = await Promise.all([
+      import('@jsquash/webp/codec/enc/webp_enc.js'),
+      import('@jsquash/webp/codec/dec/webp_dec.js'),
+      import('@jsquash/avif/codec/enc/avif_enc.js'),
+      import('@jsquash/avif/codec/dec/avif_dec.js'),
+      import('@jsquash/webp/meta.js'),
+      import('@jsquash/avif/meta.js')
+    ]);
+
+    const [webpEncoder, webpDecoder, avifEncoder, avifDecoder] = await Promise.all([
+      loadWasmCodec<WasmEncoder>(webpEnc.default, '@jsquash/webp/codec/enc/webp_enc.wasm'),
+      loadWasmCodec<WasmDecoder>(webpDec.default, '@jsquash/webp/codec/dec/webp_dec.wasm'),
+      loadWasmCodec<WasmEncoder>(avifEnc.default, '@jsquash/avif/codec/enc/avif_enc.wasm'),
+      loadWasmCodec<WasmDecoder>(avifDec.default, '@jsquash/avif/codec/dec/avif_dec.wasm')
+    ]);
+
+    return {
+      webpEncoder,
+      webpDecoder,
+      avifEncoder,
+      avifDecoder,
+      webpDefaults: webpMeta.defaultOptions,
+      avifDefaults: avifMeta.defaultOptions
+    };
+  })().catch(error => {
+    codecsPromise = undefined;
+    throw error;
+  });
+
+  return codecsPromise;
+}
+
+export function canGenerateDerivatives(mimeType: string): boolean {
+  return DECODABLE_MIME_TYPES.has(mimeType);
+}
+
+async function decodeImage(buffer: Buffer, mimeType: string): Promise<JimpInstance> {
+  const { Jimp } = await import('jimp');
+
+  if (mimeType === 'image/webp' || mimeType === 'image/avif') {
+    const codecs = await getCodecs();
+    const raw = (mimeType === 'image/webp' ? codecs.webpDecoder : codecs.avifDecoder).decode(buffer);
+    if (!raw) {
+      throw new Error(`Cannot decode ${mimeType} image`);
+    }
+    return Jimp.fromBitmap({ data: Buffer.from(raw.data.buffer, raw.data.byteOffset, raw.data.byteLength), width: raw.width, height: raw.height });
+  }
+
+  return await Jimp.read(buffer) as JimpInstance;
+}
+
+async function encodeImage(image: JimpInstance, format: DerivativeFormat, quality: number): Promise<Buffer> {
+  const { data, width, height } = image.bitmap;
+
+  switch (format) {
+    case 'jpeg':
+      return image.getBuffer('image/jpeg', { quality });
+    case 'png':
+      return image.getBuffer('image/png');
+    case 'webp': {
+      const codecs = await getCodecs();
+      const encoded = codecs.webpEncoder.encode(data, width, height, { ...codecs.webpDefaults, quality });
+      if (!encoded) throw new Error('WebP encoding failed');
+      return Buffer.from(encoded);
+    }
+    case 'avif': {
+      const codecs = await getCodecs();
+      // cqLevel runs from 0 (lossless) to 63 (worst)
+      const cqLevel = Math.round(63 * (1 - quality / 100));
+      const encoded = codecs.avifEncoder.encode(data, width, height, { ...codecs.avifDefaults, cqLevel, speed: AVIF_ENCODE_SPEED });
+      if (!encoded) throw new Error('AVIF encoding failed');
+      return Buffer.from(encoded);
+    }
+  }
+}
+
+/**
+ * Shrink to fit within the box, keeping the aspect ratio; images that already fit are not enlarged
+ */
+function fitWithin(image: JimpInstance, maxWidth: number, maxHeight: number): JimpInstance {
+  const copy = image.clone();
+  if (copy.bitmap.width > maxWidth || copy.bitmap.height > maxHeight) {
+    copy.scaleToFit({ w: maxWidth, h: maxHeight });
+  }
+  return copy;
+}
+
+/**
+ * Format thumbnails and previews are written in: the source format when it can be encoded, PNG otherwise
+ */
+function getResizedFormat(mimeType: string): DerivativeFormat {
+  const format = DERIVATIVE_FORMATS.find(candidate => DERIVATIVE_MIME_TYPES[candidate] === mimeType);
+  return format || (mimeType === 'image/jpg' ? 'jpeg' : 'png');
+}
+
+export interface DerivativeSpec {
+  kind: DerivativeKind;
+  format: DerivativeFormat;
+  filename: string;
+}
+
+/**
+ * The derivatives an upload asks for, named after baseName: thumb_{name}.{ext}, preview_{name}.{ext}
+ * and {name}.{format}
+ */
+export function getDerivativeSpecs(mimeType: string, baseName: string, options: DerivativeOptions): DerivativeSpec[] {
+  const resizedFormat = getResizedFormat(mimeType);
+  const specs: DerivativeSpec[] = [];
+  const add = (kind: DerivativeKind, format: DerivativeFormat, prefix: string) =>
+    specs.push({ kind, format, filename: `${prefix}${baseName}.${DERIVATIVE_EXTENSIONS[format]}` });
+
+  if (options.thumbnail) add('thumbnail', resizedFormat, 'thumb_');
+  if (options.preview) add('preview', resizedFormat, 'preview_');
+  new Set(options.formats || []).forEach(format => add('converted', format, ''));
+
+  return specs;
+}
+
+/**
+ * Decode one image and encode each requested derivative
+ */
+export async function generateDerivatives(
+  buffer: Buffer,
+  mimeType: string,
+  specs: DerivativeSpec[],
+  quality: number = STORAGE_CONFIG.IMAGE_QUALITY
+): Promise<Derivative[]> {
+  const source = await decodeImage(buffer, mimeType);
+  const derivatives: Derivative[] = [];
+
+  for (const spec of specs) {
+    const image = spec.kind === 'thumbnail'
+      ? fitWithin(source, STORAGE_CONFIG.THUMBNAIL_SIZE, STORAGE_CONFIG.THUMBNAIL_SIZE)
+      : spec.kind === 'preview'
+        ? fitWithin(source, STORAGE_CONFIG.PREVIEW_WIDTH, STORAGE_CONFIG.PREVIEW_HEIGHT)
+        : source;
+
+    derivatives.push({
+      ...spec,
+      mimeType: DERIVATIVE_MIME_TYPES[spec.format],
+      buffer: await encodeImage(image, spec.format, quality),
+      width: image.bitmap.width,
+      height: image.bitmap.height
+    });
+  }
+
+  return derivatives;
+}
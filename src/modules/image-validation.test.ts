@@ -0,0 +1,196 @@
+import zlib from 'zlib';
+import { afterEach, describe, expect, it } from 'vitest';
+import { SECURITY_CONFIG } from './security.js';
+import { canValidateStructure, isSofMarker, validateImageStructure } from './image-validation.js';
+import { crc32 } from '../utils/checksum.js';
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+// 8-bit grayscale PNG; the declared size need not match the pixel data since nothing is decoded
+function png(width: number, height: number, extraChunks: Buffer[] = []): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+    pngChunk('IHDR', header),
+    ...extraChunks,
+    pngChunk('IDAT', zlib.deflateSync(Buffer.alloc(width + 1))),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// Baseline JPEG skeleton: frame header, one scan with a few bytes of entropy-coded data
+function jpeg(width: number, height: number, segments: Buffer[] = []): Buffer {
+  return Buffer.concat([
+    Buffer.from([0xFF, 0xD8]),
+    ...segments,
+    Buffer.from([0xFF, 0xC0, 0x00, 0x0B, 0x08, height >> 8, height & 0xFF, width >> 8, width & 0xFF, 0x01, 0x01, 0x11, 0x00]),
+    Buffer.from([0xFF, 0xDA, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3F, 0x00]),
+    Buffer.from([0x12, 0xFF, 0x00, 0x34, 0xFF, 0xD0, 0x56]),
+    Buffer.from([0xFF, 0xD9])
+  ]);
+}
+
+function gif(width: number, height: number, frames = 1): Buffer {
+  const screen = Buffer.alloc(13);
+  screen.write('GIF89a', 'latin1');
+  screen.writeUInt16LE(width, 6);
+  screen.writeUInt16LE(height, 8);
+
+  const frame = Buffer.alloc(10);
+  frame[0] = 0x2C;
+  frame.writeUInt16LE(width, 5);
+  frame.writeUInt16LE(height, 7);
+  const imageData = Buffer.from([0x02, 0x02, 0x4C, 0x01, 0x00]);
+
+  return Buffer.concat([
+    screen,
+    ...Array.from({ length: frames }, () => Buffer.concat([frame, imageData])),
+    Buffer.from([0x3B])
+  ]);
+}
+
+function webpChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(type, 'latin1');
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length & 1)]);
+}
+
+function webp(chunks: Buffer[]): Buffer {
+  const body = Buffer.concat([Buffer.from('WEBP', 'latin1'), ...chunks]);
+  const header = Buffer.alloc(8);
+  header.write('RIFF', 'latin1');
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+// Lossless WebP: the VP8L header packs width - 1 and height - 1 into 14 bits each
+function losslessWebp(width: number, height: number): Buffer {
+  const data = Buffer.alloc(5);
+  data[0] = 0x2F;
+  data.writeUInt32LE((width - 1) | ((height - 1) << 14), 1);
+  return webp([webpChunk('VP8L', data)]);
+}
+
+function animatedWebp(width: number, height: number, frames: number): Buffer {
+  const canvas = Buffer.alloc(10);
+  canvas[0] = 0x02; // animation flag
+  canvas.writeUIntLE(width - 1, 4, 3);
+  canvas.writeUIntLE(height - 1, 7, 3);
+
+  const frame = Buffer.alloc(16);
+  frame.writeUIntLE(width - 1, 6, 3);
+  frame.writeUIntLE(height - 1, 9, 3);
+  return webp([webpChunk('VP8X', canvas), ...Array.from({ length: frames }, () => webpChunk('ANMF', frame))]);
+}
+
+describe('validateImageStructure', () => {
+  const savedConfig = { ...SECURITY_CONFIG };
+
+  afterEach(() => {
+    Object.assign(SECURITY_CONFIG, savedConfig);
+  });
+
+  it('reads the dimensions and frame count of well-formed images', () => {
+    expect(validateImageStructure(png(64, 32), 'image/png')).toEqual({ format: 'png', width: 64, height: 32, frames: 1 });
+    expect(validateImageStructure(jpeg(640, 480), 'image/jpeg')).toEqual({ format: 'jpeg', width: 640, height: 480, frames: 1 });
+    expect(validateImageStructure(gif(16, 8, 3), 'image/gif')).toEqual({ format: 'gif', width: 16, height: 8, frames: 3 });
+    expect(validateImageStructure(losslessWebp(300, 200), 'image/webp')).toEqual({ format: 'webp', width: 300, height: 200, frames: 1 });
+    expect(validateImageStructure(animatedWebp(50, 40, 4), 'image/webp')).toEqual({ format: 'webp', width: 50, height: 40, frames: 4 });
+  });
+
+  it('rejects truncated files', () => {
+    const image = png(64, 32);
+    expect(() => validateImageStructure(image.subarray(0, image.length - 12), 'image/png'))
+      .toThrow('Image rejected (truncated): PNG ends before its IEND chunk');
+
+    const photo = jpeg(640, 480);
+    expect(() => validateImageStructure(photo.subarray(0, photo.length - 4), 'image/jpeg'))
+      .toThrow('Image rejected (truncated)');
+    expect(() => validateImageStructure(gif(16, 8).subarray(0, 8), 'image/gif'))
+      .toThrow('Image rejected (truncated): GIF ends unexpectedly');
+
+    const animation = animatedWebp(50, 40, 2);
+    expect(() => validateImageStructure(animation.subarray(0, animation.length - 10), 'image/webp'))
+      .toThrow('Image rejected (truncated)');
+  });
+
+  it('rejects PNG chunks that fail their CRC check', () => {
+    const image = png(64, 32);
+    image[16] ^= 0x01; // first byte of the IHDR width
+
+    expect(() => validateImageStructure(image, 'image/png')).toThrow('Image rejected (checksum_mismatch)');
+  });
+
+  it('rejects malformed headers', () => {
+    expect(() => validateImageStructure(Buffer.from('not an image'), 'image/png')).toThrow('missing PNG signature');
+    expect(() => validateImageStructure(png(64, 32, [pngChunk('ZZZZ', Buffer.alloc(0))]), 'image/png'))
+      .toThrow('PNG has unknown critical chunk ZZZZ');
+    expect(() => validateImageStructure(jpeg(640, 480).subarray(2), 'image/jpeg')).toThrow('missing JPEG start-of-image marker');
+    expect(() => validateImageStructure(webp([webpChunk('EXIF', Buffer.alloc(4))]), 'image/webp'))
+      .toThrow('WebP starts with a EXIF chunk instead of an image header');
+  });
+
+  it('rejects zero and oversized dimensions without decoding', () => {
+    expect(() => validateImageStructure(gif(0, 8), 'image/gif')).toThrow('Image rejected (invalid_dimensions): GIF canvas is 0x8');
+
+    // A 50000x50000 header over a few bytes of pixel data is the classic decompression bomb
+    expect(() => validateImageStructure(png(50000, 50000), 'image/png')).toThrow('Image rejected (too_many_pixels)');
+    expect(() => validateImageStructure(jpeg(20000, 20000), 'image/jpeg')).toThrow('Image rejected (too_many_pixels)');
+
+    SECURITY_CONFIG.MAX_IMAGE_PIXELS = 1000;
+    expect(() => validateImageStructure(losslessWebp(100, 100), 'image/webp')).toThrow('over the limit of 1000');
+  });
+
+  it('rejects animations with more frames than MAX_IMAGE_FRAMES', () => {
+    SECURITY_CONFIG.MAX_IMAGE_FRAMES = 2;
+
+    expect(validateImageStructure(gif(16, 8, 2), 'image/gif').frames).toBe(2);
+    expect(() => validateImageStructure(gif(16, 8, 3), 'image/gif')).toThrow('Image rejected (too_many_frames)');
+    expect(() => validateImageStructure(animatedWebp(50, 40, 3), 'image/webp')).toThrow('Image rejected (too_many_frames)');
+
+    const actl = Buffer.alloc(8);
+    actl.writeUInt32BE(5, 0);
+    expect(() => validateImageStructure(png(64, 32, [pngChunk('acTL', actl)]), 'image/png')).toThrow('Image rejected (too_many_frames)');
+  });
+
+  it('rejects data appended after the end of the image but allows zero padding', () => {
+    const payload = Buffer.from('<?php system($_GET["c"]); ?>');
+
+    expect(() => validateImageStructure(Buffer.concat([png(64, 32), payload]), 'image/png')).toThrow('Image rejected (trailing_data)');
+    expect(() => validateImageStructure(Buffer.concat([jpeg(640, 480), payload]), 'image/jpeg')).toThrow('Image rejected (trailing_data)');
+    expect(() => validateImageStructure(Buffer.concat([gif(16, 8), payload]), 'image/gif')).toThrow('Image rejected (trailing_data)');
+    expect(validateImageStructure(Buffer.concat([jpeg(640, 480), Buffer.alloc(64)]), 'image/jpeg').width).toBe(640);
+  });
+
+  it('accepts the extra images of a Multi-Picture Format JPEG', () => {
+    const mpf = Buffer.from([0xFF, 0xE2, 0x00, 0x08, 0x4D, 0x50, 0x46, 0x00, 0x00, 0x00]);
+    const gainMap = jpeg(320, 240);
+
+    expect(validateImageStructure(Buffer.concat([jpeg(640, 480, [mpf]), gainMap]), 'image/jpeg').width).toBe(640);
+    expect(() => validateImageStructure(Buffer.concat([jpeg(640, 480), gainMap]), 'image/jpeg')).toThrow('Image rejected (trailing_data)');
+  });
+
+  it('only handles the formats it can walk', () => {
+    expect(canValidateStructure('image/jpg')).toBe(true);
+    expect(canValidateStructure('image/svg+xml')).toBe(false);
+    expect(() => validateImageStructure(Buffer.alloc(0), 'image/tiff')).toThrow('No structural validation for image/tiff');
+  });
+});
+
+describe('isSofMarker', () => {
+  it('excludes the table markers that share the frame header range', () => {
+    expect([0xC0, 0xC1, 0xC2, 0xCF].every(isSofMarker)).toBe(true);
+    expect([0xC4, 0xC8, 0xCC, 0xDA, 0xE0].some(isSofMarker)).toBe(false);
+  });
+});
@@ -0,0 +1,423 @@
+// Image Validation Module for Supabase Storage MCP
+// Walks the structure of JPEG, PNG, GIF and WebP files: dimensions, frame counts, checksums and trailing data
+
+import { ImageRejectionReason, ImageStructure } from './types.js';
+import { SECURITY_CONFIG } from './security.js';
+import { createValidationError, getErrorMessage, isValidationError } from '../utils/error-handling.js';
+import { crc32 } from '../utils/checksum.js';
+
+const STRUCTURE_FORMATS: Record<string, ImageStructure['format']> = {
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+// Bit depths allowed for each PNG color type
+const PNG_BIT_DEPTHS: Record<number, number[]> = {
+  0: [1, 2, 4, 8, 16], // grayscale
+  2: [8, 16], // truecolor
+  3: [1, 2, 4, 8], // indexed
+  4: [8, 16], // grayscale with alpha
+  6: [8, 16] // truecolor with alpha
+};
+
+const PNG_CRITICAL_CHUNKS = new Set(['IHDR', 'PLTE', 'IDAT', 'IEND']);
+
+interface JpegWalk {
+  width: number;
+  height: number;
+  end: number; // offset just past the end-of-image marker
+  multiPicture: boolean;
+}
+
+function reject(reason: ImageRejectionReason, message: string): never {
+  throw createValidationError(`Image rejected (${reason}): ${message}`, 'content', undefined, reason, 'image structure');
+}
+
+function checkDimensions(width: number, height: number, what: string): void {
+  if (width === 0 || height === 0) {
+    reject('invalid_dimensions', `${what} is ${width}x${height}`);
+  }
+  if (width * height > SECURITY_CONFIG.MAX_IMAGE_PIXELS) {
+    reject(
+      'too_many_pixels',
+      `${what} is ${width}x${height} (${width * height} pixels), over the limit of ${SECURITY_CONFIG.MAX_IMAGE_PIXELS}`
+    );
+  }
+}
+
+function checkFrames(frames: number): void {
+  if (frames > SECURITY_CONFIG.MAX_IMAGE_FRAMES) {
+    reject('too_many_frames', `${frames} frames, over the limit of ${SECURITY_CONFIG.MAX_IMAGE_FRAMES}`);
+  }
+}
+
+/**
+ * Anything after the image but zero padding is an appended payload
+ */
+function checkTrailingData(buffer: Buffer, end: number, format: string): void {
+  const trailing = buffer.subarray(end);
+  if (trailing.some(byte => byte !== 0)) {
+    reject('trailing_data', `${trailing.length} bytes follow the end of the ${format} image`);
+  }
+}
+
+/**
+ * Start-of-frame markers; 0xC4, 0xC8 and 0xCC share the range but are not frame headers
+ */
+export function isSofMarker(marker: number): boolean {
+  return marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC;
+}
+
+/**
+ * Offset of the first marker after entropy-coded scan data
+ */
+function skipScanData(buffer: Buffer, pos: number): number {
+  for (let i = buffer.indexOf(0xFF, pos); i !== -1 && i + 1 < buffer.length; i = buffer.indexOf(0xFF, i + 1)) {
+    const next = buffer[i + 1];
+    // Stuffed zero bytes, restart markers and fill bytes belong to the scan
+    if (next !== 0x00 && next !== 0xFF && (next < 0xD0 || next > 0xD7)) {
+      return i;
+    }
+  }
+  reject('truncated', 'JPEG image data ends without an end-of-image marker');
+}
+
+function walkJpeg(buffer: Buffer, start: number): JpegWalk {
+  if (buffer[start] !== 0xFF || buffer[start + 1] !== 0xD8) {
+    reject('invalid_structure', 'missing JPEG start-of-image marker');
+  }
+
+  let frame: { width: number; height: number } | undefined;
+  let scans = 0;
+  let multiPicture = false;
+  let pos = start + 2;
+
+  for (;;) {
+    while (buffer[pos] === 0xFF && buffer[pos + 1] === 0xFF) pos++;
+    if (pos + 2 > buffer.length) {
+      reject('truncated', 'JPEG ends before its end-of-image marker');
+    }
+    if (buffer[pos] !== 0xFF) {
+      reject('invalid_structure', `expected a JPEG marker at byte ${pos}`);
+    }
+
+    const marker = buffer[pos + 1];
+    pos += 2;
+    if (marker === 0xD9) break;
+    if (marker === 0x01) continue;
+    if (marker === 0x00 || marker === 0xD8 || (marker >= 0xD0 && marker <= 0xD7)) {
+      reject('invalid_structure', `unexpected JPEG marker 0xFF${marker.toString(16).toUpperCase()} at byte ${pos - 2}`);
+    }
+
+    const length = buffer.readUInt16BE(pos);
+    const end = pos + length;
+    if (length < 2) {
+      reject('invalid_structure', `JPEG segment at byte ${pos - 2} has an invalid length`);
+    }
+    if (end > buffer.length) {
+      reject('truncated', `JPEG segment 0xFF${marker.toString(16).toUpperCase()} runs past the end of the file`);
+    }
+
+    if (isSofMarker(marker)) {
+      if (frame) {
+        reject('invalid_structure', 'JPEG has more than one frame header');
+      }
+      if (length < 8) {
+        reject('invalid_structure', 'JPEG frame header is too short');
+      }
+      frame = { height: buffer.readUInt16BE(pos + 3), width: buffer.readUInt16BE(pos + 5) };
+      checkDimensions(frame.width, frame.height, 'JPEG image');
+    } else if (marker === 0xE2 && buffer.toString('latin1', pos + 2, pos + 6) === 'MPF\0') {
+      multiPicture = true;
+    }
+
+    pos = end;
+    if (marker === 0xDA) {
+      if (!frame) {
+        reject('invalid_structure', 'JPEG scan starts before the frame header');
+      }
+      scans++;
+      pos = skipScanData(buffer, pos);
+    }
+  }
+
+  if (!frame || scans === 0) {
+    reject('invalid_structure', 'JPEG has no image data');
+  }
+  return { ...frame, end: pos, multiPicture };
+}
+
+function validateJpeg(buffer: Buffer): ImageStructure {
+  const primary = walkJpeg(buffer, 0);
+  let end = primary.end;
+
+  // Multi-Picture Format files (such as HDR gain maps) store their extra images after the primary one
+  if (primary.multiPicture) {
+    while (buffer[end] === 0xFF && buffer[end + 1] === 0xD8) {
+      end = walkJpeg(buffer, end).end;
+    }
+  }
+
+  checkTrailingData(buffer, end, 'JPEG');
+  return { format: 'jpeg', width: primary.width, height: primary.height, frames: 1 };
+}
+
+function validatePng(buffer: Buffer): ImageStructure {
+  if (!buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    reject('invalid_structure', 'missing PNG signature');
+  }
+
+  let header: { width: number; height: number } | undefined;
+  let frames = 1;
+  let hasImageData = false;
+  let pos = 8;
+
+  for (let ended = false; !ended;) {
+    if (pos + 12 > buffer.length) {
+      reject('truncated', 'PNG ends before its IEND chunk');
+    }
+
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString('latin1', pos + 4, pos + 8);
+    const dataEnd = pos + 8 + length;
+    if (!/^[A-Za-z]{4}$/.test(type)) {
+      reject('invalid_structure', `invalid PNG chunk type at byte ${pos}`);
+    }
+    if (dataEnd + 4 > buffer.length) {
+      reject('truncated', `PNG ${type} chunk runs past the end of the file`);
+    }
+    if (crc32(buffer.subarray(pos + 4, dataEnd)) !== buffer.readUInt32BE(dataEnd)) {
+      reject('checksum_mismatch', `PNG ${type} chunk at byte ${pos} fails its CRC check`);
+    }
+    if (!header && type !== 'IHDR') {
+      reject('invalid_structure', 'PNG does not start with an IHDR chunk');
+    }
+
+    const data = buffer.subarray(pos + 8, dataEnd);
+    switch (type) {
+      case 'IHDR': {
+        if (header || length !== 13) {
+          reject('invalid_structure', 'PNG has an invalid or repeated IHDR chunk');
+        }
+        const [bitDepth, colorType, compression, filter, interlace] = data.subarray(8, 13);
+        if (!PNG_BIT_DEPTHS[colorType]?.includes(bitDepth)) {
+          reject('invalid_structure', `PNG bit depth ${bitDepth} is not valid for color type ${colorType}`);
+        }
+        if (compression !== 0 || filter !== 0 || interlace > 1) {
+          reject('invalid_structure', 'PNG uses an unknown compression, filter or interlace method');
+        }
+        header = { width: data.readUInt32BE(0), height: data.readUInt32BE(4) };
+        checkDimensions(header.width, header.height, 'PNG image');
+        break;
+      }
+      case 'acTL':
+        // Animated PNG frame count
+        frames = data.readUInt32BE(0);
+        checkFrames(frames);
+        break;
+      case 'IDAT':
+        hasImageData = true;
+        break;
+      case 'IEND':
+        ended = true;
+        break;
+      default:
+        // An uppercase first letter marks a critical chunk that decoders must understand
+        if (type[0] === type[0].toUpperCase() && !PNG_CRITICAL_CHUNKS.has(type)) {
+          reject('invalid_structure', `PNG has unknown critical chunk ${type}`);
+        }
+    }
+
+    pos = dataEnd + 4;
+  }
+
+  if (!header || !hasImageData) {
+    reject('invalid_structure', 'PNG has no image data');
+  }
+
+  checkTrailingData(buffer, pos, 'PNG');
+  return { format: 'png', width: header.width, height: header.height, frames };
+}
+
+/**
+ * Offset just past a chain of GIF data sub-blocks, which ends with an empty block
+ */
+function skipGifSubBlocks(buffer: Buffer, pos: number): number {
+  for (;;) {
+    if (pos >= buffer.length) {
+      reject('truncated', 'GIF data block runs past the end of the file');
+    }
+    const size = buffer[pos];
+    pos += 1 + size;
+    if (size === 0) return pos;
+  }
+}
+
+function gifColorTableSize(flags: number): number {
+  return flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0;
+}
+
+function validateGif(buffer: Buffer): ImageStructure {
+  const version = buffer.toString('latin1', 0, 6);
+  if (version !== 'GIF87a' && version !== 'GIF89a') {
+    reject('invalid_structure', 'missing GIF header');
+  }
+
+  const width = buffer.readUInt16LE(6);
+  const height = buffer.readUInt16LE(8);
+  checkDimensions(width, height, 'GIF canvas');
+
+  let frames = 0;
+  let pos = 13 + gifColorTableSize(buffer[10]);
+
+  for (;;) {
+    if (pos >= buffer.length) {
+      reject('truncated', 'GIF ends before its trailer');
+    }
+
+    const block = buffer[pos];
+    if (block === 0x3B) {
+      pos++;
+      break;
+    }
+    if (block === 0x21) {
+      // Extension: label byte, then sub-blocks
+      pos = skipGifSubBlocks(buffer, pos + 2);
+      continue;
+    }
+    if (block !== 0x2C) {
+      reject('invalid_structure', `unknown GIF block 0x${block.toString(16).toUpperCase()} at byte ${pos}`);
+    }
+
+    frames++;
+    checkFrames(frames);
+    checkDimensions(buffer.readUInt16LE(pos + 5), buffer.readUInt16LE(pos + 7), `GIF frame ${frames}`);
+
+    pos += 10 + gifColorTableSize(buffer[pos + 9]);
+    const codeSize = buffer.readUInt8(pos);
+    if (codeSize > 8) {
+      reject('invalid_structure', `GIF frame ${frames} has an invalid LZW code size`);
+    }
+    pos = skipGifSubBlocks(buffer, pos + 1);
+  }
+
+  if (frames === 0) {
+    reject('invalid_structure', 'GIF has no image data');
+  }
+
+  checkTrailingData(buffer, pos, 'GIF');
+  return { format: 'gif', width, height, frames };
+}
+
+/**
+ * Dimensions from a VP8 (lossy) or VP8L (lossless) bitstream header
+ */
+function readWebpBitstreamSize(type: string, data: Buffer): { width: number; height: number } {
+  if (type === 'VP8 ') {
+    if (data.length < 10 || data[3] !== 0x9D || data[4] !== 0x01 || data[5] !== 0x2A) {
+      reject('invalid_structure', 'WebP VP8 bitstream has an invalid frame header');
+    }
+    return { width: data.readUInt16LE(6) & 0x3FFF, height: data.readUInt16LE(8) & 0x3FFF };
+  }
+
+  if (data.length < 5 || data[0] !== 0x2F) {
+    reject('invalid_structure', 'WebP VP8L bitstream has an invalid signature');
+  }
+  const bits = data.readUInt32LE(1);
+  return { width: (bits & 0x3FFF) + 1, height: ((bits >>> 14) & 0x3FFF) + 1 };
+}
+
+function validateWebp(buffer: Buffer): ImageStructure {
+  if (buffer.toString('latin1', 0, 4) !== 'RIFF' || buffer.toString('latin1', 8, 12) !== 'WEBP') {
+    reject('invalid_structure', 'missing RIFF/WEBP header');
+  }
+
+  const riffEnd = 8 + buffer.readUInt32LE(4);
+  if (riffEnd > buffer.length) {
+    reject('truncated', `WebP is ${buffer.length} bytes but its RIFF header declares ${riffEnd}`);
+  }
+
+  let canvas: { width: number; height: number } | undefined;
+  let image: { width: number; height: number } | undefined;
+  let animationFrames = 0;
+  let pos = 12;
+
+  while (pos + 8 <= riffEnd) {
+    const type = buffer.toString('latin1', pos, pos + 4);
+    const size = buffer.readUInt32LE(pos + 4);
+    const end = pos + 8 + size;
+    if (end > riffEnd) {
+      reject('truncated', `WebP ${type.trim()} chunk runs past the end of the file`);
+    }
+    if (pos === 12 && type !== 'VP8X' && type !== 'VP8 ' && type !== 'VP8L') {
+      reject('invalid_structure', `WebP starts with a ${type.trim()} chunk instead of an image header`);
+    }
+
+    const data = buffer.subarray(pos + 8, end);
+    if (type === 'VP8X') {
+      if (pos !== 12 || size < 10) {
+        reject('invalid_structure', 'WebP has a misplaced or short VP8X chunk');
+      }
+      canvas = { width: 1 + data.readUIntLE(4, 3), height: 1 + data.readUIntLE(7, 3) };
+      checkDimensions(canvas.width, canvas.height, 'WebP canvas');
+    } else if (type === 'VP8 ' || type === 'VP8L') {
+      image = readWebpBitstreamSize(type, data);
+      checkDimensions(image.width, image.height, 'WebP image');
+    } else if (type === 'ANMF') {
+      if (size < 16) {
+        reject('invalid_structure', 'WebP animation frame header is too short');
+      }
+      animationFrames++;
+      checkFrames(animationFrames);
+      checkDimensions(1 + data.readUIntLE(6, 3), 1 + data.readUIntLE(9, 3), `WebP frame ${animationFrames}`);
+    }
+
+    pos = end + (size & 1);
+  }
+
+  const dimensions = canvas || image;
+  if (!dimensions || (!image && animationFrames === 0)) {
+    reject('invalid_structure', 'WebP has no image data');
+  }
+
+  checkTrailingData(buffer, riffEnd, 'WebP');
+  return { format: 'webp', ...dimensions, frames: Math.max(animationFrames, 1) };
+}
+
+export function canValidateStructure(mimeType: string): boolean {
+  return mimeType in STRUCTURE_FORMATS;
+}
+
+/**
+ * Walk a JPEG, PNG, GIF or WebP image and reject it, with the reason, when it is truncated,
+ * malformed, larger than MAX_IMAGE_PIXELS or MAX_IMAGE_FRAMES, or has data appended after its end.
+ * Nothing is decoded, so the check is safe to run on decompression bombs.
+ */
+export function validateImageStructure(buffer: Buffer, mimeType: string): ImageStructure {
+  const format = STRUCTURE_FORMATS[mimeType];
+  if (!format) {
+    throw new Error(`No structural validation for ${mimeType}`);
+  }
+
+  try {
+    switch (format) {
+      case 'jpeg':
+        return validateJpeg(buffer);
+      case 'png':
+        return validatePng(buffer);
+      case 'gif':
+        return validateGif(buffer);
+      case 'webp':
+        return validateWebp(buffer);
+    }
+  } catch (error) {
+    if (isValidationError(error)) throw error;
+    // Buffer reads past the end of the file
+    reject('truncated', `${format.toUpperCase()} ends unexpectedly (${getErrorMessage(error)})`);
+  }
+}
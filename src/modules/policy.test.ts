@@ -0,0 +1,233 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AuthorizationPolicy, SecurityContext } from './types.js';
+import {
+  authorizeToolCall,
+  getToolTargets,
+  isAdminCaller,
+  isBucketAllowed,
+  isToolAllowed,
+  loadPolicy,
+  setAuthorizationPolicy
+} from './policy.js';
+import { SECURITY_CONFIG } from './security.js';
+import { TRANSPORT_CONFIG } from './config.js';
+
+const POLICY: AuthorizationPolicy = {
+  default_role: 'viewer',
+  roles: {
+    admin: { tools: ['*'] },
+    viewer: { tools: ['list_*', 'get_file_url'], buckets: ['public-*'] },
+    uploader: {
+      tools: ['upload_files', 'list_files', 'move_file'],
+      buckets: ['storage-*'],
+      paths: ['original/{user_id}/', 'shared/']
+    }
+  }
+};
+
+function context(role?: string, userId?: string): SecurityContext {
+  return {
+    timestamp: new Date().toISOString(),
+    ipAddress: '203.0.113.7',
+    userAgent: 'test-client',
+    sessionId: 'session-1',
+    requestId: 'request-1',
+    method: 'tools/call',
+    role,
+    userId
+  };
+}
+
+describe('authorization policy', () => {
+  beforeEach(() => {
+    setAuthorizationPolicy(POLICY);
+  });
+
+  afterEach(() => {
+    setAuthorizationPolicy(undefined);
+  });
+
+  it('allows everything without a policy', () => {
+    setAuthorizationPolicy(undefined);
+
+    expect(authorizeToolCall('delete_bucket', { bucket_name: 'anything' }, context())).toEqual({ allowed: true });
+    expect(isToolAllowed('delete_bucket', undefined)).toBe(true);
+  });
+
+  it('matches tool names against wildcard patterns, falling back to the default role', () => {
+    expect(isToolAllowed('list_files', undefined)).toBe(true);
+    expect(isToolAllowed('list_buckets', 'viewer')).toBe(true);
+    expect(isToolAllowed('delete_files', 'viewer')).toBe(false);
+    expect(isToolAllowed('delete_files', 'admin')).toBe(true);
+    expect(isToolAllowed('list_files', 'unknown')).toBe(false);
+
+    expect(authorizeToolCall('delete_files', { bucket_name: 'public-assets' }, context())).toEqual({
+      allowed: false,
+      role: 'viewer',
+      reason: 'Role viewer may not call delete_files'
+    });
+  });
+
+  it('rejects roles that are not defined and callers without a role', () => {
+    expect(authorizeToolCall('list_files', {}, context('ghost'))).toMatchObject({
+      allowed: false,
+      reason: 'Role ghost is not defined in the authorization policy'
+    });
+
+    setAuthorizationPolicy({ roles: POLICY.roles });
+    expect(authorizeToolCall('list_files', {}, context())).toEqual({
+      allowed: false,
+      reason: 'No role assigned to the caller and the policy has no default_role'
+    });
+  });
+
+  it('restricts buckets, including the destination of a transfer', () => {
+    expect(isBucketAllowed('public-assets', 'viewer')).toBe(true);
+    expect(isBucketAllowed('storage-images', 'viewer')).toBe(false);
+    expect(isBucketAllowed('storage-images', 'admin')).toBe(true);
+
+    expect(authorizeToolCall('list_files', { bucket_name: 'storage-images' }, context('viewer'))).toMatchObject({
+      allowed: false,
+      reason: 'Role viewer may not access bucket storage-images'
+    });
+    expect(authorizeToolCall('move_file', {
+      bucket_name: 'storage-images',
+      destination_bucket: 'private-archive',
+      source_path: 'shared/a.png',
+      destination_path: 'shared/b.png'
+    }, context('uploader', 'alice'))).toMatchObject({
+      allowed: false,
+      reason: 'Role uploader may not access bucket private-archive'
+    });
+  });
+
+  it('limits storage paths to the allowed prefixes with the caller\'s user id filled in', () => {
+    const list = (folderPath: string, userId?: string) =>
+      authorizeToolCall('list_files', { bucket_name: 'storage-images', folder_path: folderPath }, context('uploader', userId));
+
+    expect(list('original/alice/batch1', 'alice').allowed).toBe(true);
+    expect(list('shared/team', 'alice').allowed).toBe(true);
+    expect(list('original/bob/batch1', 'alice')).toMatchObject({
+      allowed: false,
+      reason: 'Role uploader may not access path "original/bob/batch1"'
+    });
+    expect(list('original/alice/../bob', 'alice').allowed).toBe(false);
+    expect(list('', 'alice').allowed).toBe(false);
+
+    // {user_id} never matches without a known caller or with a wildcard id
+    expect(list('original/alice/batch1').allowed).toBe(false);
+    expect(list('original/*/batch1', '*').allowed).toBe(false);
+  });
+
+  it('checks the upload folder a batch writes to', () => {
+    const upload = (userId: string) => authorizeToolCall('upload_files', {
+      bucket_name: 'storage-images',
+      folder_prefix: 'original',
+      user_id: userId,
+      batch_id: 'batch1',
+      file_paths: ['/tmp/local/not-a-storage-path.png']
+    }, context('uploader', 'alice'));
+
+    expect(upload('alice').allowed).toBe(true);
+    expect(upload('bob').allowed).toBe(false);
+  });
+});
+
+describe('isAdminCaller', () => {
+  const originalSecurity = { ...SECURITY_CONFIG };
+
+  afterEach(() => {
+    Object.assign(SECURITY_CONFIG, originalSecurity);
+    TRANSPORT_CONFIG.MODE = 'stdio';
+    setAuthorizationPolicy(undefined);
+  });
+
+  it('refuses everyone while ENABLE_ADMIN_TOOLS is off', () => {
+    SECURITY_CONFIG.ENABLE_ADMIN_TOOLS = false;
+
+    expect(isAdminCaller(undefined)).toBe(false);
+    expect(isAdminCaller('admin')).toBe(false);
+  });
+
+  it('trusts the local operator over stdio in service mode', () => {
+    SECURITY_CONFIG.ENABLE_ADMIN_TOOLS = true;
+
+    expect(isAdminCaller(undefined)).toBe(true);
+  });
+
+  it('requires ADMIN_ROLE over SSE and in jwt mode', () => {
+    SECURITY_CONFIG.ENABLE_ADMIN_TOOLS = true;
+    TRANSPORT_CONFIG.MODE = 'sse';
+
+    expect(isAdminCaller(undefined)).toBe(false);
+    expect(isAdminCaller('viewer')).toBe(false);
+    expect(isAdminCaller('admin')).toBe(true);
+
+    TRANSPORT_CONFIG.MODE = 'stdio';
+    SECURITY_CONFIG.AUTH_MODE = 'jwt';
+    SECURITY_CONFIG.ADMIN_ROLE = 'ops';
+    expect(isAdminCaller('admin')).toBe(false);
+    expect(isAdminCaller('ops')).toBe(true);
+  });
+
+  it('falls back to the policy default role', () => {
+    SECURITY_CONFIG.ENABLE_ADMIN_TOOLS = true;
+    TRANSPORT_CONFIG.MODE = 'sse';
+    setAuthorizationPolicy({ ...POLICY, default_role: 'admin' });
+
+    expect(isAdminCaller(undefined)).toBe(true);
+    expect(isAdminCaller('viewer')).toBe(false);
+  });
+});
+
+describe('getToolTargets', () => {
+  it('lists every bucket and path a call touches', () => {
+    expect(getToolTargets('copy_file', {
+      bucket_name: 'a',
+      destination_bucket: 'b',
+      transfers: [{ source_path: 'x/1', destination_path: 'y/1' }, { source_path: 'x/2', destination_path: 'y/2' }]
+    })).toEqual({ buckets: ['a', 'b'], paths: ['x/1', 'y/1', 'x/2', 'y/2'] });
+
+    expect(getToolTargets('delete_files', { bucket_name: 'a', prefix: 'tmp/' })).toEqual({ buckets: ['a'], paths: ['tmp/'] });
+    expect(getToolTargets('empty_bucket', { bucket_name: 'a' })).toEqual({ buckets: ['a'], paths: [''] });
+  });
+
+  it('treats a missing path as the bucket root', () => {
+    expect(getToolTargets('delete_files', { bucket_name: 'a' })).toEqual({ buckets: ['a'], paths: [''] });
+  });
+});
+
+describe('loadPolicy', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'policy-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('reads YAML and JSON policy files', async () => {
+    const yamlFile = path.join(workDir, 'policy.yaml');
+    await fs.writeFile(yamlFile, 'default_role: viewer\nroles:\n  viewer:\n    tools: [list_files]\n');
+    await expect(loadPolicy(yamlFile)).resolves.toEqual({ default_role: 'viewer', roles: { viewer: { tools: ['list_files'] } } });
+
+    const jsonFile = path.join(workDir, 'policy.json');
+    await fs.writeFile(jsonFile, JSON.stringify(POLICY));
+    await expect(loadPolicy(jsonFile)).resolves.toEqual(POLICY);
+  });
+
+  it('rejects an undefined default role and unknown keys', async () => {
+    const file = path.join(workDir, 'policy.yaml');
+
+    await fs.writeFile(file, 'default_role: nobody\nroles:\n  viewer:\n    tools: [list_files]\n');
+    await expect(loadPolicy(file)).rejects.toThrow('default_role "nobody" is not defined in roles');
+
+    await fs.writeFile(file, 'roles:\n  viewer:\n    tools: [list_files]\n    bucket: [a]\n');
+    await expect(loadPolicy(file)).rejects.toThrow('Invalid policy file');
+  });
+});
@@ -0,0 +1,265 @@
+// Authorization Policy Module for Supabase Storage MCP
+// Role-based rules loaded from POLICY_FILE: the tools each role may call, on which buckets and under which paths
+
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { AuthorizationPolicy, BucketManifest, PolicyDecision, RolePolicy, SecurityContext } from './types.js';
+import { matchesWildcard, SECURITY_CONFIG } from './security.js';
+import { TRANSPORT_CONFIG } from './config.js';
+import { getDefaultManifest, getManifestFolderPaths, resolveBucketManifest } from './bucket-manifest.js';
+import { DERIVATIVES_FOLDER } from './file-upload.js';
+import { createValidationError, getErrorMessage } from '../utils/error-handling.js';
+
+const USER_ID_PLACEHOLDER = '{user_id}';
+
+const RolePolicySchema = z.object({
+  tools: z.array(z.string().min(1)).min(1),
+  buckets: z.array(z.string().min(1)).optional(),
+  paths: z.array(z.string()).optional()
+}).strict();
+
+const AuthorizationPolicySchema = z.object({
+  default_role: z.string().min(1).optional(),
+  roles: z.record(RolePolicySchema)
+}).strict().refine(
+  policy => !policy.default_role || policy.roles[policy.default_role] !== undefined,
+  policy => ({ message: `default_role "${policy.default_role}" is not defined in roles`, path: ['default_role'] })
+);
+
+// No policy file means every caller may call every tool
+let activePolicy: AuthorizationPolicy | undefined;
+
+/**
+ * Read and validate a JSON or YAML policy file
+ */
+export async function loadPolicy(policyFile: string): Promise<AuthorizationPolicy> {
+  let raw: unknown;
+  try {
+    const content = await fs.readFile(policyFile, 'utf8');
+    raw = path.extname(policyFile).toLowerCase() === '.json' ? JSON.parse(content) : YAML.parse(content);
+  } catch (error) {
+    throw createValidationError(
+      `Cannot read policy file ${policyFile}: ${getErrorMessage(error)}`,
+      'POLICY_FILE',
+      policyFile,
+      'readable',
+      'authorization policy'
+    );
+  }
+
+  const parsed = AuthorizationPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `  - ${issue.path.join('.') || 'root'}: ${issue.message}`);
+    throw createValidationError(
+      `Invalid policy file ${policyFile}:\n${issues.join('\n')}`,
+      'POLICY_FILE',
+      policyFile,
+      parsed.error.issues[0]?.code || 'invalid',
+      'authorization policy'
+    );
+  }
+
+  return parsed.data;
+}
+
+export function setAuthorizationPolicy(policy: AuthorizationPolicy | undefined): void {
+  activePolicy = policy;
+}
+
+function getRolePolicy(role: string | undefined): { role?: string; policy?: RolePolicy } {
+  const resolvedRole = role || activePolicy?.default_role;
+  return { role: resolvedRole, policy: resolvedRole ? activePolicy?.roles[resolvedRole] : undefined };
+}
+
+/**
+ * Whether the role may call the tool at all; used to filter tools/list
+ */
+export function isToolAllowed(toolName: string, role: string | undefined): boolean {
+  if (!activePolicy) return true;
+
+  const { policy } = getRolePolicy(role);
+  return !!policy && policy.tools.some(pattern => matchesWildcard(pattern, toolName));
+}
+
+/**
+ * Whether the caller may use the admin tools once ENABLE_ADMIN_TOOLS is set. Over stdio in service
+ * auth mode the only client is the operator who started the server; every other caller needs
+ * ADMIN_ROLE, from a verified token's app_metadata.role, a trusted X-User-Role header or the
+ * policy's default_role.
+ */
+export function isAdminCaller(role: string | undefined): boolean {
+  if (!SECURITY_CONFIG.ENABLE_ADMIN_TOOLS) return false;
+  if (TRANSPORT_CONFIG.MODE === 'stdio' && SECURITY_CONFIG.AUTH_MODE === 'service') return true;
+
+  return getRolePolicy(role).role === SECURITY_CONFIG.ADMIN_ROLE;
+}
+
+/**
+ * Whether the role may access the bucket; used to filter list_buckets
+ */
+export function isBucketAllowed(bucketName: string, role: string | undefined): boolean {
+  if (!activePolicy) return true;
+
+  const { policy } = getRolePolicy(role);
+  return !!policy && (!policy.buckets || policy.buckets.some(pattern => matchesWildcard(pattern, bucketName)));
+}
+
+/**
+ * Buckets and storage paths a tool call touches. Local file paths (image_paths,
+ * file_paths of upload tools) are not storage paths and are not listed.
+ */
+export function getToolTargets(toolName: string, args: any): { buckets: string[]; paths: string[] } {
+  const buckets: string[] = [];
+  const paths: string[] = [];
+  const addBucket = (value: unknown) => typeof value === 'string' && value && buckets.push(value);
+  const addPath = (value: unknown) => paths.push(typeof value === 'string' ? value : '');
+
+  switch (toolName) {
+    case 'create_bucket':
+    case 'get_bucket':
+    case 'update_bucket':
+      addBucket(args.bucket_name);
+      break;
+
+    case 'empty_bucket':
+    case 'delete_bucket':
+      // Removes every object, so path rules must allow the whole bucket
+      addBucket(args.bucket_name);
+      addPath('');
+      break;
+
+    case 'setup_buckets': {
+      const manifest = getDefaultManifest(args.base_bucket_name);
+      manifest.buckets.forEach(bucket => addBucket(bucket.name));
+      getManifestFolderPaths(manifest, args.user_id).forEach(addPath);
+      break;
+    }
+
+    case 'plan_buckets':
+    case 'apply_buckets': {
+      let manifest: BucketManifest;
+      try {
+        manifest = resolveBucketManifest(args.manifest);
+      } catch {
+        // An invalid manifest is rejected by the handler before anything is touched
+        break;
+      }
+      manifest.buckets.forEach(bucket => addBucket(bucket.name));
+      if (toolName === 'apply_buckets') {
+        getManifestFolderPaths(manifest, args.user_id).forEach(addPath);
+      }
+      break;
+    }
+
+    case 'upload_image_batch':
+    case 'upload_files':
+    case 'upload_from_url':
+    case 'start_resumable_upload':
+      addBucket(args.bucket_name);
+      addPath(`${args.folder_prefix}/${args.user_id}/${args.batch_id}/`);
+      if (args.derivatives) {
+        addPath(`${DERIVATIVES_FOLDER}/${args.user_id}/${args.batch_id}/`);
+      }
+      break;
+
+    case 'list_files':
+      addBucket(args.bucket_name);
+      addPath(args.folder_path);
+      break;
+
+    case 'delete_files':
+      addBucket(args.bucket_name);
+      if (Array.isArray(args.file_paths)) args.file_paths.forEach(addPath);
+      if (args.prefix !== undefined || !Array.isArray(args.file_paths)) addPath(args.prefix);
+      break;
+
+    case 'move_file':
+    case 'copy_file': {
+      addBucket(args.bucket_name);
+      addBucket(args.destination_bucket);
+      const transfers = Array.isArray(args.transfers) ? args.transfers : [args];
+      transfers.forEach((transfer: any) => {
+        addPath(transfer?.source_path);
+        addPath(transfer?.destination_path);
+      });
+      break;
+    }
+
+    case 'get_file_url':
+      addBucket(args.bucket_name);
+      addPath(args.storage_path);
+      break;
+
+    case 'download_file':
+    case 'download_file_with_auto_trigger':
+      addBucket(args.bucket_name);
+      addPath(args.file_path);
+      break;
+
+    case 'get_storage_usage':
+      // Without bucket_name the handler only scans buckets the role may access
+      addBucket(args.bucket_name);
+      addPath(args.prefix);
+      break;
+
+    case 'create_signed_urls':
+    case 'batch_download':
+      addBucket(args.bucket_name);
+      if (Array.isArray(args.file_paths)) args.file_paths.forEach(addPath);
+      break;
+  }
+
+  return { buckets, paths };
+}
+
+function matchesPathPrefix(prefix: string, storagePath: string, userId: string | undefined): boolean {
+  if (prefix.includes(USER_ID_PLACEHOLDER)) {
+    // Without a known caller there is no folder of their own; ids containing wildcards never match
+    if (!userId || userId.includes('*')) return false;
+    prefix = prefix.split(USER_ID_PLACEHOLDER).join(userId);
+  }
+  return matchesWildcard(`${prefix.replace(/^\/+/, '')}*`, storagePath.replace(/^\/+/, ''));
+}
+
+/**
+ * Check a tool call against the caller's role: the tool, every bucket it touches and every storage path
+ */
+export function authorizeToolCall(toolName: string, args: any, securityContext: SecurityContext): PolicyDecision {
+  if (!activePolicy) {
+    return { allowed: true };
+  }
+
+  const { role, policy } = getRolePolicy(securityContext.role);
+  if (!role) {
+    return { allowed: false, reason: 'No role assigned to the caller and the policy has no default_role' };
+  }
+  if (!policy) {
+    return { allowed: false, role, reason: `Role ${role} is not defined in the authorization policy` };
+  }
+  if (!policy.tools.some(pattern => matchesWildcard(pattern, toolName))) {
+    return { allowed: false, role, reason: `Role ${role} may not call ${toolName}` };
+  }
+
+  const { buckets, paths } = getToolTargets(toolName, args || {});
+
+  if (policy.buckets) {
+    const deniedBucket = buckets.find(bucket => !policy.buckets!.some(pattern => matchesWildcard(pattern, bucket)));
+    if (deniedBucket) {
+      return { allowed: false, role, reason: `Role ${role} may not access bucket ${deniedBucket}` };
+    }
+  }
+
+  if (policy.paths) {
+    const deniedPath = paths.find(storagePath =>
+      storagePath.split('/').includes('..') ||
+      !policy.paths!.some(prefix => matchesPathPrefix(prefix, storagePath, securityContext.userId))
+    );
+    if (deniedPath !== undefined) {
+      return { allowed: false, role, reason: `Role ${role} may not access path "${deniedPath}"` };
+    }
+  }
+
+  return { allowed: true, role };
+}
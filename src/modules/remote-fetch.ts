@@ -0,0 +1,218 @@
+// Remote Fetch Module for Supabase Storage MCP
+// Downloads files for upload_from_url, refusing private and reserved addresses and capping the size while streaming
+
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import { STORAGE_CONFIG } from './config.js';
+import { logSecurityEvent } from './security.js';
+import { getRequestContext } from '../utils/request-context.js';
+import { createSecurityError, createValidationError } from '../utils/error-handling.js';
+
+export interface RemoteFile {
+  buffer: Buffer;
+  contentType?: string; // Content-Type without parameters
+  url: string; // final URL, after redirects
+  redirects: number;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+const USER_AGENT = 'supabase-storage-mcp';
+
+// Addresses a server-side fetch must never reach: this host, private networks, link-local (including
+// the 169.254.169.254 cloud metadata endpoint), carrier-grade NAT, multicast and reserved space
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+// IPv4-mapped addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges by BlockList itself.
+// Translation prefixes are refused outright since they lead to arbitrary IPv4 addresses.
+const BLOCKED_IPV6_RANGES: Array<[string, number]> = [
+  ['::', 96], // unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96], // NAT64
+  ['64:ff9b:1::', 48], // local-use NAT64
+  ['100::', 64], // discard
+  ['2001::', 32], // Teredo
+  ['2001:db8::', 32], // documentation
+  ['2002::', 16], // 6to4
+  ['fc00::', 7], // unique local, including the fd00:ec2::254 metadata endpoint
+  ['fe80::', 10], // link-local
+  ['fec0::', 10], // site-local
+  ['ff00::', 8] // multicast
+];
+
+const BLOCKED_RANGES = new net.BlockList();
+BLOCKED_IPV4_RANGES.forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address, prefix, 'ipv4'));
+BLOCKED_IPV6_RANGES.forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address, prefix, 'ipv6'));
+
+/**
+ * Whether an IP address is off limits for server-side fetches; anything that is not an IP address is
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family === 0 || BLOCKED_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+function blockedAddressError(url: URL, address: string): Error {
+  const requestContext = getRequestContext();
+  logSecurityEvent('suspicious_activity', requestContext?.securityValidation?.securityContext, {
+    toolName: requestContext?.toolName,
+    reason: `server-side fetch of ${url.hostname} (${address}) refused`,
+    url: url.href
+  });
+
+  return createSecurityError(
+    `${url.hostname} resolves to a private or reserved address (${address})`,
+    'SSRF_BLOCKED',
+    'high'
+  );
+}
+
+function parseRemoteUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw createValidationError(`Invalid URL: ${value}`, 'url', value, 'url', 'remote file');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw createValidationError(`Only http and https URLs can be fetched, got ${url.protocol}`, 'url', value, 'protocol', 'remote file');
+  }
+  if (url.username || url.password) {
+    throw createValidationError('URLs with credentials are not accepted', 'url', url.hostname, 'credentials', 'remote file');
+  }
+
+  return url;
+}
+
+/**
+ * dns.lookup replacement that fails when any address of the host is blocked. The connection is made
+ * to the address checked here, so a DNS answer that changes after the check (rebinding) cannot get through.
+ */
+function createGuardedLookup(url: URL): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '');
+        return;
+      }
+
+      const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+      if (blocked) {
+        callback(blockedAddressError(url, blocked.address), '');
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+function sendRequest(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  // Lookups are skipped for IP literals, so those are checked here
+  const literal = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(literal) && isBlockedAddress(literal)) {
+    return Promise.reject(blockedAddressError(url, literal));
+  }
+
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, {
+      agent: false,
+      lookup: createGuardedLookup(url),
+      signal,
+      headers: {
+        'user-agent': USER_AGENT,
+        accept: '*/*',
+        'accept-encoding': 'identity'
+      }
+    }, resolve);
+    request.on('error', reject);
+  });
+}
+
+async function readBody(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const declared = Number(response.headers['content-length']);
+  if (declared > maxBytes) {
+    response.destroy();
+    throw new Error(`Remote file is ${declared} bytes, over the ${maxBytes} byte limit`);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of response) {
+    received += chunk.length;
+    if (received > maxBytes) {
+      response.destroy();
+      throw new Error(`Remote file exceeds the ${maxBytes} byte limit`);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Download a file over http(s). Every hop of a redirect chain is checked against the blocked
+ * address ranges, the body is abandoned as soon as it passes maxBytes, and the whole download
+ * must finish within URL_FETCH_TIMEOUT.
+ */
+export async function fetchRemoteFile(location: string, maxBytes: number): Promise<RemoteFile> {
+  const timeoutMs = STORAGE_CONFIG.URL_FETCH_TIMEOUT;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let url = parseRemoteUrl(location);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const response = await sendRequest(url, controller.signal);
+      const status = response.statusCode ?? 0;
+
+      if (REDIRECT_STATUSES.has(status) && response.headers.location) {
+        response.resume();
+        if (redirects >= STORAGE_CONFIG.URL_FETCH_MAX_REDIRECTS) {
+          throw new Error(`Too many redirects (more than ${STORAGE_CONFIG.URL_FETCH_MAX_REDIRECTS})`);
+        }
+        url = parseRemoteUrl(new URL(response.headers.location, url).href);
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new Error(`Remote server responded with HTTP ${status}`);
+      }
+
+      return {
+        buffer: await readBody(response, maxBytes),
+        contentType: response.headers['content-type']?.split(';')[0].trim().toLowerCase() || undefined,
+        url: url.href,
+        redirects
+      };
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Download did not finish within ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,223 @@
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryStorage } from '../../test/memory-storage.js';
+import { STORAGE_CONFIG } from './config.js';
+import { getUploadStatus, resumeUpload, startResumableUpload } from './resumable-upload.js';
+import { setUploadScanners } from './upload-scanning.js';
+
+interface MockUpload {
+  length: number;
+  metadata: Record<string, string>;
+  chunks: Buffer[];
+  offset: number;
+}
+
+/**
+ * Minimal TUS 1.0 server standing in for Supabase Storage's resumable endpoint
+ */
+class MockTusServer {
+  uploads = new Map<string, MockUpload>();
+  requests: string[] = [];
+  failFromOffset?: number; // PATCH requests at or past this offset get HTTP 500
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private nextId = 1;
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/upload/resumable`;
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  body(id: string): Buffer {
+    return Buffer.concat(this.uploads.get(id)!.chunks);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    this.requests.push(`${req.method} ${req.url}`);
+
+    if (req.headers['tus-resumable'] !== '1.0.0' || req.headers.authorization !== 'Bearer test-token') {
+      res.writeHead(400).end('bad request');
+      return;
+    }
+
+    if (req.method === 'POST') {
+      const id = `upload-${this.nextId++}`;
+      const metadata = Object.fromEntries(String(req.headers['upload-metadata']).split(',').map(pair => {
+        const [key, value] = pair.split(' ');
+        return [key, Buffer.from(value, 'base64').toString('utf8')];
+      }));
+      this.uploads.set(id, { length: Number(req.headers['upload-length']), metadata, chunks: [], offset: 0 });
+      res.writeHead(201, { Location: `/upload/resumable/${id}` }).end();
+      return;
+    }
+
+    const upload = this.uploads.get(String(req.url).split('/').pop()!);
+    if (!upload) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (req.method === 'HEAD') {
+      res.writeHead(200, { 'Upload-Offset': String(upload.offset), 'Upload-Length': String(upload.length) }).end();
+      return;
+    }
+
+    if (req.method === 'PATCH') {
+      if (this.failFromOffset !== undefined && upload.offset >= this.failFromOffset) {
+        res.writeHead(500).end('storage unavailable');
+        return;
+      }
+      if (Number(req.headers['upload-offset']) !== upload.offset) {
+        res.writeHead(409).end();
+        return;
+      }
+      const data = Buffer.concat(chunks);
+      upload.chunks.push(data);
+      upload.offset += data.length;
+      res.writeHead(204, { 'Upload-Offset': String(upload.offset) }).end();
+      return;
+    }
+
+    res.writeHead(405).end();
+  }
+}
+
+describe('resumable uploads', () => {
+  const server = new MockTusServer();
+  const savedConfig = { ...STORAGE_CONFIG };
+  let endpoint: string;
+  let workDir: string;
+  let filePath: string;
+  let content: Buffer;
+
+  const options = () => ({ endpoint, accessToken: 'test-token', supabase: new MemoryStorage() });
+  const params = (overrides: Partial<Parameters<typeof startResumableUpload>[0]> = {}) => ({
+    bucketName: 'storage-exports',
+    filePath,
+    folderPrefix: 'exports',
+    userId: 'user123',
+    batchId: 'batch001',
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    endpoint = await server.listen();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'resumable-upload-'));
+    filePath = path.join(workDir, 'report.pdf');
+    content = Buffer.concat([Buffer.from('%PDF-1.7\n'), Buffer.alloc(2500, 'x')]);
+    await fs.writeFile(filePath, content);
+
+    Object.assign(STORAGE_CONFIG, {
+      RESUMABLE_STATE_DIR: path.join(workDir, 'state'),
+      RESUMABLE_CHUNK_SIZE: 1000,
+      UPLOAD_MAX_RETRIES: 0
+    });
+    server.requests = [];
+    server.failFromOffset = undefined;
+  });
+
+  afterEach(async () => {
+    delete STORAGE_CONFIG.BUCKET_QUOTA_BYTES;
+    Object.assign(STORAGE_CONFIG, savedConfig);
+    setUploadScanners([]);
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('creates the upload with TUS metadata and sends the file in chunks', async () => {
+    const state = await startResumableUpload(params(), options(), true);
+
+    expect(state.status).toBe('completed');
+    expect(state.bytes_uploaded).toBe(content.length);
+    expect(state.storage_path).toMatch(/^exports\/user123\/batch001\/.*report\.pdf$/);
+
+    const id = state.upload_url.split('/').pop()!;
+    expect(server.body(id).equals(content)).toBe(true);
+    expect(server.uploads.get(id)!.metadata).toMatchObject({
+      bucketName: 'storage-exports',
+      objectName: state.storage_path,
+      contentType: 'application/pdf'
+    });
+    expect(server.requests.filter(request => request.startsWith('PATCH'))).toHaveLength(3);
+
+    const persisted = await getUploadStatus(state.upload_id);
+    expect(persisted).toMatchObject({ status: 'completed', progress: '100%' });
+  });
+
+  it('keeps progress when a chunk fails and resumes from the server offset', async () => {
+    server.failFromOffset = 1000;
+    const failed = await startResumableUpload(params(), options(), true);
+
+    expect(failed.status).toBe('failed');
+    expect(failed.bytes_uploaded).toBe(1000);
+    expect(failed.error).toContain('HTTP 500');
+    expect(await getUploadStatus(failed.upload_id)).toMatchObject({ status: 'failed', progress: '39%' });
+
+    server.failFromOffset = undefined;
+    server.requests = [];
+    const resumed = await resumeUpload(failed.upload_id, options(), true);
+
+    expect(resumed.status).toBe('completed');
+    expect(server.requests[0]).toMatch(/^HEAD /);
+    expect(server.requests.filter(request => request.startsWith('PATCH'))).toHaveLength(2);
+    expect(server.body(failed.upload_url.split('/').pop()!).equals(content)).toBe(true);
+  });
+
+  it('refuses to resume when the local file changed', async () => {
+    server.failFromOffset = 1000;
+    const failed = await startResumableUpload(params(), options(), true);
+    expect(failed.status).toBe('failed');
+
+    await fs.appendFile(filePath, 'more');
+    await expect(resumeUpload(failed.upload_id, options(), true)).rejects.toThrow('modified since the upload started');
+  });
+
+  it('checks quotas before creating the upload', async () => {
+    STORAGE_CONFIG.BUCKET_QUOTA_BYTES = 1000;
+    await expect(startResumableUpload(params({ bucketName: 'quota-exports' }), options(), true))
+      .rejects.toThrow('storage quota exceeded');
+
+    STORAGE_CONFIG.BUCKET_QUOTA_BYTES = 1024 * 1024;
+    STORAGE_CONFIG.USAGE_SCAN_LIMIT = 2;
+    const supabase = new MemoryStorage();
+    ['a', 'b', 'c'].forEach(name => supabase.put('large-exports', `exports/user1/batch1/${name}.pdf`, 'x'.repeat(10)));
+    await expect(startResumableUpload(params({ bucketName: 'large-exports' }), { ...options(), supabase }, true))
+      .rejects.toThrow('Cannot enforce storage quota');
+
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('refuses files that would have to be scanned or have metadata stripped', async () => {
+    setUploadScanners([{ name: 'stub', scan: async () => [] }]);
+    await expect(startResumableUpload(params(), options(), true)).rejects.toThrow('upload scanning is configured');
+    setUploadScanners([]);
+
+    const imagePath = path.join(workDir, 'photo.jpg');
+    await fs.writeFile(imagePath, Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46, 0]));
+    STORAGE_CONFIG.METADATA_POLICY = 'strip_sensitive';
+    await expect(startResumableUpload(params({ bucketName: 'storage-images', filePath: imagePath }), options(), true))
+      .rejects.toThrow('IMAGE_METADATA_POLICY strips metadata');
+
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('rejects unknown and malformed upload ids', async () => {
+    await expect(getUploadStatus('../../etc/passwd')).rejects.toThrow('Invalid upload_id');
+    await expect(getUploadStatus('0'.repeat(32))).rejects.toThrow('Unknown upload_id');
+  });
+});
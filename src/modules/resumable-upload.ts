@@ -0,0 +1,414 @@
+// Resumable Upload Module for Supabase Storage MCP
+// Chunked uploads over the TUS protocol with on-disk state so interrupted uploads can resume
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ResumableUploadState } from './types.js';
+import { STORAGE_CONFIG, resolveDataPath } from './config.js';
+import { auditRequest, generateSecureHash, generateSecureId } from './security.js';
+import {
+  FileInfo,
+  validateAndReadFile,
+  isValidFileHeader,
+  generateStoragePath,
+  getAllowedMimeTypesForBucket,
+  formatFileSize
+} from './file-upload.js';
+import { checkUploadQuota, invalidateBucketUsage } from './storage-usage.js';
+import { canProcessMetadata, resolveMetadataPolicy } from './image-metadata.js';
+import { getUploadScanners } from './upload-scanning.js';
+import { getErrorMessage } from '../utils/error-handling.js';
+import { sleep } from '../utils/concurrency.js';
+
+export interface ResumableUploadOptions {
+  endpoint: string;    // TUS endpoint, e.g. {SUPABASE_URL}/storage/v1/upload/resumable
+  accessToken: string; // service key, or the caller's JWT in jwt auth mode
+  supabase: any;       // storage client for quota checks
+}
+
+export interface StartResumableUploadParams {
+  bucketName: string;
+  filePath: string;
+  folderPrefix: string;
+  userId: string;
+  batchId: string;
+}
+
+const TUS_VERSION = '1.0.0';
+
+// Bytes read from the start of a file for signature validation
+const HEADER_SAMPLE_SIZE = 64 * 1024;
+
+// Uploads currently transferring in this process, keyed by upload id
+const activeUploads = new Map<string, Promise<ResumableUploadState>>();
+
+/**
+ * Resolve the TUS endpoint for a Supabase project
+ */
+export function getResumableEndpoint(supabaseUrl: string): string {
+  return STORAGE_CONFIG.RESUMABLE_ENDPOINT || `${supabaseUrl.replace(/\/+$/, '')}/storage/v1/upload/resumable`;
+}
+
+/**
+ * Resolve the state file for an upload id, rejecting ids that could escape the state directory
+ */
+function getStateFile(uploadId: string): string {
+  if (!/^[a-f0-9]{32}$/.test(uploadId)) {
+    throw new Error('Invalid upload_id');
+  }
+  return path.join(resolveDataPath(STORAGE_CONFIG.RESUMABLE_STATE_DIR), `${uploadId}.json`);
+}
+
+async function saveState(state: ResumableUploadState): Promise<void> {
+  state.updated_at = new Date().toISOString();
+  state.progress = state.file_size > 0
+    ? `${Math.floor((state.bytes_uploaded / state.file_size) * 100)}%`
+    : '100%';
+
+  // Write to a temporary file first so a crash never leaves a truncated state file
+  const stateFile = getStateFile(state.upload_id);
+  await fs.mkdir(path.dirname(stateFile), { recursive: true });
+  await fs.writeFile(`${stateFile}.tmp`, JSON.stringify(state, null, 2), { mode: 0o600 });
+  await fs.rename(`${stateFile}.tmp`, stateFile);
+}
+
+async function loadState(uploadId: string): Promise<ResumableUploadState> {
+  try {
+    return JSON.parse(await fs.readFile(getStateFile(uploadId), 'utf8'));
+  } catch (error) {
+    throw new Error(`Unknown upload_id ${uploadId}: ${getErrorMessage(error)}`);
+  }
+}
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${Buffer.from(value, 'utf8').toString('base64')}`)
+    .join(',');
+}
+
+function tusHeaders(options: ResumableUploadOptions, extra: Record<string, string> = {}): Record<string, string> {
+  return {
+    'Tus-Resumable': TUS_VERSION,
+    authorization: `Bearer ${options.accessToken}`,
+    ...extra
+  };
+}
+
+/**
+ * Send a TUS request, retrying network failures and retryable status codes
+ */
+async function tusRequest(url: string, init: RequestInit): Promise<Response> {
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+    try {
+      const response = await fetch(url, init);
+      if (![408, 429, 500, 502, 503, 504].includes(response.status) || attempts > STORAGE_CONFIG.UPLOAD_MAX_RETRIES) {
+        return response;
+      }
+    } catch (error) {
+      if (attempts > STORAGE_CONFIG.UPLOAD_MAX_RETRIES) {
+        throw error;
+      }
+    }
+
+    await sleep(STORAGE_CONFIG.UPLOAD_RETRY_BASE_DELAY * 2 ** (attempts - 1));
+  }
+}
+
+async function describeFailure(response: Response, action: string): Promise<Error> {
+  const body = await response.text().catch(() => '');
+  return new Error(`Failed to ${action}: HTTP ${response.status}${body ? ` - ${body.substring(0, 200)}` : ''}`);
+}
+
+/**
+ * Ask the server how many bytes of an upload it has stored
+ */
+async function fetchServerOffset(state: ResumableUploadState, options: ResumableUploadOptions): Promise<number> {
+  const response = await tusRequest(state.upload_url, {
+    method: 'HEAD',
+    headers: tusHeaders(options)
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    state.status = 'expired';
+    throw new Error('Upload no longer exists on the server; start a new resumable upload');
+  }
+
+  if (!response.ok) {
+    throw await describeFailure(response, 'query upload offset');
+  }
+
+  const offset = Number(response.headers.get('Upload-Offset'));
+  if (!Number.isInteger(offset) || offset < 0 || offset > state.file_size) {
+    throw new Error('Server returned an invalid Upload-Offset');
+  }
+
+  return offset;
+}
+
+/**
+ * Stream the remaining bytes of a file to the server in fixed-size chunks
+ */
+async function transferChunks(state: ResumableUploadState, options: ResumableUploadOptions): Promise<ResumableUploadState> {
+  const handle = await fs.open(state.file_path, 'r');
+
+  try {
+    const buffer = Buffer.alloc(state.chunk_size);
+
+    while (state.bytes_uploaded < state.file_size) {
+      const length = Math.min(state.chunk_size, state.file_size - state.bytes_uploaded);
+      const { bytesRead } = await handle.read(buffer, 0, length, state.bytes_uploaded);
+
+      if (bytesRead !== length) {
+        throw new Error('Local file changed during upload');
+      }
+
+      const response = await tusRequest(state.upload_url, {
+        method: 'PATCH',
+        headers: tusHeaders(options, {
+          'Upload-Offset': String(state.bytes_uploaded),
+          'Content-Type': 'application/offset+octet-stream'
+        }),
+        body: buffer.subarray(0, length)
+      });
+
+      if (response.status === 409) {
+        // Offset mismatch: resynchronise with the server and continue from there
+        state.bytes_uploaded = await fetchServerOffset(state, options);
+        await saveState(state);
+        continue;
+      }
+
+      if (response.status === 404 || response.status === 410) {
+        state.status = 'expired';
+        throw new Error('Upload no longer exists on the server; start a new resumable upload');
+      }
+
+      if (!response.ok) {
+        throw await describeFailure(response, 'upload chunk');
+      }
+
+      const offset = Number(response.headers.get('Upload-Offset'));
+      state.bytes_uploaded = Number.isInteger(offset) ? offset : state.bytes_uploaded + length;
+      await saveState(state);
+    }
+
+    state.status = 'completed';
+    state.completed_at = new Date().toISOString();
+    state.error = undefined;
+    invalidateBucketUsage(state.bucket_name);
+  } catch (error) {
+    if (state.status !== 'expired') {
+      state.status = 'failed';
+    }
+    state.error = getErrorMessage(error);
+  } finally {
+    await handle.close();
+  }
+
+  await saveState(state);
+  auditRequest(
+    'resumable_upload',
+    state.status === 'completed',
+    generateSecureHash(JSON.stringify({ upload_id: state.upload_id, bucket_name: state.bucket_name, storage_path: state.storage_path })),
+    state.error
+  );
+
+  return state;
+}
+
+/**
+ * Track a transfer as active until it settles, then release its quota reservation
+ */
+function runTransfer(
+  state: ResumableUploadState,
+  options: ResumableUploadOptions,
+  releaseQuota: () => void = () => {}
+): Promise<ResumableUploadState> {
+  const transfer = transferChunks(state, options).finally(() => {
+    activeUploads.delete(state.upload_id);
+    releaseQuota();
+  });
+  activeUploads.set(state.upload_id, transfer);
+
+  // Background transfers must never surface as unhandled rejections
+  transfer.catch(error => console.error(`[UPLOAD] Resumable upload ${state.upload_id} aborted: ${getErrorMessage(error)}`));
+  return transfer;
+}
+
+/**
+ * Files are streamed from disk and never held in memory, so their bytes can be neither scanned
+ * nor modified on the way. Refuse files that the regular upload path would have to scan or modify.
+ */
+function assertResumableAllowed(mimeType: string): void {
+  if (getUploadScanners().length > 0) {
+    throw new Error('Resumable uploads are disabled while upload scanning is configured; use upload_files');
+  }
+  if (canProcessMetadata(mimeType) && resolveMetadataPolicy() !== 'keep') {
+    throw new Error(
+      `${mimeType} files cannot be uploaded resumably while IMAGE_METADATA_POLICY strips metadata; use upload_image_batch or upload_files`
+    );
+  }
+}
+
+/**
+ * Validate a local file, create a TUS upload and begin transferring it
+ */
+export async function startResumableUpload(
+  params: StartResumableUploadParams,
+  options: ResumableUploadOptions,
+  wait: boolean = false
+): Promise<ResumableUploadState> {
+  const fileInfo = await validateAndReadFile(
+    params.filePath,
+    getAllowedMimeTypesForBucket(params.bucketName),
+    STORAGE_CONFIG.RESUMABLE_MAX_FILE_SIZE
+  );
+  assertResumableAllowed(fileInfo.mimeType);
+
+  // Security: Only the leading bytes are inspected since the file is never fully buffered
+  const handle = await fs.open(fileInfo.path!, 'r');
+  let stats;
+  try {
+    const header = Buffer.alloc(Math.min(HEADER_SAMPLE_SIZE, fileInfo.size));
+    await handle.read(header, 0, header.length, 0);
+    if (!isValidFileHeader(header, fileInfo.mimeType)) {
+      throw new Error(`Invalid file signature for ${fileInfo.mimeType} (or type not supported for resumable uploads)`);
+    }
+    stats = await handle.stat();
+  } finally {
+    await handle.close();
+  }
+
+  const releaseQuota = await checkUploadQuota(options.supabase, params.bucketName, params.userId, fileInfo.size, 1);
+
+  let state: ResumableUploadState;
+  try {
+    state = await createUpload(params, options, fileInfo, stats.mtimeMs);
+  } catch (error) {
+    releaseQuota();
+    throw error;
+  }
+
+  console.error(`[UPLOAD] Started resumable upload ${state.upload_id} (${formatFileSize(state.file_size)}) to ${state.bucket_name}/${state.storage_path}`);
+
+  const transfer = runTransfer(state, options, releaseQuota);
+  return wait ? await transfer : { ...state };
+}
+
+/**
+ * Create the TUS upload on the server and persist its initial state
+ */
+async function createUpload(
+  params: StartResumableUploadParams,
+  options: ResumableUploadOptions,
+  fileInfo: FileInfo,
+  fileMtime: number
+): Promise<ResumableUploadState> {
+  const storagePath = generateStoragePath(params.folderPrefix, params.userId, params.batchId, fileInfo.filename);
+
+  const response = await tusRequest(options.endpoint, {
+    method: 'POST',
+    headers: tusHeaders(options, {
+      'Upload-Length': String(fileInfo.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: params.bucketName,
+        objectName: storagePath,
+        contentType: fileInfo.mimeType,
+        cacheControl: '3600'
+      }),
+      'x-upsert': 'false'
+    })
+  });
+
+  const location = response.headers.get('Location');
+  if (response.status !== 201 || !location) {
+    throw await describeFailure(response, 'create resumable upload');
+  }
+
+  const now = new Date().toISOString();
+  const state: ResumableUploadState = {
+    upload_id: generateSecureId(16),
+    status: 'uploading',
+    file_path: fileInfo.path!,
+    bucket_name: params.bucketName,
+    storage_path: storagePath,
+    mime_type: fileInfo.mimeType,
+    upload_url: new URL(location, options.endpoint).toString(),
+    file_size: fileInfo.size,
+    file_mtime: fileMtime,
+    bytes_uploaded: 0,
+    chunk_size: STORAGE_CONFIG.RESUMABLE_CHUNK_SIZE,
+    progress: '0%',
+    created_at: now,
+    updated_at: now
+  };
+  await saveState(state);
+
+  return state;
+}
+
+/**
+ * Continue an interrupted or failed upload from the offset the server reports
+ */
+export async function resumeUpload(
+  uploadId: string,
+  options: ResumableUploadOptions,
+  wait: boolean = false
+): Promise<ResumableUploadState> {
+  const active = activeUploads.get(uploadId);
+  if (active) {
+    return wait ? await active : getUploadStatus(uploadId);
+  }
+
+  const state = await loadState(uploadId);
+  if (state.status === 'completed') {
+    return state;
+  }
+
+  if (state.status === 'expired') {
+    throw new Error('Upload no longer exists on the server; start a new resumable upload');
+  }
+
+  // The configuration may have changed since the upload started
+  assertResumableAllowed(state.mime_type);
+
+  // Security: Refuse to resume if the local file is not the one originally uploaded
+  const stats = await fs.stat(state.file_path);
+  if (stats.size !== state.file_size || stats.mtimeMs !== state.file_mtime) {
+    state.status = 'failed';
+    state.error = 'Local file was modified since the upload started';
+    await saveState(state);
+    throw new Error(state.error);
+  }
+
+  try {
+    state.bytes_uploaded = await fetchServerOffset(state, options);
+  } catch (error) {
+    state.error = getErrorMessage(error);
+    await saveState(state);
+    throw error;
+  }
+
+  state.status = 'uploading';
+  state.error = undefined;
+  await saveState(state);
+
+  const transfer = runTransfer(state, options);
+  return wait ? await transfer : { ...state };
+}
+
+/**
+ * Report the persisted state of an upload; uploads not running in this process are "interrupted"
+ */
+export async function getUploadStatus(uploadId: string): Promise<ResumableUploadState> {
+  const state = await loadState(uploadId);
+
+  if (state.status === 'uploading' && !activeUploads.has(uploadId)) {
+    state.status = 'interrupted';
+  }
+
+  return state;
+}
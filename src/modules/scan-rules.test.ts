@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { matchScanRules, parseScanRules } from './scan-rules.js';
+
+const match = (source: string, content: string | Buffer) =>
+  matchScanRules(parseScanRules(source), Buffer.isBuffer(content) ? content : Buffer.from(content, 'latin1'));
+
+describe('parseScanRules', () => {
+  it('parses text, hex and regex strings with comments and meta sections', () => {
+    const rules = parseScanRules(`
+      // Web shells
+      private rule PhpShell : webshell {
+        meta:
+          author = "security"
+        strings:
+          $eval = "eval(" nocase
+          $b64 = /base64_decode\\s*\\(/
+          $tag = { 3C 3F 70 68 70 } /* <?php */
+        condition:
+          $tag and any of ($eval, $b64)
+      }
+      rule Empty { condition: false }
+    `);
+
+    expect(rules.map(rule => rule.name)).toEqual(['PhpShell', 'Empty']);
+    expect([...rules[0].strings.keys()]).toEqual(['$eval', '$b64', '$tag']);
+  });
+
+  it('reports the location of unsupported syntax instead of ignoring it', () => {
+    expect(() => parseScanRules('rule A {\n strings: $a = "x" fullword\n condition: $a }', 'shells.yar'))
+      .toThrow('Invalid scan rule at shells.yar:1: rule A: unsupported string modifier "fullword" on $a');
+    expect(() => parseScanRules('rule A { strings: $a = "x" condition: $a and filesize < 10 }'))
+      .toThrow('unsupported condition syntax "filesize"');
+    expect(() => parseScanRules('rule A { strings: $a = "x" condition: $b }')).toThrow('condition references undefined string $b');
+    expect(() => parseScanRules('import "pe"\nrule A { condition: true }')).toThrow('unexpected "import"');
+    expect(() => parseScanRules('rule A { condition: true } rule A { condition: true }')).toThrow('rule names must be unique');
+    expect(() => parseScanRules('rule A { strings: $a = "x"')).toThrow('rule A is not closed');
+  });
+});
+
+describe('matchScanRules', () => {
+  it('matches text strings with nocase and wide modifiers', () => {
+    const rule = 'rule Marker { strings: $a = "Marker" nocase wide ascii condition: $a }';
+
+    expect(match(rule, 'xxMARKERxx')).toEqual(['Marker']);
+    expect(match(rule, Buffer.from('marker', 'utf16le'))).toEqual(['Marker']);
+    expect(match(rule, 'Mark er')).toEqual([]);
+  });
+
+  it('matches hex strings with wildcards, jumps and alternatives', () => {
+    const rule = 'rule Hex { strings: $a = { 4D 5A ?? [2-4] (50 45 | 4E 45) 0? } condition: $a }';
+
+    expect(match(rule, Buffer.from([0x4D, 0x5A, 0xFF, 1, 2, 3, 0x50, 0x45, 0x07]))).toEqual(['Hex']);
+    expect(match(rule, Buffer.from([0x4D, 0x5A, 0xFF, 1, 2, 0x4E, 0x45, 0x0A]))).toEqual(['Hex']);
+    expect(match(rule, Buffer.from([0x4D, 0x5A, 0xFF, 1, 0x50, 0x45, 0x07]))).toEqual([]);
+    expect(match(rule, Buffer.from([0x4D, 0x5A, 0xFF, 1, 2, 0x50, 0x45, 0x17]))).toEqual([]);
+  });
+
+  it('evaluates "of" sets, wildcards and boolean operators', () => {
+    const rule = `rule Two {
+      strings: $s1 = "alpha" $s2 = "beta" $x = "gamma"
+      condition: 2 of ($s*) and not $x
+    }`;
+
+    expect(match(rule, 'alpha beta')).toEqual(['Two']);
+    expect(match(rule, 'alpha gamma beta')).toEqual([]);
+    expect(match(rule, 'alpha')).toEqual([]);
+    expect(match('rule All { strings: $ = "a" $ = "b" condition: all of them }', 'ab')).toEqual(['All']);
+    expect(match('rule Any { strings: $ = "a" $ = "b" condition: any of them or false }', 'b')).toEqual(['Any']);
+  });
+
+  it('keeps "//" inside strings and regexes', () => {
+    expect(match('rule Url { strings: $a = "http://evil" $b = /https?:\\/\\/x/ condition: $a or $b }', 'http://evil')).toEqual(['Url']);
+  });
+});
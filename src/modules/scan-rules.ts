@@ -0,0 +1,326 @@
+// Scan Rules Module for Supabase Storage MCP
+// Parses and matches a YARA-style rule file: text, hex and regex strings with boolean "of" conditions
+
+import { createValidationError, getErrorMessage } from '../utils/error-handling.js';
+
+type Condition = (matched: Set<string>) => boolean;
+
+export interface ScanRule {
+  name: string;
+  strings: Map<string, RegExp>; // identifier ($a) -> pattern over the latin1 view of the bytes
+  condition: Condition;
+}
+
+// Text strings, regexes and hex strings, which may contain braces, keywords and "$"
+const LITERAL = String.raw`"(?:[^"\\]|\\.)*"|\/(?:[^\/\\\n]|\\.)+\/|\{[^}]*\}`;
+
+// Modifiers such as fullword, xor and base64 are outside the supported subset
+const TEXT_MODIFIERS = ['nocase', 'wide', 'ascii'];
+
+function ruleError(message: string, source: string, line?: number): Error {
+  const location = line !== undefined ? `${source}:${line}` : source;
+  return createValidationError(`Invalid scan rule at ${location}: ${message}`, 'SCAN_RULES_FILE', source, 'syntax', 'scan rules');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[\\^$.*+?()[\]{}|\/]/g, '\\$&');
+}
+
+function byteClass(values: number[]): string {
+  return `[${values.map(value => `\\x${value.toString(16).padStart(2, '0')}`).join('')}]`;
+}
+
+/**
+ * Decode the escapes YARA allows in text strings: \" \\ \t \n \r and \xNN
+ */
+function unescapeText(text: string): string {
+  return text.replace(/\\(x[0-9a-fA-F]{2}|.)/g, (_, escape: string) => {
+    if (escape[0] === 'x' && escape.length === 3) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    return ({ t: '\t', n: '\n', r: '\r' } as Record<string, string>)[escape] ?? escape;
+  });
+}
+
+function compileText(text: string, modifiers: string[]): RegExp {
+  const value = unescapeText(text);
+  const ascii = escapeRegExp(value);
+  const wide = [...value].map(char => `${escapeRegExp(char)}\\x00`).join('');
+  const variants = modifiers.includes('wide')
+    ? modifiers.includes('ascii') ? [ascii, wide] : [wide]
+    : [ascii];
+
+  return new RegExp(variants.join('|'), modifiers.includes('nocase') ? 'i' : '');
+}
+
+/**
+ * Translate a hex string: bytes, ?? and nibble wildcards, [n], [n-m] and [n-] jumps, and (a | b) alternatives
+ */
+function compileHex(body: string): RegExp {
+  const tokens = body.match(/\[[^\]]*\]|[0-9a-fA-F?]{2}|[()|]|\S/g) || [];
+  let pattern = '';
+
+  for (const token of tokens) {
+    if (token === '(') pattern += '(?:';
+    else if (token === ')' || token === '|') pattern += token;
+    else if (token.startsWith('[')) {
+      const jump = token.slice(1, -1).trim().match(/^(\d*)\s*(?:(-)\s*(\d*))?$/);
+      if (!jump || (!jump[1] && !jump[2])) throw new Error(`invalid jump ${token}`);
+      const min = jump[1] || '0';
+      pattern += jump[2] ? `[\\s\\S]{${min},${jump[3]}}` : `[\\s\\S]{${min}}`;
+    } else if (token === '??') {
+      pattern += '[\\s\\S]';
+    } else if (/^[0-9a-fA-F]{2}$/.test(token)) {
+      pattern += `\\x${token.toLowerCase()}`;
+    } else if (/^[0-9a-fA-F?]{2}$/.test(token)) {
+      const values = Array.from({ length: 256 }, (_, value) => value).filter(value => {
+        const hex = value.toString(16).padStart(2, '0');
+        return [0, 1].every(index => token[index] === '?' || token[index].toLowerCase() === hex[index]);
+      });
+      pattern += byteClass(values);
+    } else {
+      throw new Error(`invalid hex token "${token}"`);
+    }
+  }
+
+  return new RegExp(pattern);
+}
+
+function compileRegex(body: string, flags: string): RegExp {
+  const unknown = flags.replace(/[is]/g, '');
+  if (unknown) throw new Error(`unsupported regex modifier "${unknown}"`);
+  return new RegExp(body, [...new Set(flags)].join(''));
+}
+
+/**
+ * Parse one string definition: $id = "text" mods | { hex } | /regex/flags mods
+ */
+function parseString(definition: string): [string, RegExp] {
+  const match = definition.match(/^(\$\w*)\s*=\s*([\s\S]+)$/);
+  if (!match) throw new Error(`invalid string definition "${definition}"`);
+  const [, id, value] = match;
+
+  const text = value.match(/^"((?:[^"\\]|\\.)*)"([\s\S]*)$/);
+  const hex = value.match(/^\{([^}]*)\}([\s\S]*)$/);
+  const regex = value.match(/^\/((?:[^\/\\]|\\.)+)\/([a-z]*)([\s\S]*)$/);
+  if (!text && !hex && !regex) throw new Error(`invalid string value for ${id}`);
+
+  const modifiers = (text?.[2] ?? hex?.[2] ?? regex![3]).trim().split(/\s+/).filter(Boolean);
+  const allowed = text ? TEXT_MODIFIERS : regex ? ['nocase', 'ascii'] : [];
+  const unsupported = modifiers.find(modifier => !allowed.includes(modifier));
+  if (unsupported) throw new Error(`unsupported string modifier "${unsupported}" on ${id}`);
+
+  if (text) return [id, compileText(text[1], modifiers)];
+  if (hex) return [id, compileHex(hex[1])];
+  return [id, compileRegex(regex![1], regex![2] + (modifiers.includes('nocase') ? 'i' : ''))];
+}
+
+/**
+ * Compile a condition built from $id, "and", "or", "not", parentheses, true/false and
+ * "any|all|N of them|($a, $b*)" into a predicate over the matched identifiers
+ */
+function parseCondition(text: string, identifiers: string[]): Condition {
+  const tokens = text.match(/\$\w*\*?|\w+|[(),]|\S/g) || [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`expected "${token}" in condition`);
+  };
+
+  const resolveSet = (): string[] => {
+    if (peek() === 'them') {
+      next();
+      if (identifiers.length === 0) throw new Error('"them" used in a rule without strings');
+      return identifiers;
+    }
+    expect('(');
+    const selected = new Set<string>();
+    while (true) {
+      const token = next();
+      if (!token?.startsWith('$')) throw new Error(`expected a string identifier in condition, got "${token}"`);
+      const matches = token.endsWith('*')
+        ? identifiers.filter(id => id.startsWith(token.slice(0, -1)))
+        : identifiers.filter(id => id === token);
+      if (matches.length === 0) throw new Error(`condition references undefined string ${token}`);
+      matches.forEach(id => selected.add(id));
+      if (peek() !== ',') break;
+      next();
+    }
+    expect(')');
+    return [...selected];
+  };
+
+  const parsePrimary = (): Condition => {
+    const token = next();
+    if (token === undefined) throw new Error('unexpected end of condition');
+
+    if (token === '(') {
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    if (token === 'not') {
+      const inner = parsePrimary();
+      return matched => !inner(matched);
+    }
+    if (token === 'true' || token === 'false') {
+      return () => token === 'true';
+    }
+    if (token.startsWith('$') && !token.endsWith('*')) {
+      if (!identifiers.includes(token)) throw new Error(`condition references undefined string ${token}`);
+      return matched => matched.has(token);
+    }
+    if (token === 'any' || token === 'all' || /^\d+$/.test(token)) {
+      expect('of');
+      const set = resolveSet();
+      const required = token === 'any' ? 1 : token === 'all' ? set.length : Number(token);
+      return matched => set.filter(id => matched.has(id)).length >= required;
+    }
+
+    throw new Error(`unsupported condition syntax "${token}"`);
+  };
+
+  const parseAnd = (): Condition => {
+    let left = parsePrimary();
+    while (peek() === 'and') {
+      next();
+      const [a, b] = [left, parsePrimary()];
+      left = matched => a(matched) && b(matched);
+    }
+    return left;
+  };
+
+  const parseOr = (): Condition => {
+    let left = parseAnd();
+    while (peek() === 'or') {
+      next();
+      const [a, b] = [left, parseAnd()];
+      left = matched => a(matched) || b(matched);
+    }
+    return left;
+  };
+
+  const condition = parseOr();
+  if (position < tokens.length) throw new Error(`unexpected "${peek()}" in condition`);
+  return condition;
+}
+
+function stripComments(source: string): string {
+  // Comments are blanked rather than removed so line numbers stay accurate; text strings
+  // and regexes (which follow "=") are matched first so "//" inside them survives
+  return source.replace(/"(?:[^"\\\n]|\\.)*"|=\s*\/(?:[^\/\\\n]|\\.)+\/|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, match =>
+    match.startsWith('"') || match.startsWith('=') ? match : match.replace(/[^\n]/g, ' ')
+  );
+}
+
+/**
+ * Parse a rule file. Anything outside the supported subset is rejected rather than ignored,
+ * so a rule can never silently match less than its author intended.
+ */
+export function parseScanRules(source: string, origin: string = 'rules'): ScanRule[] {
+  const text = stripComments(source);
+  const rules: ScanRule[] = [];
+  const header = /\brule\s+([A-Za-z_]\w*)\s*(?::\s*[\w\s]*?)?\{/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = header.exec(text))) {
+    const line = text.slice(0, match.index).split('\n').length;
+    const skipped = text.slice(consumed, match.index).replace(/\b(private|global)\b/g, '').trim();
+    if (skipped) {
+      throw ruleError(`unexpected "${skipped.split(/\s+/)[0]}"`, origin, line);
+    }
+
+    // The body ends at the first closing brace outside strings, hex strings and regexes
+    const bodyPattern = new RegExp(`${LITERAL}|\\}`, 'g');
+    bodyPattern.lastIndex = header.lastIndex;
+    let end: RegExpExecArray | null;
+    while ((end = bodyPattern.exec(text)) && end[0] !== '}');
+    if (!end) throw ruleError(`rule ${match[1]} is not closed`, origin, line);
+
+    try {
+      rules.push(parseRuleBody(match[1], text.slice(header.lastIndex, end.index)));
+    } catch (error) {
+      throw ruleError(`rule ${match[1]}: ${getErrorMessage(error)}`, origin, line);
+    }
+
+    consumed = end.index + 1;
+    header.lastIndex = consumed;
+  }
+
+  const trailing = text.slice(consumed).trim();
+  if (trailing) {
+    throw ruleError(`unexpected "${trailing.split(/\s+/)[0]}"`, origin);
+  }
+  if (new Set(rules.map(rule => rule.name)).size !== rules.length) {
+    throw ruleError('rule names must be unique', origin);
+  }
+
+  return rules;
+}
+
+/**
+ * Split text at each match of a pattern that falls outside text strings, regexes and hex strings
+ */
+function splitOutsideLiterals(text: string, separator: string): { leading: string; parts: Array<[string, string]> } {
+  const pattern = new RegExp(`${LITERAL}|(${separator})`, 'g');
+  const separators: RegExpExecArray[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (match[1] !== undefined) separators.push(match);
+  }
+
+  return {
+    leading: text.slice(0, separators[0]?.index ?? text.length),
+    parts: separators.map((found, index) => [
+      found[1],
+      text.slice(found.index + found[0].length, separators[index + 1]?.index ?? text.length)
+    ])
+  };
+}
+
+function parseRuleBody(name: string, body: string): ScanRule {
+  const sections = splitOutsideLiterals(body, String.raw`\b(?:meta|strings|condition)\s*:`);
+  if (sections.leading.trim()) throw new Error(`unexpected "${sections.leading.trim().split(/\s+/)[0]}"`);
+
+  const strings = new Map<string, RegExp>();
+  let conditionText: string | undefined;
+  let anonymous = 0;
+
+  for (const [header, content] of sections.parts) {
+    const section = header.replace(/\s*:$/, '');
+
+    if (section === 'strings') {
+      const definitions = splitOutsideLiterals(content, String.raw`\$\w*\s*=`);
+      if (definitions.leading.trim()) throw new Error(`unexpected "${definitions.leading.trim().split(/\s+/)[0]}" in strings`);
+
+      for (const [assignment, value] of definitions.parts) {
+        let [id, pattern] = parseString(`${assignment}${value.trim()}`);
+        if (id === '$') id = `$${anonymous++}`;
+        if (strings.has(id)) throw new Error(`duplicate string ${id}`);
+        strings.set(id, pattern);
+      }
+    } else if (section === 'condition') {
+      if (conditionText !== undefined) throw new Error('more than one condition');
+      conditionText = content.trim();
+    }
+  }
+
+  if (!conditionText) throw new Error('missing condition');
+
+  return { name, strings, condition: parseCondition(conditionText, [...strings.keys()]) };
+}
+
+/**
+ * Names of the rules whose condition holds for the given bytes
+ */
+export function matchScanRules(rules: ScanRule[], buffer: Buffer): string[] {
+  const content = buffer.toString('latin1');
+
+  return rules
+    .filter(rule => {
+      const matched = new Set([...rule.strings].filter(([, pattern]) => pattern.test(content)).map(([id]) => id));
+      return rule.condition(matched);
+    })
+    .map(rule => rule.name);
+}
@@ -0,0 +1,232 @@
+// Security Middleware for Supabase Storage MCP
+// Pre-dispatch screening of every tool call: rate limiting, IP blocking, threat detection and argument validation
+
+import { SecurityValidationResult, SecurityContext, RateLimitResult } from './types.js';
+import {
+  SECURITY_CONFIG,
+  checkRateLimits,
+  detectPromptInjection,
+  detectPII,
+  detectSuspiciousActivity,
+  validateFileOperation,
+  isIPBlocked,
+  isUserBlocked,
+  blockIP,
+  blockUser,
+  logSecurityEvent,
+  recordBlockedRequest
+} from './security.js';
+
+// Argument keys holding file payloads rather than text; they are not scanned
+const PAYLOAD_ARGUMENT_KEYS = new Set(['content']);
+
+// Risk added when arguments contain personal data; PII alone never blocks a call
+const PII_RISK_SCORE = 10;
+
+// Rate limit tokens charged per call for tools that do more work than a single request;
+// SECURITY_CONFIG.TOOL_RATE_LIMIT_COSTS overrides these
+export const DEFAULT_TOOL_RATE_LIMIT_COSTS: Record<string, number> = {
+  upload_image_batch: 10,
+  upload_files: 10,
+  upload_from_url: 10,
+  batch_download: 10,
+  delete_files: 5,
+  create_signed_urls: 5,
+  start_resumable_upload: 5,
+  empty_bucket: 5,
+  delete_bucket: 5,
+  get_storage_usage: 5,
+  apply_buckets: 5,
+  setup_buckets: 3,
+  plan_buckets: 3
+};
+
+export function getToolRateLimitCost(toolName: string): number {
+  return SECURITY_CONFIG.TOOL_RATE_LIMIT_COSTS?.[toolName] ?? DEFAULT_TOOL_RATE_LIMIT_COSTS[toolName] ?? 1;
+}
+
+/**
+ * Charge a tool call against the global, per-IP, per-user and per-tool token buckets.
+ * Callers are identified by the authenticated or proxy-supplied user id, never by the user_id
+ * argument, which a caller could change on every call; without one the IP address is used.
+ */
+export function checkToolCallRateLimit(toolName: string, securityContext: SecurityContext): RateLimitResult {
+  const userId = securityContext.userId;
+  const caller = userId ? `user:${userId}` : securityContext.ipAddress !== 'unknown' ? `ip:${securityContext.ipAddress}` : 'anonymous';
+
+  const checks = [
+    { identifier: 'global', limit: SECURITY_CONFIG.GLOBAL_RATE_LIMIT },
+    { identifier: `tool:${toolName}:${caller}`, limit: SECURITY_CONFIG.MAX_REQUESTS_PER_WINDOW }
+  ];
+  if (securityContext.ipAddress !== 'unknown') {
+    checks.push({ identifier: `ip:${securityContext.ipAddress}`, limit: SECURITY_CONFIG.IP_RATE_LIMIT });
+  }
+  if (userId) {
+    checks.push({ identifier: `user:${userId}`, limit: SECURITY_CONFIG.USER_RATE_LIMIT });
+  }
+
+  const cost = getToolRateLimitCost(toolName);
+  const result = checkRateLimits(checks, cost);
+
+  if (!result.allowed) {
+    logSecurityEvent('rate_limit_exceeded', securityContext, { toolName, cost, ...result });
+  }
+
+  return result;
+}
+
+/**
+ * Collect every string argument value (recursively), skipping file payloads
+ */
+function collectStrings(value: any, key: string | undefined, strings: string[]): string[] {
+  if (key && PAYLOAD_ARGUMENT_KEYS.has(key)) {
+    return strings;
+  }
+
+  if (typeof value === 'string') {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, undefined, strings));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([childKey, child]) => collectStrings(child, childKey, strings));
+  }
+
+  return strings;
+}
+
+/**
+ * Describe why the caller is blocked, checking the source IP, the authenticated user and the user_id argument
+ */
+function getBlockedReason(args: any, securityContext: SecurityContext): string | undefined {
+  if (securityContext.ipAddress !== 'unknown' && isIPBlocked(securityContext.ipAddress)) {
+    return `IP address ${securityContext.ipAddress} is blocked`;
+  }
+
+  const userIds = [securityContext.userId, typeof args?.user_id === 'string' ? args.user_id : undefined];
+  const blockedUser = userIds.find(userId => userId && isUserBlocked(userId));
+  return blockedUser ? `User ${blockedUser} is blocked` : undefined;
+}
+
+/**
+ * Block the source of a suspicious call: its IP when known, otherwise its authenticated user
+ */
+function autoBlock(securityContext: SecurityContext, reason: string): string | undefined {
+  if (securityContext.ipAddress !== 'unknown') {
+    blockIP(securityContext.ipAddress, reason, SECURITY_CONFIG.AUTO_BLOCK_DURATION, 'auto');
+    return `IP address ${securityContext.ipAddress}`;
+  }
+
+  if (securityContext.userId) {
+    blockUser(securityContext.userId, reason, SECURITY_CONFIG.AUTO_BLOCK_DURATION, 'auto');
+    return `User ${securityContext.userId}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reject calls from blocked IPs and users. This runs on every call, before rate limiting and
+ * whatever ENABLE_THREAT_DETECTION says, so blocks set with block_client always hold.
+ */
+export function checkBlockedCaller(request: any, securityContext: SecurityContext): SecurityValidationResult | undefined {
+  const toolName: string = request.params?.name || 'unknown';
+  const blockedReason = getBlockedReason(request.params?.arguments || {}, securityContext);
+  if (!blockedReason) {
+    return undefined;
+  }
+
+  recordBlockedRequest();
+  logSecurityEvent('access_denied', securityContext, { reason: blockedReason, toolName });
+  return {
+    allowed: false,
+    reason: blockedReason,
+    riskScore: 100,
+    warnings: [],
+    errors: [blockedReason],
+    securityContext
+  };
+}
+
+/**
+ * Screen a CallTool request before it is dispatched, after checkBlockedCaller.
+ * Hard validation errors are always rejected; calls at or above
+ * HIGH_RISK_SCORE_THRESHOLD are rejected or only flagged depending on HIGH_RISK_ACTION.
+ */
+export function screenToolCall(request: any, securityContext: SecurityContext): SecurityValidationResult {
+  const toolName: string = request.params?.name || 'unknown';
+  const args = request.params?.arguments || {};
+  const text = collectStrings(args, undefined, []).join('\n');
+
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  let riskScore = 0;
+
+  if (SECURITY_CONFIG.ENABLE_THREAT_DETECTION) {
+    if (text) {
+      const injection = detectPromptInjection(text);
+      if (injection.detected) {
+        riskScore += injection.detectionScore || 0;
+        warnings.push(`Possible prompt injection (${injection.patterns.join(', ')})`);
+      }
+    }
+
+    const suspicious = detectSuspiciousActivity(request, securityContext);
+    if (suspicious.detected) {
+      riskScore += suspicious.score;
+      warnings.push(...suspicious.warnings);
+      logSecurityEvent('suspicious_activity', securityContext, {
+        toolName,
+        score: suspicious.score,
+        reason: suspicious.reason
+      });
+    }
+
+    if (SECURITY_CONFIG.AUTO_BLOCK_THRESHOLD > 0 && suspicious.score >= SECURITY_CONFIG.AUTO_BLOCK_THRESHOLD) {
+      const blocked = autoBlock(securityContext, `Suspicious activity score ${suspicious.score}: ${suspicious.reason}`);
+      if (blocked) {
+        errors.push(`${blocked} blocked automatically after suspicious activity`);
+      }
+    }
+  }
+
+  if (SECURITY_CONFIG.ENABLE_INPUT_VALIDATION) {
+    const pii = detectPII(text);
+    if (pii.detected) {
+      riskScore += PII_RISK_SCORE;
+      warnings.push(`Arguments contain possible PII (${pii.types.join(', ')})`);
+    }
+  }
+
+  if (SECURITY_CONFIG.ENABLE_FILE_SECURITY) {
+    const fileValidation = validateFileOperation(toolName, args);
+    riskScore += fileValidation.riskScore;
+    warnings.push(...fileValidation.warnings);
+    errors.push(...fileValidation.errors);
+  }
+
+  riskScore = Math.min(riskScore, 100);
+  const highRisk = riskScore >= SECURITY_CONFIG.HIGH_RISK_SCORE_THRESHOLD;
+  const allowed = errors.length === 0 && !(highRisk && SECURITY_CONFIG.HIGH_RISK_ACTION === 'reject');
+
+  const result: SecurityValidationResult = {
+    allowed,
+    reason: allowed
+      ? undefined
+      : errors.length > 0 ? errors.join('; ') : `Risk score ${riskScore} exceeds threshold ${SECURITY_CONFIG.HIGH_RISK_SCORE_THRESHOLD}`,
+    riskScore,
+    warnings,
+    errors,
+    securityContext
+  };
+
+  if (!allowed) {
+    recordBlockedRequest();
+    logSecurityEvent('security_validation_error', securityContext, { toolName, riskScore, reason: result.reason, warnings });
+  } else if (highRisk) {
+    logSecurityEvent('security_validation_error', securityContext, { toolName, riskScore, flagged: true, warnings });
+  } else if (warnings.length > 0) {
+    logSecurityEvent('request_validated', securityContext, { toolName, riskScore, warnings });
+  }
+
+  return result;
+}
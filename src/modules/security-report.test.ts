@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SecurityContext } from './types.js';
+import { SECURITY_CONFIG, auditRequest, getSecurityEvents, logSecurityEvent, resetSecurityState } from './security.js';
+import { acknowledgeAlert, formatSecurityReportMarkdown, generateSecurityReport, listSecurityAlerts } from './security-report.js';
+
+function createContext(requestId: string, overrides: Partial<SecurityContext> = {}): SecurityContext {
+  return {
+    timestamp: new Date().toISOString(),
+    ipAddress: '203.0.113.7',
+    userAgent: 'test-client',
+    sessionId: 'session-1',
+    requestId,
+    method: 'tools/call',
+    ...overrides
+  };
+}
+
+describe('security reports', () => {
+  const savedConfig = { ...SECURITY_CONFIG };
+  let start: number;
+
+  beforeEach(() => {
+    resetSecurityState();
+    start = Date.now();
+  });
+
+  afterEach(() => {
+    Object.assign(SECURITY_CONFIG, savedConfig);
+  });
+
+  it('summarizes requests and threats within the time window', async () => {
+    auditRequest('list_files', true, 'hash-1');
+    auditRequest('upload_files', true, 'hash-2');
+    auditRequest('delete_files', false, 'hash-3', 'Path traversal detected in file_path');
+    auditRequest('get_file_url', true, 'hash-4');
+
+    logSecurityEvent('prompt_injection_detected', createContext('request-1'), { detectedPatterns: ['ignore_previous'] });
+    logSecurityEvent('security_validation_error', createContext('request-2'), { toolName: 'delete_files', reason: 'Path traversal detected in file_path' });
+    logSecurityEvent('security_validation_error', createContext('request-2'), { toolName: 'delete_files', reason: 'Path traversal detected in destination' });
+    logSecurityEvent('security_validation_error', createContext('request-3'), { toolName: 'list_files', flagged: true, riskScore: 85 });
+    logSecurityEvent('rate_limit_exceeded', createContext('request-4'), { toolName: 'list_files', scope: 'ip:203.0.113.7' });
+    logSecurityEvent('request_validated', createContext('request-5'), { toolName: 'list_files' });
+
+    const report = await generateSecurityReport(start, Date.now());
+
+    expect(report.summary).toEqual({
+      total_requests: 4,
+      // Two rejected validations plus the throttled call; the flagged call went through
+      blocked_requests: 3,
+      threat_detections: 4,
+      rate_limit_violations: 1,
+      success_rate: '75%'
+    });
+    expect(report.threat_analysis).toEqual({
+      prompt_injections: 1,
+      suspicious_activities: 0,
+      path_traversal_attempts: 1,
+      rate_limit_violations: 1
+    });
+    expect(report.top_threats.map(threat => [threat.threat_type, threat.count])).toEqual([
+      ['security_validation_error', 3],
+      ['prompt_injection_detected', 1],
+      ['rate_limit_exceeded', 1]
+    ]);
+    expect(report.recommendations).toEqual(expect.arrayContaining([
+      'Review the 1 prompt injection attempt(s) and the clients that sent them',
+      'Path traversal attempts were detected; verify storage paths come from trusted input'
+    ]));
+
+    const empty = await generateSecurityReport(start - 60_000, start - 1);
+    expect(empty.summary).toMatchObject({ total_requests: 0, blocked_requests: 0, success_rate: 'n/a' });
+  });
+
+  it('recommends enabling disabled controls and reports them in the compliance status', async () => {
+    SECURITY_CONFIG.ENABLE_RATE_LIMITING = false;
+    SECURITY_CONFIG.HIGH_RISK_ACTION = 'flag';
+
+    const report = await generateSecurityReport(start, Date.now());
+
+    expect(report.recommendations).toEqual(expect.arrayContaining([
+      'Enable rate limiting (ENABLE_RATE_LIMITING) to protect against abuse',
+      'High-risk calls are only flagged; set HIGH_RISK_ACTION=reject to block them'
+    ]));
+    expect(report.compliance_status).toMatchObject({ gdpr_compliant: true, owasp_compliant: false, soc2_compliant: false });
+  });
+
+  it('renders the report as Markdown', async () => {
+    logSecurityEvent('rate_limit_exceeded', createContext('request-1'), { scope: 'ip:203.0.113.7' });
+    const markdown = formatSecurityReportMarkdown(await generateSecurityReport(start, Date.now()));
+
+    expect(markdown).toMatch(/^# Security Report\n/);
+    expect(markdown).toContain('| Rate limit violations | 1 |');
+    expect(markdown).toMatch(/\| rate_limit_exceeded \| 1 \| medium \|/);
+  });
+});
+
+describe('security alerts', () => {
+  beforeEach(() => {
+    resetSecurityState();
+  });
+
+  it('lists alerts newest first, filtered by severity', () => {
+    logSecurityEvent('rate_limit_exceeded', createContext('request-1'), { toolName: 'list_files', scope: 'user:alice' });
+    logSecurityEvent('request_validated', createContext('request-2'));
+    logSecurityEvent('ip_blocked', undefined, { ipAddress: '198.51.100.1', reason: 'manual' });
+
+    const alerts = listSecurityAlerts({ limit: 10 });
+    expect(alerts.alerts.map(alert => alert.message)).toEqual([
+      'IP address 198.51.100.1 blocked: manual',
+      'Rate limit exceeded (list_files) on user:alice'
+    ]);
+    expect(alerts.alerts.map(alert => alert.source_ip)).toEqual(['198.51.100.1', '203.0.113.7']);
+    expect(alerts).toMatchObject({ total_count: 2, unacknowledged_count: 2 });
+
+    expect(listSecurityAlerts({ minSeverity: 'high', limit: 10 }).total_count).toBe(1);
+    expect(listSecurityAlerts({ minSeverity: 'low', limit: 10 }).total_count).toBe(2);
+    expect(listSecurityAlerts({ limit: 1 }).alerts).toHaveLength(1);
+  });
+
+  it('acknowledges alerts once and filters on acknowledgement', () => {
+    logSecurityEvent('access_denied', createContext('request-1'), { toolName: 'delete_files', reason: 'ip_blocked' });
+    logSecurityEvent('suspicious_activity', createContext('request-2'), { toolName: 'list_files' });
+    const [newest, oldest] = listSecurityAlerts({ limit: 10 }).alerts;
+
+    const acknowledged = acknowledgeAlert(oldest.id, 'known scanner');
+    expect(acknowledged.acknowledged).toBe(true);
+    expect(acknowledged.response_actions.at(-1)).toMatch(/^Acknowledged at .*: known scanner$/);
+    expect(acknowledgeAlert(oldest.id).response_actions).toEqual(acknowledged.response_actions);
+
+    expect(listSecurityAlerts({ acknowledged: false, limit: 10 }).alerts.map(alert => alert.id)).toEqual([newest.id]);
+    expect(listSecurityAlerts({ acknowledged: true, limit: 10 })).toMatchObject({ total_count: 1, unacknowledged_count: 1 });
+  });
+
+  it('rejects unknown and informational alert ids', () => {
+    logSecurityEvent('request_validated', createContext('request-1'));
+    const [informational] = getSecurityEvents();
+
+    expect(() => acknowledgeAlert(informational.id)).toThrow(`Alert not found: ${informational.id}`);
+    expect(() => acknowledgeAlert('missing')).toThrow('Alert not found: missing');
+  });
+});
@@ -0,0 +1,346 @@
+// Security Report Module for Supabase Storage MCP
+// Security reports over a time window and alerts derived from security events
+
+import { SecurityEvent, SecurityReportResponse, SecurityAlertsResponse } from './types.js';
+import {
+  SECURITY_CONFIG,
+  generateSecureId,
+  getSecurityEvents,
+  getSecurityMetrics,
+  getCurrentThreatLevel
+} from './security.js';
+import { queryAuditLog, getAuditSinkInfo } from './audit.js';
+
+export type SecurityAlert = SecurityAlertsResponse['alerts'][number];
+
+export interface AlertFilter {
+  minSeverity?: SecurityEvent['severity'];
+  acknowledged?: boolean;
+  limit: number;
+}
+
+// Upper bound for events considered; matches the retention of the security event buffer
+const MAX_EVENTS = 5000;
+
+const SEVERITY_RANK: Record<SecurityEvent['severity'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3
+};
+
+// Event types that only record a screened request and never raise an alert
+const INFORMATIONAL_EVENTS: SecurityEvent['eventType'][] = ['request_validated', 'validation_error'];
+
+// Acknowledged alert ids (alert ids are security event ids)
+const acknowledgements = new Map<string, { acknowledged_at: string; note?: string }>();
+
+function getEventsBetween(start: number, end: number): SecurityEvent[] {
+  return getSecurityEvents(MAX_EVENTS).filter(event => {
+    const time = Date.parse(event.timestamp);
+    return time >= start && time <= end;
+  });
+}
+
+/**
+ * Count requests with a path traversal attempt; one request can raise several events
+ */
+function countPathTraversalRequests(events: SecurityEvent[]): number {
+  const requests = new Set(events
+    .filter(event => /path traversal|directory traversal/i.test(JSON.stringify(event.data || {})))
+    .map(event => event.securityContext?.requestId || event.id));
+  return requests.size;
+}
+
+/**
+ * Rule-based recommendations from the activity in the report window and the active configuration
+ */
+function buildRecommendations(report: Omit<SecurityReportResponse, 'recommendations'>): string[] {
+  const recommendations: string[] = [];
+  const { threat_analysis, summary } = report;
+
+  if (!SECURITY_CONFIG.ENABLE_RATE_LIMITING) {
+    recommendations.push('Enable rate limiting (ENABLE_RATE_LIMITING) to protect against abuse');
+  }
+  if (!SECURITY_CONFIG.ENABLE_THREAT_DETECTION) {
+    recommendations.push('Enable threat detection (ENABLE_THREAT_DETECTION) to screen tool calls for prompt injection');
+  }
+  if (!SECURITY_CONFIG.ENABLE_AUDIT_LOGGING) {
+    recommendations.push('Enable audit logging (ENABLE_AUDIT_LOGGING) to keep a record of every operation');
+  } else if (getAuditSinkInfo().sink === 'memory') {
+    recommendations.push('Use a persistent audit sink (AUDIT_SINK=jsonl or sqlite); the memory sink is lost on restart');
+  }
+  if (SECURITY_CONFIG.HIGH_RISK_ACTION === 'flag') {
+    recommendations.push('High-risk calls are only flagged; set HIGH_RISK_ACTION=reject to block them');
+  }
+  if (threat_analysis.prompt_injections > 0) {
+    recommendations.push(`Review the ${threat_analysis.prompt_injections} prompt injection attempt(s) and the clients that sent them`);
+  }
+  if (threat_analysis.path_traversal_attempts > 0) {
+    recommendations.push('Path traversal attempts were detected; verify storage paths come from trusted input');
+  }
+  if (threat_analysis.suspicious_activities > 5) {
+    recommendations.push('Repeated suspicious activity; consider blocking the source IP addresses');
+  }
+  if (threat_analysis.rate_limit_violations > 10) {
+    recommendations.push('Frequent rate limit violations; check for misbehaving clients or raise limits for legitimate workloads');
+  }
+  if (summary.blocked_requests > 0 && summary.total_requests > 0 && summary.blocked_requests / summary.total_requests > 0.1) {
+    recommendations.push('More than 10% of requests were blocked; review the security alerts');
+  }
+
+  if (recommendations.length === 0) {
+    recommendations.push('No action required; continue monitoring security alerts');
+  }
+
+  return recommendations;
+}
+
+/**
+ * Build a security report for events and audit entries between start and end (epoch milliseconds)
+ */
+export async function generateSecurityReport(start: number, end: number): Promise<SecurityReportResponse & {
+  current_threat_level: ReturnType<typeof getCurrentThreatLevel>;
+  metrics_since_startup: ReturnType<typeof getSecurityMetrics>;
+}> {
+  const events = getEventsBetween(start, end);
+  const count = (...types: SecurityEvent['eventType'][]) => events.filter(event => types.includes(event.eventType)).length;
+
+  const [requests, successful] = await Promise.all([
+    queryAuditLog({ since: start, until: end, limit: 1 }),
+    queryAuditLog({ since: start, until: end, success: true, limit: 1 })
+  ]);
+
+  const blockedRequests = count('access_denied', 'rate_limit_exceeded') +
+    events.filter(event => event.eventType === 'security_validation_error' && !event.data?.flagged).length;
+
+  // Group alerting events by type for the top threats
+  const threats = new Map<string, SecurityReportResponse['top_threats'][number]>();
+  for (const event of events) {
+    if (INFORMATIONAL_EVENTS.includes(event.eventType)) continue;
+
+    const threat = threats.get(event.eventType);
+    if (!threat) {
+      threats.set(event.eventType, {
+        threat_type: event.eventType,
+        count: 1,
+        severity: event.severity,
+        first_seen: event.timestamp,
+        last_seen: event.timestamp
+      });
+      continue;
+    }
+
+    threat.count++;
+    threat.last_seen = event.timestamp;
+    if (SEVERITY_RANK[event.severity] > SEVERITY_RANK[threat.severity as SecurityEvent['severity']]) {
+      threat.severity = event.severity;
+    }
+  }
+
+  const report = {
+    report_id: generateSecureId(16),
+    generated_at: new Date().toISOString(),
+    time_period: {
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString()
+    },
+    summary: {
+      total_requests: requests.total,
+      blocked_requests: blockedRequests,
+      threat_detections: count('prompt_injection_detected', 'suspicious_activity', 'security_validation_error'),
+      rate_limit_violations: count('rate_limit_exceeded'),
+      success_rate: requests.total > 0 ? `${Math.round((successful.total / requests.total) * 100)}%` : 'n/a'
+    },
+    threat_analysis: {
+      prompt_injections: count('prompt_injection_detected'),
+      suspicious_activities: count('suspicious_activity'),
+      path_traversal_attempts: countPathTraversalRequests(events),
+      rate_limit_violations: count('rate_limit_exceeded')
+    },
+    top_threats: [...threats.values()].sort((a, b) => b.count - a.count).slice(0, 5),
+    // Derived from the controls that are enabled, not a formal certification
+    compliance_status: {
+      gdpr_compliant: SECURITY_CONFIG.ENABLE_AUDIT_LOGGING && SECURITY_CONFIG.ENABLE_INPUT_VALIDATION,
+      soc2_compliant: SECURITY_CONFIG.ENABLE_AUDIT_LOGGING && getAuditSinkInfo().sink !== 'memory' && SECURITY_CONFIG.ENABLE_RATE_LIMITING,
+      nist_compliant: SECURITY_CONFIG.ENABLE_THREAT_DETECTION && SECURITY_CONFIG.ENABLE_FILE_SECURITY && SECURITY_CONFIG.ENABLE_AUDIT_LOGGING,
+      owasp_compliant: SECURITY_CONFIG.ENABLE_INPUT_VALIDATION && SECURITY_CONFIG.ENABLE_FILE_SECURITY && SECURITY_CONFIG.ENABLE_RATE_LIMITING
+    }
+  };
+
+  return {
+    ...report,
+    recommendations: buildRecommendations(report),
+    current_threat_level: getCurrentThreatLevel(),
+    metrics_since_startup: getSecurityMetrics()
+  };
+}
+
+/**
+ * Render a security report as Markdown
+ */
+export function formatSecurityReportMarkdown(report: SecurityReportResponse & { current_threat_level?: string }): string {
+  const yesNo = (value: boolean) => value ? '✅' : '❌';
+  const lines = [
+    '# Security Report',
+    '',
+    `- **Report ID:** ${report.report_id}`,
+    `- **Generated:** ${report.generated_at}`,
+    `- **Period:** ${report.time_period.start} → ${report.time_period.end}`,
+    ...(report.current_threat_level ? [`- **Current threat level:** ${report.current_threat_level}`] : []),
+    '',
+    '## Summary',
+    '',
+    '| Metric | Value |',
+    '|--------|-------|',
+    `| Total requests | ${report.summary.total_requests} |`,
+    `| Blocked requests | ${report.summary.blocked_requests} |`,
+    `| Threat detections | ${report.summary.threat_detections} |`,
+    `| Rate limit violations | ${report.summary.rate_limit_violations} |`,
+    `| Success rate | ${report.summary.success_rate} |`,
+    '',
+    '## Threat Analysis',
+    '',
+    '| Threat | Count |',
+    '|--------|-------|',
+    `| Prompt injections | ${report.threat_analysis.prompt_injections} |`,
+    `| Suspicious activities | ${report.threat_analysis.suspicious_activities} |`,
+    `| Path traversal attempts | ${report.threat_analysis.path_traversal_attempts} |`,
+    `| Rate limit violations | ${report.threat_analysis.rate_limit_violations} |`,
+    '',
+    '## Top Threats',
+    ''
+  ];
+
+  if (report.top_threats.length === 0) {
+    lines.push('No threats recorded in this period.');
+  } else {
+    lines.push('| Type | Count | Severity | First seen | Last seen |', '|------|-------|----------|------------|-----------|');
+    for (const threat of report.top_threats) {
+      lines.push(`| ${threat.threat_type} | ${threat.count} | ${threat.severity} | ${threat.first_seen} | ${threat.last_seen} |`);
+    }
+  }
+
+  lines.push(
+    '',
+    '## Recommendations',
+    '',
+    ...report.recommendations.map(recommendation => `- ${recommendation}`),
+    '',
+    '## Compliance Controls',
+    '',
+    '| Framework | Controls enabled |',
+    '|-----------|------------------|',
+    `| GDPR | ${yesNo(report.compliance_status.gdpr_compliant)} |`,
+    `| SOC 2 | ${yesNo(report.compliance_status.soc2_compliant)} |`,
+    `| NIST | ${yesNo(report.compliance_status.nist_compliant)} |`,
+    `| OWASP | ${yesNo(report.compliance_status.owasp_compliant)} |`,
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+function describeEvent(event: SecurityEvent): { message: string; actions: string[] } {
+  const reason = event.data?.reason ? `: ${event.data.reason}` : '';
+  const tool = event.data?.toolName ? ` (${event.data.toolName})` : '';
+
+  switch (event.eventType) {
+    case 'prompt_injection_detected':
+      return {
+        message: `Possible prompt injection (${(event.data?.detectedPatterns || []).join(', ') || 'pattern match'})`,
+        actions: ['Risk score raised for the request', 'Review the request arguments']
+      };
+    case 'suspicious_activity':
+      return { message: `Suspicious activity${tool}${reason}`, actions: ['Risk score raised for the request', 'Consider blocking the source IP'] };
+    case 'rate_limit_exceeded':
+      return { message: `Rate limit exceeded${tool} on ${event.data?.scope || 'unknown scope'}`, actions: ['Request throttled'] };
+    case 'access_denied':
+      return { message: `Access denied${tool}${reason}`, actions: ['Request rejected'] };
+    case 'ip_blocked':
+      return { message: `IP address ${event.data?.ipAddress || 'unknown'} blocked${reason}`, actions: ['Requests from this IP are rejected'] };
+    case 'security_validation_error':
+      return event.data?.flagged
+        ? { message: `High-risk request flagged${tool} (risk score ${event.data?.riskScore})`, actions: ['Request allowed and flagged', 'Review the request'] }
+        : { message: `Request blocked by security policy${tool}${reason}`, actions: ['Request rejected'] };
+    case 'malware_detected':
+      return {
+        message: `Malware detected in ${event.data?.filename || 'an upload'}${tool} (${(event.data?.signatures || []).join(', ')})`,
+        actions: ['Upload rejected', event.data?.quarantine
+          ? `Quarantined to ${event.data.quarantine.bucket_name}/${event.data.quarantine.storage_path}`
+          : `Quarantine failed: ${event.data?.quarantine_error || 'unknown error'}`]
+      };
+    case 'scan_failed':
+      return {
+        message: `Upload scan failed${tool}${reason}`,
+        actions: [event.data?.action === 'allow' ? 'Upload allowed unscanned' : 'Upload rejected']
+      };
+    default:
+      return { message: event.details, actions: [] };
+  }
+}
+
+function toAlert(event: SecurityEvent): SecurityAlert {
+  const { message, actions } = describeEvent(event);
+  const acknowledgement = acknowledgements.get(event.id);
+  const ipAddress = event.securityContext?.ipAddress || event.data?.ipAddress;
+
+  return {
+    id: event.id,
+    timestamp: event.timestamp,
+    severity: event.severity,
+    type: event.eventType,
+    message,
+    source_ip: ipAddress && ipAddress !== 'unknown' ? ipAddress : undefined,
+    user_id: event.securityContext?.userId,
+    acknowledged: !!acknowledgement,
+    response_actions: acknowledgement
+      ? [...actions, `Acknowledged at ${acknowledgement.acknowledged_at}${acknowledgement.note ? `: ${acknowledgement.note}` : ''}`]
+      : actions
+  };
+}
+
+/**
+ * List alerts (security events above informational level), newest first
+ */
+export function listSecurityAlerts(filter: AlertFilter): SecurityAlertsResponse {
+  const minRank = SEVERITY_RANK[filter.minSeverity || 'medium'];
+  const alerts = getSecurityEvents(MAX_EVENTS)
+    .filter(event => !INFORMATIONAL_EVENTS.includes(event.eventType) && SEVERITY_RANK[event.severity] >= minRank)
+    .reverse()
+    .map(toAlert);
+
+  const matching = filter.acknowledged === undefined
+    ? alerts
+    : alerts.filter(alert => alert.acknowledged === filter.acknowledged);
+
+  return {
+    alerts: matching.slice(0, filter.limit),
+    total_count: matching.length,
+    unacknowledged_count: alerts.filter(alert => !alert.acknowledged).length
+  };
+}
+
+/**
+ * Mark an alert as acknowledged
+ */
+export function acknowledgeAlert(alertId: string, note?: string): SecurityAlert {
+  const event = getSecurityEvents(MAX_EVENTS).find(candidate => candidate.id === alertId);
+  if (!event || INFORMATIONAL_EVENTS.includes(event.eventType)) {
+    throw new Error(`Alert not found: ${alertId}`);
+  }
+
+  if (!acknowledgements.has(alertId)) {
+    acknowledgements.set(alertId, { acknowledged_at: new Date().toISOString(), note });
+  }
+
+  // Forget acknowledgements for events that have left the event buffer
+  if (acknowledgements.size > MAX_EVENTS) {
+    const retained = new Set(getSecurityEvents(MAX_EVENTS).map(candidate => candidate.id));
+    for (const id of acknowledgements.keys()) {
+      if (!retained.has(id)) acknowledgements.delete(id);
+    }
+  }
+
+  return toAlert(event);
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SECURITY_CONFIG, checkRateLimits, resetSecurityState } from './security.js';
+
+describe('checkRateLimits', () => {
+  const savedConfig = { ...SECURITY_CONFIG };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    resetSecurityState();
+    SECURITY_CONFIG.RATE_LIMIT_WINDOW = 60000;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    Object.assign(SECURITY_CONFIG, savedConfig);
+  });
+
+  it('allows calls until the bucket is empty, then reports when to retry', () => {
+    const checks = [{ identifier: 'user:alice', limit: 3 }];
+
+    expect(checkRateLimits(checks)).toEqual({ allowed: true });
+    expect(checkRateLimits(checks)).toEqual({ allowed: true });
+    expect(checkRateLimits(checks)).toEqual({ allowed: true });
+    expect(checkRateLimits(checks)).toEqual({
+      allowed: false,
+      retryAfter: 20,
+      current: 3,
+      limit: 3,
+      scope: 'user:alice'
+    });
+  });
+
+  it('refills tokens in proportion to the time elapsed', () => {
+    const checks = [{ identifier: 'ip:203.0.113.7', limit: 6 }];
+    checkRateLimits(checks, 6);
+    expect(checkRateLimits(checks).allowed).toBe(false);
+
+    vi.advanceTimersByTime(10000); // one sixth of the window: one token
+    expect(checkRateLimits(checks).allowed).toBe(true);
+    expect(checkRateLimits(checks).allowed).toBe(false);
+
+    vi.advanceTimersByTime(10 * 60000);
+    expect(checkRateLimits(checks, 6).allowed).toBe(true);
+  });
+
+  it('charges the weighted cost and charges a cost above the limit as the whole bucket', () => {
+    expect(checkRateLimits([{ identifier: 'tool:upload', limit: 25 }], 10).allowed).toBe(true);
+    expect(checkRateLimits([{ identifier: 'tool:upload', limit: 25 }], 10).allowed).toBe(true);
+    expect(checkRateLimits([{ identifier: 'tool:upload', limit: 25 }], 10)).toMatchObject({ allowed: false, current: 20 });
+
+    expect(checkRateLimits([{ identifier: 'tool:small', limit: 5 }], 10).allowed).toBe(true);
+    expect(checkRateLimits([{ identifier: 'tool:small', limit: 5 }], 1).allowed).toBe(false);
+  });
+
+  it('takes tokens from every bucket or from none', () => {
+    const roomy = { identifier: 'global', limit: 100 };
+    const tight = { identifier: 'user:bob', limit: 1 };
+
+    expect(checkRateLimits([roomy, tight]).allowed).toBe(true);
+    expect(checkRateLimits([roomy, tight])).toMatchObject({ allowed: false, scope: 'user:bob' });
+
+    // The rejected call left the global bucket untouched: 99 tokens remain
+    expect(checkRateLimits([roomy], 99).allowed).toBe(true);
+    expect(checkRateLimits([roomy]).allowed).toBe(false);
+  });
+
+  it('reports the bucket that needs the longest wait', () => {
+    checkRateLimits([{ identifier: 'a', limit: 60 }, { identifier: 'b', limit: 2 }], 2);
+
+    expect(checkRateLimits([{ identifier: 'a', limit: 60 }, { identifier: 'b', limit: 2 }], 60)).toMatchObject({
+      allowed: false,
+      scope: 'b',
+      retryAfter: 60
+    });
+  });
+
+  it('allows everything when rate limiting is disabled', () => {
+    SECURITY_CONFIG.ENABLE_RATE_LIMITING = false;
+    const checks = [{ identifier: 'user:carol', limit: 1 }];
+
+    expect(checkRateLimits(checks).allowed).toBe(true);
+    expect(checkRateLimits(checks).allowed).toBe(true);
+  });
+});
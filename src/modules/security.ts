@@ -4,56 +4,28 @@ import crypto from 'crypto';
 import {
   SecurityConfig,
   RateLimitResult,
-  RateLimitWindow,
+  TokenBucket,
   PromptInjectionResult,
   PIIDetectionResult,
   AuditEntry,
   SecurityContext,
   SecurityValidationResult,
   SuspiciousActivityResult,
-  SecurityEvent
+  SecurityEvent,
+  BlockEntry
 } from './types.js';
+import { SERVER_CONFIG } from './config.js';
+import { writeAuditEntry, getAuditSinkInfo } from './audit.js';
+import { addBlock, removeBlock, getBlock, listBlocks, clearBlocks } from './blocklist.js';
+import { getRequestContext } from '../utils/request-context.js';
 
-// Security Configuration
-export const SECURITY_CONFIG: SecurityConfig = {
-  ENABLE_RATE_LIMITING: true,
-  ENABLE_THREAT_DETECTION: true,
-  ENABLE_AUDIT_LOGGING: true,
-  ENABLE_INPUT_VALIDATION: true,
-  ENABLE_FILE_SECURITY: true,
-  
-  // Rate limiting configuration
-  RATE_LIMIT_WINDOW: 60000, // 1 minute
-  MAX_REQUESTS_PER_WINDOW: 100,
-  GLOBAL_RATE_LIMIT: 1000,
-  IP_RATE_LIMIT: 200,
-  USER_RATE_LIMIT: 500,
-  
-  // File security limits
-  MAX_FILE_SIZE: 50 * 1024 * 1024, // 50MB
-  MAX_BATCH_SIZE: 500,
-  ALLOWED_MIME_TYPES: [
-    'image/jpeg', 'image/jpg', 'image/png', 'image/webp', 
-    'image/gif', 'image/svg+xml', 'image/bmp', 'image/tiff',
-    'application/zip', 'application/x-zip-compressed'
-  ],
-  
-  // Security thresholds
-  MAX_PROMPT_LENGTH: 10000,
-  SUSPICIOUS_ACTIVITY_THRESHOLD: 5,
-  HIGH_RISK_SCORE_THRESHOLD: 80,
-  
-  // Session and authentication
-  SESSION_TIMEOUT: 3600, // 1 hour
-  JWT_EXPIRY: 7200 // 2 hours
-};
+// Security Configuration (live view of the active server configuration)
+export const SECURITY_CONFIG: SecurityConfig = SERVER_CONFIG.security;
 
-// Storage for rate limiting and audit logs
-const rateLimitStore = new Map<string, RateLimitWindow>();
+// Storage for rate limiting and security events (audit entries go to the configured audit sink)
+const rateLimitStore = new Map<string, TokenBucket>();
 const suspiciousActivityStore = new Map<string, { count: number; lastSeen: number }>();
-const auditLog: AuditEntry[] = [];
 const securityEvents: SecurityEvent[] = [];
-const blockedIPs = new Set<string>();
 
 // Security metrics
 let securityMetrics = {
@@ -89,6 +61,11 @@ export function sanitizeInput(input: string): string {
     .trim();
 }
 
+export function matchesWildcard(pattern: string, value: string): boolean {
+  const regex = new RegExp('^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$');
+  return regex.test(value);
+}
+
 export function detectPromptInjection(input: string): PromptInjectionResult {
   const injectionPatterns = [
     // Direct instruction override
@@ -198,39 +175,85 @@ export function detectPII(text: string): PIIDetectionResult {
   };
 }
 
-export function checkRateLimit(identifier: string, customLimit?: number): RateLimitResult {
+/**
+ * Refill a token bucket: `limit` tokens per RATE_LIMIT_WINDOW, never above `limit`
+ */
+function refillBucket(identifier: string, limit: number, now: number): TokenBucket {
+  const bucket = rateLimitStore.get(identifier) || { tokens: limit, updatedAt: now };
+  const refill = ((now - bucket.updatedAt) / SECURITY_CONFIG.RATE_LIMIT_WINDOW) * limit;
+
+  bucket.tokens = Math.min(limit, bucket.tokens + refill);
+  bucket.updatedAt = now;
+  return bucket;
+}
+
+/**
+ * Drop buckets that have refilled completely; they are equivalent to a fresh bucket
+ */
+function pruneRateLimitStore(now: number): void {
+  for (const [identifier, bucket] of rateLimitStore) {
+    if (now - bucket.updatedAt > SECURITY_CONFIG.RATE_LIMIT_WINDOW) {
+      rateLimitStore.delete(identifier);
+    }
+  }
+}
+
+/**
+ * Take `cost` tokens from every bucket, or from none of them if any bucket is short.
+ * The result describes the bucket that would need to wait the longest.
+ */
+export function checkRateLimits(
+  checks: Array<{ identifier: string; limit: number }>,
+  cost: number = 1
+): RateLimitResult {
   if (!SECURITY_CONFIG.ENABLE_RATE_LIMITING) {
     return { allowed: true };
   }
 
   const now = Date.now();
-  const window = rateLimitStore.get(identifier);
-  const limit = customLimit || SECURITY_CONFIG.MAX_REQUESTS_PER_WINDOW;
+  if (rateLimitStore.size > 10000) {
+    pruneRateLimitStore(now);
+  }
+
+  const buckets = checks.map(check => ({ ...check, bucket: refillBucket(check.identifier, check.limit, now) }));
+  let limiting: RateLimitResult | undefined;
+
+  for (const { identifier, limit, bucket } of buckets) {
+    // A call costing more than the whole bucket is charged the full bucket
+    const required = Math.min(cost, limit);
+    if (bucket.tokens >= required) continue;
+
+    const retryAfter = Math.ceil(((required - bucket.tokens) / limit) * SECURITY_CONFIG.RATE_LIMIT_WINDOW / 1000);
+    if (!limiting || retryAfter > (limiting.retryAfter || 0)) {
+      limiting = {
+        allowed: false,
+        retryAfter,
+        current: Math.ceil(limit - bucket.tokens),
+        limit,
+        scope: identifier
+      };
+    }
+  }
 
-  if (!window || now > window.resetTime) {
-    rateLimitStore.set(identifier, {
-      count: 1,
-      resetTime: now + SECURITY_CONFIG.RATE_LIMIT_WINDOW
-    });
-    return { allowed: true };
+  for (const { identifier, limit, bucket } of buckets) {
+    if (!limiting) {
+      bucket.tokens -= Math.min(cost, limit);
+    }
+    rateLimitStore.set(identifier, bucket);
   }
 
-  if (window.count >= limit) {
-    const retryAfter = Math.ceil((window.resetTime - now) / 1000);
+  if (limiting) {
     securityMetrics.rateLimitViolations++;
-    return { 
-      allowed: false, 
-      retryAfter,
-      current: window.count,
-      limit
-    };
+    return limiting;
   }
 
-  window.count++;
-  rateLimitStore.set(identifier, window);
   return { allowed: true };
 }
 
+export function checkRateLimit(identifier: string, customLimit?: number, cost: number = 1): RateLimitResult {
+  return checkRateLimits([{ identifier, limit: customLimit || SECURITY_CONFIG.MAX_REQUESTS_PER_WINDOW }], cost);
+}
+
 export function detectSuspiciousActivity(
   request: any, 
   securityContext: SecurityContext
@@ -307,7 +330,7 @@ export function validateFileOperation(
   let riskScore = 0;
 
   // Validate file paths
-  const pathFields = ['file_path', 'storage_path', 'source_path', 'destination_path'];
+  const pathFields = ['file_path', 'storage_path', 'source_path', 'destination_path', 'prefix', 'folder_path'];
   for (const field of pathFields) {
     if (args[field] && typeof args[field] === 'string') {
       if (args[field].includes('..')) {
@@ -362,25 +385,23 @@ export function auditRequest(
 ): void {
   if (!SECURITY_CONFIG.ENABLE_AUDIT_LOGGING) return;
 
+  // Attach the pre-dispatch security screening of the current tool call, if any
+  const requestContext = getRequestContext();
+  const { securityContext: screenedContext, ...securityValidation } = requestContext?.securityValidation || {};
+
   const entry: AuditEntry = {
     timestamp: Date.now(),
     toolName,
     success,
     inputHash,
+    requestId: requestContext?.requestId,
     error,
-    securityContext,
-    riskScore
+    securityContext: securityContext ?? screenedContext,
+    riskScore: riskScore ?? requestContext?.securityValidation?.riskScore,
+    securityValidation: requestContext?.securityValidation ? securityValidation as SecurityValidationResult : undefined
   };
   
-  auditLog.push(entry);
-  
-  // Keep only last 10000 entries
-  if (auditLog.length > 10000) {
-    auditLog.shift();
-  }
-
-  // Log to console for debugging
-  console.error(`[AUDIT] ${toolName}: ${success ? 'SUCCESS' : 'FAILED'} - ${inputHash}${error ? ` - ${error}` : ''}`);
+  writeAuditEntry(entry);
 }
 
 export function logSecurityEvent(
@@ -426,6 +447,7 @@ export function extractSecurityContext(request: any, headers?: Record<string, st
     requestId: generateSecureId(),
     method: request.method || 'unknown',
     toolName: request.params?.name || undefined,
+    role: headers?.['x-user-role'] || undefined,
     origin: headers?.origin || undefined,
     referer: headers?.referer || undefined
   };
@@ -587,7 +609,10 @@ function getEventSeverity(eventType: SecurityEvent['eventType']): SecurityEvent[
     'suspicious_activity': 'medium',
     'access_denied': 'medium',
     'ip_blocked': 'high',
+    'user_blocked': 'high',
     'security_validation_error': 'high',
+    'malware_detected': 'critical',
+    'scan_failed': 'medium',
     'request_validated': 'low',
     'validation_error': 'low'
   };
@@ -596,10 +621,6 @@ function getEventSeverity(eventType: SecurityEvent['eventType']): SecurityEvent[
 }
 
 // Getter functions for external access
-export function getAuditLog(): AuditEntry[] {
-  return [...auditLog]; // Return copy to prevent external modification
-}
-
 export function getSecurityEvents(limit: number = 100): SecurityEvent[] {
   return securityEvents.slice(-limit);
 }
@@ -608,10 +629,11 @@ export function getSecurityMetrics() {
   return {
     ...securityMetrics,
     timestamp: new Date().toISOString(),
-    auditLogSize: auditLog.length,
+    auditLog: getAuditSinkInfo(),
     securityEventsCount: securityEvents.length,
     rateLimitStoreSize: rateLimitStore.size,
-    blockedIPCount: blockedIPs.size
+    blockedIPCount: listBlocks('ip').length,
+    blockedUserCount: listBlocks('user').length
   };
 }
 
@@ -632,27 +654,79 @@ export function getCurrentThreatLevel(): 'low' | 'medium' | 'high' | 'critical'
   return 'low';
 }
 
-// IP blocking functions
-export function blockIP(ipAddress: string, reason: string = 'security_violation'): void {
-  blockedIPs.add(ipAddress);
-  logSecurityEvent('ip_blocked', undefined, { ipAddress, reason });
+// IP and user blocking functions (durationSeconds omitted = permanent)
+function createBlock(
+  type: BlockEntry['type'],
+  value: string,
+  reason: string,
+  durationSeconds?: number,
+  source: BlockEntry['source'] = 'manual'
+): BlockEntry {
+  const now = Date.now();
+  return addBlock({
+    type,
+    value,
+    reason,
+    source,
+    blocked_at: new Date(now).toISOString(),
+    expires_at: durationSeconds ? new Date(now + durationSeconds * 1000).toISOString() : undefined
+  });
 }
 
-export function unblockIP(ipAddress: string): void {
-  blockedIPs.delete(ipAddress);
+export function blockIP(
+  ipAddress: string,
+  reason: string = 'security_violation',
+  durationSeconds?: number,
+  source: BlockEntry['source'] = 'manual'
+): BlockEntry {
+  const entry = createBlock('ip', ipAddress, reason, durationSeconds, source);
+  logSecurityEvent('ip_blocked', undefined, { ipAddress, reason, source, expiresAt: entry.expires_at });
+  return entry;
+}
+
+export function unblockIP(ipAddress: string): boolean {
+  return removeBlock('ip', ipAddress);
 }
 
 export function isIPBlocked(ipAddress: string): boolean {
-  return blockedIPs.has(ipAddress);
+  return getBlock('ip', ipAddress) !== undefined;
 }
 
-// Reset function for testing
-export function resetSecurityState(): void {
+export function blockUser(
+  userId: string,
+  reason: string = 'security_violation',
+  durationSeconds?: number,
+  source: BlockEntry['source'] = 'manual'
+): BlockEntry {
+  const entry = createBlock('user', userId, reason, durationSeconds, source);
+  logSecurityEvent('user_blocked', undefined, { userId, reason, source, expiresAt: entry.expires_at });
+  return entry;
+}
+
+export function unblockUser(userId: string): boolean {
+  return removeBlock('user', userId);
+}
+
+export function isUserBlocked(userId: string): boolean {
+  return getBlock('user', userId) !== undefined;
+}
+
+export function getBlockedClients(type?: BlockEntry['type']): BlockEntry[] {
+  return listBlocks(type);
+}
+
+export function recordBlockedRequest(): void {
+  securityMetrics.blockedRequests++;
+}
+
+// Reset counters, rate limits and events; the block list is cleared unless keepBlockList is set
+export function resetSecurityState(options: { keepBlockList?: boolean } = {}): void {
   rateLimitStore.clear();
   suspiciousActivityStore.clear();
-  auditLog.length = 0;
   securityEvents.length = 0;
-  blockedIPs.clear();
+  if (!options.keepBlockList) {
+    clearBlocks();
+  }
   securityMetrics = {
     promptInjectionsDetected: 0,
     rateLimitViolations: 0,
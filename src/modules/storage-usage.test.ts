@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MemoryStorage } from '../../test/memory-storage.js';
+import { STORAGE_CONFIG } from './config.js';
+import { AuthenticatedUser } from './types.js';
+import { runWithRequestContext } from '../utils/request-context.js';
+import {
+  checkUploadQuota,
+  getObjectOwner,
+  getQuotaLimits,
+  getStorageUsage,
+  invalidateBucketUsage,
+  measureBucketUsage
+} from './storage-usage.js';
+
+describe('getObjectOwner', () => {
+  it('reads the user id from {folder_prefix}/{user_id}/{batch_id}/{filename}', () => {
+    expect(getObjectOwner('exports/alice/batch1/report.pdf')).toBe('alice');
+    expect(getObjectOwner('original/bob/photo.png')).toBe('bob');
+    expect(getObjectOwner('loose.txt')).toBeUndefined();
+    expect(getObjectOwner('folder/loose.txt')).toBeUndefined();
+  });
+
+  it('counts the user id from the end when folder_prefix is nested', () => {
+    expect(getObjectOwner('exports/2024/q1/alice/batch1/report.pdf')).toBe('alice');
+    expect(getObjectOwner('processed/bob/batch1/thumb_photo.png')).toBe('bob');
+  });
+});
+
+describe('storage usage', () => {
+  const savedConfig = { ...STORAGE_CONFIG };
+  let storage: MemoryStorage;
+
+  // Check a quota and release the reservation straight away, as a finished upload would
+  const checkAndRelease = async (...args: Parameters<typeof checkUploadQuota>) => (await checkUploadQuota(...args))();
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    storage.put('team-exports', 'exports/alice/batch1/a.pdf', 'a'.repeat(100), 'application/pdf');
+    storage.put('team-exports', 'exports/alice/batch2/b.csv', 'b'.repeat(50), 'text/csv');
+    storage.put('team-exports', 'exports/bob/batch1/c.pdf', 'c'.repeat(200), 'application/pdf');
+    storage.put('team-exports', 'readme.txt', 'r'.repeat(10), 'text/plain');
+    invalidateBucketUsage('team-exports');
+  });
+
+  afterEach(() => {
+    for (const key of ['USER_QUOTA_BYTES', 'USER_QUOTA_OBJECTS', 'BUCKET_QUOTA_BYTES', 'BUCKET_QUOTA_OBJECTS', 'QUOTAS'] as const) {
+      delete STORAGE_CONFIG[key];
+    }
+    Object.assign(STORAGE_CONFIG, savedConfig);
+  });
+
+  it('aggregates objects by prefix, user and MIME type', async () => {
+    const usage = await measureBucketUsage(storage, 'team-exports');
+
+    expect(usage).toMatchObject({
+      object_count: 4,
+      total_bytes: 360,
+      truncated: false,
+      by_prefix: { exports: { object_count: 3, total_bytes: 350 }, '(root)': { object_count: 1, total_bytes: 10 } },
+      by_user: { alice: { object_count: 2, total_bytes: 150 }, bob: { object_count: 1, total_bytes: 200 } },
+      by_mime_type: { 'application/pdf': { object_count: 2, total_bytes: 300 }, 'text/csv': { object_count: 1, total_bytes: 50 } }
+    });
+  });
+
+  it('narrows the scan to a prefix or a user', async () => {
+    expect((await measureBucketUsage(storage, 'team-exports', 'exports/alice')).by_prefix).toEqual({
+      batch1: { object_count: 1, total_bytes: 100 },
+      batch2: { object_count: 1, total_bytes: 50 }
+    });
+    expect(await measureBucketUsage(storage, 'team-exports', '', 'bob')).toMatchObject({ object_count: 1, total_bytes: 200 });
+  });
+
+  it('stops at USAGE_SCAN_LIMIT and reports the scan as truncated', async () => {
+    STORAGE_CONFIG.USAGE_SCAN_LIMIT = 2;
+    expect(await measureBucketUsage(storage, 'team-exports')).toMatchObject({ object_count: 2, truncated: true });
+  });
+
+  it('reports quota status per bucket and, when filtered, for the user', async () => {
+    STORAGE_CONFIG.BUCKET_QUOTA_BYTES = 300;
+    STORAGE_CONFIG.USER_QUOTA_OBJECTS = 5;
+
+    const report = await getStorageUsage(storage, ['team-exports', 'empty-bucket'], { userId: 'alice' });
+
+    expect(report.totals).toEqual({ object_count: 2, total_bytes: 150 });
+    expect(report.buckets[0].quotas).toEqual([
+      // Bucket quotas are measured on the whole bucket, not on the user's share
+      expect.objectContaining({ scope: 'bucket', used_bytes: 360, max_bytes: 300, remaining_bytes: 0, exceeded: true }),
+      expect.objectContaining({ scope: 'user', used_objects: 2, max_objects: 5, remaining_objects: 3, exceeded: false })
+    ]);
+  });
+
+  it('lets per-bucket quota overrides take precedence over the global limits', () => {
+    STORAGE_CONFIG.USER_QUOTA_BYTES = 1000;
+    STORAGE_CONFIG.QUOTAS = [{ pattern: 'team-*', userBytes: 10, bucketObjects: 3 }];
+
+    expect(getQuotaLimits('team-exports')).toEqual({ userBytes: 10, userObjects: undefined, bucketBytes: undefined, bucketObjects: 3 });
+    expect(getQuotaLimits('other')).toMatchObject({ userBytes: 1000, bucketObjects: undefined });
+  });
+
+  it('rejects uploads that would exceed a quota', async () => {
+    await expect(checkAndRelease(storage, 'team-exports', 'alice', 10_000, 100)).resolves.toBeUndefined();
+
+    STORAGE_CONFIG.USER_QUOTA_BYTES = 200;
+    await expect(checkAndRelease(storage, 'team-exports', 'alice', 50, 1)).resolves.toBeUndefined();
+    await expect(checkAndRelease(storage, 'team-exports', 'alice', 51, 1)).rejects.toThrow(
+      'User alice storage quota exceeded: 150 of 200 bytes used, upload needs 51'
+    );
+
+    STORAGE_CONFIG.BUCKET_QUOTA_OBJECTS = 5;
+    await expect(checkAndRelease(storage, 'team-exports', 'carol', 0, 2)).rejects.toThrow(
+      'Bucket team-exports file quota exceeded: 4 of 5 files used, upload adds 2'
+    );
+  });
+
+  it('charges uploads under a nested folder_prefix to the user', async () => {
+    storage.put('team-exports', 'exports/2024/q1/alice/batch3/d.pdf', 'd'.repeat(40), 'application/pdf');
+    invalidateBucketUsage('team-exports');
+    STORAGE_CONFIG.USER_QUOTA_BYTES = 200;
+
+    await expect(checkAndRelease(storage, 'team-exports', 'alice', 11, 1)).rejects.toThrow(
+      'User alice storage quota exceeded: 190 of 200 bytes used, upload needs 11'
+    );
+  });
+
+  it('charges the authenticated user in jwt mode, whatever user_id names', async () => {
+    STORAGE_CONFIG.USER_QUOTA_BYTES = 200;
+    const user: AuthenticatedUser = { userId: 'bob', expiresAt: new Date(Date.now() + 60_000).toISOString(), token: 'token' };
+
+    await expect(runWithRequestContext({ requestId: 'request-1', toolName: 'upload_files', user }, () =>
+      checkAndRelease(storage, 'team-exports', 'alice', 1, 1)
+    )).rejects.toThrow('User bob storage quota exceeded: 200 of 200 bytes used, upload needs 1');
+  });
+
+  it('rejects uploads to a quota-limited bucket whose usage scan was truncated', async () => {
+    STORAGE_CONFIG.USAGE_SCAN_LIMIT = 2;
+    await expect(checkAndRelease(storage, 'team-exports', 'alice', 10, 1)).resolves.toBeUndefined();
+
+    STORAGE_CONFIG.BUCKET_QUOTA_BYTES = 1_000_000;
+    await expect(checkAndRelease(storage, 'team-exports', 'alice', 10, 1)).rejects.toThrow(
+      'Cannot enforce storage quota: bucket team-exports holds more than USAGE_SCAN_LIMIT (2) objects'
+    );
+  });
+
+  it('reserves the space of a running upload until it is released', async () => {
+    STORAGE_CONFIG.USER_QUOTA_BYTES = 200;
+
+    const [first, second] = await Promise.allSettled([
+      checkUploadQuota(storage, 'team-exports', 'alice', 40, 1),
+      checkUploadQuota(storage, 'team-exports', 'alice', 40, 1)
+    ]);
+    expect(first.status).toBe('fulfilled');
+    expect(second).toMatchObject({ status: 'rejected', reason: new Error('User alice storage quota exceeded: 190 of 200 bytes used, upload needs 40') });
+    await expect(checkAndRelease(storage, 'team-exports', 'bob', 0, 1)).resolves.toBeUndefined();
+
+    (first as PromiseFulfilledResult<() => void>).value();
+    await expect(checkAndRelease(storage, 'team-exports', 'alice', 40, 1)).resolves.toBeUndefined();
+  });
+
+  it('reuses the cached usage until it is invalidated', async () => {
+    STORAGE_CONFIG.BUCKET_QUOTA_OBJECTS = 5;
+    await checkAndRelease(storage, 'team-exports', 'alice', 0, 1);
+
+    storage.put('team-exports', 'exports/alice/batch3/d.pdf');
+    await expect(checkAndRelease(storage, 'team-exports', 'alice', 0, 1)).resolves.toBeUndefined();
+
+    invalidateBucketUsage('team-exports');
+    await expect(checkAndRelease(storage, 'team-exports', 'alice', 0, 1)).rejects.toThrow('file quota exceeded');
+  });
+});
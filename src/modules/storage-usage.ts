@@ -0,0 +1,276 @@
+// Storage Usage Module for Supabase Storage MCP
+// Aggregates object counts and bytes per bucket, prefix, user and MIME type, and enforces upload quotas
+
+import { BucketUsage, QuotaStatus, StorageQuota, StorageUsageReport, UsageTotals } from './types.js';
+import { matchesWildcard, sanitizeInput } from './security.js';
+import { STORAGE_CONFIG } from './config.js';
+import { walkObjects, normalizePrefix } from './file-operations.js';
+import { getRequestContext } from '../utils/request-context.js';
+
+// Key for objects directly in the scanned folder
+const ROOT_GROUP = '(root)';
+
+interface CachedUsage {
+  usage: BucketUsage;
+  expiresAt: number; // epoch milliseconds
+}
+
+interface QuotaReservation {
+  bucketName: string;
+  userId: string;
+  bytes: number;
+  objects: number;
+}
+
+// Whole-bucket usage reused by quota checks for USAGE_CACHE_TTL seconds
+const usageCache = new Map<string, CachedUsage>();
+
+// Uploads that passed the quota check and are still running; counted on top of the measured usage
+// so that concurrent batches cannot each fit into the same remaining space
+const quotaReservations = new Set<QuotaReservation>();
+
+function addTo(groups: Record<string, UsageTotals>, key: string, size: number): void {
+  const group = groups[key] || (groups[key] = { object_count: 0, total_bytes: 0 });
+  group.object_count++;
+  group.total_bytes += size;
+}
+
+/**
+ * The user an object belongs to: uploads are stored as {folder_prefix}/{user_id}/{batch_id}/{filename}.
+ * folder_prefix may contain "/", so the user id is counted from the end; {prefix}/{user_id}/{filename}
+ * paths without a batch folder belong to their second segment.
+ */
+export function getObjectOwner(objectPath: string): string | undefined {
+  const segments = objectPath.split('/');
+  if (segments.length < 3) {
+    return undefined;
+  }
+  return segments.length === 3 ? segments[1] : segments[segments.length - 3];
+}
+
+/**
+ * Quota limits for a bucket: the first matching QUOTAS entry, falling back to the global settings
+ */
+export function getQuotaLimits(bucketName: string): Omit<StorageQuota, 'pattern'> {
+  const override = STORAGE_CONFIG.QUOTAS?.find(quota => matchesWildcard(quota.pattern, bucketName));
+  return {
+    userBytes: override?.userBytes ?? STORAGE_CONFIG.USER_QUOTA_BYTES,
+    userObjects: override?.userObjects ?? STORAGE_CONFIG.USER_QUOTA_OBJECTS,
+    bucketBytes: override?.bucketBytes ?? STORAGE_CONFIG.BUCKET_QUOTA_BYTES,
+    bucketObjects: override?.bucketObjects ?? STORAGE_CONFIG.BUCKET_QUOTA_OBJECTS
+  };
+}
+
+function buildQuotaStatus(
+  scope: QuotaStatus['scope'],
+  used: UsageTotals,
+  maxBytes: number | undefined,
+  maxObjects: number | undefined
+): QuotaStatus | undefined {
+  if (maxBytes === undefined && maxObjects === undefined) {
+    return undefined;
+  }
+
+  return {
+    scope,
+    max_bytes: maxBytes,
+    max_objects: maxObjects,
+    used_bytes: used.total_bytes,
+    used_objects: used.object_count,
+    remaining_bytes: maxBytes !== undefined ? Math.max(maxBytes - used.total_bytes, 0) : undefined,
+    remaining_objects: maxObjects !== undefined ? Math.max(maxObjects - used.object_count, 0) : undefined,
+    exceeded: (maxBytes !== undefined && used.total_bytes > maxBytes) ||
+      (maxObjects !== undefined && used.object_count > maxObjects)
+  };
+}
+
+/**
+ * The measured usage plus the bytes and files of running uploads into the bucket
+ */
+function withReservations(bucketName: string, usage: BucketUsage): BucketUsage {
+  const reserved = { ...usage, by_user: { ...usage.by_user } };
+
+  for (const reservation of quotaReservations) {
+    if (reservation.bucketName !== bucketName) continue;
+
+    const owner = sanitizeInput(reservation.userId);
+    const user = reserved.by_user[owner] || { object_count: 0, total_bytes: 0 };
+    reserved.by_user[owner] = {
+      object_count: user.object_count + reservation.objects,
+      total_bytes: user.total_bytes + reservation.bytes
+    };
+    reserved.object_count += reservation.objects;
+    reserved.total_bytes += reservation.bytes;
+  }
+
+  return reserved;
+}
+
+/**
+ * Bucket quota, plus the user's quota when userId is given
+ */
+function getQuotaStatuses(bucketName: string, usage: BucketUsage, userId?: string): QuotaStatus[] {
+  const limits = getQuotaLimits(bucketName);
+  const statuses = [buildQuotaStatus('bucket', usage, limits.bucketBytes, limits.bucketObjects)];
+
+  if (userId) {
+    const used = usage.by_user[sanitizeInput(userId)] || { object_count: 0, total_bytes: 0 };
+    statuses.push(buildQuotaStatus('user', used, limits.userBytes, limits.userObjects));
+  }
+
+  return statuses.filter((status): status is QuotaStatus => status !== undefined);
+}
+
+/**
+ * Scan a bucket (or a prefix of it) and aggregate its objects, optionally only those of one user
+ */
+export async function measureBucketUsage(
+  supabase: any,
+  bucketName: string,
+  prefix: string = '',
+  userId?: string
+): Promise<BucketUsage> {
+  const root = normalizePrefix(prefix);
+  const owner = userId ? sanitizeInput(userId) : undefined;
+  const { objects, truncated } = await walkObjects(supabase, bucketName, root, {
+    maxDepth: Infinity,
+    limit: STORAGE_CONFIG.USAGE_SCAN_LIMIT
+  });
+
+  const usage: BucketUsage = {
+    bucket_name: bucketName,
+    object_count: 0,
+    total_bytes: 0,
+    by_prefix: {},
+    by_user: {},
+    by_mime_type: {},
+    truncated,
+    quotas: []
+  };
+
+  for (const { path: objectPath, object } of objects) {
+    const objectOwner = getObjectOwner(objectPath);
+    if (owner && objectOwner !== owner) continue;
+
+    const size = Number(object.metadata?.size) || 0;
+    const relativePath = root ? objectPath.slice(root.length + 1) : objectPath;
+    const group = relativePath.includes('/') ? relativePath.split('/')[0] : ROOT_GROUP;
+
+    usage.object_count++;
+    usage.total_bytes += size;
+    addTo(usage.by_prefix, group, size);
+    addTo(usage.by_mime_type, object.metadata?.mimetype || 'unknown', size);
+    if (objectOwner) {
+      addTo(usage.by_user, objectOwner, size);
+    }
+  }
+
+  return usage;
+}
+
+async function getBucketUsage(supabase: any, bucketName: string): Promise<BucketUsage> {
+  const cached = usageCache.get(bucketName);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.usage;
+  }
+
+  const usage = await measureBucketUsage(supabase, bucketName);
+  usageCache.set(bucketName, { usage, expiresAt: Date.now() + STORAGE_CONFIG.USAGE_CACHE_TTL * 1000 });
+  return usage;
+}
+
+/**
+ * Forget a bucket's cached usage after its contents change
+ */
+export function invalidateBucketUsage(bucketName: string): void {
+  usageCache.delete(bucketName);
+}
+
+/**
+ * Usage report for the given buckets, with each bucket's quota status (and the user's, when filtered by user)
+ */
+export async function getStorageUsage(
+  supabase: any,
+  bucketNames: string[],
+  options: { prefix?: string; userId?: string } = {}
+): Promise<StorageUsageReport> {
+  const buckets: BucketUsage[] = [];
+
+  for (const bucketName of bucketNames) {
+    const usage = await measureBucketUsage(supabase, bucketName, options.prefix, options.userId);
+
+    // Quotas apply to the whole bucket, so a filtered scan needs the unfiltered usage as well
+    let bucketUsage = usage;
+    if (!options.prefix && !options.userId) {
+      usageCache.set(bucketName, { usage, expiresAt: Date.now() + STORAGE_CONFIG.USAGE_CACHE_TTL * 1000 });
+    } else {
+      bucketUsage = await getBucketUsage(supabase, bucketName);
+    }
+    usage.quotas = getQuotaStatuses(bucketName, bucketUsage, options.userId);
+
+    buckets.push(usage);
+  }
+
+  return {
+    buckets,
+    totals: {
+      object_count: buckets.reduce((sum, bucket) => sum + bucket.object_count, 0),
+      total_bytes: buckets.reduce((sum, bucket) => sum + bucket.total_bytes, 0)
+    },
+    prefix: options.prefix || undefined,
+    user_id: options.userId,
+    truncated: buckets.some(bucket => bucket.truncated),
+    generated_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Reject an upload that would take the bucket or the user past a quota, otherwise reserve its
+ * bytes and files until the returned release function is called. Callers release once the upload
+ * has finished, together with invalidateBucketUsage() when anything was stored.
+ * Counts every incoming file as new, so overwrites are charged conservatively.
+ * In jwt mode the user quota is the authenticated user's, whatever user_id names.
+ */
+export async function checkUploadQuota(
+  supabase: any,
+  bucketName: string,
+  userId: string,
+  incomingBytes: number,
+  incomingObjects: number
+): Promise<() => void> {
+  const limits = getQuotaLimits(bucketName);
+  if (Object.values(limits).every(limit => limit === undefined)) {
+    return () => {};
+  }
+
+  const usage = withReservations(bucketName, await getBucketUsage(supabase, bucketName));
+  const quotaUserId = getRequestContext()?.user?.userId ?? userId;
+
+  for (const quota of getQuotaStatuses(bucketName, usage, quotaUserId)) {
+    const owner = quota.scope === 'user' ? `User ${quotaUserId}` : `Bucket ${bucketName}`;
+
+    if (quota.max_bytes !== undefined && quota.used_bytes + incomingBytes > quota.max_bytes) {
+      throw new Error(
+        `${owner} storage quota exceeded: ${quota.used_bytes} of ${quota.max_bytes} bytes used, upload needs ${incomingBytes}`
+      );
+    }
+    if (quota.max_objects !== undefined && quota.used_objects + incomingObjects > quota.max_objects) {
+      throw new Error(
+        `${owner} file quota exceeded: ${quota.used_objects} of ${quota.max_objects} files used, upload adds ${incomingObjects}`
+      );
+    }
+  }
+
+  // A truncated scan undercounts, so the upload cannot be shown to fit
+  if (usage.truncated) {
+    throw new Error(
+      `Cannot enforce storage quota: bucket ${bucketName} holds more than USAGE_SCAN_LIMIT (${STORAGE_CONFIG.USAGE_SCAN_LIMIT}) objects`
+    );
+  }
+
+  const reservation: QuotaReservation = { bucketName, userId: quotaUserId, bytes: incomingBytes, objects: incomingObjects };
+  quotaReservations.add(reservation);
+  return () => {
+    quotaReservations.delete(reservation);
+  };
+}
@@ -18,27 +18,133 @@ export interface SecurityConfig {
   MAX_FILE_SIZE: number; // bytes
   MAX_BATCH_SIZE: number;
   ALLOWED_MIME_TYPES: string[];
+  MAX_IMAGE_PIXELS: number; // width x height of a decoded image or frame
+  MAX_IMAGE_FRAMES: number; // frames in an animated GIF, PNG or WebP
   
   // Security thresholds
   MAX_PROMPT_LENGTH: number;
   SUSPICIOUS_ACTIVITY_THRESHOLD: number;
   HIGH_RISK_SCORE_THRESHOLD: number;
+  HIGH_RISK_ACTION: 'reject' | 'flag'; // what to do with calls at or above the threshold
+  TOOL_RATE_LIMIT_COSTS?: Record<string, number>; // tokens charged per call; tools not listed cost 1
+  AUTO_BLOCK_THRESHOLD: number; // suspicious activity score that blocks the source; 0 disables
+  AUTO_BLOCK_DURATION: number; // seconds
+  BLOCKLIST_PATH: string; // relative to DATA_DIR
+  ENABLE_ADMIN_TOOLS: boolean; // expose block list and security state management tools
+  ADMIN_ROLE: string; // role a remote or jwt-mode caller needs for the admin tools
+  POLICY_FILE?: string; // role-based tool authorization policy (JSON or YAML)
+  CLAMD_SOCKET?: string; // clamd unix socket path or tcp://host:port
+  CLAMD_TIMEOUT: number; // milliseconds per clamd scan
+  SCAN_RULES_FILE?: string; // YARA-style rule file matched against uploads
+  SCAN_FAILURE_ACTION: 'reject' | 'allow'; // what to do with an upload a scanner could not check
   
   // Session and authentication
-  SESSION_TIMEOUT: number; // seconds
-  JWT_EXPIRY: number; // seconds
+  AUTH_MODE: AuthMode;
+  SESSION_TIMEOUT: number; // seconds of inactivity before a jwt-mode session expires
+  JWT_EXPIRY: number; // maximum token age in seconds, counted from its iat claim
 }
 
-export interface RateLimitWindow {
-  count: number;
-  resetTime: number;
+// service: every call uses SUPABASE_SERVICE_KEY; jwt: callers present user tokens and RLS applies
+export type AuthMode = 'service' | 'jwt';
+
+export interface AuthenticatedUser {
+  userId: string; // sub claim
+  role?: string;
+  email?: string;
+  sessionId?: string; // Supabase Auth session_id claim
+  appRole?: string; // app_metadata.role claim, used by the authorization policy
+  expiresAt: string;
+  token: string;
+}
+
+export interface StorageConfig {
+  DATA_DIR: string; // base directory for relative audit log, block list and resumable state paths
+  IMAGES_BUCKET: string;
+  EXPORTS_BUCKET: string;
+  MAX_BATCH_BYTES: number; // total bytes per upload batch
+  SIGNED_URL_EXPIRES_IN: number; // seconds
+  DOWNLOAD_URL_EXPIRES_IN: number; // seconds
+  VALIDATE_CONNECTION: boolean; // probe storage on startup
+  UPLOAD_CONCURRENCY: number;
+  UPLOAD_MAX_RETRIES: number;
+  UPLOAD_RETRY_BASE_DELAY: number; // milliseconds
+  RESUMABLE_ENDPOINT?: string; // defaults to {SUPABASE_URL}/storage/v1/upload/resumable
+  RESUMABLE_CHUNK_SIZE: number; // bytes
+  RESUMABLE_MAX_FILE_SIZE: number; // bytes
+  RESUMABLE_STATE_DIR: string; // relative to DATA_DIR
+  BUCKET_MANIFEST?: string; // JSON or YAML bucket manifest for plan_buckets/apply_buckets
+  UPLOAD_ROOT?: string; // directory local file paths are confined to; required for them over SSE
+  MIME_POLICIES?: Array<{
+    pattern: string;
+    allowedMimeTypes: string[];
+  }>;
+  USER_QUOTA_BYTES?: number; // per user_id folder, across folder prefixes
+  USER_QUOTA_OBJECTS?: number;
+  BUCKET_QUOTA_BYTES?: number;
+  BUCKET_QUOTA_OBJECTS?: number;
+  QUOTAS?: StorageQuota[]; // per-bucket overrides, first matching pattern wins
+  USAGE_CACHE_TTL: number; // seconds a bucket's usage is reused for quota checks
+  USAGE_SCAN_LIMIT: number; // objects scanned per bucket when measuring usage
+  THUMBNAIL_SIZE: number; // pixels, longest side of thumbnail derivatives
+  PREVIEW_WIDTH: number;
+  PREVIEW_HEIGHT: number;
+  IMAGE_QUALITY: number; // 1-100, lossy derivative quality
+  METADATA_POLICY: MetadataPolicy; // metadata removed from JPEG, PNG and WebP uploads
+  QUARANTINE_BUCKET: string; // private bucket infected uploads are moved to
+  URL_FETCH_TIMEOUT: number; // milliseconds per upload_from_url download, redirects included
+  URL_FETCH_MAX_REDIRECTS: number;
+}
+
+export interface StorageQuota {
+  pattern: string;
+  userBytes?: number;
+  userObjects?: number;
+  bucketBytes?: number;
+  bucketObjects?: number;
+}
+
+export type AuditSinkType = 'memory' | 'jsonl' | 'sqlite';
+
+export interface AuditConfig {
+  SINK: AuditSinkType;
+  LOG_PATH?: string; // relative to DATA_DIR; defaults to audit.jsonl or audit.db
+  MAX_ENTRIES: number; // entries kept by the memory and sqlite sinks
+  ROTATE_BYTES: number; // jsonl file size that triggers rotation
+  MAX_FILES: number; // rotated jsonl files kept
+  SUPABASE_TABLE?: string; // also insert every entry into this table when set
+}
+
+export type TransportMode = 'stdio' | 'sse';
+
+export interface TransportConfig {
+  MODE: TransportMode;
+  HOST: string;
+  PORT: number;
+  TRUST_PROXY: boolean; // honor X-Forwarded-For, X-Real-IP and X-User-Id set by a reverse proxy
+  ALLOW_REMOTE_SERVICE_ROLE: boolean; // serve a non-loopback HOST in service auth mode
+  ALLOWED_HOSTS?: string[]; // extra Host/Origin names, e.g. the public name behind a reverse proxy
+  SHUTDOWN_TIMEOUT: number; // milliseconds to wait for in-flight tool calls on shutdown
+}
+
+export interface ServerConfig {
+  security: SecurityConfig;
+  storage: StorageConfig;
+  audit: AuditConfig;
+  transport: TransportConfig;
+  configFile?: string;
+}
+
+export interface TokenBucket {
+  tokens: number;      // tokens currently available
+  updatedAt: number;   // last refill, epoch milliseconds
 }
 
 export interface RateLimitResult {
   allowed: boolean;
-  retryAfter?: number;
-  current?: number;
-  limit?: number;
+  retryAfter?: number; // seconds until the request would be allowed
+  current?: number;    // tokens in use in the limiting bucket
+  limit?: number;      // bucket capacity per RATE_LIMIT_WINDOW
+  scope?: string;      // key of the limiting bucket, e.g. "user:alice"
 }
 
 export interface SecurityContext {
@@ -50,6 +156,7 @@ export interface SecurityContext {
   requestId: string;
   method: string;
   toolName?: string;
+  role?: string; // authorization policy role
   origin?: string;
   referer?: string;
 }
@@ -61,6 +168,17 @@ export interface SecurityValidationResult {
   warnings: string[];
   errors: string[];
   securityContext?: SecurityContext;
+  scans?: ScanResult[]; // upload content scans, in scanner order
+}
+
+export type ScanVerdict = 'clean' | 'infected' | 'error';
+
+export interface ScanResult {
+  scanner: string;
+  verdict: ScanVerdict;
+  signatures: string[]; // clamd signature names or matching rule names
+  error?: string;
+  duration_ms: number;
 }
 
 export interface PromptInjectionResult {
@@ -87,21 +205,67 @@ export interface AuditEntry {
   toolName: string;
   success: boolean;
   inputHash: string;
+  requestId?: string;
   error?: string;
   securityContext?: SecurityContext;
   riskScore?: number;
+  securityValidation?: SecurityValidationResult;
+}
+
+export interface AuditQuery {
+  toolName?: string;
+  success?: boolean;
+  since?: number; // epoch milliseconds, inclusive
+  until?: number; // epoch milliseconds, inclusive
+  requestId?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[]; // newest first
+  total: number;
+  has_more: boolean;
 }
 
 export interface SecurityEvent {
   id: string;
   timestamp: string;
-  eventType: 'validation_error' | 'suspicious_activity' | 'access_denied' | 'rate_limit_exceeded' | 'prompt_injection_detected' | 'request_validated' | 'ip_blocked' | 'security_validation_error';
+  eventType: 'validation_error' | 'suspicious_activity' | 'access_denied' | 'rate_limit_exceeded' | 'prompt_injection_detected' | 'request_validated' | 'ip_blocked' | 'user_blocked' | 'security_validation_error' | 'malware_detected' | 'scan_failed';
   severity: 'low' | 'medium' | 'high' | 'critical';
   securityContext?: SecurityContext;
   details: string;
   data?: Record<string, any>;
 }
 
+export interface RolePolicy {
+  tools: string[]; // tool names, '*' is a wildcard
+  buckets?: string[]; // bucket name patterns; any bucket when omitted
+  paths?: string[]; // storage path prefixes, '{user_id}' is the caller's user id; any path when omitted
+}
+
+export interface AuthorizationPolicy {
+  default_role?: string; // role for callers that do not present one
+  roles: Record<string, RolePolicy>;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  role?: string;
+  reason?: string;
+}
+
+export type BlockType = 'ip' | 'user';
+
+export interface BlockEntry {
+  type: BlockType;
+  value: string;
+  reason: string;
+  source: 'manual' | 'auto';
+  blocked_at: string;
+  expires_at?: string; // permanent when absent
+}
+
 export interface SecurityStatusResponse {
   security_config: SecurityConfig;
   rate_limit_status: {
@@ -177,21 +341,142 @@ export interface SecurityReportResponse {
   };
 }
 
+export interface StorageProbeResult {
+  reachable: boolean;
+  latency_ms: number;
+  bucket_count?: number;
+  error?: string;
+  checked_at: string;
+}
+
+export interface HealthCheckResult {
+  status: 'healthy' | 'unhealthy';
+  storage: StorageProbeResult;
+  configuration: {
+    supabase_url: string;
+    service_key_configured: boolean;
+    config_file?: string;
+    validate_connection_on_startup: boolean;
+    security_features: {
+      rate_limiting: boolean;
+      threat_detection: boolean;
+      audit_logging: boolean;
+      input_validation: boolean;
+      file_security: boolean;
+    };
+    limits: {
+      max_file_size: number;
+      max_files_per_batch: number;
+      max_batch_bytes: number;
+      signed_url_expires_in: number;
+      download_url_expires_in: number;
+    };
+    buckets: {
+      images: string;
+      exports: string;
+    };
+  };
+  server_info: {
+    name: string;
+    version: string;
+    uptime: number;
+    node_version: string;
+  };
+}
+
 // Tool-specific interfaces
 export interface UploadResult {
   original_path: string;
   storage_path: string;
   file_id: string;
   success: boolean;
+  skipped?: boolean;
+  content_hash?: string;      // SHA-256 of the uploaded bytes, stored as object metadata
+  dedup_action?: DedupAction;
+  attempts?: number;
+  duration_ms?: number;
   error?: string;
   security_validation?: SecurityValidationResult;
+  derivatives?: DerivativeResult[];
+  image_metadata?: ImageMetadata;
+  quarantine?: {              // where an infected upload was stored instead
+    bucket_name: string;
+    storage_path: string;
+  };
+}
+
+export type DerivativeFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export type DerivativeKind = 'thumbnail' | 'preview' | 'converted';
+
+// Derivatives generated locally for each uploaded image and stored under processed/
+export interface DerivativeOptions {
+  thumbnail?: boolean; // fit within THUMBNAIL_SIZE x THUMBNAIL_SIZE
+  preview?: boolean; // fit within PREVIEW_WIDTH x PREVIEW_HEIGHT
+  formats?: DerivativeFormat[]; // full-size copies in these formats
+  quality?: number; // defaults to IMAGE_QUALITY
 }
 
+export interface DerivativeResult {
+  kind: DerivativeKind;
+  format: DerivativeFormat;
+  storage_path: string;
+  file_id: string;
+  success: boolean;
+  width?: number;
+  height?: number;
+  size?: number;
+  error?: string;
+}
+
+// keep: store images as uploaded; strip_sensitive: remove location, serial numbers, maker notes, XMP and IPTC;
+// strip_all: remove every EXIF, XMP, IPTC and text block (including orientation)
+export type MetadataPolicy = 'keep' | 'strip_sensitive' | 'strip_all';
+
+export type ImageMetadataType = 'exif' | 'xmp' | 'iptc';
+
+// Read from an uploaded image before stripping; width, height, orientation and captured_at are also
+// stored as object metadata so list_files can return them
+export interface ImageMetadata {
+  width?: number; // pixels as stored, before applying orientation
+  height?: number;
+  orientation?: number; // EXIF orientation, 1 (upright) to 8
+  captured_at?: string; // ISO 8601, with the UTC offset when the camera recorded one
+  has_gps: boolean;
+  found: ImageMetadataType[];
+  policy: MetadataPolicy;
+  stripped: string[]; // what was removed, e.g. gps, serial_numbers, maker_note, xmp, iptc
+}
+
+export type ImageRejectionReason =
+  | 'truncated' // ends before the image data does
+  | 'invalid_structure' // malformed headers, segments or chunks
+  | 'checksum_mismatch' // PNG chunk CRC does not match
+  | 'invalid_dimensions' // zero width or height
+  | 'too_many_pixels' // over MAX_IMAGE_PIXELS
+  | 'too_many_frames' // over MAX_IMAGE_FRAMES
+  | 'trailing_data'; // bytes appended after the end of the image
+
+// Structure of an image that passed validation
+export interface ImageStructure {
+  format: 'jpeg' | 'png' | 'gif' | 'webp';
+  width: number;
+  height: number;
+  frames: number;
+}
+
+export type StoredImageMetadata = Pick<ImageMetadata, 'width' | 'height' | 'orientation' | 'captured_at'>;
+
+export type DedupPolicy = 'skip' | 'overwrite' | 'rename';
+
+export type DedupAction = 'uploaded' | 'skipped' | 'overwritten' | 'renamed';
+
 export interface BatchUploadResult {
   successful: UploadResult[];
   failed: UploadResult[];
   total: number;
   success_count: number;
+  skipped_count?: number;
   error_count: number;
   batch_id: string;
   security_summary: {
@@ -223,24 +508,108 @@ export interface BucketOperationResult {
   };
   operation_id: string;
   timestamp: string;
+  // Destructive operations: first call previews and issues a token, second call with the token executes
+  confirmation_required?: boolean;
+  confirmation_token?: string;
+  confirmation_expires_at?: string;
+  object_count?: number;
+  object_count_truncated?: boolean;
+}
+
+export type DestructiveBucketOperation = 'empty' | 'delete';
+
+export interface BucketInfo {
+  id: string;
+  name: string;
+  public: boolean;
+  file_size_limit?: number;
+  allowed_mime_types?: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BucketUpdateOptions {
+  public?: boolean;
+  fileSizeLimit?: number | null; // null removes the limit
+  allowedMimeTypes?: string[] | null; // null allows every type
+}
+
+// Declarative bucket manifest (BUCKET_MANIFEST or the manifest tool argument).
+// Omitted settings fall back to defaults, then to the built-in bucket defaults.
+export interface BucketManifestEntry {
+  name: string;
+  public?: boolean;
+  file_size_limit?: number | null; // null means no limit
+  allowed_mime_types?: string[] | null; // null allows every type
+  folders?: string[]; // folder skeleton; {user_id} is replaced with the caller's user id
+}
+
+export interface BucketManifest {
+  defaults?: Omit<BucketManifestEntry, 'name'>;
+  buckets: BucketManifestEntry[];
+}
+
+export interface BucketSettingChange {
+  setting: 'public' | 'file_size_limit' | 'allowed_mime_types';
+  current: unknown;
+  desired: unknown;
+}
+
+export interface BucketPlanEntry {
+  bucket_name: string;
+  action: 'create' | 'update' | 'unchanged';
+  changes: BucketSettingChange[];
+  desired: {
+    public: boolean;
+    file_size_limit: number | null;
+    allowed_mime_types: string[] | null;
+  };
+  missing_folders: string[];
+  skipped_folders: string[]; // folders naming {user_id} when no user id is known
+}
+
+export interface BucketPlan {
+  buckets: BucketPlanEntry[];
+  unmanaged_buckets: string[]; // live buckets the manifest does not mention; never changed
+  has_changes: boolean;
+  summary: {
+    create: number;
+    update: number;
+    unchanged: number;
+    folders: number;
+  };
+}
+
+export interface BucketApplyResult extends BucketPlan {
+  applied: Array<{
+    bucket_name: string;
+    action: BucketPlanEntry['action'];
+    success: boolean;
+    folders_created: string[];
+    error?: string;
+  }>;
+  success_count: number;
+  error_count: number;
 }
 
 export interface SetupBucketsResult {
   success: boolean;
   buckets_created: string[];
+  buckets_updated: string[]; // existing buckets whose settings had drifted
+  folders_created: string[];
   message: string;
   security_configuration: {
     images_bucket: {
       public: boolean;
-      file_size_limit: number;
-      allowed_mime_types: string[];
+      file_size_limit: number | null;
+      allowed_mime_types: string[] | null;
       audit_logging_enabled: boolean;
       threat_detection_enabled: boolean;
     };
     exports_bucket: {
       public: boolean;
-      file_size_limit: number;
-      allowed_mime_types: string[];
+      file_size_limit: number | null;
+      allowed_mime_types: string[] | null;
       audit_logging_enabled: boolean;
       threat_detection_enabled: boolean;
     };
@@ -255,10 +624,113 @@ export interface FileListResult {
     mime_type: string;
     last_modified: string;
     metadata?: Record<string, any>;
+    image_metadata?: StoredImageMetadata; // only with include_image_metadata
   }>;
   total_count: number;
   total_size: number;
-  folder_structure?: Record<string, any>;
+  folder_structure?: FolderNode;
+  pagination?: {
+    offset: number;
+    limit: number;
+    returned: number;
+    has_more: boolean;
+    next_cursor?: string;
+  };
+  truncated?: boolean;
+}
+
+export interface FolderNode {
+  path: string;
+  file_count: number;
+  total_size: number;
+  folders: Record<string, FolderNode>;
+}
+
+export interface UsageTotals {
+  object_count: number;
+  total_bytes: number;
+}
+
+export interface QuotaStatus {
+  scope: 'user' | 'bucket';
+  max_bytes?: number;
+  max_objects?: number;
+  used_bytes: number;
+  used_objects: number;
+  remaining_bytes?: number;
+  remaining_objects?: number;
+  exceeded: boolean;
+}
+
+export interface BucketUsage extends UsageTotals {
+  bucket_name: string;
+  by_prefix: Record<string, UsageTotals>; // first folder level below the scanned prefix
+  by_user: Record<string, UsageTotals>; // user_id segment of {folder_prefix}/{user_id}/{batch_id}/ paths
+  by_mime_type: Record<string, UsageTotals>;
+  truncated: boolean; // USAGE_SCAN_LIMIT reached; counts are lower bounds
+  quotas: QuotaStatus[];
+}
+
+export interface StorageUsageReport {
+  buckets: BucketUsage[];
+  totals: UsageTotals;
+  prefix?: string;
+  user_id?: string;
+  truncated: boolean;
+  generated_at: string;
+}
+
+export type ConflictPolicy = 'fail' | 'skip' | 'overwrite';
+
+export interface BatchTransferResult {
+  operation: 'move' | 'copy';
+  source_bucket: string;
+  destination_bucket: string;
+  on_conflict: ConflictPolicy;
+  successful: UploadResult[];
+  failed: UploadResult[];
+  total: number;
+  success_count: number;
+  skipped_count: number;
+  error_count: number;
+}
+
+export type ResumableUploadStatus = 'uploading' | 'completed' | 'failed' | 'interrupted' | 'expired';
+
+export interface ResumableUploadState {
+  upload_id: string;
+  status: ResumableUploadStatus;
+  file_path: string;
+  bucket_name: string;
+  storage_path: string;
+  mime_type: string;
+  upload_url: string;
+  file_size: number;
+  file_mtime: number;
+  bytes_uploaded: number;
+  chunk_size: number;
+  progress: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+  error?: string;
+}
+
+export interface DeleteFilesResult {
+  success: boolean;
+  dry_run: boolean;
+  bucket_name: string;
+  prefix?: string;
+  deleted: string[];
+  would_delete?: string[];
+  failed: Array<{
+    file_path: string;
+    error: string;
+  }>;
+  total_matched: number;
+  deleted_count: number;
+  failed_count: number;
+  max_files: number;
 }
 
 export interface SignedUrlResult {
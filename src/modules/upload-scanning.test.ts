@@ -0,0 +1,177 @@
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ClamdScanner, createUploadScanners, scanUpload, setUploadScanners } from './upload-scanning.js';
+import { DEFAULT_SECURITY_CONFIG } from './config.js';
+
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Stub clamd: decodes zINSTREAM chunks and answers like the daemon would.
+ * Streams containing EICAR are reported infected, "HANG" never gets a reply and "TOOBIG" is refused.
+ */
+class StubClamd {
+  commands: string[] = [];
+  chunkSizes: number[][] = [];
+  private server = net.createServer(socket => this.handle(socket));
+
+  listenTcp(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', () => resolve()));
+  }
+
+  listenPath(socketPath: string): Promise<void> {
+    return new Promise(resolve => this.server.listen(socketPath, () => resolve()));
+  }
+
+  get port(): number {
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket): void {
+    let pending = Buffer.alloc(0);
+    let command: string | undefined;
+    const data: Buffer[] = [];
+    const sizes: number[] = [];
+
+    socket.on('error', () => {});
+    socket.on('data', chunk => {
+      pending = Buffer.concat([pending, chunk]);
+
+      if (command === undefined) {
+        const end = pending.indexOf(0);
+        if (end === -1) return;
+        command = pending.subarray(0, end).toString();
+        pending = pending.subarray(end + 1);
+        this.commands.push(command);
+      }
+
+      while (pending.length >= 4) {
+        const length = pending.readUInt32BE(0);
+        if (pending.length < 4 + length) return;
+        const body = pending.subarray(4, 4 + length);
+        pending = pending.subarray(4 + length);
+
+        if (length > 0) {
+          sizes.push(length);
+          data.push(body);
+          continue;
+        }
+
+        this.chunkSizes.push(sizes);
+        const stream = Buffer.concat(data).toString('latin1');
+        if (stream.includes('HANG')) return;
+        if (stream.includes('TOOBIG')) {
+          socket.end('INSTREAM size limit exceeded. ERROR\0');
+        } else if (stream.includes('EICAR-STANDARD-ANTIVIRUS-TEST-FILE')) {
+          socket.end('stream: Eicar-Test-Signature FOUND\0');
+        } else {
+          socket.end('stream: OK\0');
+        }
+      }
+    });
+  }
+}
+
+describe('ClamdScanner', () => {
+  const clamd = new StubClamd();
+  let workDir: string;
+  let socketPath: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-scanning-'));
+    socketPath = path.join(workDir, 'clamd.sock');
+    await clamd.listenPath(socketPath);
+  });
+
+  afterAll(async () => {
+    await clamd.close();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('streams the file with INSTREAM in 64KB chunks and reports a clean file', async () => {
+    const scanner = new ClamdScanner(socketPath, 5000);
+    const buffer = Buffer.alloc(150 * 1024, 'a');
+
+    await expect(scanner.scan(buffer)).resolves.toEqual([]);
+    expect(clamd.commands.at(-1)).toBe('zINSTREAM');
+    expect(clamd.chunkSizes.at(-1)).toEqual([65536, 65536, 22528]);
+  });
+
+  it('returns the signature clamd found', async () => {
+    const scanner = new ClamdScanner(socketPath, 5000);
+    await expect(scanner.scan(Buffer.from(EICAR))).resolves.toEqual(['Eicar-Test-Signature']);
+  });
+
+  it('throws when clamd replies with an error', async () => {
+    const scanner = new ClamdScanner(socketPath, 5000);
+    await expect(scanner.scan(Buffer.from('TOOBIG'))).rejects.toThrow('clamd replied "INSTREAM size limit exceeded. ERROR"');
+  });
+
+  it('throws when clamd does not reply in time', async () => {
+    const scanner = new ClamdScanner(socketPath, 200);
+    await expect(scanner.scan(Buffer.from('HANG'))).rejects.toThrow('clamd did not reply within 200ms');
+  });
+
+  it('connects over TCP with a tcp:// address', async () => {
+    const tcpClamd = new StubClamd();
+    await tcpClamd.listenTcp();
+    try {
+      const scanner = new ClamdScanner(`tcp://127.0.0.1:${tcpClamd.port}`, 5000);
+      await expect(scanner.scan(Buffer.from(EICAR))).resolves.toEqual(['Eicar-Test-Signature']);
+    } finally {
+      await tcpClamd.close();
+    }
+  });
+
+  it('throws when clamd is unreachable', async () => {
+    const scanner = new ClamdScanner(path.join(workDir, 'missing.sock'), 5000);
+    await expect(scanner.scan(Buffer.from('data'))).rejects.toThrow('Cannot reach clamd');
+  });
+});
+
+describe('scanUpload', () => {
+  const file = { filename: 'test.txt', mimeType: 'text/plain' };
+
+  afterEach(() => {
+    setUploadScanners([]);
+  });
+
+  it('runs every scanner and turns failures into error verdicts', async () => {
+    setUploadScanners([
+      { name: 'clean', scan: async () => [] },
+      { name: 'infected', scan: async () => ['Test.Signature'] },
+      { name: 'broken', scan: async () => { throw new Error('scanner offline'); } }
+    ]);
+
+    const results = await scanUpload(Buffer.from('data'), file);
+    expect(results.map(({ scanner, verdict, signatures, error }) => ({ scanner, verdict, signatures, error }))).toEqual([
+      { scanner: 'clean', verdict: 'clean', signatures: [], error: undefined },
+      { scanner: 'infected', verdict: 'infected', signatures: ['Test.Signature'], error: undefined },
+      { scanner: 'broken', verdict: 'error', signatures: [], error: 'scanner offline' }
+    ]);
+  });
+
+  it('builds the configured scanners, clamd first', async () => {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scan-rules-'));
+    try {
+      const rulesFile = path.join(workDir, 'rules.yar');
+      await fs.writeFile(rulesFile, 'rule Eicar { strings: $a = "EICAR-STANDARD" condition: $a }');
+
+      const scanners = await createUploadScanners({
+        ...DEFAULT_SECURITY_CONFIG,
+        CLAMD_SOCKET: path.join(workDir, 'clamd.sock'),
+        SCAN_RULES_FILE: rulesFile
+      });
+      expect(scanners.map(scanner => scanner.name)).toEqual(['clamd', 'rules']);
+      await expect(scanners[1].scan(Buffer.from(EICAR), file)).resolves.toEqual(['Eicar']);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  });
+});
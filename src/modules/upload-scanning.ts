@@ -0,0 +1,245 @@
+// Upload Scanning Module for Supabase Storage MCP
+// Pluggable content scanners run on upload bytes: a clamd daemon and a YARA-style rule file, plus quarantine storage
+
+import fs from 'fs/promises';
+import net from 'net';
+import { ScanResult, SecurityConfig } from './types.js';
+import { STORAGE_CONFIG } from './config.js';
+import { ScanRule, matchScanRules, parseScanRules } from './scan-rules.js';
+import { createValidationError, getErrorMessage } from '../utils/error-handling.js';
+
+/**
+ * A content scanner. scan() resolves to the signatures found (empty when clean) and
+ * throws when the file could not be checked.
+ */
+export interface UploadScanner {
+  readonly name: string;
+  scan(buffer: Buffer, file: { filename: string; mimeType: string }): Promise<string[]>;
+}
+
+// INSTREAM data is sent in length-prefixed chunks
+const CLAMD_CHUNK_SIZE = 64 * 1024;
+
+const CLAMD_DEFAULT_PORT = 3310;
+
+function getClamdAddress(address: string): net.NetConnectOpts {
+  if (!address.startsWith('tcp://')) {
+    return { path: address };
+  }
+  const url = new URL(address);
+  return { host: url.hostname.replace(/^\[|\]$/g, ''), port: Number(url.port) || CLAMD_DEFAULT_PORT };
+}
+
+/**
+ * Streams each file to a ClamAV daemon with the INSTREAM command. clamd rejects streams over its
+ * StreamMaxLength (25MB by default), which surfaces as a scan error.
+ */
+export class ClamdScanner implements UploadScanner {
+  readonly name = 'clamd';
+
+  constructor(private address: string, private timeoutMs: number) {}
+
+  async scan(buffer: Buffer): Promise<string[]> {
+    const reply = await this.instream(buffer);
+
+    // Replies are "stream: OK", "stream: <signature> FOUND" or "<message> ERROR"
+    const found = reply.match(/^stream: (.+) FOUND$/);
+    if (found) {
+      return [found[1]];
+    }
+    if (reply !== 'stream: OK') {
+      throw new Error(`clamd replied "${reply}"`);
+    }
+    return [];
+  }
+
+  private instream(buffer: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(getClamdAddress(this.address));
+      let reply = '';
+      let settled = false;
+
+      // The z-prefixed command makes clamd terminate its reply with a NUL
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        if (reply) {
+          resolve(reply.split('\0')[0].trim());
+        } else {
+          reject(error || new Error('clamd closed the connection without replying'));
+        }
+      };
+
+      socket.setTimeout(this.timeoutMs, () => finish(new Error(`clamd did not reply within ${this.timeoutMs}ms`)));
+      socket.on('data', chunk => {
+        reply += chunk.toString('utf8');
+        if (reply.includes('\0')) finish();
+      });
+      socket.on('error', error => finish(new Error(`Cannot reach clamd at ${this.address}: ${error.message}`)));
+      socket.on('close', () => finish());
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < buffer.length; offset += CLAMD_CHUNK_SIZE) {
+          const chunk = buffer.subarray(offset, offset + CLAMD_CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        // A zero-length chunk ends the stream
+        socket.write(Buffer.alloc(4));
+      });
+    });
+  }
+}
+
+/**
+ * Matches files against the rules of a YARA-style rule file, see scan-rules.ts for the supported subset
+ */
+export class RuleFileScanner implements UploadScanner {
+  readonly name = 'rules';
+
+  constructor(private rules: ScanRule[]) {}
+
+  static async load(rulesFile: string): Promise<RuleFileScanner> {
+    let source: string;
+    try {
+      source = await fs.readFile(rulesFile, 'utf8');
+    } catch (error) {
+      throw createValidationError(
+        `Cannot read scan rules ${rulesFile}: ${getErrorMessage(error)}`,
+        'SCAN_RULES_FILE',
+        rulesFile,
+        'readable',
+        'scan rules'
+      );
+    }
+    return new RuleFileScanner(parseScanRules(source, rulesFile));
+  }
+
+  get ruleCount(): number {
+    return this.rules.length;
+  }
+
+  async scan(buffer: Buffer): Promise<string[]> {
+    return matchScanRules(this.rules, buffer);
+  }
+}
+
+// Uploads are not scanned until initializeUploadScanners() or setUploadScanners() installs scanners
+let activeScanners: UploadScanner[] = [];
+
+// Quarantine buckets already checked to exist and be private
+const verifiedQuarantineBuckets = new Set<string>();
+
+/**
+ * Create the scanners the security configuration enables, clamd first
+ */
+export async function createUploadScanners(config: SecurityConfig): Promise<UploadScanner[]> {
+  const scanners: UploadScanner[] = [];
+  if (config.CLAMD_SOCKET) {
+    scanners.push(new ClamdScanner(config.CLAMD_SOCKET, config.CLAMD_TIMEOUT));
+  }
+  if (config.SCAN_RULES_FILE) {
+    scanners.push(await RuleFileScanner.load(config.SCAN_RULES_FILE));
+  }
+  return scanners;
+}
+
+export async function initializeUploadScanners(config: SecurityConfig): Promise<UploadScanner[]> {
+  activeScanners = await createUploadScanners(config);
+  return activeScanners;
+}
+
+/**
+ * Replace the active scanners, e.g. with a stub
+ */
+export function setUploadScanners(scanners: UploadScanner[]): void {
+  activeScanners = scanners;
+}
+
+export function getUploadScanners(): UploadScanner[] {
+  return activeScanners;
+}
+
+/**
+ * Run every active scanner over a file. A scanner that throws yields an 'error' result
+ * rather than failing the others.
+ */
+export async function scanUpload(buffer: Buffer, file: { filename: string; mimeType: string }): Promise<ScanResult[]> {
+  const results: ScanResult[] = [];
+
+  for (const scanner of activeScanners) {
+    const startTime = Date.now();
+    try {
+      const signatures = await scanner.scan(buffer, file);
+      results.push({
+        scanner: scanner.name,
+        verdict: signatures.length > 0 ? 'infected' : 'clean',
+        signatures,
+        duration_ms: Date.now() - startTime
+      });
+    } catch (error) {
+      results.push({
+        scanner: scanner.name,
+        verdict: 'error',
+        signatures: [],
+        error: getErrorMessage(error),
+        duration_ms: Date.now() - startTime
+      });
+    }
+  }
+
+  return results;
+}
+
+async function ensureQuarantineBucket(supabase: any, bucketName: string): Promise<void> {
+  if (verifiedQuarantineBuckets.has(bucketName)) {
+    return;
+  }
+
+  const { data: bucket } = await supabase.storage.getBucket(bucketName);
+  if (!bucket) {
+    const { error } = await supabase.storage.createBucket(bucketName, { public: false });
+    if (error && !/already exists/i.test(error.message)) {
+      throw new Error(`Cannot create quarantine bucket ${bucketName}: ${error.message}`);
+    }
+  } else if (bucket.public) {
+    throw new Error(`Quarantine bucket ${bucketName} is public`);
+  }
+
+  verifiedQuarantineBuckets.add(bucketName);
+}
+
+/**
+ * Store an infected file in QUARANTINE_BUCKET under {source_bucket}/{storage_path}. The bucket is
+ * created private when missing, and a public one is refused.
+ */
+export async function quarantineUpload(
+  supabase: any,
+  sourceBucket: string,
+  storagePath: string,
+  buffer: Buffer,
+  metadata: Record<string, string>
+): Promise<{ bucket_name: string; storage_path: string }> {
+  const bucketName = STORAGE_CONFIG.QUARANTINE_BUCKET;
+  await ensureQuarantineBucket(supabase, bucketName);
+
+  const quarantinePath = `${sourceBucket}/${storagePath}`;
+  const { error } = await supabase.storage
+    .from(bucketName)
+    .upload(quarantinePath, buffer, {
+      // Never served back with the type the uploader claimed
+      contentType: 'application/octet-stream',
+      upsert: true,
+      metadata: { sourceBucket, ...metadata }
+    });
+
+  if (error) {
+    throw new Error(`Failed to quarantine ${storagePath}: ${error.message}`);
+  }
+
+  return { bucket_name: bucketName, storage_path: quarantinePath };
+}
@@ -0,0 +1,23 @@
+// Checksum utilities for Supabase Storage MCP
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 (ISO 3309, as used by PNG and ZIP) over one or more buffers.
+ * zlib.crc32 would do, but it needs Node.js 20.15.
+ */
+export function crc32(...parts: Uint8Array[]): number {
+  let crc = 0xFFFFFFFF;
+  for (const part of parts) {
+    for (const byte of part) {
+      crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
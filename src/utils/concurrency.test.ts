@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency, sleep } from './concurrency.js';
+
+describe('mapWithConcurrency', () => {
+  it('keeps input order and never exceeds the limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 5, 20, 1, 10], 2, async (delay, index) => {
+      peak = Math.max(peak, ++inFlight);
+      await sleep(delay);
+      inFlight--;
+      return `${index}:${delay}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:5', '2:20', '3:1', '4:10']);
+    expect(peak).toBe(2);
+  });
+
+  it('handles empty input and limits below one', async () => {
+    expect(await mapWithConcurrency([], 3, async item => item)).toEqual([]);
+    expect(await mapWithConcurrency([1, 2], 0, async item => item * 2)).toEqual([2, 4]);
+  });
+});
@@ -0,0 +1,38 @@
+// Request context for Supabase Storage MCP
+// Carries per-request data (request id, tool name, HTTP headers) through async calls without threading parameters
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SecurityValidationResult, AuthenticatedUser } from '../modules/types.js';
+
+export interface RequestContext {
+  requestId: string;
+  toolName: string;
+  securityValidation?: SecurityValidationResult; // set by the security middleware before dispatch
+  user?: AuthenticatedUser; // caller verified in jwt auth mode
+  storageClient?: SupabaseClient; // Supabase client acting as that user
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+// Headers of the HTTP request that delivered the current MCP message; absent on stdio
+const requestHeadersStorage = new AsyncLocalStorage<Record<string, string>>();
+
+/**
+ * Run a function with the given request context available to everything it calls
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContextStorage.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return requestContextStorage.getStore();
+}
+
+export function runWithRequestHeaders<T>(headers: Record<string, string>, fn: () => T): T {
+  return requestHeadersStorage.run(headers, fn);
+}
+
+export function getRequestHeaders(): Record<string, string> | undefined {
+  return requestHeadersStorage.getStore();
+}
@@ -0,0 +1,248 @@
+// In-memory stand-in for the Supabase Storage client used by the module tests.
+// Covers the calls the modules make and answers with the same { data, error } shapes.
+
+export interface MemoryObject {
+  id: string;
+  data: Buffer;
+  contentType: string;
+  metadata?: Record<string, string | number>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemoryBucket {
+  id: string;
+  name: string;
+  public: boolean;
+  file_size_limit: number | null;
+  allowed_mime_types: string[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+type BucketOptions = { public?: boolean; fileSizeLimit?: number | null; allowedMimeTypes?: string[] | null };
+
+type Operation = 'listBuckets' | 'getBucket' | 'createBucket' | 'updateBucket' | 'emptyBucket' | 'deleteBucket' | 'list' | 'remove' | 'exists' | 'info' | 'move' | 'copy' | 'upload';
+
+export class MemoryStorage {
+  buckets = new Map<string, Map<string, MemoryObject>>();
+  bucketSettings = new Map<string, MemoryBucket>();
+  calls: string[] = [];
+  // Return an error message to make a call fail
+  failWith?: (operation: Operation, bucket: string, path: string) => string | undefined;
+  private nextId = 1;
+
+  readonly storage = {
+    from: (bucket: string) => this.bucketApi(bucket),
+
+    listBuckets: async () => {
+      const failure = this.fail('listBuckets', '', '');
+      if (failure) return failure;
+      const names = new Set([...this.buckets.keys(), ...this.bucketSettings.keys()]);
+      return { data: [...names].sort().map(name => this.settings(name)), error: null };
+    },
+
+    getBucket: async (name: string) => {
+      const failure = this.fail('getBucket', name, '');
+      if (failure) return failure;
+      return this.buckets.has(name) || this.bucketSettings.has(name)
+        ? { data: this.settings(name), error: null }
+        : { data: null, error: { message: 'Bucket not found' } };
+    },
+
+    createBucket: async (name: string, options: BucketOptions = {}) => {
+      const failure = this.fail('createBucket', name, '');
+      if (failure) return failure;
+      if (this.bucketSettings.has(name)) return { data: null, error: { message: 'The resource already exists' } };
+
+      this.bucket(name);
+      this.applyBucketOptions(this.settings(name), options);
+      return { data: { name }, error: null };
+    },
+
+    updateBucket: async (name: string, options: BucketOptions) => {
+      const failure = this.fail('updateBucket', name, '');
+      if (failure) return failure;
+      if (!this.bucketSettings.has(name)) return { data: null, error: { message: 'Bucket not found' } };
+
+      this.applyBucketOptions(this.settings(name), options);
+      return { data: { message: 'Successfully updated' }, error: null };
+    },
+
+    emptyBucket: async (name: string) => {
+      const failure = this.fail('emptyBucket', name, '');
+      if (failure) return failure;
+      this.bucket(name).clear();
+      return { data: { message: 'Successfully emptied' }, error: null };
+    },
+
+    deleteBucket: async (name: string) => {
+      const failure = this.fail('deleteBucket', name, '');
+      if (failure) return failure;
+      if (this.bucket(name).size > 0) return { data: null, error: { message: 'The bucket you tried to delete is not empty' } };
+
+      this.buckets.delete(name);
+      this.bucketSettings.delete(name);
+      return { data: { message: 'Successfully deleted' }, error: null };
+    }
+  };
+
+  put(bucket: string, path: string, data: Buffer | string = 'data', contentType = 'application/octet-stream'): MemoryObject {
+    const now = new Date(Date.UTC(2025, 0, 1, 0, 0, this.nextId)).toISOString();
+    const object = { id: `object-${this.nextId++}`, data: Buffer.from(data), contentType, createdAt: now, updatedAt: now };
+    this.bucket(bucket).set(path, object);
+    return object;
+  }
+
+  get(bucket: string, path: string): MemoryObject | undefined {
+    return this.buckets.get(bucket)?.get(path);
+  }
+
+  paths(bucket: string): string[] {
+    return [...this.bucket(bucket).keys()].sort();
+  }
+
+  private bucket(name: string): Map<string, MemoryObject> {
+    if (!this.buckets.has(name)) {
+      this.buckets.set(name, new Map());
+    }
+    return this.buckets.get(name)!;
+  }
+
+  // Bucket settings, created with defaults the first time a bucket is seen
+  private settings(name: string): MemoryBucket {
+    if (!this.bucketSettings.has(name)) {
+      const now = new Date(Date.UTC(2025, 0, 1)).toISOString();
+      this.bucketSettings.set(name, {
+        id: name,
+        name,
+        public: false,
+        file_size_limit: null,
+        allowed_mime_types: null,
+        created_at: now,
+        updated_at: now
+      });
+    }
+    return this.bucketSettings.get(name)!;
+  }
+
+  private applyBucketOptions(bucket: MemoryBucket, options: BucketOptions): void {
+    if (options.public !== undefined) bucket.public = options.public;
+    if (options.fileSizeLimit !== undefined) bucket.file_size_limit = options.fileSizeLimit;
+    if (options.allowedMimeTypes !== undefined) bucket.allowed_mime_types = options.allowedMimeTypes;
+  }
+
+  private fail(operation: Operation, bucket: string, path: string) {
+    this.calls.push(`${operation} ${bucket}/${path}`);
+    const message = this.failWith?.(operation, bucket, path);
+    return message ? { data: null, error: { message } } : undefined;
+  }
+
+  private async transfer(operation: 'move' | 'copy', bucket: string, from: string, destinationBucket: string, to: string) {
+    const failure = this.fail(operation, bucket, `${from} -> ${destinationBucket}/${to}`);
+    if (failure) return failure;
+
+    const object = this.bucket(bucket).get(from);
+    if (!object) return { data: null, error: { message: 'Object not found' } };
+    if (this.bucket(destinationBucket).has(to)) return { data: null, error: { message: 'The resource already exists' } };
+
+    if (operation === 'move') {
+      this.bucket(bucket).delete(from);
+      this.bucket(destinationBucket).set(to, object);
+    } else {
+      this.bucket(destinationBucket).set(to, { ...object, id: `object-${this.nextId++}` });
+    }
+    return { data: operation === 'move' ? { message: 'Successfully moved' } : { path: to }, error: null };
+  }
+
+  private bucketApi(bucket: string) {
+    return {
+      list: async (folder = '', options: { limit?: number; offset?: number; search?: string } = {}) => {
+        const failure = this.fail('list', bucket, folder);
+        if (failure) return failure;
+
+        const prefix = folder ? `${folder}/` : '';
+        const entries = new Map<string, any>();
+        for (const [path, object] of this.bucket(bucket)) {
+          if (!path.startsWith(prefix)) continue;
+          const [name, ...rest] = path.slice(prefix.length).split('/');
+          if (options.search && !name.toLowerCase().startsWith(options.search.toLowerCase())) continue;
+
+          entries.set(name, rest.length > 0
+            // Folders come back without an id or metadata
+            ? { name, id: null, created_at: null, updated_at: null, metadata: null }
+            : {
+              name,
+              id: object.id,
+              created_at: object.createdAt,
+              updated_at: object.updatedAt,
+              metadata: { size: object.data.length, mimetype: object.contentType }
+            });
+        }
+
+        const sorted = [...entries.values()].sort((a, b) => a.name.localeCompare(b.name));
+        const offset = options.offset ?? 0;
+        return { data: sorted.slice(offset, offset + (options.limit ?? 100)), error: null };
+      },
+
+      remove: async (paths: string[]) => {
+        const failure = this.fail('remove', bucket, paths.join(','));
+        if (failure) return failure;
+
+        const removed = paths.filter(path => this.bucket(bucket).delete(path));
+        return { data: removed.map(name => ({ name })), error: null };
+      },
+
+      // Like supabase-js, a missing object is reported as false together with the 404 error
+      exists: async (path: string) => {
+        const failure = this.fail('exists', bucket, path);
+        if (failure) return failure;
+        return this.bucket(bucket).has(path)
+          ? { data: true, error: null }
+          : { data: false, error: { message: 'Object not found' } };
+      },
+
+      info: async (path: string) => {
+        const failure = this.fail('info', bucket, path);
+        if (failure) return failure;
+
+        const object = this.bucket(bucket).get(path);
+        if (!object) return { data: null, error: { message: 'Object not found' } };
+        return {
+          data: {
+            id: object.id,
+            name: path,
+            size: object.data.length,
+            contentType: object.contentType,
+            metadata: object.metadata,
+            userMetadata: object.metadata,
+            createdAt: object.createdAt
+          },
+          error: null
+        };
+      },
+
+      upload: async (
+        path: string,
+        body: Buffer,
+        options: { contentType?: string; upsert?: boolean; metadata?: Record<string, string> } = {}
+      ) => {
+        const failure = this.fail('upload', bucket, path);
+        if (failure) return failure;
+        if (this.bucket(bucket).has(path) && !options.upsert) {
+          return { data: null, error: { message: 'The resource already exists' } };
+        }
+
+        const object = this.put(bucket, path, body, options.contentType);
+        object.metadata = options.metadata;
+        return { data: { id: object.id, path, fullPath: `${bucket}/${path}` }, error: null };
+      },
+
+      move: (from: string, to: string, options: { destinationBucket?: string } = {}) =>
+        this.transfer('move', bucket, from, options.destinationBucket || bucket, to),
+
+      copy: (from: string, to: string, options: { destinationBucket?: string } = {}) =>
+        this.transfer('copy', bucket, from, options.destinationBucket || bucket, to)
+    };
+  }
+}